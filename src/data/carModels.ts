@@ -1,3 +1,6 @@
+import { carRegionPairs, carRegions } from './carRegions';
+import type { CarRegion, CarRegionPair } from './carRegions';
+
 export interface CarModel {
   id: string;
   name: string;
@@ -5,6 +8,8 @@ export interface CarModel {
   exportFileName: string;
   width?: number;
   height?: number;
+  regions: CarRegion[];  // Named body panels of the template
+  regionPairs?: CarRegionPair[];  // Left and right panels that don't pair up by id alone
 }
 
 export const carModels: CarModel[] = [
@@ -13,54 +18,64 @@ export const carModels: CarModel[] = [
     name: 'Cybertruck',
     folderName: 'cybertruck',
     exportFileName: 'tesla_cybertruck_wrap.png',
+    regions: carRegions.cybertruck,
+    regionPairs: carRegionPairs.cybertruck,
   },
   {
     id: 'model3',
     name: 'Model 3',
     folderName: 'model3',
     exportFileName: 'tesla_model_3_wrap.png',
+    regions: carRegions.model3,
   },
   {
     id: 'model3-2024-base',
     name: 'Model 3 (2024+) Standard & Premium',
     folderName: 'model3-2024-base',
     exportFileName: 'tesla_model_3_2024_wrap.png',
+    regions: carRegions['model3-2024-base'],
   },
   {
     id: 'model3-2024-performance',
     name: 'Model 3 (2024+) Performance',
     folderName: 'model3-2024-performance',
     exportFileName: 'tesla_model_3_2024_performance_wrap.png',
+    regions: carRegions['model3-2024-performance'],
   },
   {
     id: 'modely',
     name: 'Model Y',
     folderName: 'modely',
     exportFileName: 'tesla_model_y_wrap.png',
+    regions: carRegions.modely,
   },
   {
     id: 'modely-2025-base',
     name: 'Model Y (2025+) Standard',
     folderName: 'modely-2025-base',
     exportFileName: 'tesla_model_y_2025_standard_wrap.png',
+    regions: carRegions['modely-2025-base'],
   },
   {
     id: 'modely-2025-premium',
     name: 'Model Y (2025+) Premium',
     folderName: 'modely-2025-premium',
     exportFileName: 'tesla_model_y_2025_premium_wrap.png',
+    regions: carRegions['modely-2025-premium'],
   },
   {
     id: 'modely-2025-performance',
     name: 'Model Y (2025+) Performance',
     folderName: 'modely-2025-performance',
     exportFileName: 'tesla_model_y_2025_performance_wrap.png',
+    regions: carRegions['modely-2025-performance'],
   },
   {
     id: 'modely-l',
     name: 'Model Y L',
     folderName: 'modely-l',
     exportFileName: 'tesla_model_y_l_wrap.png',
+    regions: carRegions['modely-l'],
   },
 ];
 
@@ -0,0 +1,243 @@
+// Named body panels of each wrap template. A panel is the light area of the template around
+// its seed point, which sits well inside the panel, in canvas coordinates (0-1024 both ways,
+// like every template once it's stretched over the canvas). Templates are drawn from above,
+// so left and right are the car's own sides.
+export interface CarRegion {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+}
+
+// Left and right panels spelled out for a template, for pairs whose ids don't match up or that
+// mirroring across the panels' centres doesn't line up. The transform maps the first panel onto
+// the second as a canvas matrix ([a, b, c, d, e, f], like Konva's); without one it's worked out
+// from the panels themselves.
+export interface CarRegionPair {
+  regions: [string, string];
+  transform?: [number, number, number, number, number, number];
+}
+
+// Front at the top
+const model3Regions: CarRegion[] = [
+  { id: 'front-bumper', name: 'Front bumper', x: 526, y: 97 },
+  { id: 'hood', name: 'Hood', x: 499, y: 255 },
+  { id: 'left-roof-pillar', name: 'Left roof pillar', x: 290, y: 203 },
+  { id: 'right-roof-pillar', name: 'Right roof pillar', x: 736, y: 204 },
+  { id: 'left-front-fender', name: 'Left front fender', x: 187, y: 321 },
+  { id: 'right-front-fender', name: 'Right front fender', x: 840, y: 323 },
+  { id: 'left-mirror', name: 'Left mirror', x: 278, y: 448 },
+  { id: 'right-mirror', name: 'Right mirror', x: 738, y: 447 },
+  { id: 'left-front-door', name: 'Left front door', x: 143, y: 509 },
+  { id: 'right-front-door', name: 'Right front door', x: 886, y: 522 },
+  { id: 'left-rear-door', name: 'Left rear door', x: 140, y: 688 },
+  { id: 'right-rear-door', name: 'Right rear door', x: 889, y: 689 },
+  { id: 'trunk', name: 'Trunk', x: 511, y: 822 },
+  { id: 'left-rear-quarter', name: 'Left rear quarter panel', x: 169, y: 906 },
+  { id: 'right-rear-quarter', name: 'Right rear quarter panel', x: 865, y: 914 },
+  { id: 'rear-bumper', name: 'Rear bumper', x: 651, y: 945 },
+];
+
+const model3HighlandRegions: CarRegion[] = [
+  { id: 'front-bumper', name: 'Front bumper', x: 618, y: 83 },
+  { id: 'hood', name: 'Hood', x: 496, y: 245 },
+  { id: 'left-front-fender', name: 'Left front fender', x: 153, y: 248 },
+  { id: 'right-front-fender', name: 'Right front fender', x: 877, y: 246 },
+  { id: 'left-mirror', name: 'Left mirror', x: 351, y: 439 },
+  { id: 'right-mirror', name: 'Right mirror', x: 670, y: 439 },
+  { id: 'left-front-door', name: 'Left front door', x: 162, y: 479 },
+  { id: 'right-front-door', name: 'Right front door', x: 867, y: 445 },
+  { id: 'left-rear-door', name: 'Left rear door', x: 161, y: 637 },
+  { id: 'right-rear-door', name: 'Right rear door', x: 867, y: 637 },
+  { id: 'trunk', name: 'Trunk', x: 555, y: 723 },
+  { id: 'left-roof-pillar', name: 'Left roof pillar', x: 270, y: 788 },
+  { id: 'right-roof-pillar', name: 'Right roof pillar', x: 760, y: 807 },
+  { id: 'trunk-garnish', name: 'Trunk garnish', x: 471, y: 812 },
+  { id: 'left-rear-quarter', name: 'Left rear quarter panel', x: 190, y: 870 },
+  { id: 'right-rear-quarter', name: 'Right rear quarter panel', x: 843, y: 879 },
+  { id: 'rear-bumper', name: 'Rear bumper', x: 326, y: 940 },
+];
+
+const model3HighlandPerformanceRegions: CarRegion[] = [
+  { id: 'front-bumper', name: 'Front bumper', x: 688, y: 67 },
+  { id: 'hood', name: 'Hood', x: 489, y: 245 },
+  { id: 'left-front-fender', name: 'Left front fender', x: 154, y: 247 },
+  { id: 'right-front-fender', name: 'Right front fender', x: 876, y: 246 },
+  { id: 'left-mirror', name: 'Left mirror', x: 347, y: 439 },
+  { id: 'right-mirror', name: 'Right mirror', x: 665, y: 441 },
+  { id: 'left-front-door', name: 'Left front door', x: 160, y: 456 },
+  { id: 'right-front-door', name: 'Right front door', x: 866, y: 473 },
+  { id: 'left-rear-door', name: 'Left rear door', x: 160, y: 631 },
+  { id: 'right-rear-door', name: 'Right rear door', x: 867, y: 632 },
+  { id: 'trunk', name: 'Trunk', x: 553, y: 723 },
+  { id: 'left-roof-pillar', name: 'Left roof pillar', x: 269, y: 833 },
+  { id: 'right-roof-pillar', name: 'Right roof pillar', x: 760, y: 762 },
+  { id: 'trunk-garnish', name: 'Trunk garnish', x: 418, y: 809 },
+  { id: 'left-rear-quarter', name: 'Left rear quarter panel', x: 192, y: 865 },
+  { id: 'right-rear-quarter', name: 'Right rear quarter panel', x: 840, y: 873 },
+  { id: 'rear-bumper', name: 'Rear bumper', x: 368, y: 914 },
+];
+
+const modelYRegions: CarRegion[] = [
+  { id: 'front-bumper', name: 'Front bumper', x: 594, y: 74 },
+  { id: 'left-roof-pillar', name: 'Left roof pillar', x: 340, y: 156 },
+  { id: 'right-roof-pillar', name: 'Right roof pillar', x: 683, y: 156 },
+  { id: 'hood', name: 'Hood', x: 494, y: 229 },
+  { id: 'left-front-fender', name: 'Left front fender', x: 173, y: 224 },
+  { id: 'right-front-fender', name: 'Right front fender', x: 847, y: 221 },
+  { id: 'left-mirror', name: 'Left mirror', x: 257, y: 426 },
+  { id: 'right-mirror', name: 'Right mirror', x: 754, y: 426 },
+  { id: 'left-front-door', name: 'Left front door', x: 108, y: 441 },
+  { id: 'right-front-door', name: 'Right front door', x: 903, y: 363 },
+  { id: 'left-rear-door', name: 'Left rear door', x: 131, y: 639 },
+  { id: 'right-rear-door', name: 'Right rear door', x: 896, y: 637 },
+  { id: 'liftgate', name: 'Liftgate', x: 466, y: 857 },
+  { id: 'left-rear-quarter', name: 'Left rear quarter panel', x: 183, y: 860 },
+  { id: 'right-rear-quarter', name: 'Right rear quarter panel', x: 846, y: 862 },
+  { id: 'rear-bumper', name: 'Rear bumper', x: 356, y: 949 },
+];
+
+const modelYJuniperRegions: CarRegion[] = [
+  { id: 'front-bumper', name: 'Front bumper', x: 351, y: 53 },
+  { id: 'hood', name: 'Hood', x: 500, y: 183 },
+  { id: 'left-front-fender', name: 'Left front fender', x: 276, y: 292 },
+  { id: 'right-front-fender', name: 'Right front fender', x: 754, y: 287 },
+  { id: 'left-roof-pillar', name: 'Left roof pillar', x: 382, y: 352 },
+  { id: 'right-roof-pillar', name: 'Right roof pillar', x: 642, y: 353 },
+  { id: 'left-mirror', name: 'Left mirror', x: 341, y: 384 },
+  { id: 'right-mirror', name: 'Right mirror', x: 674, y: 383 },
+  { id: 'left-front-door', name: 'Left front door', x: 223, y: 466 },
+  { id: 'right-front-door', name: 'Right front door', x: 805, y: 482 },
+  { id: 'left-rear-door', name: 'Left rear door', x: 224, y: 632 },
+  { id: 'right-rear-door', name: 'Right rear door', x: 806, y: 637 },
+  { id: 'left-rear-quarter', name: 'Left rear quarter panel', x: 273, y: 813 },
+  { id: 'right-rear-quarter', name: 'Right rear quarter panel', x: 754, y: 820 },
+  { id: 'liftgate', name: 'Liftgate', x: 486, y: 908 },
+  { id: 'left-rear-bumper-corner', name: 'Left rear bumper corner', x: 177, y: 896 },
+  { id: 'right-rear-bumper-corner', name: 'Right rear bumper corner', x: 847, y: 905 },
+  { id: 'rear-bumper', name: 'Rear bumper', x: 514, y: 982 },
+];
+
+const modelYJuniperPremiumRegions: CarRegion[] = [
+  { id: 'front-bumper', name: 'Front bumper', x: 659, y: 58 },
+  { id: 'hood', name: 'Hood', x: 492, y: 194 },
+  { id: 'left-front-fender', name: 'Left front fender', x: 246, y: 313 },
+  { id: 'right-front-fender', name: 'Right front fender', x: 776, y: 313 },
+  { id: 'left-roof-pillar', name: 'Left roof pillar', x: 363, y: 380 },
+  { id: 'right-roof-pillar', name: 'Right roof pillar', x: 656, y: 386 },
+  { id: 'left-mirror', name: 'Left mirror', x: 298, y: 386 },
+  { id: 'right-mirror', name: 'Right mirror', x: 701, y: 387 },
+  { id: 'left-front-door', name: 'Left front door', x: 167, y: 489 },
+  { id: 'right-front-door', name: 'Right front door', x: 853, y: 493 },
+  { id: 'left-rear-door', name: 'Left rear door', x: 152, y: 656 },
+  { id: 'right-rear-door', name: 'Right rear door', x: 867, y: 658 },
+  { id: 'left-rear-quarter', name: 'Left rear quarter panel', x: 190, y: 865 },
+  { id: 'right-rear-quarter', name: 'Right rear quarter panel', x: 826, y: 858 },
+  { id: 'liftgate', name: 'Liftgate', x: 499, y: 901 },
+  { id: 'left-tail-pillar', name: 'Left tail pillar', x: 319, y: 922 },
+  { id: 'right-tail-pillar', name: 'Right tail pillar', x: 704, y: 927 },
+  { id: 'left-rear-bumper-corner', name: 'Left rear bumper corner', x: 97, y: 948 },
+  { id: 'right-rear-bumper-corner', name: 'Right rear bumper corner', x: 927, y: 956 },
+  { id: 'rear-bumper', name: 'Rear bumper', x: 579, y: 976 },
+];
+
+const modelYJuniperPerformanceRegions: CarRegion[] = [
+  { id: 'front-bumper', name: 'Front bumper', x: 347, y: 53 },
+  { id: 'hood', name: 'Hood', x: 502, y: 193 },
+  { id: 'left-front-fender', name: 'Left front fender', x: 247, y: 306 },
+  { id: 'right-front-fender', name: 'Right front fender', x: 775, y: 310 },
+  { id: 'left-roof-pillar', name: 'Left roof pillar', x: 362, y: 373 },
+  { id: 'right-roof-pillar', name: 'Right roof pillar', x: 655, y: 385 },
+  { id: 'left-mirror', name: 'Left mirror', x: 298, y: 385 },
+  { id: 'right-mirror', name: 'Right mirror', x: 702, y: 384 },
+  { id: 'left-front-door', name: 'Left front door', x: 167, y: 484 },
+  { id: 'right-front-door', name: 'Right front door', x: 851, y: 485 },
+  { id: 'left-rear-door', name: 'Left rear door', x: 152, y: 656 },
+  { id: 'right-rear-door', name: 'Right rear door', x: 866, y: 657 },
+  { id: 'left-rear-quarter', name: 'Left rear quarter panel', x: 191, y: 861 },
+  { id: 'right-rear-quarter', name: 'Right rear quarter panel', x: 829, y: 863 },
+  { id: 'liftgate', name: 'Liftgate', x: 500, y: 900 },
+  { id: 'left-tail-pillar', name: 'Left tail pillar', x: 318, y: 924 },
+  { id: 'right-tail-pillar', name: 'Right tail pillar', x: 703, y: 927 },
+  { id: 'left-rear-bumper-corner', name: 'Left rear bumper corner', x: 131, y: 983 },
+  { id: 'right-rear-bumper-corner', name: 'Right rear bumper corner', x: 892, y: 982 },
+  { id: 'left-diffuser', name: 'Left diffuser', x: 70, y: 965 },
+  { id: 'right-diffuser', name: 'Right diffuser', x: 952, y: 964 },
+  { id: 'rear-bumper', name: 'Rear bumper', x: 590, y: 975 },
+];
+
+const modelYLRegions: CarRegion[] = [
+  { id: 'front-bumper', name: 'Front bumper', x: 663, y: 71 },
+  { id: 'left-roof-pillar', name: 'Left roof pillar', x: 262, y: 183 },
+  { id: 'right-roof-pillar', name: 'Right roof pillar', x: 771, y: 186 },
+  { id: 'hood', name: 'Hood', x: 506, y: 233 },
+  { id: 'left-front-fender', name: 'Left front fender', x: 168, y: 222 },
+  { id: 'right-front-fender', name: 'Right front fender', x: 865, y: 222 },
+  { id: 'left-mirror', name: 'Left mirror', x: 239, y: 280 },
+  { id: 'right-mirror', name: 'Right mirror', x: 794, y: 281 },
+  { id: 'left-front-door', name: 'Left front door', x: 106, y: 423 },
+  { id: 'right-front-door', name: 'Right front door', x: 923, y: 423 },
+  { id: 'left-rear-door', name: 'Left rear door', x: 111, y: 643 },
+  { id: 'right-rear-door', name: 'Right rear door', x: 921, y: 643 },
+  { id: 'left-tail-pillar', name: 'Left tail pillar', x: 323, y: 823 },
+  { id: 'right-tail-pillar', name: 'Right tail pillar', x: 705, y: 824 },
+  { id: 'liftgate', name: 'Liftgate', x: 501, y: 851 },
+  { id: 'left-rear-quarter', name: 'Left rear quarter panel', x: 207, y: 873 },
+  { id: 'right-rear-quarter', name: 'Right rear quarter panel', x: 827, y: 874 },
+  { id: 'left-rear-bumper-corner', name: 'Left rear bumper corner', x: 321, y: 971 },
+  { id: 'right-rear-bumper-corner', name: 'Right rear bumper corner', x: 716, y: 972 },
+  { id: 'rear-bumper', name: 'Rear bumper', x: 438, y: 954 },
+];
+
+// Front to the left, with the sides unfolded above and below (the right side on top)
+const cybertruckRegions: CarRegion[] = [
+  { id: 'right-side', name: 'Right side', x: 320, y: 104 },
+  { id: 'front-fascia', name: 'Front fascia', x: 58, y: 511 },
+  { id: 'hood', name: 'Hood', x: 190, y: 511 },
+  { id: 'tailgate', name: 'Tailgate', x: 968, y: 511 },
+  { id: 'left-side', name: 'Left side', x: 324, y: 916 },
+];
+
+// Only templates that need them have pairs; the rest pair panels up by id
+export const carRegionPairs: Record<string, CarRegionPair[]> = {
+  cybertruck: [{ regions: ['left-side', 'right-side'] }],
+};
+
+export const carRegions: Record<string, CarRegion[]> = {
+  cybertruck: cybertruckRegions,
+  model3: model3Regions,
+  'model3-2024-base': model3HighlandRegions,
+  'model3-2024-performance': model3HighlandPerformanceRegions,
+  modely: modelYRegions,
+  'modely-2025-base': modelYJuniperRegions,
+  'modely-2025-premium': modelYJuniperPremiumRegions,
+  'modely-2025-performance': modelYJuniperPerformanceRegions,
+  'modely-l': modelYLRegions,
+};
+
+/**
+ * The template's explicit pair a panel belongs to, if any
+ */
+export const getRegionPair = (pairs: CarRegionPair[], region: CarRegion): CarRegionPair | undefined =>
+  pairs.find((pair) => pair.regions.includes(region.id));
+
+/**
+ * The matching panel on the other side of the car, or null for panels in the middle.
+ * The template's explicit pairs come first; otherwise left and right panels pair up by id,
+ * like 'left-front-door' and 'right-front-door'.
+ */
+export const getCounterpartRegion = (
+  regions: CarRegion[],
+  region: CarRegion,
+  pairs: CarRegionPair[] = []
+): CarRegion | null => {
+  const pair = getRegionPair(pairs, region);
+  if (pair) {
+    const counterpartId = pair.regions[0] === region.id ? pair.regions[1] : pair.regions[0];
+    return regions.find((r) => r.id === counterpartId) ?? null;
+  }
+  const match = /^(left|right)-(.+)$/.exec(region.id);
+  if (!match) return null;
+  const counterpartId = `${match[1] === 'left' ? 'right' : 'left'}-${match[2]}`;
+  return regions.find((r) => r.id === counterpartId) ?? null;
+};
@@ -2,7 +2,11 @@ import { useEffect, useRef, forwardRef, useState } from 'react';
 import ReactDOM from 'react-dom';
 import { Stage, Layer, Image as KonvaImage, Rect, Group, Line } from 'react-konva';
 import type { Stage as StageType } from 'konva/lib/Stage';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import { Transform, Util } from 'konva/lib/Util';
 import { useEditorStore } from './state/useEditorStore';
+import { findLayer, getLayerPath, getLayersBelow, getLayerTransform, getParentTransform, isGroupLayer } from './state/layerTree';
+import type { Layer as EditorLayer, TextLayer as TextLayerType } from './state/editorTypes';
 import { TextLayer } from './components/layers/TextLayer';
 import { ImageLayer } from './components/layers/ImageLayer';
 import { RectLayer } from './components/layers/RectLayer';
@@ -12,12 +16,29 @@ import { BrushLayer } from './components/layers/BrushLayer';
 import { LineLayer } from './components/layers/LineLayer';
 import { StarLayer } from './components/layers/StarLayer';
 import { FillLayer } from './components/layers/FillLayer';
+import { GroupLayer } from './components/layers/GroupLayer';
+import { AdjustmentLayer } from './components/layers/AdjustmentLayer';
+import { PathLayer } from './components/layers/PathLayer';
+import { ClippingGroup } from './components/layers/ClippingGroup';
+import { LayerMaskGroup } from './components/layers/LayerMaskGroup';
+import { LayerEffectsGroup } from './components/layers/LayerEffectsGroup';
 import { TransformerWrapper } from './components/TransformerWrapper';
 import { BrushTool } from './components/BrushTool';
 import { FillTool } from './components/FillTool';
 import { BrushCursor } from './components/BrushCursor';
 import { LineEndpointHandles } from './components/LineEndpointHandles';
+import { GradientHandles } from './components/GradientHandles';
+import { PathHandles } from './components/PathHandles';
+import { PenTool } from './components/PenTool';
+import { CropHandles } from './components/CropHandles';
+import { SelectionTool } from './components/SelectionTool';
+import { EraserTool } from './components/EraserTool';
+import { SelectionOutline } from './components/SelectionOutline';
+import { RegionLabel } from './components/RegionLabel';
+import { copySelectionPixels, invertSelection, isSelectionTool } from '../utils/selection';
 import { loadImage } from '../utils/image';
+import { getFillProps } from '../utils/gradients';
+import { EDITOR_OVERLAY_NAME } from '../utils/editorOverlays';
 import { carModels } from '../data/carModels';
 import { getTemplateUrl } from '../utils/assets';
 
@@ -34,13 +55,19 @@ type CanvasBackground = 'gray' | 'black' | 'white' | 'transparent';
 export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ onStageReady, zoom = 1, onZoomChange, autoFit = true, onAutoFitChange }, ref) => {
   const stageRef = useRef<StageType | null>(null);
   const canvasAreaRef = useRef<HTMLDivElement | null>(null);
-  const transformStartDataRef = useRef<{ layerId: string; width?: number; height?: number; scaleX: number; scaleY: number } | null>(null);
+  // Dimensions at transform start, per layer (the transformer can hold several layers)
+  const transformStartDataRef = useRef<Record<string, { width?: number; height?: number; scaleX: number; scaleY: number }>>({});
   const [canvasBackground, setCanvasBackground] = useState<CanvasBackground>('gray');
   const [showBackgroundDropdown, setShowBackgroundDropdown] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const [showVerticalCenterGuide, setShowVerticalCenterGuide] = useState(false);
   const [showHorizontalCenterGuide, setShowHorizontalCenterGuide] = useState(false);
   
+  // Rubber-band selection on empty canvas (canvas coordinates)
+  const [marquee, setMarquee] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
+  const marqueeRef = useRef<{ startX: number; startY: number; additive: boolean; rect: { x: number; y: number; width: number; height: number } | null } | null>(null);
+  const suppressStageClickRef = useRef(false);
+  
   // Right-click hint state
   const [showRightClickHint, setShowRightClickHint] = useState(false);
 
@@ -61,6 +88,13 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     };
   }, [showBackgroundDropdown]);
   
+  // Text draws differently once its font arrives, which the layers themselves don't show
+  useEffect(() => {
+    const handleFontsLoaded = () => useEditorStore.getState().bumpCanvasVersion();
+    document.fonts.addEventListener('loadingdone', handleFontsLoaded);
+    return () => document.fonts.removeEventListener('loadingdone', handleFontsLoaded);
+  }, []);
+  
   // Use zoom prop, default to 1
   const scale = zoom;
   
@@ -177,7 +211,9 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
   const {
     layers,
     selectedLayerId,
+    selectedLayerIds,
     baseColor,
+    baseGradient,
     currentModelId,
     templateDimensions,
     templateImage,
@@ -186,20 +222,56 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     setTemplateImage,
     updateLayer,
     setSelection,
-    duplicateLayer,
-    deleteLayer,
-    copyLayer,
-    pasteLayer,
-    mirrorLayerHorizontal,
-    mirrorLayerVertical,
-    clipboardLayer,
+    setSelectedLayers,
+    toggleLayerSelection,
+    duplicateLayers,
+    deleteLayers,
+    copyLayers,
+    pasteLayers,
+    mirrorLayersHorizontal,
+    mirrorLayersVertical,
+    toggleClipToBelow,
+    groupLayers,
+    ungroupLayer,
+    clipboardLayers,
     contextMenu,
     openLayerContextMenu,
     closeLayerContextMenu,
+    setBaseGradient,
+    pushHistory,
+    cropEdit,
+    startCrop,
+    cancelCrop,
+    pixelSelection,
+    symmetry,
+    setPixelSelection,
+    deleteInsideSelection,
+    copySelectionToLayer,
   } = useEditorStore();
 
   const currentModel = carModels.find((m) => m.id === currentModelId) || carModels[0];
-  const contextLayer = contextMenu ? layers.find((l) => l.id === contextMenu.layerId) : null;
+  // Gradient handles and path anchors are shown for a single selected layer
+  const singleSelectedLayer = selectedLayerIds.length === 1 ? findLayer(layers, selectedLayerId) : undefined;
+  // Gradient handles edit the selected layer's gradient fill, or the base paint when nothing is selected
+  const selectedLayerGradient = singleSelectedLayer && 'fillGradient' in singleSelectedLayer ? singleSelectedLayer.fillGradient : undefined;
+  // Path anchors are editable with the move tool and the pen
+  const editedPath = singleSelectedLayer?.type === 'path' && (activeTool === 'select' || activeTool === 'pen') ? singleSelectedLayer : undefined;
+  // Crop mode lasts while its image stays the only selection and the move tool stays active
+  const croppedLayer = cropEdit && activeTool === 'select' && selectedLayerIds.length === 1 && selectedLayerId === cropEdit.layerId
+    ? findLayer(layers, cropEdit.layerId)
+    : undefined;
+  const contextLayer = contextMenu ? findLayer(layers, contextMenu.layerId) : null;
+  // Context menu actions apply to the whole selection when the clicked layer is part of it
+  const contextLayerIds = contextLayer
+    ? (selectedLayerIds.includes(contextLayer.id) ? selectedLayerIds : [contextLayer.id])
+    : [];
+  const contextDeletableIds = contextLayerIds.filter((id) => !findLayer(layers, id)?.locked);
+  const contextIsClipped = contextLayerIds.every((id) => findLayer(layers, id)?.clipToBelow);
+
+  // Leaving crop mode any other way than apply discards the draft
+  useEffect(() => {
+    if (cropEdit && !croppedLayer) cancelCrop();
+  }, [cropEdit, croppedLayer, cancelCrop]);
 
   // Dismiss hint handler
   const handleDismissHint = () => {
@@ -279,32 +351,66 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
       }
       
       // Cmd+C / Ctrl+C - Copy
-      if (isModKey && e.key === 'c' && selectedLayerId) {
+      if (isModKey && e.key === 'c' && selectedLayerIds.length > 0) {
         e.preventDefault();
-        copyLayer(selectedLayerId);
+        copyLayers(selectedLayerIds);
       }
       
-      // Cmd+V / Ctrl+V - Paste
-      if (isModKey && e.key === 'v' && clipboardLayer) {
+      // Cmd+V / Ctrl+V - Paste (pasted layers become the selection)
+      if (isModKey && e.key === 'v' && clipboardLayers.length > 0) {
         e.preventDefault();
-        const pasted = pasteLayer();
-        if (pasted) {
-          setSelection(pasted.id);
-        }
+        pasteLayers();
       }
       
       // Cmd+D / Ctrl+D - Duplicate
-      if (isModKey && e.key === 'd' && selectedLayerId) {
+      if (isModKey && e.key === 'd' && selectedLayerIds.length > 0) {
         e.preventDefault();
-        duplicateLayer(selectedLayerId);
+        duplicateLayers(selectedLayerIds);
       }
       
-      // Delete / Backspace - Delete layer
-      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedLayerId) {
-        const layer = layers.find((l) => l.id === selectedLayerId);
-        if (layer && !layer.locked) {
+      // Cmd+G / Ctrl+G - Group, Cmd+Shift+G / Ctrl+Shift+G - Ungroup
+      if (isModKey && e.key.toLowerCase() === 'g' && selectedLayerIds.length > 0) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          selectedLayerIds.forEach((id) => ungroupLayer(id));
+        } else {
+          groupLayers(selectedLayerIds);
+        }
+      }
+      
+      // Pixel selection: Escape deselects, Cmd/Ctrl+Shift+I inverts, Cmd/Ctrl+J copies it to a new layer
+      if (e.key === 'Escape' && pixelSelection && !cropEdit) {
+        setPixelSelection(null);
+      }
+      if (isModKey && e.shiftKey && e.key.toLowerCase() === 'i') {
+        e.preventDefault();
+        setPixelSelection(invertSelection(pixelSelection));
+      }
+      const selectedLayer = selectedLayerIds.length === 1 ? findLayer(layers, selectedLayerId) : undefined;
+      if (isModKey && e.key.toLowerCase() === 'j' && pixelSelection && selectedLayer && stageRef.current) {
+        e.preventDefault();
+        const pixels = copySelectionPixels(stageRef.current, selectedLayer, pixelSelection);
+        if (pixels) copySelectionToLayer(selectedLayer.id, pixels);
+      }
+
+      // Delete / Backspace - Delete inside the pixel selection, if there is one
+      if ((e.key === 'Delete' || e.key === 'Backspace') && pixelSelection) {
+        if (selectedLayer && !selectedLayer.locked) {
           e.preventDefault();
-          deleteLayer(selectedLayerId);
+          deleteInsideSelection(selectedLayer.id);
+        }
+        return;
+      }
+
+      // Delete / Backspace - Delete selected layers (locked ones are kept)
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedLayerIds.length > 0) {
+        const deletable = selectedLayerIds.filter((id) => {
+          const layer = findLayer(layers, id);
+          return layer && !layer.locked;
+        });
+        if (deletable.length > 0) {
+          e.preventDefault();
+          deleteLayers(deletable);
         }
       }
     };
@@ -313,7 +419,8 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [selectedLayerId, clipboardLayer, layers, copyLayer, pasteLayer, duplicateLayer, deleteLayer, setSelection]);
+  }, [selectedLayerIds, selectedLayerId, clipboardLayers, layers, copyLayers, pasteLayers, duplicateLayers, deleteLayers, groupLayers, ungroupLayer,
+    pixelSelection, cropEdit, setPixelSelection, deleteInsideSelection, copySelectionToLayer]);
 
   // Load template image
   useEffect(() => {
@@ -332,7 +439,67 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
   }, [currentModelId, currentModel.folderName, setTemplateImage, setTemplateDimensions]);
 
 
+  const handleStageMouseDown = (e: KonvaEventObject<MouseEvent>) => {
+    suppressStageClickRef.current = false;
+    const stage = e.target.getStage();
+    if (!stage || activeTool !== 'select' || e.target !== stage) return;
+    const pos = stage.getPointerPosition();
+    if (!pos) return;
+    marqueeRef.current = {
+      startX: pos.x,
+      startY: pos.y,
+      additive: e.evt.shiftKey || e.evt.ctrlKey || e.evt.metaKey,
+      rect: null,
+    };
+    // Finish on window mouseup so releasing outside the canvas still ends the marquee
+    window.addEventListener('mouseup', finishMarquee, { once: true });
+  };
+
+  const handleStageMouseMove = (e: KonvaEventObject<MouseEvent>) => {
+    const current = marqueeRef.current;
+    if (!current) return;
+    const pos = e.target.getStage()?.getPointerPosition();
+    if (!pos) return;
+    const rect = {
+      x: Math.min(current.startX, pos.x),
+      y: Math.min(current.startY, pos.y),
+      width: Math.abs(pos.x - current.startX),
+      height: Math.abs(pos.y - current.startY),
+    };
+    current.rect = rect;
+    setMarquee(rect);
+  };
+
+  const finishMarquee = () => {
+    const current = marqueeRef.current;
+    marqueeRef.current = null;
+    setMarquee(null);
+    const stage = stageRef.current;
+    if (!current?.rect || !stage || (current.rect.width < 3 && current.rect.height < 3)) return;
+    
+    // Select every visible, unlocked top-level layer (groups as a whole) touching the marquee
+    const state = useEditorStore.getState();
+    const rect = current.rect;
+    const hits = state.layers
+      .filter((layer) => layer.visible && !layer.locked && layer.type !== 'adjustment')
+      .filter((layer) => {
+        const node = stage.findOne(`#${layer.id}`);
+        return node ? Util.haveIntersection(rect, node.getClientRect()) : false;
+      })
+      .map((layer) => layer.id);
+    const ids = current.additive
+      ? [...state.selectedLayerIds, ...hits.filter((id) => !state.selectedLayerIds.includes(id))]
+      : hits;
+    setSelectedLayers(ids);
+    // The stage click that follows mouseup would otherwise clear the selection
+    suppressStageClickRef.current = true;
+  };
+
   const handleStageClick = (e: any) => {
+    if (suppressStageClickRef.current) {
+      suppressStageClickRef.current = false;
+      return;
+    }
     const clickedOnEmpty = e.target === e.target.getStage();
     // Don't deselect when using brush tool (we want to keep drawing on the current layer)
     if (clickedOnEmpty && activeTool === 'select') {
@@ -349,18 +516,49 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     }
   };
 
+  // Clicking a layer inside a group selects the outermost group first; clicking again
+  // drills down one level, and clicking a sibling of the selection selects that sibling.
+  const resolveClickTarget = (layerId: string) => {
+    const path = getLayerPath(layers, layerId);
+    if (path.length === 0) return layerId;
+    const selectedPath = selectedLayerId ? getLayerPath(layers, selectedLayerId) : [];
+    let depth = 0;
+    while (depth < path.length && depth < selectedPath.length && path[depth].id === selectedPath[depth].id) {
+      depth += 1;
+    }
+    return path[Math.min(depth, path.length - 1)].id;
+  };
+
   const handleLayerClick = (e: any, layerId: string) => {
     e.cancelBubble = true;
-    setSelection(layerId);
+    // The pen keeps drawing on its own path when clicking over other layers, the eraser keeps
+    // erasing the selected layer and selection tools keep the layer their selection is for
+    if (activeTool === 'pen' || activeTool === 'eraser' || isSelectionTool(activeTool)) return;
+    const targetId = resolveClickTarget(layerId);
+    // Shift/Ctrl/Cmd-click adds to or removes from the selection
+    if (e.evt?.shiftKey || e.evt?.ctrlKey || e.evt?.metaKey) {
+      toggleLayerSelection(targetId);
+    } else {
+      setSelection(targetId);
+    }
   };
 
   const handleLayerContextMenu = (e: any, layerId: string) => {
     e.evt.preventDefault();
-    setSelection(layerId);
-    openLayerContextMenu(layerId, e.evt.clientX, e.evt.clientY);
+    const targetId = resolveClickTarget(layerId);
+    // Keep a multi-selection when right-clicking one of its layers
+    if (!selectedLayerIds.includes(targetId)) {
+      setSelection(targetId);
+    }
+    openLayerContextMenu(targetId, e.evt.clientX, e.evt.clientY);
   };
 
+  // Center snapping only applies to a single layer; several selected layers move as one
+  const snapToCenter = selectedLayerIds.length <= 1;
+
   const handleDragStart = (e: any) => {
+    // Drag events bubble up to parent groups; only handle them on the dragged node
+    if (e.target !== e.currentTarget) return;
     // Add visual feedback during drag
     const node = e.target;
     node.opacity(0.8);
@@ -371,6 +569,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
   };
 
   const handleDragMove = (e: any) => {
+    if (e.target !== e.currentTarget) return;
     const node = e.target;
     const stage = node.getStage();
     if (!stage) return;
@@ -392,7 +591,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     
     // Check vertical center snapping
     const distanceToVerticalCenter = Math.abs(layerCenterY - CENTER_Y);
-    if (distanceToVerticalCenter < SNAP_THRESHOLD) {
+    if (snapToCenter && distanceToVerticalCenter < SNAP_THRESHOLD) {
       const currentY = node.y();
       const offsetY = CENTER_Y - layerCenterY;
       snappedY = currentY + offsetY;
@@ -402,7 +601,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     
     // Check horizontal center snapping
     const distanceToHorizontalCenter = Math.abs(layerCenterX - CENTER_X);
-    if (distanceToHorizontalCenter < SNAP_THRESHOLD) {
+    if (snapToCenter && distanceToHorizontalCenter < SNAP_THRESHOLD) {
       const currentX = node.x();
       const offsetX = CENTER_X - layerCenterX;
       snappedX = currentX + offsetX;
@@ -418,6 +617,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
   };
 
   const handleDragEnd = (e: any, layerId: string) => {
+    if (e.target !== e.currentTarget) return;
     const node = e.target;
     const stage = node.getStage();
     
@@ -436,7 +636,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     
     // Check vertical center snapping
     const distanceToVerticalCenter = Math.abs(layerCenterY - CENTER_Y);
-    if (distanceToVerticalCenter < SNAP_THRESHOLD) {
+    if (snapToCenter && distanceToVerticalCenter < SNAP_THRESHOLD) {
       const currentY = node.y();
       const offsetY = CENTER_Y - layerCenterY;
       finalY = currentY + offsetY;
@@ -445,7 +645,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     
     // Check horizontal center snapping
     const distanceToHorizontalCenter = Math.abs(layerCenterX - CENTER_X);
-    if (distanceToHorizontalCenter < SNAP_THRESHOLD) {
+    if (snapToCenter && distanceToHorizontalCenter < SNAP_THRESHOLD) {
       const currentX = node.x();
       const offsetX = CENTER_X - layerCenterX;
       finalX = currentX + offsetX;
@@ -453,7 +653,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     }
     
     // Restore opacity
-    node.opacity(layers.find(l => l.id === layerId)?.opacity || 1);
+    node.opacity(findLayer(layers, layerId)?.opacity || 1);
     if (stage) {
       stage.container().style.cursor = 'default';
     }
@@ -487,7 +687,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     
     // Check vertical center snapping
     const distanceToVerticalCenter = Math.abs(layerCenterY - CENTER_Y);
-    if (distanceToVerticalCenter < SNAP_THRESHOLD) {
+    if (snapToCenter && distanceToVerticalCenter < SNAP_THRESHOLD) {
       const currentY = node.y();
       const offsetY = CENTER_Y - layerCenterY;
       node.y(currentY + offsetY);
@@ -496,7 +696,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     
     // Check horizontal center snapping
     const distanceToHorizontalCenter = Math.abs(layerCenterX - CENTER_X);
-    if (distanceToHorizontalCenter < SNAP_THRESHOLD) {
+    if (snapToCenter && distanceToHorizontalCenter < SNAP_THRESHOLD) {
       const currentX = node.x();
       const offsetX = CENTER_X - layerCenterX;
       node.x(currentX + offsetX);
@@ -518,10 +718,9 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
       stage.container().style.cursor = 'move';
     }
     // Store original dimensions for proper resize calculation
-    const layer = layers.find(l => l.id === layerId);
+    const layer = findLayer(layers, layerId);
     if (layer) {
-      transformStartDataRef.current = {
-        layerId,
+      transformStartDataRef.current[layerId] = {
         width: (layer as any).width,
         height: (layer as any).height,
         scaleX: layer.scaleX || 1,
@@ -537,9 +736,9 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
       stage.container().style.cursor = 'default';
     }
     
-    const layer = layers.find(l => l.id === layerId);
+    const layer = findLayer(layers, layerId);
     if (!layer) {
-      transformStartDataRef.current = null;
+      delete transformStartDataRef.current[layerId];
       return;
     }
     
@@ -555,7 +754,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     
     // Check vertical center snapping
     const distanceToVerticalCenter = Math.abs(layerCenterY - CENTER_Y);
-    if (distanceToVerticalCenter < SNAP_THRESHOLD) {
+    if (snapToCenter && distanceToVerticalCenter < SNAP_THRESHOLD) {
       const currentY = node.y();
       const offsetY = CENTER_Y - layerCenterY;
       finalY = currentY + offsetY;
@@ -564,7 +763,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     
     // Check horizontal center snapping
     const distanceToHorizontalCenter = Math.abs(layerCenterX - CENTER_X);
-    if (distanceToHorizontalCenter < SNAP_THRESHOLD) {
+    if (snapToCenter && distanceToHorizontalCenter < SNAP_THRESHOLD) {
       const currentX = node.x();
       const offsetX = CENTER_X - layerCenterX;
       finalX = currentX + offsetX;
@@ -576,8 +775,8 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     setShowHorizontalCenterGuide(false);
     
     // For rect layers, update actual width/height based on scale (Photoshop-like behavior)
-    if (layer.type === 'rect' && transformStartDataRef.current) {
-      const startData = transformStartDataRef.current;
+    const startData = transformStartDataRef.current[layerId];
+    if (layer.type === 'rect' && startData) {
       const originalWidth = startData.width || 0;
       const originalHeight = startData.height || 0;
       const originalScaleX = startData.scaleX;
@@ -601,6 +800,24 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
         scaleX: 1,
         scaleY: 1,
       });
+    } else if (layer.type === 'text' && !layer.textPath && startData) {
+      // Text keeps its scale: side handles set the paragraph box width, corner handles the font size
+      const ratioX = node.scaleX() / startData.scaleX;
+      const ratioY = node.scaleY() / startData.scaleY;
+      node.scaleX(startData.scaleX);
+      node.scaleY(startData.scaleY);
+
+      const changes: Partial<TextLayerType> = { x: finalX, y: finalY, rotation: node.rotation() };
+      if (Math.abs(ratioY - 1) < 1e-6) {
+        changes.width = Math.max(layer.fontSize, node.width() * Math.abs(ratioX));
+      } else {
+        const ratio = Math.abs(ratioY);
+        changes.fontSize = Math.max(1, Math.round(layer.fontSize * ratio * 10) / 10);
+        if (layer.width) changes.width = layer.width * Math.abs(ratioX);
+        if (layer.letterSpacing) changes.letterSpacing = layer.letterSpacing * ratio;
+        if (layer.strokeWidth) changes.strokeWidth = layer.strokeWidth * ratio;
+      }
+      updateLayer(layerId, changes);
     } else {
       // For other layer types, use scaleX/scaleY
       updateLayer(layerId, {
@@ -612,7 +829,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
       });
     }
     
-    transformStartDataRef.current = null;
+    delete transformStartDataRef.current[layerId];
   };
 
   // Expose stage ref
@@ -640,6 +857,154 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
     );
   }
 
+  // Render a layer (recursively for groups); children are positioned in their group's space
+  // Clip shapes are handler-less copies of a base layer used to cut out the layers clipped to it
+  const renderLayer = (
+    layer: EditorLayer,
+    isTopLevel: boolean,
+    asClipShape = false,
+    skipMask = false,
+    skipEffects = false
+  ): React.ReactNode => {
+    // Effects are drawn around the layer after its mask. Clip shapes only need the layer's own pixels.
+    const effects = layer.effects?.filter((effect) => effect.enabled) ?? [];
+    if (effects.length > 0 && layer.type !== 'adjustment' && !asClipShape && !skipEffects) {
+      return (
+        <LayerEffectsGroup
+          key={layer.id}
+          effects={effects}
+          content={[layer, cropEdit?.layerId === layer.id ? cropEdit : null]}
+          blendMode={layer.blendMode}
+        >
+          {renderLayer(layer, isTopLevel, asClipShape, skipMask, true)}
+        </LayerEffectsGroup>
+      );
+    }
+
+    // Masked layers render inside a group that composites them with their mask.
+    // The mask is in canvas space, so it is placed with the inverse of the parent groups' transform.
+    if (layer.mask?.enabled && !skipMask) {
+      return (
+        <LayerMaskGroup
+          key={layer.id}
+          mask={layer.mask}
+          blendMode={layer.blendMode}
+          placement={getParentTransform(layers, layer.id).invert().decompose()}
+        >
+          {renderLayer(layer, isTopLevel, asClipShape, true, true)}
+        </LayerMaskGroup>
+      );
+    }
+
+    const isBrushLayer = layer.type === 'brush';
+    const isFillLayer = layer.type === 'fill';
+    const isFillToolActive = activeTool === 'fill';
+    const isSelectToolActive = activeTool === 'select';
+    
+    // When fill tool is active, make fill layers non-interactive so clicks pass through
+    const fillLayerProps = isFillToolActive && isFillLayer ? {
+      onClick: undefined,
+      onTap: undefined,
+      listening: false,
+    } : {};
+    
+    const commonProps = asClipShape ? { id: `${layer.id}-clip-shape` } : {
+      id: layer.id,
+      onClick: (e: any) => handleLayerClick(e, layer.id),
+      onTap: (e: any) => handleLayerClick(e, layer.id),
+      onContextMenu: (e: any) => handleLayerContextMenu(e, layer.id),
+      // Enable drag handlers for brush layers when select tool is active
+      onDragStart: (isBrushLayer && !isSelectToolActive) ? undefined : handleDragStart,
+      onDragMove: (isBrushLayer && !isSelectToolActive) ? undefined : handleDragMove,
+      onDragEnd: (isBrushLayer && !isSelectToolActive) ? undefined : (e: any) => handleDragEnd(e, layer.id),
+      // Disable transform for brush layers. Line layers use endpoint handles on their own
+      // and only get the transformer as part of a multi-selection.
+      onTransformStart: isBrushLayer ? undefined : (e: any) => handleTransformStart(e, layer.id),
+      onTransformEnd: isBrushLayer ? undefined : (e: any) => handleTransformEnd(e, layer.id),
+      // Allow dragging when select tool is active (including brush layers).
+      // Layers inside a group only drag on their own once selected; otherwise the group moves.
+      draggable: isSelectToolActive && !layer.locked && !isFillToolActive && (isTopLevel || selectedLayerIds.includes(layer.id)) &&
+        cropEdit?.layerId !== layer.id,
+      // Double-clicking an image starts cropping it
+      onDblClick: layer.type === 'image' && isSelectToolActive ? () => startCrop(layer.id) : undefined,
+      ...fillLayerProps,
+    };
+
+    switch (layer.type) {
+      case 'text':
+        return <TextLayer key={layer.id} layer={layer} {...commonProps} />;
+      case 'image':
+        return <ImageLayer key={layer.id} layer={layer} {...commonProps} />;
+      case 'texture':
+        return <TextureLayer key={layer.id} layer={layer} {...commonProps} />;
+      case 'brush':
+        return <BrushLayer key={layer.id} layer={layer} {...commonProps} />;
+      case 'line':
+        return <LineLayer key={layer.id} layer={layer} {...commonProps} />;
+      case 'star':
+        return <StarLayer key={layer.id} layer={layer} {...commonProps} />;
+      case 'path':
+        return <PathLayer key={layer.id} layer={layer} {...commonProps} />;
+      case 'rect':
+        return <RectLayer key={layer.id} layer={layer} {...commonProps} />;
+      case 'circle':
+        return <CircleLayer key={layer.id} layer={layer} {...commonProps} />;
+      case 'fill':
+        return <FillLayer key={layer.id} layer={layer} {...commonProps} />;
+      case 'adjustment':
+        // Adjustments have no shape of their own to clip with
+        return asClipShape ? null : (
+          <AdjustmentLayer
+            key={layer.id}
+            layer={layer}
+            id={commonProps.id}
+            below={[baseColor, baseGradient, templateImage, ...getLayersBelow(layers, layer.id)]}
+          />
+        );
+      case 'group':
+        return (
+          <GroupLayer key={layer.id} layer={layer} {...commonProps}>
+            {renderLayerList(
+              asClipShape ? layer.children.map((child) => ({ ...child, locked: true } as EditorLayer)) : layer.children,
+              false,
+              asClipShape
+            )}
+          </GroupLayer>
+        );
+      default:
+        return null;
+    }
+  };
+
+  // Render a sibling list bottom to top. Each base layer and the run of clipped
+  // layers directly above it go into one clipping group.
+  const renderLayerList = (list: EditorLayer[], isTopLevel: boolean, asClipShape = false): React.ReactNode[] => {
+    const stacks: { base: EditorLayer; clipped: EditorLayer[] }[] = [];
+    [...list].reverse().forEach((layer) => {
+      const current = stacks[stacks.length - 1];
+      // A clipped layer with nothing below it renders as a normal layer
+      if (layer.clipToBelow && current) {
+        current.clipped.push(layer);
+      } else {
+        stacks.push({ base: layer, clipped: [] });
+      }
+    });
+
+    return stacks.map(({ base, clipped }) => {
+      if (clipped.length === 0) return renderLayer(base, isTopLevel, asClipShape);
+      const clipShape = { ...base, opacity: 1, visible: true, locked: true, blendMode: 'normal' } as EditorLayer;
+      return (
+        <ClippingGroup key={`clip-${base.id}`} blendMode={base.blendMode} visible={base.visible}>
+          {renderLayer(base, isTopLevel, asClipShape)}
+          {clipped.map((layer) => renderLayer(layer, isTopLevel, asClipShape))}
+          <Group globalCompositeOperation="destination-in" listening={false}>
+            {renderLayer(clipShape, false, true)}
+          </Group>
+        </ClippingGroup>
+      );
+    });
+  };
+
   // Canvas is always exactly 1024x1024 pixels - pixel perfect rendering at any zoom
   return (
     <div
@@ -713,7 +1078,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
               flexShrink: 0,
               aspectRatio: '1 / 1',
             }}
-            className="overflow-hidden canvas-wrapper"
+            className="relative overflow-hidden canvas-wrapper"
           >
           <Stage
             ref={stageRef as React.RefObject<StageType>}
@@ -721,6 +1086,8 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
             height={1024}
             onClick={handleStageClick}
             onTap={handleStageClick}
+            onMouseDown={handleStageMouseDown}
+            onMouseMove={handleStageMouseMove}
             onContextMenu={handleStageContextMenu}
             style={{
               borderRadius: 0,
@@ -731,7 +1098,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
           <Layer>
             {/* Base color masked by template */}
             <Group>
-              <Rect x={0} y={0} width={1024} height={1024} fill={baseColor} listening={false} />
+              <Rect x={0} y={0} width={1024} height={1024} {...getFillProps(baseColor, baseGradient)} listening={false} />
               <Group globalCompositeOperation="destination-in" listening={false}>
                 <KonvaImage x={0} y={0} width={1024} height={1024} image={templateImage} />
               </Group>
@@ -739,61 +1106,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
 
             {/* Masked design layers */}
             <Group>
-              {[...layers].reverse().map((layer) => {
-                const isBrushLayer = layer.type === 'brush';
-                const isFillLayer = layer.type === 'fill';
-                const isFillToolActive = activeTool === 'fill';
-                const isSelectToolActive = activeTool === 'select';
-                
-                // When fill tool is active, make fill layers non-interactive so clicks pass through
-                const fillLayerProps = isFillToolActive && isFillLayer ? {
-                  onClick: undefined,
-                  onTap: undefined,
-                  listening: false,
-                } : {};
-                
-                const isLineLayer = layer.type === 'line';
-                
-                const commonProps = {
-                  id: layer.id,
-                  onClick: (e: any) => handleLayerClick(e, layer.id),
-                  onTap: (e: any) => handleLayerClick(e, layer.id),
-                  onContextMenu: (e: any) => handleLayerContextMenu(e, layer.id),
-                  // Enable drag handlers for brush layers when select tool is active
-                  onDragStart: (isBrushLayer && !isSelectToolActive) ? undefined : handleDragStart,
-                  onDragMove: (isBrushLayer && !isSelectToolActive) ? undefined : handleDragMove,
-                  onDragEnd: (isBrushLayer && !isSelectToolActive) ? undefined : (e: any) => handleDragEnd(e, layer.id),
-                  // Disable transform for brush and line layers (line layers use endpoint handles instead)
-                  onTransformStart: (isBrushLayer || isLineLayer) ? undefined : (e: any) => handleTransformStart(e, layer.id),
-                  onTransformEnd: (isBrushLayer || isLineLayer) ? undefined : (e: any) => handleTransformEnd(e, layer.id),
-                  // Allow dragging when select tool is active (including brush layers)
-                  draggable: isSelectToolActive && !layer.locked && !isFillToolActive,
-                  ...fillLayerProps,
-                };
-
-                switch (layer.type) {
-                  case 'text':
-                    return <TextLayer key={layer.id} layer={layer} {...commonProps} />;
-                  case 'image':
-                    return <ImageLayer key={layer.id} layer={layer} {...commonProps} />;
-                  case 'texture':
-                    return <TextureLayer key={layer.id} layer={layer} {...commonProps} />;
-                  case 'brush':
-                    return <BrushLayer key={layer.id} layer={layer} {...commonProps} />;
-                  case 'line':
-                    return <LineLayer key={layer.id} layer={layer} {...commonProps} />;
-                  case 'star':
-                    return <StarLayer key={layer.id} layer={layer} {...commonProps} />;
-                  case 'rect':
-                    return <RectLayer key={layer.id} layer={layer} {...commonProps} />;
-                  case 'circle':
-                    return <CircleLayer key={layer.id} layer={layer} {...commonProps} />;
-                  case 'fill':
-                    return <FillLayer key={layer.id} layer={layer} {...commonProps} />;
-                  default:
-                    return null;
-                }
-              })}
+              {renderLayerList(layers, true)}
               <Group globalCompositeOperation="destination-in" listening={false}>
                 <KonvaImage x={0} y={0} width={1024} height={1024} image={templateImage} />
               </Group>
@@ -801,7 +1114,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
 
             {/* Transformer on top (not masked) */}
             <TransformerWrapper 
-              selectedLayerId={selectedLayerId} 
+              selectedLayerIds={croppedLayer ? [] : selectedLayerIds} 
               layers={layers}
               onTransformMove={handleTransformMove}
               activeTool={activeTool}
@@ -811,15 +1124,66 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
             <BrushCursor stageRef={stageRef} />
           </Layer>
           
-          {/* Line Endpoint Handles Layer (separate, not masked) */}
+          {/* Line Endpoint, Path and Gradient Handles Layer (separate, not masked) */}
           <Layer>
-            {selectedLayerId && layers.find(l => l.id === selectedLayerId)?.type === 'line' && (
+            {selectedLayerId && selectedLayerIds.length === 1 && findLayer(layers, selectedLayerId)?.type === 'line' && (
               <LineEndpointHandles layerId={selectedLayerId} />
             )}
+            {editedPath && (
+              <PathHandles
+                key={editedPath.id}
+                layer={editedPath}
+                transform={getParentTransform(layers, editedPath.id).multiply(getLayerTransform(editedPath))}
+                defaultIndex={activeTool === 'pen' ? editedPath.anchors.length - 1 : undefined}
+                onChange={(anchors) => updateLayer(editedPath.id, { anchors })}
+                onChangeEnd={pushHistory}
+              />
+            )}
+            <PenTool stageRef={stageRef} />
+            {pixelSelection && <SelectionOutline selection={pixelSelection} />}
+            <SelectionTool stageRef={stageRef} />
+            {croppedLayer?.type === 'image' && croppedLayer.image && cropEdit && (
+              <CropHandles
+                layer={croppedLayer}
+                image={croppedLayer.image}
+                cropEdit={cropEdit}
+                parentTransform={getParentTransform(layers, croppedLayer.id)}
+              />
+            )}
+            {activeTool === 'select' && singleSelectedLayer && selectedLayerGradient && (
+              <GradientHandles
+                gradient={selectedLayerGradient}
+                transform={getParentTransform(layers, singleSelectedLayer.id).multiply(getLayerTransform(singleSelectedLayer))}
+                locked={singleSelectedLayer.locked}
+                onChange={(gradient) => updateLayer(singleSelectedLayer.id, { fillGradient: gradient })}
+                onChangeEnd={pushHistory}
+              />
+            )}
+            {activeTool === 'select' && selectedLayerIds.length === 0 && baseGradient && (
+              <GradientHandles
+                gradient={baseGradient}
+                transform={new Transform()}
+                onChange={setBaseGradient}
+                onChangeEnd={pushHistory}
+              />
+            )}
           </Layer>
           
           {/* Guide Lines Layer (separate, not masked) */}
-          <Layer>
+          <Layer name={EDITOR_OVERLAY_NAME}>
+            {marquee && (
+              <Rect
+                x={marquee.x}
+                y={marquee.y}
+                width={marquee.width}
+                height={marquee.height}
+                fill="rgba(183, 48, 56, 0.08)"
+                stroke="#B73038"
+                strokeWidth={1}
+                dash={[4, 4]}
+                listening={false}
+              />
+            )}
             {showVerticalCenterGuide && (
               <Line
                 points={[0, 512, 1024, 512]}
@@ -840,12 +1204,35 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
                 opacity={0.8}
               />
             )}
+            {/* Symmetry axes (cyan like the centre guides) */}
+            {(symmetry.mode === 'vertical' || symmetry.mode === 'both') && (
+              <Line
+                points={[symmetry.x, 0, symmetry.x, 1024]}
+                stroke="#00FFFF"
+                strokeWidth={1}
+                listening={false}
+                dash={[12, 4, 2, 4]}
+                opacity={0.6}
+              />
+            )}
+            {(symmetry.mode === 'horizontal' || symmetry.mode === 'both') && (
+              <Line
+                points={[0, symmetry.y, 1024, symmetry.y]}
+                stroke="#00FFFF"
+                strokeWidth={1}
+                listening={false}
+                dash={[12, 4, 2, 4]}
+                opacity={0.6}
+              />
+            )}
           </Layer>
           </Stage>
+          <RegionLabel stageRef={stageRef} scale={scale} />
           
           </div>
         </div>
         <BrushTool stageRef={stageRef} />
+        <EraserTool stageRef={stageRef} />
         <FillTool stageRef={stageRef} />
       </div>
 
@@ -1059,7 +1446,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
               className="w-full text-left px-3 py-2 hover:bg-white/10 flex items-center gap-2 transition-colors"
               onClick={(e) => {
                 e.stopPropagation();
-                duplicateLayer(contextLayer.id);
+                duplicateLayers(contextLayerIds);
                 closeLayerContextMenu();
               }}
             >
@@ -1071,7 +1458,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
             <button
               className="w-full text-left px-3 py-2 hover:bg-white/10 flex items-center gap-2 transition-colors"
               onClick={() => {
-                mirrorLayerHorizontal(contextLayer.id);
+                mirrorLayersHorizontal(contextLayerIds);
                 closeLayerContextMenu();
               }}
             >
@@ -1083,7 +1470,7 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
             <button
               className="w-full text-left px-3 py-2 hover:bg-white/10 flex items-center gap-2 transition-colors"
               onClick={() => {
-                mirrorLayerVertical(contextLayer.id);
+                mirrorLayersVertical(contextLayerIds);
                 closeLayerContextMenu();
               }}
             >
@@ -1095,7 +1482,46 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
             <button
               className="w-full text-left px-3 py-2 hover:bg-white/10 flex items-center gap-2 transition-colors"
               onClick={() => {
-                copyLayer(contextLayer.id);
+                toggleClipToBelow(contextLayerIds);
+                closeLayerContextMenu();
+              }}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v7a4 4 0 004 4h12m0 0l-5-5m5 5l-5 5" />
+              </svg>
+              {contextIsClipped ? 'Release Clipping Mask' : 'Clip to Layer Below'}
+            </button>
+            {isGroupLayer(contextLayer) && contextLayerIds.length === 1 ? (
+              <button
+                className="w-full text-left px-3 py-2 hover:bg-white/10 flex items-center gap-2 transition-colors"
+                onClick={() => {
+                  ungroupLayer(contextLayer.id);
+                  closeLayerContextMenu();
+                }}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7zm6 6h6" />
+                </svg>
+                Ungroup
+              </button>
+            ) : (
+              <button
+                className="w-full text-left px-3 py-2 hover:bg-white/10 flex items-center gap-2 transition-colors"
+                onClick={() => {
+                  groupLayers(contextLayerIds);
+                  closeLayerContextMenu();
+                }}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7zm9 3v6m-3-3h6" />
+                </svg>
+                Group
+              </button>
+            )}
+            <button
+              className="w-full text-left px-3 py-2 hover:bg-white/10 flex items-center gap-2 transition-colors"
+              onClick={() => {
+                copyLayers(contextLayerIds);
                 closeLayerContextMenu();
               }}
             >
@@ -1105,12 +1531,11 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
               Copy
             </button>
             <button
-              className={`w-full text-left px-3 py-2 flex items-center gap-2 transition-colors ${clipboardLayer ? 'hover:bg-white/10' : 'opacity-40 cursor-not-allowed'}`}
-              disabled={!clipboardLayer}
+              className={`w-full text-left px-3 py-2 flex items-center gap-2 transition-colors ${clipboardLayers.length > 0 ? 'hover:bg-white/10' : 'opacity-40 cursor-not-allowed'}`}
+              disabled={clipboardLayers.length === 0}
               onClick={() => {
-                if (!clipboardLayer) return;
-                const pasted = pasteLayer();
-                if (pasted) setSelection(pasted.id);
+                if (clipboardLayers.length === 0) return;
+                pasteLayers();
                 closeLayerContextMenu();
               }}
             >
@@ -1121,11 +1546,11 @@ export const EditorCanvas = forwardRef<StageType | null, EditorCanvasProps>(({ o
             </button>
             <div className="my-1 border-t border-white/10" />
             <button
-              className={`w-full text-left px-3 py-2 flex items-center gap-2 transition-colors ${contextLayer.locked ? 'opacity-40 cursor-not-allowed' : 'hover:bg-red-500/10 text-red-400'}`}
-              disabled={contextLayer.locked}
+              className={`w-full text-left px-3 py-2 flex items-center gap-2 transition-colors ${contextDeletableIds.length === 0 ? 'opacity-40 cursor-not-allowed' : 'hover:bg-red-500/10 text-red-400'}`}
+              disabled={contextDeletableIds.length === 0}
               onClick={() => {
-                if (!contextLayer.locked) {
-                  deleteLayer(contextLayer.id);
+                if (contextDeletableIds.length > 0) {
+                  deleteLayers(contextDeletableIds);
                 }
                 closeLayerContextMenu();
               }}
@@ -1,11 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useEditorStore } from './state/useEditorStore';
+import { findLayer, getLayerLocation, isGroupLayer, isLayerWithin } from './state/layerTree';
+import type { Layer, LayerEffect } from './state/editorTypes';
 import { carModels } from '../data/carModels';
+import { ADJUSTMENT_OPTIONS, createDefaultAdjustment, getAdjustmentLabel } from '../utils/adjustments';
+import type { AdjustmentKind } from '../utils/adjustments';
+import { toCssGradient } from '../utils/gradients';
 import {
   DndContext,
   closestCenter,
   KeyboardSensor,
   PointerSensor,
+  type DragEndEvent,
+  type DragStartEvent,
   useSensor,
   useSensors,
 } from '@dnd-kit/core';
@@ -20,10 +27,20 @@ import { CSS } from '@dnd-kit/utilities';
 interface LayerItemProps {
   layer: any;
   index?: number;
+  depth?: number;
+  hasLayerBelow?: boolean;
+  onSelect: (e: React.MouseEvent) => void;
 }
 
-const LayerItem = ({ layer }: LayerItemProps) => {
-  const { selectedLayerId, setSelection, updateLayer, deleteLayer, openLayerContextMenu } = useEditorStore();
+// A row in the (flattened) layer tree
+interface LayerRow {
+  layer: Layer;
+  depth: number;
+  hasLayerBelow: boolean;  // Whether a sibling sits below it (something to clip to)
+}
+
+const LayerItem = ({ layer, depth = 0, hasLayerBelow = false, onSelect }: LayerItemProps) => {
+  const { selectedLayerIds, setSelection, updateLayer, deleteLayer, toggleClipToBelow, openLayerContextMenu } = useEditorStore();
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState(layer.name);
   const {
@@ -41,7 +58,9 @@ const LayerItem = ({ layer }: LayerItemProps) => {
     opacity: isDragging ? 0.5 : 1,
   };
 
-  const isSelected = selectedLayerId === layer.id;
+  const isSelected = selectedLayerIds.includes(layer.id);
+  const isGroup = isGroupLayer(layer);
+  const isClipped = !!layer.clipToBelow && hasLayerBelow;
 
   const handleNameClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -77,16 +96,17 @@ const LayerItem = ({ layer }: LayerItemProps) => {
   return (
     <div
       ref={setNodeRef}
-      style={style}
+      style={{ ...style, marginLeft: depth * 14 }}
       className={`card mb-2 cursor-pointer ${
         isSelected
           ? 'bg-gradient-to-r from-tesla-red/20 to-tesla-red/30 border-tesla-red/50 shadow-tesla-red/10'
           : 'hover:bg-tesla-black/80'
       }`}
-      onClick={() => setSelection(layer.id)}
+      onClick={onSelect}
       onContextMenu={(e) => {
         e.preventDefault();
-        setSelection(layer.id);
+        // Keep a multi-selection when right-clicking one of its layers
+        if (!isSelected) setSelection(layer.id);
         openLayerContextMenu(layer.id, e.clientX, e.clientY);
       }}
     >
@@ -100,6 +120,38 @@ const LayerItem = ({ layer }: LayerItemProps) => {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8h16M4 16h16" />
           </svg>
         </div>
+        {isGroup && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              updateLayer(layer.id, { collapsed: !layer.collapsed });
+            }}
+            className="-ml-2 p-0.5 rounded text-tesla-gray hover:text-tesla-light transition-colors"
+            title={layer.collapsed ? 'Expand group' : 'Collapse group'}
+          >
+            <svg className={`w-3.5 h-3.5 transition-transform ${layer.collapsed ? '-rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+        )}
+        {isClipped && (
+          <svg className="-ml-2 w-3.5 h-3.5 shrink-0 text-tesla-red" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <title>Clipped to layer below</title>
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v7a4 4 0 004 4h12m0 0l-5-5m5 5l-5 5" />
+          </svg>
+        )}
+        {isGroup && (
+          <svg className="-ml-2 w-4 h-4 shrink-0 text-tesla-gray" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+          </svg>
+        )}
+        {layer.type === 'adjustment' && (
+          <svg className="-ml-2 w-4 h-4 shrink-0 text-tesla-gray" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <title>{getAdjustmentLabel(layer.adjustment.kind)}</title>
+            <circle cx={12} cy={12} r={9} strokeWidth={2} />
+            <path d="M12 3a9 9 0 010 18z" fill="currentColor" />
+          </svg>
+        )}
         <div className="flex-1 min-w-0">
           {isEditingName ? (
             <input
@@ -123,8 +175,26 @@ const LayerItem = ({ layer }: LayerItemProps) => {
             </div>
           )}
         </div>
+        {layer.effects?.some((effect: LayerEffect) => effect.enabled) && (
+          <span className="text-[10px] font-semibold italic text-tesla-gray" title="Layer effects">fx</span>
+        )}
         {/* Action buttons inline (duplicate available via context menu) */}
         <div className="flex items-center gap-1">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleClipToBelow([layer.id]);
+            }}
+            disabled={!hasLayerBelow && !layer.clipToBelow}
+            className={`p-1 hover:bg-tesla-dark/50 disabled:opacity-30 disabled:cursor-not-allowed rounded transition-colors ${
+              isClipped ? 'text-tesla-red' : 'text-tesla-gray hover:text-tesla-light'
+            }`}
+            title={layer.clipToBelow ? 'Release clipping mask' : 'Clip to layer below'}
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v7a4 4 0 004 4h12m0 0l-5-5m5 5l-5 5" />
+            </svg>
+          </button>
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -185,8 +255,73 @@ const LayerItem = ({ layer }: LayerItemProps) => {
 };
 
 export const LayersPanel = () => {
-  const { layers, reorderLayers, currentModelId, baseColor, setBaseColor, setSelection } = useEditorStore();
+  const {
+    layers,
+    addLayer,
+    moveLayer,
+    groupLayers,
+    updateLayer,
+    selectedLayerId,
+    selectedLayerIds,
+    currentModelId,
+    baseColor,
+    baseGradient,
+    setBaseColor,
+    setSelection,
+    setSelectedLayers,
+    toggleLayerSelection,
+  } = useEditorStore();
   const currentModel = carModels.find((m) => m.id === currentModelId) || carModels[0];
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [isAdjustmentMenuOpen, setIsAdjustmentMenuOpen] = useState(false);
+  const adjustmentMenuRef = useRef<HTMLDivElement>(null);
+
+  // Close the adjustment menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (adjustmentMenuRef.current && !adjustmentMenuRef.current.contains(event.target as Node)) {
+        setIsAdjustmentMenuOpen(false);
+      }
+    };
+
+    if (isAdjustmentMenuOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isAdjustmentMenuOpen]);
+
+  const handleAddAdjustment = (kind: AdjustmentKind) => {
+    setIsAdjustmentMenuOpen(false);
+    addLayer({
+      type: 'adjustment',
+      name: getAdjustmentLabel(kind),
+      adjustment: createDefaultAdjustment(kind),
+      visible: true,
+      locked: false,
+      opacity: 1,
+      x: 0,
+      y: 0,
+      rotation: 0,
+      scaleX: 1,
+      scaleY: 1,
+    });
+  };
+
+  // Flatten the tree into panel rows, skipping collapsed groups and the
+  // contents of a group while it is being dragged
+  const rows: LayerRow[] = [];
+  const collectRows = (list: Layer[], depth: number) => {
+    list.forEach((layer, index) => {
+      rows.push({ layer, depth, hasLayerBelow: index < list.length - 1 });
+      if (isGroupLayer(layer) && !layer.collapsed && layer.id !== draggingId) {
+        collectRows(layer.children, depth + 1);
+      }
+    });
+  };
+  collectRows(layers, 0);
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -195,31 +330,117 @@ export const LayersPanel = () => {
     })
   );
 
-  const handleDragStart = (event: any) => {
+  // Shift-click selects the range of rows from the primary layer, Ctrl/Cmd-click toggles a row
+  const handleRowSelect = (e: React.MouseEvent, layerId: string) => {
+    if (e.shiftKey && selectedLayerId) {
+      const from = rows.findIndex((row) => row.layer.id === selectedLayerId);
+      const to = rows.findIndex((row) => row.layer.id === layerId);
+      if (from !== -1 && to !== -1) {
+        const range = rows.slice(Math.min(from, to), Math.max(from, to) + 1).map((row) => row.layer.id);
+        // Keep the anchor as the primary layer
+        setSelectedLayers([...range.filter((id) => id !== selectedLayerId), selectedLayerId]);
+        return;
+      }
+    }
+    if (e.ctrlKey || e.metaKey) {
+      toggleLayerSelection(layerId);
+    } else {
+      setSelection(layerId);
+    }
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
     const { active } = event;
     // Automatically select the layer when dragging starts
-    setSelection(active.id);
+    if (!selectedLayerIds.includes(String(active.id))) {
+      setSelection(String(active.id));
+    }
+    setDraggingId(String(active.id));
   };
 
-  const handleDragEnd = (event: any) => {
+  const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
+    setDraggingId(null);
+    if (!over || active.id === over.id) return;
+
+    const activeId = String(active.id);
+    const overId = String(over.id);
+    // Can't drop a group into its own contents
+    if (isLayerWithin(layers, overId, activeId)) return;
+
+    // Dropping onto the middle of a group row moves the layer into that group
+    const overLayer = findLayer(layers, overId);
+    const activeRect = active.rect.current.translated;
+    if (isGroupLayer(overLayer) && activeRect) {
+      const activeCenter = activeRect.top + activeRect.height / 2;
+      const inset = over.rect.height / 4;
+      if (activeCenter > over.rect.top + inset && activeCenter < over.rect.top + over.rect.height - inset) {
+        moveLayer(activeId, overId, 0);
+        if (overLayer.collapsed) updateLayer(overId, { collapsed: false });
+        return;
+      }
+    }
 
-    if (active.id !== over.id) {
-      const oldIndex = layers.findIndex((layer) => layer.id === active.id);
-      const newIndex = layers.findIndex((layer) => layer.id === over.id);
-      reorderLayers(oldIndex, newIndex);
+    // Otherwise take the place of the row it was dropped on, within that row's parent
+    const activeLocation = getLayerLocation(layers, activeId);
+    const overLocation = getLayerLocation(layers, overId);
+    if (!activeLocation || !overLocation) return;
+    const movingDown = rows.findIndex((row) => row.layer.id === activeId) < rows.findIndex((row) => row.layer.id === overId);
+    let index = overLocation.index + (movingDown ? 1 : 0);
+    if (activeLocation.parentId === overLocation.parentId && activeLocation.index < index) {
+      index -= 1;
     }
+    moveLayer(activeId, overLocation.parentId, index);
   };
 
   return (
     <div className="h-full panel rounded-xl flex flex-col w-64 overflow-hidden shadow-lg">
-      <div className="p-4 border-b border-tesla-dark/30">
+      <div className="p-4 border-b border-tesla-dark/30 flex items-center justify-between">
         <h2 className="text-lg font-semibold text-tesla-light flex items-center gap-2">
           <svg className="w-5 h-5 text-tesla-gray" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
           </svg>
           Layers
         </h2>
+        <div className="flex items-center gap-1">
+          <div className="relative" ref={adjustmentMenuRef}>
+            <button
+              onClick={() => setIsAdjustmentMenuOpen(!isAdjustmentMenuOpen)}
+              className="p-1.5 rounded-lg text-tesla-gray hover:text-tesla-light hover:bg-tesla-dark/30 transition-colors"
+              title="New adjustment layer"
+              aria-label="New adjustment layer"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <circle cx={12} cy={12} r={9} strokeWidth={2} />
+                <path d="M12 3a9 9 0 010 18z" fill="currentColor" />
+              </svg>
+            </button>
+            {isAdjustmentMenuOpen && (
+              <div className="absolute right-0 top-full mt-2 w-48 bg-[#1c1c1e] border border-white/10 rounded-xl shadow-2xl overflow-hidden z-[100]">
+                {ADJUSTMENT_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => handleAddAdjustment(option.value)}
+                    className="w-full px-4 py-2.5 text-left text-sm text-white hover:bg-white/5 transition-colors"
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => groupLayers(selectedLayerIds)}
+            disabled={selectedLayerIds.length === 0}
+            className="p-1.5 rounded-lg text-tesla-gray hover:text-tesla-light hover:bg-tesla-dark/30 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+            title="Group selected layers (Ctrl+G)"
+            aria-label="Group selected layers"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7zm9 3v6m-3-3h6" />
+            </svg>
+          </button>
+        </div>
       </div>
       <div className="flex-1 overflow-y-auto p-3 scrollbar-thin">
         <DndContext
@@ -227,13 +448,21 @@ export const LayersPanel = () => {
           collisionDetection={closestCenter}
           onDragStart={handleDragStart}
           onDragEnd={handleDragEnd}
+          onDragCancel={() => setDraggingId(null)}
         >
           <SortableContext
-            items={layers.map((l) => l.id)}
+            items={rows.map((row) => row.layer.id)}
             strategy={verticalListSortingStrategy}
           >
-            {layers.map((layer, index) => (
-              <LayerItem key={layer.id} layer={layer} index={index} />
+            {rows.map((row, index) => (
+              <LayerItem
+                key={row.layer.id}
+                layer={row.layer}
+                index={index}
+                depth={row.depth}
+                hasLayerBelow={row.hasLayerBelow}
+                onSelect={(e) => handleRowSelect(e, row.layer.id)}
+              />
             ))}
           </SortableContext>
         </DndContext>
@@ -246,22 +475,33 @@ export const LayersPanel = () => {
               <div className="text-xs text-tesla-gray truncate">{currentModel.name}</div>
             </div>
             <div className="flex items-center gap-2">
-              <input
-                type="color"
-                value={baseColor}
-                onChange={(e) => setBaseColor(e.target.value)}
-                className="h-8 w-8 rounded-full cursor-pointer color-circle"
-                style={{
-                  backgroundColor: baseColor,
-                  border: 'none',
-                  padding: 0,
-                  appearance: 'none',
-                  WebkitAppearance: 'none',
-                  MozAppearance: 'none',
-                }}
-                title="Base color"
-                aria-label="Base color"
-              />
+              {baseGradient ? (
+                // Gradients are edited in the properties panel, shown when nothing is selected
+                <button
+                  onClick={() => setSelection(null)}
+                  className="h-8 w-8 rounded-full cursor-pointer"
+                  style={{ background: toCssGradient(baseGradient.stops) }}
+                  title="Base gradient"
+                  aria-label="Base gradient"
+                />
+              ) : (
+                <input
+                  type="color"
+                  value={baseColor}
+                  onChange={(e) => setBaseColor(e.target.value)}
+                  className="h-8 w-8 rounded-full cursor-pointer color-circle"
+                  style={{
+                    backgroundColor: baseColor,
+                    border: 'none',
+                    padding: 0,
+                    appearance: 'none',
+                    WebkitAppearance: 'none',
+                    MozAppearance: 'none',
+                  }}
+                  title="Base color"
+                  aria-label="Base color"
+                />
+              )}
             </div>
           </div>
         </div>
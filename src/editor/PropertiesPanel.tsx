@@ -1,6 +1,34 @@
 import { useEditorStore } from './state/useEditorStore';
-import { useEffect, useState } from 'react';
+import { findLayer, flattenLayers, getSelectionRoots } from './state/layerTree';
+import type { Adjustment, AdjustmentLayer, BlendMode, ColorBalanceShift, CropAspect, GradientFill, GradientStop, ImageFilter, ImageFilterType, ImageLayer, Layer, LayerEffect, LayerEffectType, TextLayer, TextPathSettings, TextWarpStyle, TextureLayer, SelectionMode, PressureCurve, BrushTip, BrushTipShape, SymmetryMode, FillSampleSource, FillContent } from './state/editorTypes';
+import { useEffect, useRef, useState } from 'react';
 import type { ReactNode } from 'react';
+import type { Stage as StageType } from 'konva/lib/Stage';
+import { getAlignedPositions, getDistributedPositions } from '../utils/align';
+import type { AlignMode, DistributeAxis, LayerPosition } from '../utils/align';
+import { BLEND_MODE_OPTIONS } from '../utils/blendModes';
+import { rasterizeMaskedLayer } from '../utils/layerMask';
+import { ADJUSTMENT_OPTIONS, CURVE_INPUTS, createDefaultAdjustment, evaluateCurve, getAdjustmentLabel } from '../utils/adjustments';
+import type { AdjustmentKind } from '../utils/adjustments';
+import { LAYER_EFFECT_OPTIONS, createLayerEffect, getLayerEffectLabel } from '../utils/layerEffects';
+import { createGradient, getGradientColorAt, toCssGradient } from '../utils/gradients';
+import { TEXT_PATH_SHAPE_OPTIONS, createTextPath, getTextPathFromLayer } from '../utils/textPath';
+import { TEXT_WARP_OPTIONS } from '../utils/textWarp';
+import { TEXT_CASE_OPTIONS } from '../utils/textStyle';
+import { FONT_FILE_ACCEPT, isFontFile, readFontFile } from '../utils/customFonts';
+import { CROP_ASPECT_OPTIONS, fitCropToAspect, getCropAspectRatio, getCropChanges } from '../utils/crop';
+import { IMAGE_FILTER_AMOUNTS, IMAGE_FILTER_OPTIONS, createImageFilter, getImageFilterLabel } from '../utils/imageFilters';
+import { BACKGROUND_REMOVAL_MODE_OPTIONS, DEFAULT_BACKGROUND_REMOVAL, detectBackgroundColor, removeBackground } from '../utils/backgroundRemoval';
+import type { BackgroundRemovalMode, BackgroundRemovalOptions } from '../utils/backgroundRemoval';
+import { PRESSURE_CURVE_OPTIONS } from '../utils/penPressure';
+import { SYMMETRY_MODE_OPTIONS } from '../utils/symmetry';
+import { BRUSH_TIP_OPTIONS, BUILT_IN_BRUSH_PRESETS, createStampSrc } from '../utils/brushTips';
+import { SELECTION_MODE_OPTIONS, copySelectionPixels, invertSelection, isSelectionTool, toPixelSelection } from '../utils/selection';
+import { createTransformedCopy, drawRegionSelection, getOppositeSideTransform, getRegionAt, getRegionPixels } from '../utils/carRegions';
+import { createFillLayerData } from '../utils/fillImage';
+import { carModels } from '../data/carModels';
+import { getCounterpartRegion } from '../data/carRegions';
+import { loadImage } from '../utils/image';
 import { 
   ChevronDown, 
   Move, 
@@ -12,7 +40,35 @@ import {
   Star,
   Paintbrush,
   Droplet,
-  Layers
+  Folder,
+  Layers,
+  SquareDashed,
+  Contrast,
+  Sparkles,
+  Spline,
+  Trash2,
+  PaintBucket,
+  PenTool,
+  SprayCan,
+  FlipHorizontal2,
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+  CaseSensitive,
+  Upload,
+  Crop,
+  ChevronUp,
+  SlidersHorizontal,
+  Wand2,
+  Pipette,
+  Lasso,
+  Eraser,
+  Car,
 } from 'lucide-react';
 
 // Comprehensive font list organized by category
@@ -298,216 +354,2054 @@ const ToggleButtonGroup = ({ label, value, options, onChange }: ToggleButtonGrou
   </div>
 );
 
+interface ActionButtonGroupProps {
+  label: string;
+  options: { value: string; label: string; icon: ReactNode }[];
+  onClick: (value: string) => void;
+  disabled?: boolean;
+}
+
+const ActionButtonGroup = ({ label, options, onClick, disabled }: ActionButtonGroupProps) => (
+  <div className="space-y-1.5">
+    <label className="text-xs font-medium text-tesla-gray">{label}</label>
+    <div className="flex gap-1 p-1 bg-tesla-black/40 rounded-lg">
+      {options.map((opt) => (
+        <button
+          key={opt.value}
+          onClick={() => onClick(opt.value)}
+          disabled={disabled}
+          title={opt.label}
+          aria-label={opt.label}
+          className="flex-1 flex items-center justify-center px-2 py-2 rounded-md text-tesla-gray hover:text-tesla-light hover:bg-tesla-dark/30 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
+        >
+          {opt.icon}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+// ============================================================================
+// FILL EDITOR
+// ============================================================================
+
+interface GradientStopBarProps {
+  stops: GradientStop[];
+  onChange: (stops: GradientStop[]) => void;
+}
+
+// Click the bar to add a stop, drag a marker to move it
+const GradientStopBar = ({ stops, onChange }: GradientStopBarProps) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const barRef = useRef<HTMLDivElement>(null);
+  const selected = stops[Math.min(selectedIndex, stops.length - 1)];
+
+  const offsetAt = (clientX: number) => {
+    const rect = barRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+  };
+
+  const updateStop = (index: number, changes: Partial<GradientStop>) => {
+    onChange(stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)));
+  };
+
+  const addStop = (e: React.MouseEvent) => {
+    const offset = offsetAt(e.clientX);
+    onChange([...stops, { offset, color: getGradientColorAt(stops, offset) }]);
+    setSelectedIndex(stops.length);
+  };
+
+  const removeStop = () => {
+    onChange(stops.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(0);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <label className="text-xs font-medium text-tesla-gray">Stops</label>
+        <div className="relative pb-3">
+          <div
+            ref={barRef}
+            onClick={addStop}
+            className="h-6 rounded-md border border-tesla-dark/50 cursor-copy"
+            style={{ background: toCssGradient(stops) }}
+            title="Click to add a stop"
+          />
+          {stops.map((stop, index) => (
+            <div
+              key={index}
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setSelectedIndex(index);
+              }}
+              onPointerMove={(e) => {
+                if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+                  updateStop(index, { offset: offsetAt(e.clientX) });
+                }
+              }}
+              className={`absolute top-4 w-3 h-3 -ml-1.5 rounded-sm border-2 cursor-ew-resize ${
+                index === selectedIndex ? 'border-tesla-red' : 'border-white'
+              }`}
+              style={{ left: `${stop.offset * 100}%`, backgroundColor: stop.color }}
+              title={`${Math.round(stop.offset * 100)}%`}
+            />
+          ))}
+        </div>
+      </div>
+
+      {selected && (
+        <>
+          <ColorPicker label="Stop Color" value={selected.color} onChange={(v) => updateStop(selectedIndex, { color: v })} />
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <NumberInput
+                label="Location"
+                value={Math.round(selected.offset * 100)}
+                min={0}
+                max={100}
+                unit="%"
+                onChange={(v) => updateStop(selectedIndex, { offset: Math.max(0, Math.min(100, v)) / 100 })}
+              />
+            </div>
+            <button
+              onClick={removeStop}
+              disabled={stops.length <= 2}
+              className="p-2.5 mb-0.5 rounded-lg text-tesla-gray hover:text-tesla-red hover:bg-tesla-red/20 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              title="Remove stop"
+              aria-label="Remove stop"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface FillEditorProps {
+  label: string;
+  color: string;
+  gradient?: GradientFill | null;
+  // Area a new gradient spans, in the gradient's coordinate space
+  getBounds: () => { x: number; y: number; width: number; height: number };
+  onColorChange: (color: string) => void;
+  onGradientChange: (gradient: GradientFill | null) => void;
+}
+
+// Solid colour or linear/radial gradient; gradient end points are dragged on the canvas
+const FillEditor = ({ label, color, gradient, getBounds, onColorChange, onGradientChange }: FillEditorProps) => {
+  const changeType = (type: string) => {
+    if (type === 'solid') {
+      onGradientChange(null);
+    } else if (type !== gradient?.type) {
+      const created = createGradient(type as GradientFill['type'], getBounds(), color);
+      onGradientChange(gradient ? { ...created, stops: gradient.stops } : created);
+    }
+  };
+
+  return (
+    <>
+      <ToggleButtonGroup
+        label={label}
+        value={gradient?.type ?? 'solid'}
+        options={[
+          { value: 'solid', label: 'Solid' },
+          { value: 'linear', label: 'Linear' },
+          { value: 'radial', label: 'Radial' },
+        ]}
+        onChange={changeType}
+      />
+      {gradient ? (
+        <>
+          <GradientStopBar stops={gradient.stops} onChange={(stops) => onGradientChange({ ...gradient, stops })} />
+          <p className="text-xs text-tesla-dark">Drag the handles on the canvas to place the gradient.</p>
+        </>
+      ) : (
+        <ColorPicker label={`${label} Color`} value={color} onChange={onColorChange} />
+      )}
+    </>
+  );
+};
+
+// ============================================================================
+// BASE PAINT SECTION
+// ============================================================================
+
+// Paint under every layer, masked to the car; shown when no layer is selected
+const BasePaintSection = () => {
+  const { baseColor, baseGradient, setBaseColor, setBaseGradient, pushHistory } = useEditorStore();
+
+  return (
+    <CollapsibleSection title="Base Paint" icon={<PaintBucket className="w-4 h-4" />}>
+      <FillEditor
+        label="Paint"
+        color={baseColor}
+        gradient={baseGradient}
+        getBounds={() => ({ x: 0, y: 0, width: 1024, height: 1024 })}
+        onColorChange={setBaseColor}
+        onGradientChange={(gradient) => {
+          // Switching between solid and gradient is an undo step; editing stops is not
+          const switched = !gradient !== !baseGradient || gradient?.type !== baseGradient?.type;
+          setBaseGradient(gradient);
+          if (switched) pushHistory();
+        }}
+      />
+    </CollapsibleSection>
+  );
+};
+
+// ============================================================================
+// MULTI-SELECTION PANEL
+// ============================================================================
+
+interface MultiSelectionPanelProps {
+  stageRef: React.RefObject<StageType | null>;
+}
+
+const MultiSelectionPanel = ({ stageRef }: MultiSelectionPanelProps) => {
+  const { layers, selectedLayerIds, updateLayer, pushHistory } = useEditorStore();
+  // Locked layers stay put; layers inside a selected group move with the group.
+  // Adjustment layers have no bounds to arrange.
+  const movableIds = getSelectionRoots(layers, selectedLayerIds)
+    .filter((layer) => !layer.locked && layer.type !== 'adjustment')
+    .map((layer) => layer.id);
+
+  const applyPositions = (positions: LayerPosition[]) => {
+    if (positions.length === 0) return;
+    positions.forEach(({ id, x, y }) => updateLayer(id, { x, y }));
+    pushHistory();
+  };
+
+  return (
+    <CollapsibleSection title="Arrange" icon={<AlignCenterVertical className="w-4 h-4" />}>
+      <ActionButtonGroup
+        label="Align"
+        disabled={movableIds.length < 2}
+        options={[
+          { value: 'left', label: 'Align left', icon: <AlignStartVertical className="w-4 h-4" /> },
+          { value: 'center', label: 'Align center', icon: <AlignCenterVertical className="w-4 h-4" /> },
+          { value: 'right', label: 'Align right', icon: <AlignEndVertical className="w-4 h-4" /> },
+          { value: 'top', label: 'Align top', icon: <AlignStartHorizontal className="w-4 h-4" /> },
+          { value: 'middle', label: 'Align middle', icon: <AlignCenterHorizontal className="w-4 h-4" /> },
+          { value: 'bottom', label: 'Align bottom', icon: <AlignEndHorizontal className="w-4 h-4" /> },
+        ]}
+        onClick={(mode) => {
+          if (!stageRef.current) return;
+          applyPositions(getAlignedPositions(stageRef.current, movableIds, mode as AlignMode));
+        }}
+      />
+      <ActionButtonGroup
+        label="Distribute spacing"
+        disabled={movableIds.length < 3}
+        options={[
+          { value: 'horizontal', label: 'Distribute horizontally', icon: <AlignHorizontalDistributeCenter className="w-4 h-4" /> },
+          { value: 'vertical', label: 'Distribute vertically', icon: <AlignVerticalDistributeCenter className="w-4 h-4" /> },
+        ]}
+        onClick={(axis) => {
+          if (!stageRef.current) return;
+          applyPositions(getDistributedPositions(stageRef.current, movableIds, axis as DistributeAxis));
+        }}
+      />
+    </CollapsibleSection>
+  );
+};
+
 // ============================================================================
 // FILL SETTINGS PANEL
 // ============================================================================
 
-const FillSettingsPanel = () => {
-  const { brushSettings, setBrushSettings } = useEditorStore();
-  
+const FillSettingsPanel = () => {
+  const { brushSettings, setBrushSettings, fillSettings, setFillSettings, layers } = useEditorStore();
+  const textureInputRef = useRef<HTMLInputElement>(null);
+  // Texture layers already in the design can be filled with
+  const textureLayers = flattenLayers(layers).filter((l): l is TextureLayer => l.type === 'texture' && !!l.image);
+
+  const handleTextureUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      const src = event.target?.result as string;
+      try {
+        await loadImage(src);
+        setFillSettings({ content: 'texture', textureSrc: src });
+      } catch (error) {
+        console.error('Failed to load texture:', error);
+        alert(`${file.name} is not an image this browser can read.`);
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+  
+  return (
+    <CollapsibleSection title="Fill Settings" icon={<Droplet className="w-4 h-4" />}>
+      <SelectInput
+        label="Sample"
+        value={fillSettings.sample}
+        options={[
+          { value: 'template', label: 'Template panel' },
+          { value: 'allLayers', label: 'All layers' },
+          { value: 'currentLayer', label: 'Current layer' },
+        ]}
+        onChange={(sample) => setFillSettings({ sample: sample as FillSampleSource })}
+      />
+      {fillSettings.sample !== 'template' && (
+        <SliderControl
+          label="Tolerance"
+          value={fillSettings.tolerance}
+          min={0}
+          max={100}
+          unit="%"
+          onChange={(tolerance) => setFillSettings({ tolerance })}
+          hint="How different a colour the fill still spreads into"
+        />
+      )}
+      <SliderControl
+        label="Expand Edge"
+        value={fillSettings.expand}
+        min={0}
+        max={4}
+        unit="px"
+        onChange={(expand) => setFillSettings({ expand })}
+        hint="Grows the fill under anti-aliased outlines"
+      />
+      <label className="flex items-center gap-3 cursor-pointer p-3 bg-tesla-dark/20 rounded-lg border border-tesla-dark/20 hover:border-tesla-dark/40 transition-colors">
+        <input
+          type="checkbox"
+          checked={fillSettings.contiguous}
+          onChange={(e) => setFillSettings({ contiguous: e.target.checked })}
+          className="w-4 h-4 rounded border-tesla-dark/50 bg-tesla-black/60 text-tesla-red focus:ring-tesla-red/50 focus:ring-offset-0"
+        />
+        <span className="text-sm text-tesla-light">Contiguous</span>
+      </label>
+
+      <ToggleButtonGroup
+        label="Fill With"
+        value={fillSettings.content}
+        options={[
+          { value: 'color', label: 'Colour' },
+          { value: 'gradient', label: 'Gradient' },
+          { value: 'texture', label: 'Texture' },
+        ]}
+        onChange={(content) => setFillSettings({ content: content as FillContent })}
+      />
+      {fillSettings.content === 'color' && (
+        <ColorPicker
+          label="Fill Color"
+          value={brushSettings.color}
+          onChange={(color) => setBrushSettings({ color })}
+        />
+      )}
+      {fillSettings.content === 'gradient' && (
+        <>
+          <ToggleButtonGroup
+            label="Gradient"
+            value={fillSettings.gradientType}
+            options={[
+              { value: 'linear', label: 'Linear' },
+              { value: 'radial', label: 'Radial' },
+            ]}
+            onChange={(type) => setFillSettings({ gradientType: type as GradientFill['type'] })}
+          />
+          <GradientStopBar stops={fillSettings.gradientStops} onChange={(gradientStops) => setFillSettings({ gradientStops })} />
+        </>
+      )}
+      {fillSettings.content === 'texture' && (
+        <>
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-medium text-tesla-gray">Texture</label>
+              <button
+                onClick={() => textureInputRef.current?.click()}
+                className="flex items-center gap-1 text-xs text-tesla-gray hover:text-tesla-light transition-colors"
+                title="Upload an image to fill with"
+              >
+                <Upload className="w-3 h-3" />
+                Upload Texture
+              </button>
+              <input
+                ref={textureInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleTextureUpload}
+                className="hidden"
+                aria-label="Upload fill texture"
+              />
+            </div>
+            {fillSettings.textureSrc && (
+              <div className="flex justify-center p-2 bg-tesla-light/80 rounded-lg">
+                <img src={fillSettings.textureSrc} alt="Current fill texture" className="h-12 object-contain" />
+              </div>
+            )}
+            {textureLayers.length > 0 ? (
+              <div className="flex flex-wrap gap-1.5">
+                {textureLayers.map((l) => (
+                  <button
+                    key={l.id}
+                    onClick={() => setFillSettings({ textureSrc: l.src })}
+                    className="w-10 h-10 rounded-md overflow-hidden border border-tesla-dark/40 hover:border-tesla-red/60 transition-all"
+                    title={`Fill with ${l.name}`}
+                  >
+                    <img src={l.src} alt={l.name} className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            ) : (
+              !fillSettings.textureSrc && <p className="text-xs text-tesla-dark">Upload an image, or add a texture layer to fill with it.</p>
+            )}
+          </div>
+          <SliderControl
+            label="Texture Scale"
+            value={fillSettings.textureScale}
+            min={10}
+            max={400}
+            step={5}
+            unit="%"
+            onChange={(textureScale) => setFillSettings({ textureScale })}
+          />
+        </>
+      )}
+    </CollapsibleSection>
+  );
+};
+
+// ============================================================================
+// SELECTION SETTINGS PANEL
+// ============================================================================
+
+interface SelectionSettingsPanelProps {
+  stageRef: React.RefObject<StageType | null>;
+}
+
+// Settings of the selection tools, and commands for the current pixel selection
+const SelectionSettingsPanel = ({ stageRef }: SelectionSettingsPanelProps) => {
+  const {
+    activeTool,
+    selectionSettings,
+    setSelectionSettings,
+    pixelSelection,
+    setPixelSelection,
+    layers,
+    selectedLayerId,
+    selectedLayerIds,
+    deleteInsideSelection,
+    copySelectionToLayer,
+  } = useEditorStore();
+  // Copying and deleting work on the one selected layer
+  const layer = selectedLayerIds.length === 1 ? findLayer(layers, selectedLayerId) : undefined;
+
+  const buttonClass = 'px-3 py-2 bg-tesla-dark/30 border border-tesla-dark/40 rounded-lg text-xs font-medium text-tesla-light hover:bg-tesla-dark/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+  const handleCopy = () => {
+    const stage = stageRef.current;
+    if (!stage || !layer || !pixelSelection) return;
+    const pixels = copySelectionPixels(stage, layer, pixelSelection);
+    if (pixels) copySelectionToLayer(layer.id, pixels);
+  };
+
+  return (
+    <CollapsibleSection title="Selection" icon={<Lasso className="w-4 h-4" />}>
+      {isSelectionTool(activeTool) && (
+        <>
+          <ToggleButtonGroup
+            label="Mode"
+            value={selectionSettings.mode}
+            options={SELECTION_MODE_OPTIONS}
+            onChange={(v) => setSelectionSettings({ mode: v as SelectionMode })}
+          />
+          <p className="text-xs text-tesla-dark">Hold Shift to add, Alt to subtract, or both to intersect.</p>
+          <SliderControl
+            label="Feather"
+            value={selectionSettings.feather}
+            min={0}
+            max={100}
+            unit="px"
+            onChange={(feather) => setSelectionSettings({ feather })}
+          />
+          {activeTool === 'magicWand' && (
+            <SliderControl
+              label="Tolerance"
+              value={selectionSettings.tolerance}
+              min={0}
+              max={100}
+              unit="%"
+              onChange={(tolerance) => setSelectionSettings({ tolerance })}
+              hint="How different a template colour the wand still picks up"
+            />
+          )}
+        </>
+      )}
+
+      {pixelSelection ? (
+        <>
+          <p className="text-xs text-tesla-gray">
+            {pixelSelection.bounds.width} × {pixelSelection.bounds.height}px selected. Painting and fills stay inside it.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => setPixelSelection(null)} className={buttonClass}>
+              Deselect
+            </button>
+            <button onClick={() => setPixelSelection(invertSelection(pixelSelection))} className={buttonClass}>
+              Invert
+            </button>
+            <button onClick={handleCopy} disabled={!layer} className={buttonClass}>
+              Copy to New Layer
+            </button>
+            <button onClick={() => layer && deleteInsideSelection(layer.id)} disabled={!layer || layer.locked} className={buttonClass}>
+              Delete Inside
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-tesla-dark">Drag on the canvas to select, or click a template panel with the magic wand.</p>
+      )}
+    </CollapsibleSection>
+  );
+};
+
+// ============================================================================
+// SYMMETRY PANEL
+// ============================================================================
+
+const SymmetrySettingsPanel = () => {
+  const { symmetry, setSymmetry } = useEditorStore();
+  const buttonClass = 'px-3 py-2 bg-tesla-dark/30 border border-tesla-dark/40 rounded-lg text-xs font-medium text-tesla-light hover:bg-tesla-dark/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+  const showVerticalAxis = symmetry.mode === 'vertical' || symmetry.mode === 'both';
+  const showHorizontalAxis = symmetry.mode === 'horizontal' || symmetry.mode === 'both';
+
+  return (
+    <CollapsibleSection title="Symmetry" icon={<FlipHorizontal2 className="w-4 h-4" />}>
+      <ToggleButtonGroup
+        label="Mirror"
+        value={symmetry.mode}
+        options={SYMMETRY_MODE_OPTIONS}
+        onChange={(v) => setSymmetry({ mode: v as SymmetryMode })}
+      />
+      <p className="text-xs text-tesla-dark">
+        Mirrors brush strokes and new rectangles, ellipses, lines and stars across the cyan axes.
+      </p>
+      {showVerticalAxis && (
+        <SliderControl
+          label="Vertical Axis"
+          value={symmetry.x}
+          min={0}
+          max={1024}
+          unit="px"
+          onChange={(x) => setSymmetry({ x })}
+          showInput
+        />
+      )}
+      {showHorizontalAxis && (
+        <SliderControl
+          label="Horizontal Axis"
+          value={symmetry.y}
+          min={0}
+          max={1024}
+          unit="px"
+          onChange={(y) => setSymmetry({ y })}
+          showInput
+        />
+      )}
+      {symmetry.mode !== 'off' && (
+        <button onClick={() => setSymmetry({ x: 512, y: 512 })} className={buttonClass}>
+          Center Axes
+        </button>
+      )}
+    </CollapsibleSection>
+  );
+};
+
+// ============================================================================
+// PANELS SECTION
+// ============================================================================
+
+interface PanelRegionsSectionProps {
+  stageRef: React.RefObject<StageType | null>;
+  targets?: Layer[];  // Selected layers the clip and copy commands apply to
+}
+
+// Named body panels of the template: select one, fill it, clip a layer to it, or copy
+// layers across to the matching panels on the other side of the car
+const PanelRegionsSection = ({ stageRef, targets = [] }: PanelRegionsSectionProps) => {
+  const {
+    layers,
+    currentModelId,
+    templateImage,
+    brushSettings,
+    showRegionLabels,
+    setShowRegionLabels,
+    setPixelSelection,
+    clipLayerToSelection,
+    addLayer,
+    addLayers,
+  } = useEditorStore();
+  const model = carModels.find((m) => m.id === currentModelId);
+  const regions = model?.regions ?? [];
+  const regionPairs = model?.regionPairs;
+  const [regionId, setRegionId] = useState(regions[0]?.id ?? '');
+  const region = regions.find((r) => r.id === regionId) ?? regions[0];
+  // Adjustment layers have no bounds to place on a panel
+  const copyTargets = targets.filter((layer) => layer.type !== 'adjustment');
+  const buttonClass = 'px-3 py-2 bg-tesla-dark/30 border border-tesla-dark/40 rounded-lg text-xs font-medium text-tesla-light hover:bg-tesla-dark/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+  if (!region) return null;
+
+  const getRegionSelection = () => (templateImage ? toPixelSelection(drawRegionSelection(templateImage, regions, region)) : null);
+
+  const handleFill = () => {
+    if (!templateImage) return;
+    const { pixels, width, height } = getRegionPixels(templateImage, regions, region);
+    const fillLayer = createFillLayerData(pixels, width, height, brushSettings.color, `${region.name} Fill`);
+    if (fillLayer) addLayer(fillLayer);
+  };
+
+  const handleClip = () => {
+    const selection = getRegionSelection();
+    if (targets.length === 1 && selection) clipLayerToSelection(targets[0].id, selection);
+  };
+
+  // Each layer is mirrored from the panel under its centre onto that panel's counterpart
+  const handleCopyToOppositeSide = () => {
+    const stage = stageRef.current;
+    if (!stage || !templateImage) return;
+    const copies = copyTargets.flatMap((layer) => {
+      const node = stage.findOne(`#${layer.id}`);
+      if (!node) return [];
+      const box = node.getClientRect();
+      const panel = getRegionAt(templateImage, regions, { x: box.x + box.width / 2, y: box.y + box.height / 2 });
+      const counterpart = panel && getCounterpartRegion(regions, panel, regionPairs);
+      const transform = panel && getOppositeSideTransform(templateImage, regions, panel, regionPairs);
+      if (!counterpart || !transform) return [];
+      return [{ ...createTransformedCopy(layers, layer, transform), name: `${layer.name} (${counterpart.name})` }];
+    });
+    if (copies.length === 0) {
+      alert('Move the layers over a left or right side panel first.');
+      return;
+    }
+    addLayers(copies);
+  };
+
+  return (
+    <CollapsibleSection title="Panels" icon={<Car className="w-4 h-4" />} defaultOpen={targets.length === 0}>
+      <SelectInput
+        label="Panel"
+        value={region.id}
+        options={regions.map((r) => ({ value: r.id, label: r.name }))}
+        onChange={setRegionId}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => setPixelSelection(getRegionSelection())} disabled={!templateImage} className={buttonClass}>
+          Select Panel
+        </button>
+        <button onClick={handleFill} disabled={!templateImage} className={buttonClass} title="Fills with the fill colour">
+          Fill Panel
+        </button>
+        {targets.length === 1 && (
+          <button onClick={handleClip} disabled={!templateImage || targets[0].locked} className={`${buttonClass} col-span-2`}>
+            Clip Layer to Panel
+          </button>
+        )}
+        {copyTargets.length > 0 && (
+          <button
+            onClick={handleCopyToOppositeSide}
+            disabled={!templateImage}
+            className={`${buttonClass} col-span-2`}
+            title="Mirrored copies on the matching panels of the other side"
+          >
+            Copy to Opposite Side
+          </button>
+        )}
+      </div>
+      <label className="flex items-center gap-3 cursor-pointer p-3 bg-tesla-dark/20 rounded-lg border border-tesla-dark/20 hover:border-tesla-dark/40 transition-colors">
+        <input
+          type="checkbox"
+          checked={showRegionLabels}
+          onChange={(e) => setShowRegionLabels(e.target.checked)}
+          className="w-4 h-4 rounded border-tesla-dark/50 bg-tesla-black/60 text-tesla-red focus:ring-tesla-red/50 focus:ring-offset-0"
+        />
+        <span className="text-sm text-tesla-light">Name Panels on Hover</span>
+      </label>
+    </CollapsibleSection>
+  );
+};
+
+// ============================================================================
+// BRUSH SETTINGS PANEL
+// ============================================================================
+
+// Tip shape, stamp dynamics and presets of the brush
+const BrushTipSection = () => {
+  const { brushSettings, setBrushSettings, brushPresets, brushStamps, saveBrushPreset, deleteBrushPreset, addBrushStamp, layers } = useEditorStore();
+  const [presetName, setPresetName] = useState('');
+  const stampInputRef = useRef<HTMLInputElement>(null);
+  const { tip } = brushSettings;
+  const updateTip = (changes: Partial<BrushTip>) => setBrushSettings({ tip: { ...tip, ...changes } });
+  const stampSrc = brushStamps.find((stamp) => stamp.id === tip.stampId)?.src;
+  // Texture layers already in the design can be picked as stamps
+  const textureLayers = flattenLayers(layers).filter((l): l is TextureLayer => l.type === 'texture' && !!l.image);
+  const presetButtonClass = 'px-2.5 py-1.5 bg-tesla-dark/30 border border-tesla-dark/40 rounded-lg text-xs font-medium text-tesla-light hover:bg-tesla-dark/50 transition-all';
+
+  const handleStampUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      try {
+        const image = await loadImage(event.target?.result as string);
+        updateTip({ shape: 'stamp', stampId: addBrushStamp(createStampSrc(image)) });
+      } catch (error) {
+        console.error('Failed to load stamp:', error);
+        alert(`${file.name} is not an image this browser can read.`);
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSavePreset = () => {
+    if (!saveBrushPreset(presetName)) {
+      alert('There is no room left in browser storage for this preset. Delete some presets and try again.');
+      return;
+    }
+    setPresetName('');
+  };
+
+  return (
+    <CollapsibleSection title="Brush Tip" icon={<SprayCan className="w-4 h-4" />}>
+      <div className="space-y-1.5">
+        <label className="text-xs font-medium text-tesla-gray">Presets</label>
+        <div className="flex flex-wrap gap-1.5">
+          {BUILT_IN_BRUSH_PRESETS.map((preset) => (
+            <button key={preset.id} onClick={() => setBrushSettings(preset.settings)} className={presetButtonClass}>
+              {preset.name}
+            </button>
+          ))}
+          {brushPresets.map((preset) => (
+            <span key={preset.id} className="flex items-center">
+              <button onClick={() => setBrushSettings(preset.settings)} className={`${presetButtonClass} rounded-r-none`}>
+                {preset.name}
+              </button>
+              <button
+                onClick={() => deleteBrushPreset(preset.id)}
+                className={`${presetButtonClass} rounded-l-none border-l-0 px-1.5`}
+                title={`Delete ${preset.name}`}
+                aria-label={`Delete preset ${preset.name}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+            placeholder="Preset name"
+            className="flex-1 min-w-0 px-3 py-2 bg-tesla-black/50 border border-tesla-dark/40 rounded-lg text-xs text-tesla-light focus:outline-none focus:ring-2 focus:ring-tesla-red/40 transition-all"
+            aria-label="Brush preset name"
+          />
+          <button onClick={handleSavePreset} className={presetButtonClass}>
+            Save Preset
+          </button>
+        </div>
+      </div>
+
+      <SelectInput
+        label="Tip"
+        value={tip.shape}
+        options={BRUSH_TIP_OPTIONS}
+        onChange={(shape) => updateTip({ shape: shape as BrushTipShape })}
+      />
+
+      {tip.shape === 'stamp' && (
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <label className="text-xs font-medium text-tesla-gray">Stamp</label>
+            <button
+              onClick={() => stampInputRef.current?.click()}
+              className="flex items-center gap-1 text-xs text-tesla-gray hover:text-tesla-light transition-colors"
+              title="Upload an image to stamp with"
+            >
+              <Upload className="w-3 h-3" />
+              Upload Stamp
+            </button>
+            <input
+              ref={stampInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleStampUpload}
+              className="hidden"
+              aria-label="Upload stamp image"
+            />
+          </div>
+          {stampSrc && (
+            <div className="flex justify-center p-2 bg-tesla-light/80 rounded-lg">
+              <img src={stampSrc} alt="Current stamp" className="h-12 object-contain" />
+            </div>
+          )}
+          {textureLayers.length > 0 ? (
+            <div className="flex flex-wrap gap-1.5">
+              {textureLayers.map((l) => (
+                <button
+                  key={l.id}
+                  onClick={() => l.image && updateTip({ stampId: addBrushStamp(createStampSrc(l.image)) })}
+                  className="w-10 h-10 rounded-md overflow-hidden border border-tesla-dark/40 hover:border-tesla-red/60 transition-all"
+                  title={`Stamp with ${l.name}`}
+                >
+                  <img src={l.src} alt={l.name} className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          ) : (
+            !stampSrc && <p className="text-xs text-tesla-dark">Upload an image, or add a texture layer to stamp with it.</p>
+          )}
+        </div>
+      )}
+
+      {(tip.shape === 'calligraphy' || tip.shape === 'stamp') && (
+        <SliderControl
+          label="Angle"
+          value={tip.angle}
+          min={0}
+          max={180}
+          unit="°"
+          onChange={(angle) => updateTip({ angle })}
+        />
+      )}
+
+      {tip.shape === 'calligraphy' && (
+        <SliderControl
+          label="Roundness"
+          value={tip.roundness}
+          min={5}
+          max={100}
+          unit="%"
+          onChange={(roundness) => updateTip({ roundness })}
+          hint="Thickness of the nib against its width"
+        />
+      )}
+
+      {(tip.shape === 'spray' || tip.shape === 'splatter') && (
+        <SliderControl
+          label="Density"
+          value={tip.density}
+          min={1}
+          max={100}
+          unit="%"
+          onChange={(density) => updateTip({ density })}
+          hint="How many droplets each dab throws"
+        />
+      )}
+
+      <SliderControl
+        label="Scatter"
+        value={tip.scatter}
+        min={0}
+        max={200}
+        unit="%"
+        onChange={(scatter) => updateTip({ scatter })}
+        hint="How far dabs stray from the stroke"
+      />
+
+      {(tip.shape === 'calligraphy' || tip.shape === 'stamp') && (
+        <SliderControl
+          label="Angle Jitter"
+          value={tip.angleJitter}
+          min={0}
+          max={180}
+          unit="°"
+          onChange={(angleJitter) => updateTip({ angleJitter })}
+        />
+      )}
+
+      <SliderControl
+        label="Size Jitter"
+        value={tip.sizeJitter}
+        min={0}
+        max={100}
+        unit="%"
+        onChange={(sizeJitter) => updateTip({ sizeJitter })}
+      />
+    </CollapsibleSection>
+  );
+};
+
+const BrushSettingsPanel = () => {
+  const { activeTool, brushSettings, setBrushSettings } = useEditorStore();
+  const isEraser = activeTool === 'eraser';
+  // The eraser shows as white in the preview
+  const previewColor = isEraser ? '#ffffff' : brushSettings.color;
+  
+  return (
+    <>
+      <CollapsibleSection
+        title={isEraser ? 'Eraser Settings' : 'Brush Settings'}
+        icon={isEraser ? <Eraser className="w-4 h-4" /> : <Paintbrush className="w-4 h-4" />}
+      >
+        {isEraser && (
+          <p className="text-xs text-tesla-dark">
+            Erases the selected brush, image, texture or fill layer. Fill layers become image layers once erased.
+          </p>
+        )}
+
+        {/* Brush Preview */}
+        <div className="flex items-center justify-center bg-gradient-to-br from-tesla-dark/30 to-tesla-black/30 rounded-xl p-6 h-24 relative overflow-hidden border border-tesla-dark/20">
+          <div 
+            className="absolute inset-0 opacity-10"
+            style={{
+              backgroundImage: `linear-gradient(45deg, #D7DCDD 25%, transparent 25%), linear-gradient(-45deg, #D7DCDD 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #D7DCDD 75%), linear-gradient(-45deg, transparent 75%, #D7DCDD 75%)`,
+              backgroundSize: '8px 8px',
+              backgroundPosition: '0 0, 0 4px, 4px -4px, -4px 0px',
+            }}
+          />
+          <div
+            className="rounded-full transition-all relative z-10"
+            style={{
+              width: Math.min(brushSettings.size / 3, 80),
+              height: Math.min(brushSettings.size / 3, 80),
+              backgroundColor: previewColor,
+              opacity: brushSettings.opacity / 100,
+              boxShadow: brushSettings.hardness < 100 
+                ? `0 0 ${(100 - brushSettings.hardness) / 2}px ${previewColor}`
+                : 'none',
+              border: '1px solid rgba(255, 255, 255, 0.1)',
+            }}
+          />
+        </div>
+
+        <SliderControl
+          label="Size"
+          value={brushSettings.size}
+          min={1}
+          max={500}
+          unit="px"
+          onChange={(size) => setBrushSettings({ size })}
+          showInput
+        />
+
+        {activeTool === 'brush' && (
+          <ColorPicker
+            label="Color"
+            value={brushSettings.color}
+            onChange={(color) => setBrushSettings({ color })}
+          />
+        )}
+
+        <SliderControl
+          label="Hardness"
+          value={brushSettings.hardness}
+          min={0}
+          max={100}
+          unit="%"
+          onChange={(hardness) => setBrushSettings({ hardness })}
+        />
+
+        <SliderControl
+          label="Opacity"
+          value={brushSettings.opacity}
+          min={1}
+          max={100}
+          unit="%"
+          onChange={(opacity) => setBrushSettings({ opacity })}
+        />
+
+        <SliderControl
+          label="Flow"
+          value={brushSettings.flow}
+          min={1}
+          max={100}
+          unit="%"
+          onChange={(flow) => setBrushSettings({ flow })}
+        />
+
+        <SliderControl
+          label="Spacing"
+          value={brushSettings.spacing || 25}
+          min={1}
+          max={200}
+          unit="%"
+          onChange={(spacing) => setBrushSettings({ spacing })}
+          hint="Controls brush stamp spacing along stroke"
+        />
+
+        <SliderControl
+          label="Smoothing"
+          value={brushSettings.smoothing || 0}
+          min={0}
+          max={100}
+          unit="%"
+          onChange={(smoothing) => setBrushSettings({ smoothing })}
+          hint="Reduces jitter for smoother strokes"
+        />
+
+        {activeTool === 'brush' && (
+          <>
+            <SliderControl
+              label="Pressure Size"
+              value={brushSettings.pressureSize}
+              min={0}
+              max={100}
+              unit="%"
+              onChange={(pressureSize) => setBrushSettings({ pressureSize })}
+              hint="How much a light pen touch thins the stroke"
+            />
+            <SliderControl
+              label="Pressure Opacity"
+              value={brushSettings.pressureOpacity}
+              min={0}
+              max={100}
+              unit="%"
+              onChange={(pressureOpacity) => setBrushSettings({ pressureOpacity })}
+              hint="How much a light pen touch fades the stroke"
+            />
+            <ToggleButtonGroup
+              label="Pressure Curve"
+              value={brushSettings.pressureCurve}
+              options={PRESSURE_CURVE_OPTIONS}
+              onChange={(v) => setBrushSettings({ pressureCurve: v as PressureCurve })}
+            />
+            <SliderControl
+              label="Tilt Size"
+              value={brushSettings.tiltSize}
+              min={0}
+              max={100}
+              unit="%"
+              onChange={(tiltSize) => setBrushSettings({ tiltSize })}
+              hint="How much tilting the pen widens the stroke"
+            />
+          </>
+        )}
+
+        {activeTool === 'brush' && (
+          <SelectInput
+            label="Blend Mode"
+            value={brushSettings.blendMode}
+            options={[
+              { value: 'normal', label: 'Normal' },
+              { value: 'multiply', label: 'Multiply' },
+              { value: 'screen', label: 'Screen' },
+              { value: 'overlay', label: 'Overlay' },
+            ]}
+            onChange={(blendMode) => setBrushSettings({ blendMode: blendMode as any })}
+          />
+        )}
+      </CollapsibleSection>
+      {activeTool === 'brush' && <BrushTipSection />}
+    </>
+  );
+};
+
+// ============================================================================
+// TRANSFORM SECTION
+// ============================================================================
+
+interface TransformSectionProps {
+  x: number;
+  y: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+  opacity: number;
+  blendMode: BlendMode;
+  onUpdate: (key: string, value: any) => void;
+}
+
+const TransformSection = ({ x, y, rotation, scaleX, scaleY, opacity, blendMode, onUpdate }: TransformSectionProps) => (
+  <CollapsibleSection title="Transform" icon={<Move className="w-4 h-4" />}>
+    {/* Position */}
+    <div className="grid grid-cols-2 gap-3">
+      <NumberInput label="X Position" value={x} onChange={(v) => onUpdate('x', v)} unit="px" />
+      <NumberInput label="Y Position" value={y} onChange={(v) => onUpdate('y', v)} unit="px" />
+    </div>
+
+    {/* Size/Scale */}
+    <div className="grid grid-cols-2 gap-3">
+      <NumberInput label="Scale X" value={scaleX} onChange={(v) => onUpdate('scaleX', v)} step={0.1} />
+      <NumberInput label="Scale Y" value={scaleY} onChange={(v) => onUpdate('scaleY', v)} step={0.1} />
+    </div>
+
+    {/* Rotation */}
+    <div className="flex items-end gap-3">
+      <div className="flex-1">
+        <NumberInput label="Rotation" value={rotation} onChange={(v) => onUpdate('rotation', v)} unit="°" />
+      </div>
+      <div className="flex gap-1 pb-0.5">
+        {[-90, -45, 0, 45, 90].map((angle) => (
+          <button
+            key={angle}
+            onClick={() => onUpdate('rotation', angle)}
+            className={`w-8 h-8 text-xs font-medium rounded-lg transition-all ${
+              Math.round(rotation) === angle
+                ? 'bg-tesla-red text-white'
+                : 'bg-tesla-dark/40 text-tesla-gray hover:bg-tesla-dark/60 hover:text-tesla-light'
+            }`}
+          >
+            {angle}°
+          </button>
+        ))}
+      </div>
+    </div>
+
+    {/* Opacity */}
+    <SliderControl
+      label="Opacity"
+      value={Math.round(opacity * 100)}
+      min={0}
+      max={100}
+      unit="%"
+      onChange={(v) => onUpdate('opacity', v / 100)}
+    />
+
+    {/* Blend Mode */}
+    <SelectInput
+      label="Blend Mode"
+      value={blendMode}
+      options={BLEND_MODE_OPTIONS}
+      onChange={(v) => onUpdate('blendMode', v)}
+    />
+  </CollapsibleSection>
+);
+
+// ============================================================================
+// ADJUSTMENT SECTION
+// ============================================================================
+
+const COLOR_BALANCE_AXES = ['Cyan – Red', 'Magenta – Green', 'Yellow – Blue'];
+
+// Curve preview: the adjustment's response from input (left) to output (bottom up)
+const CurvePreview = ({ points }: { points: number[] }) => {
+  const path = Array.from({ length: 52 }, (_, i) => {
+    const input = Math.min(255, i * 5);
+    return `${i === 0 ? 'M' : 'L'}${input} ${255 - evaluateCurve(points, input)}`;
+  }).join(' ');
+
+  return (
+    <svg viewBox="-4 -4 263 263" className="w-full aspect-square bg-tesla-black/50 rounded-lg border border-tesla-dark/40">
+      {[64, 128, 192].map((v) => (
+        <g key={v} stroke="currentColor" className="text-tesla-dark/40" strokeWidth={1}>
+          <line x1={v} y1={0} x2={v} y2={255} />
+          <line x1={0} y1={v} x2={255} y2={v} />
+        </g>
+      ))}
+      <line x1={0} y1={255} x2={255} y2={0} stroke="currentColor" className="text-tesla-dark/60" strokeDasharray="4 4" />
+      <path d={path} fill="none" stroke="currentColor" className="text-tesla-red" strokeWidth={2} />
+      {CURVE_INPUTS.map((input, i) => (
+        <circle key={input} cx={input} cy={255 - points[i]} r={4} className="fill-white" />
+      ))}
+    </svg>
+  );
+};
+
+interface AdjustmentSectionProps {
+  layer: AdjustmentLayer;
+}
+
+const AdjustmentSection = ({ layer }: AdjustmentSectionProps) => {
+  const { updateLayer } = useEditorStore();
+  const [toneRange, setToneRange] = useState<'shadows' | 'midtones' | 'highlights'>('midtones');
+  const { adjustment } = layer;
+
+  // Changes are checked against the adjustment's own kind
+  const update = <T extends Adjustment>(current: T, changes: Partial<Omit<T, 'kind'>>) => {
+    updateLayer(layer.id, { adjustment: { ...current, ...changes } });
+  };
+
+  const changeKind = (kind: AdjustmentKind) => {
+    // Layers still carrying their default name follow the new kind
+    const renamed = layer.name === getAdjustmentLabel(adjustment.kind) ? { name: getAdjustmentLabel(kind) } : {};
+    updateLayer(layer.id, { adjustment: createDefaultAdjustment(kind), ...renamed });
+  };
+
+  return (
+    <CollapsibleSection title="Adjustment" icon={<Contrast className="w-4 h-4" />}>
+      <SelectInput
+        label="Type"
+        value={adjustment.kind}
+        options={ADJUSTMENT_OPTIONS}
+        onChange={(v) => changeKind(v as AdjustmentKind)}
+      />
+
+      {adjustment.kind === 'hueSaturation' && (
+        <>
+          <SliderControl label="Hue" value={adjustment.hue} min={-180} max={180} unit="°" onChange={(v) => update(adjustment, { hue: v })} />
+          <SliderControl label="Saturation" value={adjustment.saturation} min={-100} max={100} onChange={(v) => update(adjustment, { saturation: v })} />
+          <SliderControl label="Lightness" value={adjustment.lightness} min={-100} max={100} onChange={(v) => update(adjustment, { lightness: v })} />
+        </>
+      )}
+
+      {adjustment.kind === 'brightnessContrast' && (
+        <>
+          <SliderControl label="Brightness" value={adjustment.brightness} min={-100} max={100} onChange={(v) => update(adjustment, { brightness: v })} />
+          <SliderControl label="Contrast" value={adjustment.contrast} min={-100} max={100} onChange={(v) => update(adjustment, { contrast: v })} />
+        </>
+      )}
+
+      {adjustment.kind === 'levels' && (
+        <>
+          <SliderControl
+            label="Input Black"
+            value={adjustment.inputBlack}
+            min={0}
+            max={254}
+            onChange={(v) => update(adjustment, { inputBlack: Math.min(v, adjustment.inputWhite - 1) })}
+          />
+          <SliderControl
+            label="Input White"
+            value={adjustment.inputWhite}
+            min={1}
+            max={255}
+            onChange={(v) => update(adjustment, { inputWhite: Math.max(v, adjustment.inputBlack + 1) })}
+          />
+          <SliderControl label="Midtones (Gamma)" value={adjustment.gamma} min={0.1} max={3} step={0.01} onChange={(v) => update(adjustment, { gamma: v })} />
+          <SliderControl label="Output Black" value={adjustment.outputBlack} min={0} max={255} onChange={(v) => update(adjustment, { outputBlack: v })} />
+          <SliderControl label="Output White" value={adjustment.outputWhite} min={0} max={255} onChange={(v) => update(adjustment, { outputWhite: v })} />
+        </>
+      )}
+
+      {adjustment.kind === 'curves' && (
+        <>
+          <CurvePreview points={adjustment.points} />
+          {CURVE_INPUTS.map((input, i) => (
+            <SliderControl
+              key={input}
+              label={`Output at ${input}`}
+              value={adjustment.points[i]}
+              min={0}
+              max={255}
+              onChange={(v) => update(adjustment, { points: adjustment.points.map((p, j) => (j === i ? v : p)) })}
+            />
+          ))}
+        </>
+      )}
+
+      {adjustment.kind === 'colorBalance' && (
+        <>
+          <ToggleButtonGroup
+            label="Tones"
+            value={toneRange}
+            options={[
+              { value: 'shadows', label: 'Shadows' },
+              { value: 'midtones', label: 'Midtones' },
+              { value: 'highlights', label: 'Highlights' },
+            ]}
+            onChange={(v) => setToneRange(v as typeof toneRange)}
+          />
+          {COLOR_BALANCE_AXES.map((axis, i) => (
+            <SliderControl
+              key={axis}
+              label={axis}
+              value={adjustment[toneRange][i]}
+              min={-100}
+              max={100}
+              onChange={(v) =>
+                update(adjustment, { [toneRange]: adjustment[toneRange].map((c, j) => (j === i ? v : c)) as ColorBalanceShift })
+              }
+            />
+          ))}
+          <label className="flex items-center gap-3 cursor-pointer p-3 bg-tesla-dark/20 rounded-lg border border-tesla-dark/20 hover:border-tesla-dark/40 transition-colors">
+            <input
+              type="checkbox"
+              checked={adjustment.preserveLuminosity}
+              onChange={(e) => update(adjustment, { preserveLuminosity: e.target.checked })}
+              className="w-4 h-4 rounded border-tesla-dark/50 bg-tesla-black/60 text-tesla-red focus:ring-tesla-red/50 focus:ring-offset-0"
+            />
+            <span className="text-sm text-tesla-light">Preserve Luminosity</span>
+          </label>
+        </>
+      )}
+
+      {/* Opacity fades the adjustment in and out */}
+      <SliderControl
+        label="Opacity"
+        value={Math.round(layer.opacity * 100)}
+        min={0}
+        max={100}
+        unit="%"
+        onChange={(v) => updateLayer(layer.id, { opacity: v / 100 })}
+      />
+    </CollapsibleSection>
+  );
+};
+
+// ============================================================================
+// LAYER MASK SECTION
+// ============================================================================
+
+interface LayerMaskSectionProps {
+  layer: Layer;
+  stageRef: React.RefObject<StageType | null>;
+}
+
+const LayerMaskSection = ({ layer, stageRef }: LayerMaskSectionProps) => {
+  const {
+    activeTool,
+    maskEditLayerId,
+    addLayerMask,
+    updateLayerMask,
+    removeLayerMask,
+    applyLayerMask,
+    setMaskEditLayer,
+    setActiveTool,
+  } = useEditorStore();
+  const mask = layer.mask;
+  const isPainting = maskEditLayerId === layer.id && activeTool === 'brush';
+
+  // Painting uses the brush tool; black hides, white reveals
+  const togglePainting = () => {
+    if (isPainting) {
+      setMaskEditLayer(null);
+      setActiveTool('select');
+    } else {
+      setMaskEditLayer(layer.id);
+      setActiveTool('brush');
+    }
+  };
+
+  // Bake the mask into the layer's pixels, turning it into an image layer
+  const handleApply = async () => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const canvas = rasterizeMaskedLayer(stage, layer);
+    if (!canvas) return;
+    const src = canvas.toDataURL('image/png');
+    try {
+      const image = await loadImage(src);
+      applyLayerMask(layer.id, src, image);
+    } catch (error) {
+      console.error('Failed to apply mask:', error);
+    }
+  };
+
+  const buttonClass = 'px-3 py-2 bg-tesla-dark/30 border border-tesla-dark/40 rounded-lg text-xs font-medium text-tesla-light hover:bg-tesla-dark/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <CollapsibleSection title="Mask" icon={<SquareDashed className="w-4 h-4" />}>
+      {!mask ? (
+        <button onClick={() => addLayerMask(layer.id)} disabled={layer.locked} className={`w-full ${buttonClass}`}>
+          Add Mask
+        </button>
+      ) : (
+        <>
+          <div className="flex items-center gap-3">
+            <img
+              src={mask.src}
+              alt="Layer mask"
+              className={`w-14 h-14 rounded-lg border border-tesla-dark/40 bg-tesla-black/60 ${mask.inverted ? 'invert' : ''} ${mask.enabled ? '' : 'opacity-40'}`}
+            />
+            <div className="flex-1 space-y-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={mask.enabled}
+                  onChange={(e) => updateLayerMask(layer.id, { enabled: e.target.checked })}
+                  className="w-4 h-4 rounded border-tesla-dark/50 bg-tesla-black/60 text-tesla-red focus:ring-tesla-red/50"
+                />
+                <span className="text-xs text-tesla-light">Enabled</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={mask.inverted}
+                  onChange={(e) => updateLayerMask(layer.id, { inverted: e.target.checked })}
+                  className="w-4 h-4 rounded border-tesla-dark/50 bg-tesla-black/60 text-tesla-red focus:ring-tesla-red/50"
+                />
+                <span className="text-xs text-tesla-light">Inverted</span>
+              </label>
+            </div>
+          </div>
+
+          <button
+            onClick={togglePainting}
+            disabled={layer.locked}
+            className={`w-full px-3 py-2 rounded-lg text-xs font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+              isPainting
+                ? 'bg-tesla-red text-white'
+                : 'bg-tesla-dark/30 border border-tesla-dark/40 text-tesla-light hover:bg-tesla-dark/50'
+            }`}
+          >
+            {isPainting ? 'Done Painting Mask' : 'Paint Mask'}
+          </button>
+          {isPainting && (
+            <p className="text-xs text-tesla-gray">Paint black to hide and white to reveal.</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={handleApply}
+              disabled={layer.locked || layer.type === 'group'}
+              className={buttonClass}
+              title={layer.type === 'group' ? 'Masks on groups cannot be applied' : 'Bake the mask into the layer'}
+            >
+              Apply Mask
+            </button>
+            <button onClick={() => removeLayerMask(layer.id)} disabled={layer.locked} className={buttonClass}>
+              Delete Mask
+            </button>
+          </div>
+        </>
+      )}
+    </CollapsibleSection>
+  );
+};
+
+// ============================================================================
+// LAYER EFFECTS SECTION
+// ============================================================================
+
+interface LayerEffectsSectionProps {
+  layer: Layer;
+}
+
+const LayerEffectsSection = ({ layer }: LayerEffectsSectionProps) => {
+  const { updateLayer, pushHistory } = useEditorStore();
+  const effects = layer.effects || [];
+
+  const setEffects = (next: LayerEffect[]) => updateLayer(layer.id, { effects: next });
+
+  const updateEffect = (id: string, changes: Partial<LayerEffect>) => {
+    setEffects(effects.map((effect) => (effect.id === id ? { ...effect, ...changes } : effect)));
+  };
+
+  // Adding and removing effects are undo steps; tweaking their settings is not
+  const addEffect = (type: LayerEffectType) => {
+    setEffects([...effects, createLayerEffect(type)]);
+    pushHistory();
+  };
+
+  const removeEffect = (id: string) => {
+    setEffects(effects.filter((effect) => effect.id !== id));
+    pushHistory();
+  };
+
+  return (
+    <CollapsibleSection title="Effects" icon={<Sparkles className="w-4 h-4" />}>
+      {effects.map((effect) => (
+        <div key={effect.id} className="p-3 space-y-3 bg-tesla-dark/20 rounded-lg border border-tesla-dark/20">
+          <div className="flex items-center gap-2">
+            <label className="flex-1 flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={effect.enabled}
+                onChange={(e) => updateEffect(effect.id, { enabled: e.target.checked })}
+                className="w-4 h-4 rounded border-tesla-dark/50 bg-tesla-black/60 text-tesla-red focus:ring-tesla-red/50"
+              />
+              <span className="text-sm font-medium text-tesla-light">{getLayerEffectLabel(effect.type)}</span>
+            </label>
+            <button
+              onClick={() => removeEffect(effect.id)}
+              disabled={layer.locked}
+              className="p-1 rounded text-tesla-gray hover:text-tesla-red hover:bg-tesla-red/20 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              title="Remove effect"
+              aria-label="Remove effect"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          {effect.enabled && (
+            <>
+              <ColorPicker label="Color" value={effect.color} onChange={(v) => updateEffect(effect.id, { color: v })} />
+              <SliderControl
+                label="Opacity"
+                value={Math.round(effect.opacity * 100)}
+                min={0}
+                max={100}
+                unit="%"
+                onChange={(v) => updateEffect(effect.id, { opacity: v / 100 })}
+              />
+              {effect.type !== 'innerShadow' && (
+                <SliderControl
+                  label={effect.type === 'stroke' ? 'Width' : 'Spread'}
+                  value={effect.size}
+                  min={0}
+                  max={30}
+                  unit="px"
+                  onChange={(v) => updateEffect(effect.id, { size: v })}
+                />
+              )}
+              <SliderControl
+                label="Blur"
+                value={effect.blur}
+                min={0}
+                max={50}
+                unit="px"
+                onChange={(v) => updateEffect(effect.id, { blur: v })}
+              />
+              <div className="grid grid-cols-2 gap-3">
+                <NumberInput label="Offset X" value={effect.offsetX} onChange={(v) => updateEffect(effect.id, { offsetX: v })} unit="px" />
+                <NumberInput label="Offset Y" value={effect.offsetY} onChange={(v) => updateEffect(effect.id, { offsetY: v })} unit="px" />
+              </div>
+            </>
+          )}
+        </div>
+      ))}
+
+      <div className="grid grid-cols-2 gap-2">
+        {LAYER_EFFECT_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => addEffect(option.value)}
+            disabled={layer.locked}
+            className="px-3 py-2 bg-tesla-dark/30 border border-tesla-dark/40 rounded-lg text-xs font-medium text-tesla-light hover:bg-tesla-dark/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            + {option.label}
+          </button>
+        ))}
+      </div>
+    </CollapsibleSection>
+  );
+};
+
+interface ImageFiltersSectionProps {
+  layer: ImageLayer | TextureLayer;
+}
+
+// Filter stack of an image or texture layer, applied top to bottom
+const ImageFiltersSection = ({ layer }: ImageFiltersSectionProps) => {
+  const { updateLayer, pushHistory } = useEditorStore();
+  const filters = layer.filters || [];
+
+  const setFilters = (next: ImageFilter[]) => updateLayer(layer.id, { filters: next });
+
+  const updateFilter = (id: string, changes: Partial<ImageFilter>) => {
+    setFilters(filters.map((filter) => (filter.id === id ? { ...filter, ...changes } : filter)));
+  };
+
+  // Adding, removing, toggling and reordering filters are undo steps; tweaking their settings is not
+  const addFilter = (type: ImageFilterType) => {
+    setFilters([...filters, createImageFilter(type)]);
+    pushHistory();
+  };
+
+  const removeFilter = (id: string) => {
+    setFilters(filters.filter((filter) => filter.id !== id));
+    pushHistory();
+  };
+
+  const toggleFilter = (id: string, enabled: boolean) => {
+    updateFilter(id, { enabled });
+    pushHistory();
+  };
+
+  const moveFilter = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= filters.length) return;
+    const next = [...filters];
+    [next[index], next[target]] = [next[target], next[index]];
+    setFilters(next);
+    pushHistory();
+  };
+
+  const iconButtonClass = 'p-1 rounded text-tesla-gray hover:text-tesla-light hover:bg-tesla-dark/40 disabled:opacity-30 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <CollapsibleSection title="Filters" icon={<SlidersHorizontal className="w-4 h-4" />}>
+      {filters.map((filter, index) => {
+        const amount = IMAGE_FILTER_AMOUNTS[filter.type];
+        return (
+          <div key={filter.id} className="p-3 space-y-3 bg-tesla-dark/20 rounded-lg border border-tesla-dark/20">
+            <div className="flex items-center gap-1">
+              <label className="flex-1 flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filter.enabled}
+                  onChange={(e) => toggleFilter(filter.id, e.target.checked)}
+                  disabled={layer.locked}
+                  className="w-4 h-4 rounded border-tesla-dark/50 bg-tesla-black/60 text-tesla-red focus:ring-tesla-red/50"
+                />
+                <span className="text-sm font-medium text-tesla-light">{getImageFilterLabel(filter.type)}</span>
+              </label>
+              <button
+                onClick={() => moveFilter(index, -1)}
+                disabled={layer.locked || index === 0}
+                className={iconButtonClass}
+                title="Move up"
+                aria-label="Move filter up"
+              >
+                <ChevronUp className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => moveFilter(index, 1)}
+                disabled={layer.locked || index === filters.length - 1}
+                className={iconButtonClass}
+                title="Move down"
+                aria-label="Move filter down"
+              >
+                <ChevronDown className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => removeFilter(filter.id)}
+                disabled={layer.locked}
+                className="p-1 rounded text-tesla-gray hover:text-tesla-red hover:bg-tesla-red/20 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                title="Remove filter"
+                aria-label="Remove filter"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            {filter.enabled && amount && (
+              <SliderControl
+                label={amount.label}
+                value={filter.amount}
+                min={amount.min}
+                max={amount.max}
+                unit={amount.unit}
+                onChange={(v) => updateFilter(filter.id, { amount: v })}
+              />
+            )}
+            {filter.enabled && filter.type === 'hsl' && (
+              <>
+                <SliderControl
+                  label="Hue"
+                  value={filter.hue ?? 0}
+                  min={-180}
+                  max={180}
+                  unit="°"
+                  onChange={(v) => updateFilter(filter.id, { hue: v })}
+                />
+                <SliderControl
+                  label="Saturation"
+                  value={filter.saturation ?? 0}
+                  min={-100}
+                  max={100}
+                  unit="%"
+                  onChange={(v) => updateFilter(filter.id, { saturation: v })}
+                />
+                <SliderControl
+                  label="Luminance"
+                  value={filter.luminance ?? 0}
+                  min={-100}
+                  max={100}
+                  unit="%"
+                  onChange={(v) => updateFilter(filter.id, { luminance: v })}
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="grid grid-cols-2 gap-2">
+        {IMAGE_FILTER_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => addFilter(option.value)}
+            disabled={layer.locked}
+            className="px-3 py-2 bg-tesla-dark/30 border border-tesla-dark/40 rounded-lg text-xs font-medium text-tesla-light hover:bg-tesla-dark/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            + {option.label}
+          </button>
+        ))}
+      </div>
+    </CollapsibleSection>
+  );
+};
+
+interface CropSectionProps {
+  layer: ImageLayer;
+}
+
+// Crop mode for an image layer: presets and actions for the frame drawn on the canvas
+const CropSection = ({ layer }: CropSectionProps) => {
+  const { cropEdit, startCrop, updateCropEdit, applyCrop, cancelCrop, updateLayer, pushHistory } = useEditorStore();
+  const isCropping = cropEdit?.layerId === layer.id;
+  const isCropped = !!(layer.cropWidth && layer.cropHeight);
+  const image = layer.image;
+
+  const buttonClass = 'px-3 py-2 bg-tesla-dark/30 border border-tesla-dark/40 rounded-lg text-xs font-medium text-tesla-light hover:bg-tesla-dark/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+  const setAspect = (value: string) => {
+    if (!cropEdit || !image) return;
+    const aspect = value as CropAspect;
+    updateCropEdit({ aspect, rect: fitCropToAspect(cropEdit.rect, getCropAspectRatio(aspect, image)) });
+  };
+
+  // Shows the whole picture again; as an undo step when not cropping
+  const handleReset = () => {
+    if (!image) return;
+    if (isCropping) {
+      updateCropEdit({ rect: { x: 0, y: 0, width: image.width, height: image.height }, aspect: 'free' });
+    } else {
+      updateLayer(layer.id, getCropChanges(layer, { x: 0, y: 0, width: image.width, height: image.height }, image));
+      pushHistory();
+    }
+  };
+
   return (
-    <CollapsibleSection title="Fill Settings" icon={<Droplet className="w-4 h-4" />}>
-      <ColorPicker
-        label="Fill Color"
-        value={brushSettings.color}
-        onChange={(color) => setBrushSettings({ color })}
-      />
+    <CollapsibleSection title="Crop" icon={<Crop className="w-4 h-4" />}>
+      {!isCropping ? (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => startCrop(layer.id)} disabled={layer.locked || !image} className={buttonClass}>
+              Crop Image
+            </button>
+            <button onClick={handleReset} disabled={layer.locked || !isCropped} className={buttonClass}>
+              Reset Crop
+            </button>
+          </div>
+          <p className="text-xs text-tesla-dark">Or double-click the image on the canvas.</p>
+        </>
+      ) : (
+        <>
+          <SelectInput label="Aspect" value={cropEdit.aspect} options={CROP_ASPECT_OPTIONS} onChange={setAspect} />
+          <p className="text-xs text-tesla-gray">
+            {Math.round(cropEdit.rect.width)} × {Math.round(cropEdit.rect.height)}px. Drag the frame or its handles on the canvas.
+          </p>
+          <div className="grid grid-cols-3 gap-2">
+            <button onClick={handleReset} className={buttonClass}>
+              Reset
+            </button>
+            <button onClick={cancelCrop} className={buttonClass}>
+              Cancel
+            </button>
+            <button
+              onClick={applyCrop}
+              className="px-3 py-2 bg-tesla-red rounded-lg text-xs font-medium text-white hover:bg-tesla-red/90 transition-all"
+            >
+              Apply
+            </button>
+          </div>
+        </>
+      )}
     </CollapsibleSection>
   );
 };
 
-// ============================================================================
-// BRUSH SETTINGS PANEL
-// ============================================================================
+interface BackgroundRemovalSectionProps {
+  layer: ImageLayer;
+}
+
+// Clears a logo's white or coloured box. The result replaces the layer's image as one undo step.
+const BackgroundRemovalSection = ({ layer }: BackgroundRemovalSectionProps) => {
+  const { updateLayer, pushHistory } = useEditorStore();
+  const [options, setOptions] = useState<BackgroundRemovalOptions>(DEFAULT_BACKGROUND_REMOVAL);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const buttonClass = 'px-3 py-2 bg-tesla-dark/30 border border-tesla-dark/40 rounded-lg text-xs font-medium text-tesla-light hover:bg-tesla-dark/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+  const setOption = (changes: Partial<BackgroundRemovalOptions>) => setOptions((prev) => ({ ...prev, ...changes }));
+
+  const handlePickColor = async () => {
+    const image = layer.image ?? (await loadImage(layer.src));
+    setOption({ color: detectBackgroundColor(image) });
+  };
+
+  const handleRemove = async () => {
+    setIsProcessing(true);
+    try {
+      const { src, image } = await removeBackground(layer.image ?? layer.src, options);
+      updateLayer(layer.id, { src, image });
+      pushHistory();
+    } catch (error) {
+      console.error('Background removal failed:', error);
+      alert('Could not remove the background of this image.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-const BrushSettingsPanel = () => {
-  const { activeTool, brushSettings, setBrushSettings } = useEditorStore();
-  
   return (
-    <CollapsibleSection title="Brush Settings" icon={<Paintbrush className="w-4 h-4" />}>
-      {/* Brush Preview */}
-      <div className="flex items-center justify-center bg-gradient-to-br from-tesla-dark/30 to-tesla-black/30 rounded-xl p-6 h-24 relative overflow-hidden border border-tesla-dark/20">
-        <div 
-          className="absolute inset-0 opacity-10"
-          style={{
-            backgroundImage: `linear-gradient(45deg, #D7DCDD 25%, transparent 25%), linear-gradient(-45deg, #D7DCDD 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #D7DCDD 75%), linear-gradient(-45deg, transparent 75%, #D7DCDD 75%)`,
-            backgroundSize: '8px 8px',
-            backgroundPosition: '0 0, 0 4px, 4px -4px, -4px 0px',
-          }}
-        />
-        <div
-          className="rounded-full transition-all relative z-10"
-          style={{
-            width: Math.min(brushSettings.size / 3, 80),
-            height: Math.min(brushSettings.size / 3, 80),
-            backgroundColor: brushSettings.color,
-            opacity: brushSettings.opacity / 100,
-            boxShadow: brushSettings.hardness < 100 
-              ? `0 0 ${(100 - brushSettings.hardness) / 2}px ${brushSettings.color}`
-              : 'none',
-            border: '1px solid rgba(255, 255, 255, 0.1)',
-          }}
-        />
+    <CollapsibleSection title="Remove Background" icon={<Wand2 className="w-4 h-4" />} defaultOpen={false}>
+      <ToggleButtonGroup
+        label="Mode"
+        value={options.mode}
+        options={BACKGROUND_REMOVAL_MODE_OPTIONS}
+        onChange={(v) => setOption({ mode: v as BackgroundRemovalMode })}
+      />
+      <p className="text-xs text-tesla-dark">
+        {options.mode === 'flood'
+          ? 'Removes the background around the artwork, keeping matching colours inside it.'
+          : 'Removes the colour everywhere in the image.'}
+      </p>
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <ColorPicker label="Background Color" value={options.color} onChange={(v) => setOption({ color: v })} />
+        </div>
+        <button onClick={handlePickColor} className={buttonClass} title="Pick from the image corners" aria-label="Pick from the image corners">
+          <Pipette className="w-3.5 h-3.5" />
+        </button>
       </div>
+      <SliderControl label="Tolerance" value={options.tolerance} min={0} max={100} unit="%" onChange={(v) => setOption({ tolerance: v })} />
+      <SliderControl label="Feather" value={options.feather} min={0} max={50} unit="%" onChange={(v) => setOption({ feather: v })} />
+      <button onClick={handleRemove} disabled={layer.locked || isProcessing} className={`w-full ${buttonClass}`}>
+        {isProcessing ? 'Removing…' : 'Remove Background'}
+      </button>
+    </CollapsibleSection>
+  );
+};
 
-      <SliderControl
-        label="Size"
-        value={brushSettings.size}
-        min={1}
-        max={500}
-        unit="px"
-        onChange={(size) => setBrushSettings({ size })}
-        showInput
-      />
+interface TypographySectionProps {
+  layer: TextLayer;
+  getTextWidth: () => number;
+}
 
-      {activeTool === 'brush' && (
-        <ColorPicker
-          label="Color"
-          value={brushSettings.color}
-          onChange={(color) => setBrushSettings({ color })}
-        />
-      )}
+// Spacing, letter case, paragraph box and outline. Toggles are undo steps; slider drags are not.
+const TypographySection = ({ layer, getTextWidth }: TypographySectionProps) => {
+  const { updateLayer, pushHistory } = useEditorStore();
 
-      <SliderControl
-        label="Hardness"
-        value={brushSettings.hardness}
-        min={0}
-        max={100}
-        unit="%"
-        onChange={(hardness) => setBrushSettings({ hardness })}
-      />
+  const setBoxMode = (value: string) => {
+    updateLayer(layer.id, { width: value === 'fixed' ? Math.max(20, Math.round(getTextWidth())) : undefined });
+    pushHistory();
+  };
 
-      <SliderControl
-        label="Opacity"
-        value={brushSettings.opacity}
-        min={1}
-        max={100}
-        unit="%"
-        onChange={(opacity) => setBrushSettings({ opacity })}
+  return (
+    <CollapsibleSection title="Typography" icon={<CaseSensitive className="w-4 h-4" />}>
+      <ToggleButtonGroup
+        label="Case"
+        value={layer.textCase ?? 'none'}
+        options={TEXT_CASE_OPTIONS}
+        onChange={(v) => {
+          updateLayer(layer.id, { textCase: v as TextLayer['textCase'] });
+          pushHistory();
+        }}
       />
-
       <SliderControl
-        label="Flow"
-        value={brushSettings.flow}
-        min={1}
+        label="Letter Spacing"
+        value={layer.letterSpacing ?? 0}
+        min={-20}
         max={100}
-        unit="%"
-        onChange={(flow) => setBrushSettings({ flow })}
+        unit="px"
+        onChange={(v) => updateLayer(layer.id, { letterSpacing: v })}
       />
-
       <SliderControl
-        label="Spacing"
-        value={brushSettings.spacing || 25}
-        min={1}
-        max={200}
-        unit="%"
-        onChange={(spacing) => setBrushSettings({ spacing })}
-        hint="Controls brush stamp spacing along stroke"
+        label="Line Height"
+        value={layer.lineHeight ?? 1}
+        min={0.5}
+        max={3}
+        step={0.05}
+        unit="×"
+        onChange={(v) => updateLayer(layer.id, { lineHeight: v })}
       />
 
+      {!layer.textPath && (
+        <>
+          <ToggleButtonGroup
+            label="Text Box"
+            value={layer.width ? 'fixed' : 'auto'}
+            options={[
+              { value: 'auto', label: 'Auto Width' },
+              { value: 'fixed', label: 'Fixed Width' },
+            ]}
+            onChange={setBoxMode}
+          />
+          {layer.width !== undefined && (
+            <SliderControl
+              label="Box Width"
+              value={Math.round(layer.width)}
+              min={20}
+              max={1024}
+              unit="px"
+              onChange={(v) => updateLayer(layer.id, { width: v })}
+              hint="Text wraps at word breaks. The side handles on the canvas resize the box too"
+              showInput
+            />
+          )}
+        </>
+      )}
+
       <SliderControl
-        label="Smoothing"
-        value={brushSettings.smoothing || 0}
+        label="Outline Width"
+        value={layer.strokeWidth ?? 0}
         min={0}
-        max={100}
-        unit="%"
-        onChange={(smoothing) => setBrushSettings({ smoothing })}
-        hint="Reduces jitter for smoother strokes"
+        max={30}
+        unit="px"
+        onChange={(v) => updateLayer(layer.id, { strokeWidth: v })}
       />
-
-      {activeTool === 'brush' && (
-        <SelectInput
-          label="Blend Mode"
-          value={brushSettings.blendMode}
-          options={[
-            { value: 'normal', label: 'Normal' },
-            { value: 'multiply', label: 'Multiply' },
-            { value: 'screen', label: 'Screen' },
-            { value: 'overlay', label: 'Overlay' },
-          ]}
-          onChange={(blendMode) => setBrushSettings({ blendMode: blendMode as any })}
+      {!!layer.strokeWidth && (
+        <ColorPicker
+          label="Outline Color"
+          value={layer.stroke ?? '#000000'}
+          onChange={(v) => updateLayer(layer.id, { stroke: v })}
         />
       )}
     </CollapsibleSection>
   );
 };
 
-// ============================================================================
-// TRANSFORM SECTION
-// ============================================================================
-
-interface TransformSectionProps {
-  x: number;
-  y: number;
-  rotation: number;
-  scaleX: number;
-  scaleY: number;
-  opacity: number;
-  onUpdate: (key: string, value: any) => void;
+interface TextShapeSectionProps {
+  layer: TextLayer;
 }
 
-const TransformSection = ({ x, y, rotation, scaleX, scaleY, opacity, onUpdate }: TransformSectionProps) => (
-  <CollapsibleSection title="Transform" icon={<Move className="w-4 h-4" />}>
-    {/* Position */}
-    <div className="grid grid-cols-2 gap-3">
-      <NumberInput label="X Position" value={x} onChange={(v) => onUpdate('x', v)} unit="px" />
-      <NumberInput label="Y Position" value={y} onChange={(v) => onUpdate('y', v)} unit="px" />
-    </div>
+// Text on a curve, or warped straight text. Switching between them is an undo step;
+// dragging their sliders is not.
+const TextShapeSection = ({ layer }: TextShapeSectionProps) => {
+  const { layers, updateLayer, pushHistory } = useEditorStore();
+  const { textPath, warp } = layer;
+  const pathLayers = flattenLayers(layers).filter((l) => l.type === 'path');
 
-    {/* Size/Scale */}
-    <div className="grid grid-cols-2 gap-3">
-      <NumberInput label="Scale X" value={scaleX} onChange={(v) => onUpdate('scaleX', v)} step={0.1} />
-      <NumberInput label="Scale Y" value={scaleY} onChange={(v) => onUpdate('scaleY', v)} step={0.1} />
-    </div>
+  const updateTextPath = (changes: Partial<TextPathSettings>) => {
+    if (textPath) updateLayer(layer.id, { textPath: { ...textPath, ...changes } });
+  };
 
-    {/* Rotation */}
-    <div className="flex items-end gap-3">
-      <div className="flex-1">
-        <NumberInput label="Rotation" value={rotation} onChange={(v) => onUpdate('rotation', v)} unit="°" />
-      </div>
-      <div className="flex gap-1 pb-0.5">
-        {[-90, -45, 0, 45, 90].map((angle) => (
-          <button
-            key={angle}
-            onClick={() => onUpdate('rotation', angle)}
-            className={`w-8 h-8 text-xs font-medium rounded-lg transition-all ${
-              Math.round(rotation) === angle
-                ? 'bg-tesla-red text-white'
-                : 'bg-tesla-dark/40 text-tesla-gray hover:bg-tesla-dark/60 hover:text-tesla-light'
-            }`}
-          >
-            {angle}°
-          </button>
-        ))}
-      </div>
-    </div>
+  const setShape = (value: string) => {
+    updateLayer(layer.id, {
+      textPath: value === 'none' ? undefined : { ...(textPath ?? createTextPath('circle')), shape: value as TextPathSettings['shape'] },
+    });
+    pushHistory();
+  };
 
-    {/* Opacity */}
-    <SliderControl
-      label="Opacity"
-      value={Math.round(opacity * 100)}
-      min={0}
-      max={100}
-      unit="%"
-      onChange={(v) => onUpdate('opacity', v / 100)}
-    />
-  </CollapsibleSection>
-);
+  const followPath = (pathId: string) => {
+    const path = flattenLayers(layers).find((l) => l.id === pathId);
+    if (!path) return;
+    updateTextPath(getTextPathFromLayer(layers, layer, path));
+    pushHistory();
+  };
+
+  const setWarpStyle = (value: string) => {
+    updateLayer(layer.id, { warp: value === 'none' ? undefined : { style: value as TextWarpStyle, bend: warp?.bend ?? 50 } });
+    pushHistory();
+  };
+
+  return (
+    <CollapsibleSection title="Text Path & Warp" icon={<Spline className="w-4 h-4" />}>
+      <ToggleButtonGroup
+        label="Follow"
+        value={textPath?.shape ?? 'none'}
+        options={[{ value: 'none', label: 'None' }, ...TEXT_PATH_SHAPE_OPTIONS]}
+        onChange={setShape}
+      />
+
+      {textPath && (
+        <>
+          {textPath.shape === 'path' && (
+            pathLayers.length > 0 ? (
+              <SelectInput
+                label="Path"
+                value=""
+                options={[
+                  { value: '', label: textPath.anchors ? 'Follow another path…' : 'Choose a path…' },
+                  ...pathLayers.map((l) => ({ value: l.id, label: l.name })),
+                ]}
+                onChange={followPath}
+              />
+            ) : (
+              <p className="text-xs text-tesla-dark">Draw a path with the Pen tool first, then choose it here.</p>
+            )
+          )}
+          {textPath.shape !== 'path' && (
+            <SliderControl
+              label="Radius"
+              value={textPath.radius}
+              min={20}
+              max={600}
+              unit="px"
+              onChange={(v) => updateTextPath({ radius: v })}
+              showInput
+            />
+          )}
+          {textPath.shape === 'arc' && (
+            <SliderControl
+              label="Arc Angle"
+              value={textPath.arcAngle}
+              min={10}
+              max={359}
+              unit="°"
+              onChange={(v) => updateTextPath({ arcAngle: v })}
+            />
+          )}
+          <SliderControl
+            label="Start Offset"
+            value={textPath.startOffset}
+            min={0}
+            max={100}
+            unit="%"
+            onChange={(v) => updateTextPath({ startOffset: v })}
+            hint="Alignment sets whether the text starts, centres or ends here"
+          />
+          <ToggleButtonGroup
+            label="Side"
+            value={textPath.side}
+            options={[
+              { value: 'outside', label: 'Outside' },
+              { value: 'inside', label: 'Inside' },
+            ]}
+            onChange={(v) => {
+              updateTextPath({ side: v as TextPathSettings['side'] });
+              pushHistory();
+            }}
+          />
+        </>
+      )}
+
+      {!textPath && (
+        <>
+          <SelectInput
+            label="Warp"
+            value={warp?.style ?? 'none'}
+            options={[{ value: 'none', label: 'None' }, ...TEXT_WARP_OPTIONS]}
+            onChange={setWarpStyle}
+          />
+          {warp && (
+            <SliderControl
+              label="Bend"
+              value={warp.bend}
+              min={-100}
+              max={100}
+              unit="%"
+              onChange={(v) => updateLayer(layer.id, { warp: { ...warp, bend: v } })}
+            />
+          )}
+        </>
+      )}
+    </CollapsibleSection>
+  );
+};
 
 // ============================================================================
 // MAIN PROPERTIES PANEL
 // ============================================================================
 
-export const PropertiesPanel = () => {
-  const { layers, selectedLayerId, updateLayer, activeTool } = useEditorStore();
+interface PropertiesPanelProps {
+  stageRef: React.RefObject<StageType | null>;
+}
+
+export const PropertiesPanel = ({ stageRef }: PropertiesPanelProps) => {
+  const { layers, selectedLayerId, selectedLayerIds, updateLayer, ungroupLayer, activeTool, pushHistory, customFonts, addCustomFont, pixelSelection, symmetry } = useEditorStore();
+  const fontInputRef = useRef<HTMLInputElement>(null);
   
   useEffect(() => {
     loadGoogleFonts();
   }, []);
 
-  const selectedLayer = layers.find((l) => l.id === selectedLayerId);
-  const showBrushSettings = activeTool === 'brush';
+  const selectedLayer = findLayer(layers, selectedLayerId);
+  const showBrushSettings = activeTool === 'brush' || activeTool === 'eraser';
   const showFillSettings = activeTool === 'fill';
+  const showSelectionSettings = isSelectionTool(activeTool) || !!pixelSelection;
+  const showSymmetrySettings = activeTool === 'brush' || symmetry.mode !== 'off';
+
+  // Several layers selected: show arrange commands instead of per-layer properties
+  if (selectedLayerIds.length > 1) {
+    return (
+      <div className="h-full panel rounded-xl flex flex-col w-80 overflow-hidden shadow-lg">
+        <div className="p-4 border-b border-tesla-dark/30">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-tesla-red/10 flex items-center justify-center text-tesla-red">
+              <Layers className="w-5 h-5" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h2 className="text-sm font-semibold text-tesla-light truncate">{selectedLayerIds.length} Layers Selected</h2>
+              <p className="text-xs text-tesla-gray">Shift or Ctrl-click to add or remove layers</p>
+            </div>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin">
+          {showSelectionSettings && <SelectionSettingsPanel stageRef={stageRef} />}
+          {showFillSettings && <FillSettingsPanel />}
+          {showBrushSettings && <BrushSettingsPanel />}
+          {showSymmetrySettings && <SymmetrySettingsPanel />}
+          <MultiSelectionPanel stageRef={stageRef} />
+          <PanelRegionsSection stageRef={stageRef} targets={getSelectionRoots(layers, selectedLayerIds)} />
+        </div>
+      </div>
+    );
+  }
 
   // No layer selected state
   if (!selectedLayer) {
@@ -520,18 +2414,27 @@ export const PropertiesPanel = () => {
           </h2>
         </div>
         <div className="flex-1 overflow-y-auto p-4 scrollbar-thin space-y-4">
+          {showSelectionSettings && <SelectionSettingsPanel stageRef={stageRef} />}
+          {showSymmetrySettings && <SymmetrySettingsPanel />}
           {showFillSettings ? (
-            <FillSettingsPanel />
+            <>
+              <FillSettingsPanel />
+              <PanelRegionsSection stageRef={stageRef} />
+            </>
           ) : showBrushSettings ? (
             <BrushSettingsPanel />
           ) : (
-            <div className="flex flex-col items-center justify-center h-full text-center">
-              <div className="w-20 h-20 rounded-2xl bg-tesla-dark/20 flex items-center justify-center mb-4">
-                <Layers className="w-10 h-10 text-tesla-dark/60" />
+            <>
+              <BasePaintSection />
+              <PanelRegionsSection stageRef={stageRef} />
+              <div className="flex flex-col items-center justify-center py-8 text-center">
+                <div className="w-20 h-20 rounded-2xl bg-tesla-dark/20 flex items-center justify-center mb-4">
+                  <Layers className="w-10 h-10 text-tesla-dark/60" />
+                </div>
+                <p className="text-sm text-tesla-gray mb-1">No layer selected</p>
+                <p className="text-xs text-tesla-dark">Select a layer to edit its properties</p>
               </div>
-              <p className="text-sm text-tesla-gray mb-1">No layer selected</p>
-              <p className="text-xs text-tesla-dark">Select a layer to edit its properties</p>
-            </div>
+            </>
           )}
         </div>
       </div>
@@ -542,6 +2445,32 @@ export const PropertiesPanel = () => {
     updateLayer(selectedLayer.id, { [key]: value });
   };
 
+  // Uploaded fonts join the picker and are applied to the selected text straight away
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!isFontFile(file)) {
+      alert('Please choose a TTF, OTF, WOFF or WOFF2 font file.');
+      return;
+    }
+    try {
+      const font = await readFontFile(file, [...Object.values(fontCategories).flat(), ...customFonts.map((f) => f.family)]);
+      addCustomFont(font);
+      updateProperty('fontFamily', font.family);
+      pushHistory();
+    } catch (error) {
+      console.error('Failed to load font:', error);
+      alert(error instanceof Error ? error.message : 'Failed to load font');
+    }
+  };
+
+  // Local bounds of the selected shape, which new gradients span
+  const getSelectedBounds = () => {
+    const node = stageRef.current?.findOne(`#${selectedLayer.id}`);
+    return node ? node.getClientRect({ skipTransform: true }) : { x: 0, y: 0, width: 100, height: 100 };
+  };
+
   // Get layer type icon
   const getLayerIcon = () => {
     switch (selectedLayer.type) {
@@ -550,9 +2479,12 @@ export const PropertiesPanel = () => {
       case 'circle': return <Circle className="w-5 h-5" />;
       case 'image': return <Image className="w-5 h-5" />;
       case 'line': return <Minus className="w-5 h-5" />;
+      case 'path': return <PenTool className="w-5 h-5" />;
       case 'star': return <Star className="w-5 h-5" />;
       case 'brush': return <Paintbrush className="w-5 h-5" />;
       case 'fill': return <Droplet className="w-5 h-5" />;
+      case 'group': return <Folder className="w-5 h-5" />;
+      case 'adjustment': return <Contrast className="w-5 h-5" />;
       default: return <Layers className="w-5 h-5" />;
     }
   };
@@ -574,19 +2506,33 @@ export const PropertiesPanel = () => {
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin">
-        {/* Tool Settings (when brush/fill tool active) */}
+        {/* Tool Settings (when selection/brush/fill tool active) */}
+        {showSelectionSettings && <SelectionSettingsPanel stageRef={stageRef} />}
         {showFillSettings && <FillSettingsPanel />}
         {showBrushSettings && <BrushSettingsPanel />}
+        {showSymmetrySettings && <SymmetrySettingsPanel />}
 
-        {/* Fill Layer - Simple view */}
-        {selectedLayer.type === 'fill' ? (
-          <CollapsibleSection title="Fill" icon={<Droplet className="w-4 h-4" />}>
-            <ColorPicker
-              label="Fill Color"
-              value={selectedLayer.fill}
-              onChange={(v) => updateProperty('fill', v)}
-            />
-          </CollapsibleSection>
+        {/* Adjustment and Fill Layers - Simple views (adjustments have no transform) */}
+        {selectedLayer.type === 'adjustment' ? (
+          <AdjustmentSection layer={selectedLayer} />
+        ) : selectedLayer.type === 'fill' ? (
+          <>
+            <CollapsibleSection title="Fill" icon={<Droplet className="w-4 h-4" />}>
+              {selectedLayer.pixelMask ? (
+                <FillEditor
+                  label="Fill"
+                  color={selectedLayer.fill}
+                  gradient={selectedLayer.fillGradient}
+                  getBounds={getSelectedBounds}
+                  onColorChange={(v) => updateProperty('fill', v)}
+                  onGradientChange={(v) => updateProperty('fillGradient', v ?? undefined)}
+                />
+              ) : (
+                <p className="text-xs text-tesla-dark">Texture fills are baked in, so they can't be recoloured.</p>
+              )}
+            </CollapsibleSection>
+            <LayerEffectsSection layer={selectedLayer} />
+          </>
         ) : (
           <>
             {/* Text Properties - shown FIRST for text layers */}
@@ -607,7 +2553,25 @@ export const PropertiesPanel = () => {
 
                 {/* Font Family with Preview */}
                 <div className="space-y-1.5">
-                  <label className="text-xs font-medium text-tesla-gray">Font Family</label>
+                  <div className="flex items-center justify-between">
+                    <label className="text-xs font-medium text-tesla-gray">Font Family</label>
+                    <button
+                      onClick={() => fontInputRef.current?.click()}
+                      className="flex items-center gap-1 text-xs text-tesla-gray hover:text-tesla-light transition-colors"
+                      title="Upload a TTF, OTF, WOFF or WOFF2 font"
+                    >
+                      <Upload className="w-3 h-3" />
+                      Upload Font
+                    </button>
+                    <input
+                      ref={fontInputRef}
+                      type="file"
+                      accept={FONT_FILE_ACCEPT}
+                      onChange={handleFontUpload}
+                      className="hidden"
+                      aria-label="Upload font file"
+                    />
+                  </div>
                   <select
                     value={selectedLayer.fontFamily}
                     onChange={(e) => updateProperty('fontFamily', e.target.value)}
@@ -616,6 +2580,15 @@ export const PropertiesPanel = () => {
                     aria-label="Font family"
                     title="Font family"
                   >
+                    {customFonts.length > 0 && (
+                      <optgroup label="Uploaded">
+                        {customFonts.map((font) => (
+                          <option key={font.family} value={font.family} style={{ fontFamily: font.family }}>
+                            {font.family}
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
                     {Object.entries(fontCategories).map(([category, fonts]) => (
                       <optgroup key={category} label={category}>
                         {fonts.map((font) => (
@@ -645,11 +2618,14 @@ export const PropertiesPanel = () => {
                   showInput
                 />
 
-                {/* Text Color */}
-                <ColorPicker
-                  label="Text Color"
-                  value={selectedLayer.fill}
-                  onChange={(v) => updateProperty('fill', v)}
+                {/* Text Fill */}
+                <FillEditor
+                  label="Text"
+                  color={selectedLayer.fill}
+                  gradient={selectedLayer.fillGradient}
+                  getBounds={getSelectedBounds}
+                  onColorChange={(v) => updateProperty('fill', v)}
+                  onGradientChange={(v) => updateProperty('fillGradient', v ?? undefined)}
                 />
 
                 {/* Alignment */}
@@ -703,6 +2679,12 @@ export const PropertiesPanel = () => {
               </CollapsibleSection>
             )}
 
+            {selectedLayer.type === 'text' && (
+              <TypographySection layer={selectedLayer} getTextWidth={() => getSelectedBounds().width} />
+            )}
+
+            {selectedLayer.type === 'text' && <TextShapeSection layer={selectedLayer} />}
+
             {/* Rectangle Properties */}
             {selectedLayer.type === 'rect' && (
               <CollapsibleSection title="Rectangle" icon={<Square className="w-4 h-4" />}>
@@ -711,7 +2693,14 @@ export const PropertiesPanel = () => {
                   <NumberInput label="Height" value={selectedLayer.height} onChange={(v) => updateProperty('height', v)} unit="px" />
                 </div>
 
-                <ColorPicker label="Fill" value={selectedLayer.fill} onChange={(v) => updateProperty('fill', v)} />
+                <FillEditor
+                  label="Fill"
+                  color={selectedLayer.fill}
+                  gradient={selectedLayer.fillGradient}
+                  getBounds={getSelectedBounds}
+                  onColorChange={(v) => updateProperty('fill', v)}
+                  onGradientChange={(v) => updateProperty('fillGradient', v ?? undefined)}
+                />
                 
                 <ColorPicker label="Stroke" value={selectedLayer.stroke || '#000000'} onChange={(v) => updateProperty('stroke', v)} />
 
@@ -727,7 +2716,14 @@ export const PropertiesPanel = () => {
               <CollapsibleSection title="Circle" icon={<Circle className="w-4 h-4" />}>
                 <NumberInput label="Radius" value={selectedLayer.radius} onChange={(v) => updateProperty('radius', v)} unit="px" />
                 
-                <ColorPicker label="Fill" value={selectedLayer.fill} onChange={(v) => updateProperty('fill', v)} />
+                <FillEditor
+                  label="Fill"
+                  color={selectedLayer.fill}
+                  gradient={selectedLayer.fillGradient}
+                  getBounds={getSelectedBounds}
+                  onColorChange={(v) => updateProperty('fill', v)}
+                  onGradientChange={(v) => updateProperty('fillGradient', v ?? undefined)}
+                />
                 
                 <ColorPicker label="Stroke" value={selectedLayer.stroke || '#000000'} onChange={(v) => updateProperty('stroke', v)} />
 
@@ -779,6 +2775,10 @@ export const PropertiesPanel = () => {
               </CollapsibleSection>
             )}
 
+            {selectedLayer.type === 'image' && <CropSection layer={selectedLayer} />}
+            {selectedLayer.type === 'image' && <BackgroundRemovalSection layer={selectedLayer} />}
+            {(selectedLayer.type === 'image' || selectedLayer.type === 'texture') && <ImageFiltersSection layer={selectedLayer} />}
+
             {/* Line Properties */}
             {selectedLayer.type === 'line' && (
               <CollapsibleSection title="Line" icon={<Minus className="w-4 h-4" />}>
@@ -843,6 +2843,111 @@ export const PropertiesPanel = () => {
               </CollapsibleSection>
             )}
 
+            {/* Path Properties */}
+            {selectedLayer.type === 'path' && (
+              <CollapsibleSection title="Path" icon={<PenTool className="w-4 h-4" />}>
+                <div className="p-3 bg-tesla-dark/20 rounded-lg border border-tesla-dark/20">
+                  <div className="text-xs text-tesla-gray mb-1">Anchors</div>
+                  <div className="text-sm text-tesla-light">
+                    {selectedLayer.anchors.length} point(s){selectedLayer.closed ? ', closed' : ''}
+                    {selectedLayer.subpaths && ` + ${selectedLayer.subpaths.length} more contour(s)`}
+                  </div>
+                  <p className="text-xs text-tesla-dark mt-1">Drag anchors and handles on the canvas. Double-click an anchor to toggle a smooth curve.</p>
+                </div>
+
+                <label className="flex items-center gap-3 cursor-pointer p-3 bg-tesla-dark/20 rounded-lg border border-tesla-dark/20 hover:border-tesla-dark/40 transition-colors">
+                  <input
+                    type="checkbox"
+                    checked={selectedLayer.closed}
+                    onChange={(e) => {
+                      updateProperty('closed', e.target.checked);
+                      pushHistory();
+                    }}
+                    className="w-4 h-4 rounded border-tesla-dark/50 bg-tesla-black/60 text-tesla-red focus:ring-tesla-red/50"
+                  />
+                  <span className="text-sm text-tesla-light">Closed Path</span>
+                </label>
+
+                <label className="flex items-center gap-3 cursor-pointer p-3 bg-tesla-dark/20 rounded-lg border border-tesla-dark/20 hover:border-tesla-dark/40 transition-colors">
+                  <input
+                    type="checkbox"
+                    checked={selectedLayer.fill !== undefined}
+                    onChange={(e) => {
+                      updateLayer(selectedLayer.id, e.target.checked
+                        ? { fill: selectedLayer.stroke }
+                        : { fill: undefined, fillGradient: undefined });
+                      pushHistory();
+                    }}
+                    className="w-4 h-4 rounded border-tesla-dark/50 bg-tesla-black/60 text-tesla-red focus:ring-tesla-red/50"
+                  />
+                  <span className="text-sm text-tesla-light">Fill</span>
+                </label>
+
+                {selectedLayer.fill !== undefined && (
+                  <FillEditor
+                    label="Fill"
+                    color={selectedLayer.fill}
+                    gradient={selectedLayer.fillGradient}
+                    getBounds={getSelectedBounds}
+                    onColorChange={(v) => updateProperty('fill', v)}
+                    onGradientChange={(v) => updateProperty('fillGradient', v ?? undefined)}
+                  />
+                )}
+
+                <ColorPicker label="Stroke" value={selectedLayer.stroke} onChange={(v) => updateProperty('stroke', v)} />
+
+                <SliderControl
+                  label="Stroke Width"
+                  value={selectedLayer.strokeWidth}
+                  min={0}
+                  max={100}
+                  unit="px"
+                  onChange={(v) => updateProperty('strokeWidth', v)}
+                  showInput
+                />
+
+                <div className="grid grid-cols-2 gap-3">
+                  <NumberInput
+                    label="Dash"
+                    value={selectedLayer.dash?.[0] ?? 0}
+                    min={0}
+                    unit="px"
+                    onChange={(v) => updateProperty('dash', v > 0 ? [v, selectedLayer.dash?.[1] ?? v] : undefined)}
+                  />
+                  <NumberInput
+                    label="Gap"
+                    value={selectedLayer.dash?.[1] ?? 0}
+                    min={0}
+                    unit="px"
+                    onChange={(v) => selectedLayer.dash && updateProperty('dash', [selectedLayer.dash[0], v])}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <SelectInput
+                    label="Line Cap"
+                    value={selectedLayer.lineCap}
+                    options={[
+                      { value: 'butt', label: 'Butt' },
+                      { value: 'round', label: 'Round' },
+                      { value: 'square', label: 'Square' },
+                    ]}
+                    onChange={(v) => updateProperty('lineCap', v)}
+                  />
+                  <SelectInput
+                    label="Line Join"
+                    value={selectedLayer.lineJoin}
+                    options={[
+                      { value: 'miter', label: 'Miter' },
+                      { value: 'round', label: 'Round' },
+                      { value: 'bevel', label: 'Bevel' },
+                    ]}
+                    onChange={(v) => updateProperty('lineJoin', v)}
+                  />
+                </div>
+              </CollapsibleSection>
+            )}
+
             {/* Star Properties */}
             {selectedLayer.type === 'star' && (
               <CollapsibleSection title="Star" icon={<Star className="w-4 h-4" />}>
@@ -860,7 +2965,14 @@ export const PropertiesPanel = () => {
                   <NumberInput label="Outer Radius" value={selectedLayer.outerRadius} onChange={(v) => updateProperty('outerRadius', v)} unit="px" />
                 </div>
 
-                <ColorPicker label="Fill" value={selectedLayer.fill} onChange={(v) => updateProperty('fill', v)} />
+                <FillEditor
+                  label="Fill"
+                  color={selectedLayer.fill}
+                  gradient={selectedLayer.fillGradient}
+                  getBounds={getSelectedBounds}
+                  onColorChange={(v) => updateProperty('fill', v)}
+                  onGradientChange={(v) => updateProperty('fillGradient', v ?? undefined)}
+                />
                 
                 <ColorPicker label="Stroke" value={selectedLayer.stroke || '#000000'} onChange={(v) => updateProperty('stroke', v)} />
 
@@ -886,6 +2998,31 @@ export const PropertiesPanel = () => {
               </CollapsibleSection>
             )}
 
+            {/* Group Properties */}
+            {selectedLayer.type === 'group' && (
+              <CollapsibleSection title="Group" icon={<Folder className="w-4 h-4" />}>
+                <div className="p-3 bg-tesla-dark/20 rounded-lg border border-tesla-dark/20">
+                  <div className="text-xs text-tesla-gray mb-1">Contents</div>
+                  <div className="text-sm text-tesla-light">
+                    {flattenLayers(selectedLayer.children).length} layer(s)
+                  </div>
+                </div>
+                <button
+                  onClick={() => ungroupLayer(selectedLayer.id)}
+                  disabled={selectedLayer.locked}
+                  className="w-full px-4 py-2.5 bg-tesla-dark/30 border border-tesla-dark/40 rounded-lg text-sm font-medium text-tesla-light hover:bg-tesla-dark/50 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Ungroup
+                </button>
+              </CollapsibleSection>
+            )}
+
+            <PanelRegionsSection stageRef={stageRef} targets={[selectedLayer]} />
+
+            <LayerMaskSection layer={selectedLayer} stageRef={stageRef} />
+
+            <LayerEffectsSection layer={selectedLayer} />
+
             {/* Transform Section - Always last */}
             <TransformSection
               x={selectedLayer.x}
@@ -894,6 +3031,7 @@ export const PropertiesPanel = () => {
               scaleX={selectedLayer.scaleX}
               scaleY={selectedLayer.scaleY}
               opacity={selectedLayer.opacity}
+              blendMode={selectedLayer.blendMode || 'normal'}
               onUpdate={updateProperty}
             />
           </>
@@ -2,6 +2,7 @@ import { useRef, useState, useEffect } from 'react';
 import { useEditorStore } from './state/useEditorStore';
 import logo from '../assets/logo.png';
 import { exportPng } from '../utils/exportPng';
+import { exportSvg } from '../utils/exportSvg';
 import { carModels } from '../data/carModels';
 import { loadProjectFromFile, getProjectFileAccept } from '../utils/projectFile';
 import { calculateImageScale } from '../utils/image';
@@ -62,12 +63,12 @@ export const Toolbar = ({ stageRef, onOpen3DPreview }: ToolbarProps) => {
   const isModelYLongRange = currentModelId === 'modely-l';
 
   // Generate export filename from project name
-  const getExportFilename = () => {
+  const getExportFilename = (extension = 'png') => {
     const sanitizedName = projectName
       .replace(/[^a-zA-Z0-9\s-_]/g, '')
       .replace(/\s+/g, '_')
       .toLowerCase();
-    return `${sanitizedName}_${currentModel.folderName}.png`;
+    return `${sanitizedName}_${currentModel.folderName}.${extension}`;
   };
 
   const handleExport = () => {
@@ -85,6 +86,17 @@ export const Toolbar = ({ stageRef, onOpen3DPreview }: ToolbarProps) => {
     setIsDownloadDialogOpen(false);
   };
 
+  // Vector artwork for print; the PNG stays the file for the car
+  const handleExportSvg = async () => {
+    const { layers, baseColor, baseGradient, templateImage, customFonts } = useEditorStore.getState();
+    try {
+      await exportSvg({ layers, baseColor, baseGradient, templateImage, fonts: customFonts }, getExportFilename('svg'));
+    } catch (error) {
+      console.error('Failed to export SVG:', error);
+      alert('Failed to export SVG. Please try again.');
+    }
+  };
+
   // Project name editing handlers
   const handleProjectNameClick = () => {
     setEditingName(projectName);
@@ -470,6 +482,17 @@ export const Toolbar = ({ stageRef, onOpen3DPreview }: ToolbarProps) => {
               </button>
             </span>
           </Tooltip>
+          <Tooltip title="Export SVG (vector artwork for print)" placement="bottom" arrow>
+            <button
+              onClick={handleExportSvg}
+              className="btn-secondary flex items-center gap-1 sm:gap-2 px-2 sm:px-4"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              <span className="hidden sm:inline">Export SVG</span>
+            </button>
+          </Tooltip>
           <Tooltip title="Export PNG" placement="bottom" arrow>
             <button
               onClick={handleExport}
@@ -9,6 +9,7 @@ import { GodotViewer } from '../viewer/GodotViewer';
 import { NewProjectDialog } from './components/NewProjectDialog';
 import { UnsavedChangesDialog } from './components/UnsavedChangesDialog';
 import { useEditorStore } from './state/useEditorStore';
+import { findLayer, getSelectionRoots } from './state/layerTree';
 import { useAuth } from '../contexts/AuthContext';
 import { loadProjectFromSupabase } from '../utils/supabaseProjects';
 import { 
@@ -28,7 +29,7 @@ export const WrapDesignerPage = () => {
   const [manualZoom, setManualZoom] = useState(1);
   const [autoFitZoom, setAutoFitZoom] = useState(1);
   const [autoFit, setAutoFit] = useState(true);
-  const { selectedLayerId, deleteLayer, undo, redo, updateLayer, layers, loadProject, setDesignId, isDirty, getSerializedState } = useEditorStore();
+  const { selectedLayerIds, deleteLayers, undo, redo, updateLayer, layers, loadProject, setDesignId, isDirty, getSerializedState, pixelSelection } = useEditorStore();
   const { user, loading: authLoading } = useAuth();
   const [_loadingDesign, setLoadingDesign] = useState(false);
   const [pendingDesignId, setPendingDesignId] = useState<string | null>(null);
@@ -256,15 +257,18 @@ export const WrapDesignerPage = () => {
       // Don't handle shortcuts when dialog is open
       if (showNewProjectDialog) return;
       
-      // Delete/Backspace
-      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedLayerId) {
+      // Delete/Backspace (with a pixel selection the canvas deletes inside it instead)
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedLayerIds.length > 0 && !pixelSelection) {
         // Don't delete if focused on an input
         if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
           return;
         }
-        const layer = layers.find((l) => l.id === selectedLayerId);
-        if (layer && !layer.locked) {
-          deleteLayer(selectedLayerId);
+        const deletable = selectedLayerIds.filter((id) => {
+          const layer = findLayer(layers, id);
+          return layer && !layer.locked;
+        });
+        if (deletable.length > 0) {
+          deleteLayers(deletable);
         }
       }
 
@@ -306,37 +310,38 @@ export const WrapDesignerPage = () => {
       }
 
       // Nudge with arrow keys
-      if (selectedLayerId && ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
+      if (selectedLayerIds.length > 0 && ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
         e.preventDefault();
-        const layer = layers.find((l) => l.id === selectedLayerId);
-        if (!layer || layer.locked) return;
-
         const nudgeAmount = e.shiftKey ? 10 : 1;
-        let newX = layer.x;
-        let newY = layer.y;
 
-        switch (e.key) {
-          case 'ArrowUp':
-            newY -= nudgeAmount;
-            break;
-          case 'ArrowDown':
-            newY += nudgeAmount;
-            break;
-          case 'ArrowLeft':
-            newX -= nudgeAmount;
-            break;
-          case 'ArrowRight':
-            newX += nudgeAmount;
-            break;
-        }
+        getSelectionRoots(layers, selectedLayerIds).forEach((layer) => {
+          if (layer.locked) return;
+          let newX = layer.x;
+          let newY = layer.y;
+
+          switch (e.key) {
+            case 'ArrowUp':
+              newY -= nudgeAmount;
+              break;
+            case 'ArrowDown':
+              newY += nudgeAmount;
+              break;
+            case 'ArrowLeft':
+              newX -= nudgeAmount;
+              break;
+            case 'ArrowRight':
+              newX += nudgeAmount;
+              break;
+          }
 
-        updateLayer(selectedLayerId, { x: newX, y: newY });
+          updateLayer(layer.id, { x: newX, y: newY });
+        });
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedLayerId, layers, deleteLayer, undo, redo, updateLayer, setAutoFit, setManualZoom, autoFitZoom, showNewProjectDialog]);
+  }, [selectedLayerIds, layers, deleteLayers, undo, redo, updateLayer, setAutoFit, setManualZoom, autoFitZoom, showNewProjectDialog, pixelSelection]);
 
   return (
     <div className="h-screen flex flex-col bg-gradient-to-br from-tesla-black via-[#3a3b3c] to-tesla-black overflow-hidden">
@@ -372,7 +377,7 @@ export const WrapDesignerPage = () => {
             }}
           />
         </div>
-        <PropertiesPanel />
+        <PropertiesPanel stageRef={stageRef} />
       </div>
       <GodotViewer
         isOpen={show3DPreview}
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { Circle, Group } from 'react-konva';
 import type { Stage as StageType } from 'konva/lib/Stage';
 import { useEditorStore } from '../state/useEditorStore';
+import { EDITOR_OVERLAY_NAME } from '../../utils/editorOverlays';
 
 interface BrushCursorProps {
   stageRef: React.RefObject<StageType | null>;
@@ -16,7 +17,7 @@ export const BrushCursor = ({ stageRef }: BrushCursorProps) => {
 
   useEffect(() => {
     const stage = stageRef.current;
-    if (!stage || activeTool !== 'brush') {
+    if (!stage || (activeTool !== 'brush' && activeTool !== 'eraser')) {
       setIsVisible(false);
       return;
     }
@@ -87,7 +88,7 @@ export const BrushCursor = ({ stageRef }: BrushCursorProps) => {
   }, [stageRef, activeTool, brushSettings.size, brushSettings.hardness]);
 
   // Hide cursor when drawing
-  if (!isVisible || !position || isDrawing || activeTool !== 'brush') {
+  if (!isVisible || !position || isDrawing || (activeTool !== 'brush' && activeTool !== 'eraser')) {
     return null;
   }
 
@@ -98,7 +99,7 @@ export const BrushCursor = ({ stageRef }: BrushCursorProps) => {
   const innerRadius = radius * hardness;
 
   return (
-    <Group listening={false} perfectDrawEnabled={false}>
+    <Group name={EDITOR_OVERLAY_NAME} listening={false} perfectDrawEnabled={false}>
       {/* Outer circle (brush boundary) - white with slight shadow for visibility */}
       <Circle
         x={position.x}
@@ -1,8 +1,17 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import type { Stage as StageType } from 'konva/lib/Stage';
 import { useEditorStore } from '../state/useEditorStore';
-import type { BrushStroke, BrushLayer } from '../state/editorTypes';
+import { findLayer, flattenLayers, getParentTransform } from '../state/layerTree';
+import type { BrushStroke, BrushStrokeClip, BrushLayer } from '../state/editorTypes';
 import { loadImage, calculateImageScale } from '../../utils/image';
+import { isSvgFile } from '../../utils/svgImport';
+import { createMaskCanvas, paintMaskStroke } from '../../utils/layerMask';
+import { getStrokeClip } from '../../utils/selection';
+import { getPenDynamics, getPenSample } from '../../utils/penPressure';
+import type { PenSample } from '../../utils/penPressure';
+import { createStrokeSeed, usesDabs } from '../../utils/brushTips';
+import { getReflections, mirrorStroke } from '../../utils/symmetry';
+import { SvgImportDialog, type SvgFile } from './SvgImportDialog';
 
 interface BrushToolProps {
   stageRef: React.RefObject<StageType | null>;
@@ -14,6 +23,19 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
   const currentLayerId = useRef<string | null>(null);
   const previousTool = useRef<string | null>(null);
   const brushLayerSelectedWhileActive = useRef<string | null>(null);
+  // SVG picked with the image shortcut, waiting for the import options
+  const [svgFile, setSvgFile] = useState<SvgFile | null>(null);
+  // Set while painting on a layer mask: the mask before the stroke, the canvas being painted
+  // and the animation frame that shows it next
+  const maskStroke = useRef<{ base: HTMLCanvasElement; canvas: HTMLCanvasElement; preview: number | null } | null>(null);
+  // Pixel selection the current stroke is confined to, in the stroke's own space
+  const strokeClip = useRef<BrushStrokeClip | undefined>(undefined);
+  // Pen pressure and tilt of the latest pointer event (null for mice), and the per-point
+  // widths and opacities of a stroke drawn with a pen
+  const penSample = useRef<PenSample | null>(null);
+  const penDynamics = useRef<{ widths: number[]; alphas: number[] } | null>(null);
+  // Seed of the current stroke's scatter and jitter, so the preview matches the final stroke
+  const strokeSeed = useRef(0);
   
   // Subscribe to activeTool reactively so the effect re-runs when tool changes
   const activeTool = useEditorStore((state) => state.activeTool);
@@ -30,7 +52,7 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
       }
       
       const state = useEditorStore.getState();
-      const selected = state.layers.find(l => l.id === selectedLayerId);
+      const selected = findLayer(state.layers, selectedLayerId);
       if (selected?.type === 'brush') {
         // Track this brush layer as selected while brush tool is active
         brushLayerSelectedWhileActive.current = selectedLayerId;
@@ -84,7 +106,7 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
       const { layers } = getState();
       const baseName = getLayerTypeName(layerType);
       let index = 1;
-      while (layers.some((l) => l.name === `${baseName} ${index}`)) {
+      while (flattenLayers(layers).some((l) => l.name === `${baseName} ${index}`)) {
         index += 1;
       }
       return `${baseName} ${index}`;
@@ -135,7 +157,7 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
       brushLayerSelectedWhileActive.current = null;
       
       if (currentSelectedId) {
-        const selected = layers.find(l => l.id === currentSelectedId);
+        const selected = findLayer(layers, currentSelectedId);
         if (selected && selected.type === 'brush') {
           // If a brush layer is already selected, mark it as selected while active
           // so the user can continue drawing on it
@@ -164,7 +186,7 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
       
       // Check if the selected layer is a brush layer that was selected while the brush tool is active
       if (selectedLayerId && brushLayerSelectedWhileActive.current === selectedLayerId) {
-        const selected = layers.find(l => l.id === selectedLayerId);
+        const selected = findLayer(layers, selectedLayerId);
         if (selected?.type === 'brush') {
           if (selected.locked) {
             const newLayer = createNewBrushLayer();
@@ -218,6 +240,81 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
       return pos;
     };
 
+    // Pointer position in the coordinate space of the group holding the brush layer
+    const getLocalPointerPosition = () => {
+      const pos = getCorrectPointerPosition();
+      if (!pos || !currentLayerId.current) return pos;
+      return getParentTransform(getState().layers, currentLayerId.current).invert().point(pos);
+    };
+
+    // Record the pen's pressure and tilt for the point just added
+    const addPenDynamics = () => {
+      const sample = penSample.current;
+      if (!penDynamics.current || !sample) return;
+      const { brushSettings } = getState();
+      const { width, alpha } = getPenDynamics(sample, brushSettings);
+      penDynamics.current.widths.push(brushSettings.size * width);
+      penDynamics.current.alphas.push(alpha);
+    };
+
+    // Per-point data of a pen stroke; opacities are only kept when pressure changes them
+    const getPenStrokeData = (): Pick<BrushStroke, 'widths' | 'alphas'> => {
+      const dynamics = penDynamics.current;
+      if (!dynamics) return {};
+      return {
+        widths: [...dynamics.widths],
+        ...(getState().brushSettings.pressureOpacity > 0 && { alphas: [...dynamics.alphas] }),
+      };
+    };
+
+    // Tip of a stroke stamped as dabs; round strokes without jitter stay plain lines
+    const getTipStrokeData = (): Pick<BrushStroke, 'tip' | 'spacing' | 'seed'> => {
+      const { tip, spacing } = getState().brushSettings;
+      if (!usesDabs(tip)) return {};
+      return { tip: { ...tip }, spacing: spacing || 25, seed: strokeSeed.current };
+    };
+
+    // A stroke plus its mirrored copies while symmetry is on
+    const withMirrors = (stroke: BrushStroke): BrushStroke[] => {
+      const { layers, symmetry } = getState();
+      const reflections = getReflections(symmetry);
+      if (reflections.length === 0 || !currentLayerId.current) return [stroke];
+      const toCanvas = getParentTransform(layers, currentLayerId.current);
+      return [stroke, ...reflections.map((reflection) => mirrorStroke(stroke, toCanvas, reflection, symmetry))];
+    };
+
+    // Repaint the mask stroke in progress and show it on the canvas. Turning a mask into alpha
+    // reads back the whole canvas, so the layer takes a copy of the stroke at most once a frame.
+    const paintMask = () => {
+      const stroke = maskStroke.current;
+      const state = getState();
+      const layer = findLayer(state.layers, currentLayerId.current);
+      if (!stroke || !layer?.mask) return;
+      const { brushSettings } = state;
+      paintMaskStroke(stroke.canvas, stroke.base, currentPoints.current, {
+        color: brushSettings.color,
+        size: brushSettings.size,
+        hardness: brushSettings.hardness,
+        opacity: brushSettings.opacity / 100,
+        clip: state.pixelSelection?.canvas,
+      });
+      if (stroke.preview !== null) return;
+      stroke.preview = requestAnimationFrame(() => {
+        stroke.preview = null;
+        const { layers, updateLayer } = getState();
+        const current = findLayer(layers, layer.id);
+        if (maskStroke.current !== stroke || !current?.mask) return;
+        updateLayer(layer.id, { mask: { ...current.mask, image: createMaskCanvas(stroke.canvas) } });
+      });
+    };
+
+    const cancelMaskPreview = () => {
+      const stroke = maskStroke.current;
+      if (stroke?.preview == null) return;
+      cancelAnimationFrame(stroke.preview);
+      stroke.preview = null;
+    };
+
     const handleMouseDown = (e: any) => {
       // Prevent drawing on transformer handles
       const target = e.target;
@@ -228,23 +325,50 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
         }
       }
       
+      // Paint on the selected layer's mask while mask editing is on (masks are in canvas space)
+      const { maskEditLayerId, selectedLayerId: selectedId, layers: currentLayers } = getState();
+      const maskLayer = maskEditLayerId && maskEditLayerId === selectedId ? findLayer(currentLayers, maskEditLayerId) : undefined;
+      if (maskLayer?.mask) {
+        if (maskLayer.locked) return;
+        const pos = getCorrectPointerPosition();
+        if (!pos) return;
+        e.cancelBubble = true;
+        isDrawing.current = true;
+        currentLayerId.current = maskLayer.id;
+        const base = createMaskCanvas(maskLayer.mask.image);
+        maskStroke.current = { base, canvas: createMaskCanvas(base), preview: null };
+        currentPoints.current = [pos.x, pos.y];
+        paintMask();
+        return;
+      }
+      
       const brushLayer = ensureBrushLayer();
       if (!brushLayer || brushLayer.locked) return;
       
       e.cancelBubble = true;
       isDrawing.current = true;
       currentLayerId.current = brushLayer.id;
+      const { pixelSelection, layers: latestLayers } = getState();
+      strokeClip.current = pixelSelection
+        ? getStrokeClip(pixelSelection, getParentTransform(latestLayers, brushLayer.id))
+        : undefined;
+      if (strokeClip.current) getState().addStrokeClip(brushLayer.id, strokeClip.current);
+      const { tip } = getState().brushSettings;
+      if (usesDabs(tip) && tip.shape === 'stamp' && tip.stampId) getState().addStrokeStamp(brushLayer.id, tip.stampId);
       
-      const pos = getCorrectPointerPosition();
+      const pos = getLocalPointerPosition();
       if (pos) {
         currentPoints.current = [pos.x, pos.y];
+        strokeSeed.current = createStrokeSeed();
+        penDynamics.current = penSample.current ? { widths: [], alphas: [] } : null;
+        addPenDynamics();
       }
     };
 
     const handleMouseMove = () => {
       if (!isDrawing.current || !currentLayerId.current) return;
       
-      const pos = getCorrectPointerPosition();
+      const pos = maskStroke.current ? getCorrectPointerPosition() : getLocalPointerPosition();
       if (!pos) return;
       
       const { brushSettings } = getState();
@@ -278,10 +402,16 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
         }
         
         currentPoints.current.push(finalX, finalY);
+        addPenDynamics();
+        
+        if (maskStroke.current) {
+          paintMask();
+          return;
+        }
         
         // Update the layer with current stroke for real-time preview
         const state = getState();
-        const layer = state.layers.find(l => l.id === currentLayerId.current);
+        const layer = findLayer(state.layers, currentLayerId.current);
         if (layer && layer.type === 'brush') {
           const brushLayer = layer as BrushLayer;
           const { brushSettings } = state;
@@ -295,15 +425,18 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
             opacity: brushSettings.opacity / 100,
             flow: brushSettings.flow,
             blendMode: brushSettings.blendMode,
+            ...(strokeClip.current && { clipId: strokeClip.current.id }),
+            ...getPenStrokeData(),
+            ...getTipStrokeData(),
           };
           
           // Get committed strokes (all except temporary preview)
           const committedStrokes = brushLayer.strokes.filter(s => !(s as any)._preview);
           
-          // Update with committed strokes + preview
-          const previewWithFlag = { ...previewStroke, _preview: true };
+          // Update with committed strokes + preview (and its mirrored copies)
+          const previewWithFlag = withMirrors(previewStroke).map((stroke) => ({ ...stroke, _preview: true }));
           state.updateLayer(currentLayerId.current!, { 
-            strokes: [...committedStrokes, previewWithFlag] 
+            strokes: [...committedStrokes, ...previewWithFlag] 
           });
         }
       }
@@ -312,8 +445,20 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
     const handleMouseUp = () => {
       if (!isDrawing.current || !currentLayerId.current) return;
       
+      // Commit the mask stroke (a single click paints a dot)
+      if (maskStroke.current) {
+        const { canvas } = maskStroke.current;
+        cancelMaskPreview();
+        maskStroke.current = null;
+        getState().updateLayerMask(currentLayerId.current, { src: canvas.toDataURL('image/png'), image: canvas });
+        isDrawing.current = false;
+        currentPoints.current = [];
+        currentLayerId.current = null;
+        return;
+      }
+      
       const state = getState();
-      const layer = state.layers.find(l => l.id === currentLayerId.current);
+      const layer = findLayer(state.layers, currentLayerId.current);
       
       if (layer && layer.type === 'brush' && currentPoints.current.length >= 4) {
         const { brushSettings } = state;
@@ -327,14 +472,17 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
           opacity: brushSettings.opacity / 100,
           flow: brushSettings.flow,
           blendMode: brushSettings.blendMode,
+          ...(strokeClip.current && { clipId: strokeClip.current.id }),
+          ...getPenStrokeData(),
+          ...getTipStrokeData(),
         };
         
-        // Add final stroke
-        state.addBrushStroke(currentLayerId.current!, finalStroke);
+        // Add final stroke, mirrored while symmetry is on
+        state.addBrushStrokes(currentLayerId.current!, withMirrors(finalStroke));
         
         // Clean up any preview strokes
         const updatedState = getState();
-        const updatedLayer = updatedState.layers.find(l => l.id === currentLayerId.current) as BrushLayer;
+        const updatedLayer = findLayer(updatedState.layers, currentLayerId.current) as BrushLayer;
         if (updatedLayer) {
           const cleanStrokes = updatedLayer.strokes.filter(s => !(s as any)._preview);
           if (cleanStrokes.length !== updatedLayer.strokes.length) {
@@ -353,6 +501,14 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
       isDrawing.current = false;
       currentPoints.current = [];
       currentLayerId.current = null;
+      strokeClip.current = undefined;
+      penDynamics.current = null;
+    };
+
+    // Pointer events come before the mouse and touch events the brush draws with,
+    // so the latest one holds the pen data for the point being added
+    const handlePointer = (e: PointerEvent) => {
+      penSample.current = getPenSample(e);
     };
 
     // Attach events
@@ -364,15 +520,20 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
     const container = stage.container();
     if (container) {
       container.style.cursor = 'none';
+      container.addEventListener('pointerdown', handlePointer);
+      container.addEventListener('pointermove', handlePointer);
     }
 
     return () => {
       stage.off('mousedown touchstart', handleMouseDown);
       stage.off('mousemove touchmove', handleMouseMove);
       stage.off('mouseup touchend mouseleave', handleMouseUp);
+      cancelMaskPreview();
       
       if (container) {
         container.style.cursor = 'default';
+        container.removeEventListener('pointerdown', handlePointer);
+        container.removeEventListener('pointermove', handlePointer);
       }
     };
   }, [stageRef, activeTool]);
@@ -384,8 +545,12 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
         return;
       }
+      // Cmd/Ctrl combinations are editing commands (Cmd/Ctrl+Shift+I inverts the selection)
+      if (e.ctrlKey || e.metaKey) {
+        return;
+      }
       
-      const { setActiveTool, addLayer, setBrushSettings, brushSettings } = useEditorStore.getState();
+      const { setActiveTool, addLayer, addSymmetricLayer, setBrushSettings, brushSettings, symmetry, setSymmetry } = useEditorStore.getState();
       
       const getLayerTypeName = (type: string): string => {
         const typeMap: Record<string, string> = {
@@ -394,6 +559,7 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
           'rect': 'Rectangle',
           'circle': 'Ellipse',
           'line': 'Line',
+          'path': 'Path',
           'star': 'Star',
           'image': 'Image',
           'texture': 'Texture',
@@ -406,7 +572,7 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
         const { layers } = useEditorStore.getState();
         const baseName = getLayerTypeName(layerType);
         let index = 1;
-        while (layers.some((l) => l.name === `${baseName} ${index}`)) {
+        while (flattenLayers(layers).some((l) => l.name === `${baseName} ${index}`)) {
           index += 1;
         }
         return `${baseName} ${index}`;
@@ -419,6 +585,9 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
         case 'b':
           setActiveTool('brush');
           break;
+        case 'e':
+          setActiveTool('eraser');
+          break;
         case 't':
           addLayer({
             type: 'text',
@@ -443,7 +612,7 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
           setActiveTool('select');
           break;
         case 'u':
-          addLayer({
+          addSymmetricLayer({
             type: 'rect',
             name: nextLayerName('rect'),
             width: 200,
@@ -461,7 +630,7 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
           setActiveTool('select');
           break;
         case 'o':
-          addLayer({
+          addSymmetricLayer({
             type: 'circle',
             name: nextLayerName('circle'),
             radius: 50,
@@ -477,8 +646,18 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
           });
           setActiveTool('select');
           break;
+        case 'm':
+          setActiveTool(e.shiftKey ? 'ellipseSelect' : 'rectSelect');
+          break;
+        case 'w':
+          setActiveTool('magicWand');
+          break;
         case 'l':
-          addLayer({
+          if (e.shiftKey) {
+            setActiveTool('lasso');
+            break;
+          }
+          addSymmetricLayer({
             type: 'line',
             name: nextLayerName('line'),
             points: [100, 100, 300, 200],
@@ -498,7 +677,7 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
           setActiveTool('select');
           break;
         case 's':
-          addLayer({
+          addSymmetricLayer({
             type: 'star',
             name: nextLayerName('star'),
             numPoints: 5,
@@ -528,6 +707,13 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
               const file = (e.target as HTMLInputElement).files?.[0];
               if (!file) return;
 
+              // SVGs are converted into editable layers instead of a flat image
+              if (isSvgFile(file)) {
+                setSvgFile({ name: file.name.replace(/\.svg$/i, ''), text: await file.text() });
+                setActiveTool('select');
+                return;
+              }
+
               const reader = new FileReader();
               reader.onload = async (event) => {
                 const src = event.target?.result as string;
@@ -608,6 +794,12 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
         case 'f':
           setActiveTool('fill');
           break;
+        case 'y':
+          setSymmetry({ mode: symmetry.mode === 'off' ? 'vertical' : 'off' });
+          break;
+        case 'p':
+          setActiveTool('pen');
+          break;
         case '[':
           setBrushSettings({ size: Math.max(1, brushSettings.size - 5) });
           break;
@@ -621,5 +813,5 @@ export const BrushTool = ({ stageRef }: BrushToolProps) => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  return null;
+  return <SvgImportDialog file={svgFile} onClose={() => setSvgFile(null)} />;
 };
@@ -0,0 +1,119 @@
+import { useEffect } from 'react';
+import { Group, Image as KonvaImage, Rect } from 'react-konva';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import type { Context } from 'konva/lib/Context';
+import type { Transform } from 'konva/lib/Util';
+import type { CropEdit, ImageLayer } from '../state/editorTypes';
+import { useEditorStore } from '../state/useEditorStore';
+import { getCropAspectRatio, getUncroppedTransform, moveCropRect, resizeCropRect } from '../../utils/crop';
+import { EDITOR_OVERLAY_NAME } from '../../utils/editorOverlays';
+
+const HANDLE_SIZE = 10;
+
+// Corner and edge handles, by the sides of the crop they move
+const HANDLES = [
+  { x: -1, y: -1 }, { x: 0, y: -1 }, { x: 1, y: -1 },
+  { x: -1, y: 0 }, { x: 1, y: 0 },
+  { x: -1, y: 1 }, { x: 0, y: 1 }, { x: 1, y: 1 },
+];
+
+interface CropHandlesProps {
+  layer: ImageLayer;
+  image: HTMLImageElement | HTMLCanvasElement;
+  cropEdit: CropEdit;
+  // Maps the layer's parent space onto the stage
+  parentTransform: Transform;
+}
+
+// Crop frame over an image layer being cropped. The picture outside the crop shows faded;
+// drag the frame to move the crop, or its handles to resize it. Enter applies, Escape cancels.
+export const CropHandles = ({ layer, image, cropEdit, parentTransform }: CropHandlesProps) => {
+  const { updateCropEdit, applyCrop, cancelCrop } = useEditorStore();
+  const { rect } = cropEdit;
+  const imageSize = { width: image.width, height: image.height };
+  const ratio = getCropAspectRatio(cropEdit.aspect, imageSize);
+  const placement = parentTransform.copy().multiply(getUncroppedTransform(layer)).decompose();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        applyCrop();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        cancelCrop();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [applyCrop, cancelCrop]);
+
+  // Everything outside the crop, for the faded picture
+  const clipOutside = (context: Context): [CanvasFillRule] => {
+    context.rect(0, 0, imageSize.width, imageSize.height);
+    context.rect(rect.x, rect.y, rect.width, rect.height);
+    return ['evenodd'];
+  };
+
+  const handleFrameDragMove = (e: KonvaEventObject<DragEvent>) => {
+    const next = moveCropRect(rect, e.target.x(), e.target.y(), imageSize);
+    e.target.position({ x: next.x, y: next.y });
+    updateCropEdit({ rect: next });
+  };
+
+  const handleHandleDragMove = (handle: { x: number; y: number }) => (e: KonvaEventObject<DragEvent>) => {
+    updateCropEdit({ rect: resizeCropRect(rect, handle, e.target.position(), imageSize, ratio) });
+  };
+
+  // Handles keep their size on screen however the layer is scaled
+  const handleWidth = HANDLE_SIZE / Math.abs(placement.scaleX || 1);
+  const handleHeight = HANDLE_SIZE / Math.abs(placement.scaleY || 1);
+
+  return (
+    <Group name={EDITOR_OVERLAY_NAME} {...placement}>
+      <Group clipFunc={clipOutside} listening={false}>
+        <KonvaImage image={image} opacity={0.35} />
+      </Group>
+      <Rect
+        x={rect.x}
+        y={rect.y}
+        width={rect.width}
+        height={rect.height}
+        fill="transparent"
+        stroke="#ffffff"
+        strokeWidth={1}
+        dash={[6, 4]}
+        strokeScaleEnabled={false}
+        draggable
+        onDragMove={handleFrameDragMove}
+        onMouseEnter={(e) => {
+          const container = e.target.getStage()?.container();
+          if (container) container.style.cursor = 'move';
+        }}
+        onMouseLeave={(e) => {
+          const container = e.target.getStage()?.container();
+          if (container) container.style.cursor = 'default';
+        }}
+      />
+      {HANDLES.map((handle) => (
+        <Rect
+          key={`${handle.x},${handle.y}`}
+          x={rect.x + ((handle.x + 1) / 2) * rect.width}
+          y={rect.y + ((handle.y + 1) / 2) * rect.height}
+          width={handleWidth}
+          height={handleHeight}
+          offsetX={handleWidth / 2}
+          offsetY={handleHeight / 2}
+          fill="#ffffff"
+          stroke="#B73038"
+          strokeWidth={2}
+          strokeScaleEnabled={false}
+          draggable
+          onDragMove={handleHandleDragMove(handle)}
+        />
+      ))}
+    </Group>
+  );
+};
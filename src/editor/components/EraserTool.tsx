@@ -0,0 +1,191 @@
+import { useEffect } from 'react';
+import type { Stage as StageType } from 'konva/lib/Stage';
+import type { Transform } from 'konva/lib/Util';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import { useEditorStore } from '../state/useEditorStore';
+import { findLayer, getLayerTransform, getParentTransform } from '../state/layerTree';
+import type { BrushStroke, BrushStrokeClip } from '../state/editorTypes';
+import {
+  eraseBitmapStroke,
+  getBitmapClip,
+  getBitmapTransform,
+  getLayerBitmap,
+  getLocalScale,
+  isRasterLayer,
+} from '../../utils/eraser';
+import { getStrokeClip } from '../../utils/selection';
+
+interface EraserToolProps {
+  stageRef: React.RefObject<StageType | null>;
+}
+
+// Erase in progress. Brush layers get an eraser stroke; image, texture and fill layers
+// have their pixels erased from a copy of their bitmap.
+type EraseStroke = {
+  layerId: string;
+  points: number[];        // In the layer's own space (bitmap pixels for raster layers)
+  lastPos: { x: number; y: number };  // Last point added, in canvas coordinates
+  toLocal: Transform;
+} & (
+  | { kind: 'brush'; strokes: BrushStroke[]; clip?: BrushStrokeClip }
+  | {
+      kind: 'raster';
+      base: HTMLCanvasElement;
+      // Two canvases take turns showing the stroke, so every repaint reaches the layer as a new image
+      canvases: [HTMLCanvasElement, HTMLCanvasElement];
+      shown: number;
+      clip?: HTMLCanvasElement;
+    }
+);
+
+// Erases from the selected layer with the brush size, hardness, opacity and flow
+export const EraserTool = ({ stageRef }: EraserToolProps) => {
+  const activeTool = useEditorStore((state) => state.activeTool);
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage || activeTool !== 'eraser') return;
+
+    const getState = () => useEditorStore.getState();
+    let stroke: EraseStroke | null = null;
+
+    const createStroke = (current: EraseStroke): BrushStroke => {
+      const { brushSettings } = getState();
+      return {
+        points: [...current.points],
+        color: 'transparent',
+        size: brushSettings.size * getLocalScale(current.toLocal),
+        hardness: brushSettings.hardness,
+        opacity: brushSettings.opacity / 100,
+        flow: brushSettings.flow,
+        blendMode: 'normal',
+        ...(current.kind === 'brush' && current.clip && { clipId: current.clip.id }),
+      };
+    };
+
+    // Show the stroke so far on the layer
+    const paint = () => {
+      if (!stroke) return;
+      const state = getState();
+      if (stroke.kind === 'brush') {
+        state.updateLayer(stroke.layerId, { strokes: [...stroke.strokes, createStroke(stroke)] });
+        return;
+      }
+      const next = 1 - stroke.shown;
+      const { size, hardness, opacity, flow } = createStroke(stroke);
+      const spacing = getState().brushSettings.spacing || 25;
+      eraseBitmapStroke(stroke.canvases[next], stroke.base, stroke.points, { size, hardness, opacity, flow, spacing, clip: stroke.clip });
+      stroke.shown = next;
+      state.previewLayerBitmap(stroke.layerId, stroke.canvases[next]);
+    };
+
+    const handleMouseDown = (e: KonvaEventObject<MouseEvent | TouchEvent>) => {
+      const pos = stage.getPointerPosition();
+      const { layers, selectedLayerId, selectedLayerIds, pixelSelection } = getState();
+      const layer = selectedLayerIds.length === 1 ? findLayer(layers, selectedLayerId) : undefined;
+      if (!pos || !layer || layer.locked || !layer.visible) return;
+
+      if (layer.type === 'brush') {
+        const toCanvas = getParentTransform(layers, layer.id).multiply(getLayerTransform(layer));
+        const toLocal = toCanvas.copy().invert();
+        const start = toLocal.point(pos);
+        stroke = {
+          kind: 'brush',
+          layerId: layer.id,
+          points: [start.x, start.y],
+          lastPos: pos,
+          toLocal,
+          strokes: layer.strokes,
+          clip: pixelSelection ? getStrokeClip(pixelSelection, toCanvas) : undefined,
+        };
+        if (stroke.clip) getState().addStrokeClip(layer.id, stroke.clip);
+      } else if (isRasterLayer(layer)) {
+        // Fill layers turn into image layers here, so their pixels can be erased
+        const base = getLayerBitmap(layer);
+        if (!base) return;
+        const toLocal = getBitmapTransform(layers, layer);
+        const start = toLocal.point(pos);
+        const createCanvas = () => {
+          const canvas = document.createElement('canvas');
+          canvas.width = base.width;
+          canvas.height = base.height;
+          return canvas;
+        };
+        stroke = {
+          kind: 'raster',
+          layerId: layer.id,
+          points: [start.x, start.y],
+          lastPos: pos,
+          toLocal,
+          base,
+          canvases: [createCanvas(), createCanvas()],
+          shown: 1,
+          clip: pixelSelection ? getBitmapClip(pixelSelection, toLocal, base.width, base.height) : undefined,
+        };
+      } else {
+        return;
+      }
+
+      e.cancelBubble = true;
+      paint();
+    };
+
+    const handleMouseMove = () => {
+      const pos = stage.getPointerPosition();
+      if (!stroke || !pos) return;
+      const { brushSettings } = getState();
+
+      // Same spacing and smoothing as the brush, measured on the canvas
+      const minDistance = Math.max(1, (brushSettings.size * (brushSettings.spacing || 25)) / 100);
+      const { lastPos } = stroke;
+      if (Math.hypot(pos.x - lastPos.x, pos.y - lastPos.y) < minDistance) return;
+      const smoothing = (brushSettings.smoothing || 0) / 100;
+      const next = {
+        x: lastPos.x + (pos.x - lastPos.x) * (1 - smoothing * 0.5),
+        y: lastPos.y + (pos.y - lastPos.y) * (1 - smoothing * 0.5),
+      };
+      const point = stroke.toLocal.point(next);
+      stroke.points.push(point.x, point.y);
+      stroke.lastPos = next;
+      paint();
+    };
+
+    const handleMouseUp = () => {
+      const current = stroke;
+      stroke = null;
+      if (!current) return;
+      const state = getState();
+      if (current.kind === 'brush') {
+        // A single click erases a dot
+        const points = current.points.length === 2 ? [...current.points, ...current.points] : current.points;
+        state.updateLayer(current.layerId, { strokes: current.strokes });
+        state.addBrushStroke(current.layerId, { ...createStroke(current), points });
+        return;
+      }
+      state.commitLayerBitmap(current.layerId, current.canvases[current.shown]);
+    };
+
+    stage.on('mousedown touchstart', handleMouseDown);
+    stage.on('mousemove touchmove', handleMouseMove);
+    stage.on('mouseup touchend mouseleave', handleMouseUp);
+
+    // The brush cursor shows the eraser size
+    const container = stage.container();
+    if (container) {
+      container.style.cursor = 'none';
+    }
+
+    return () => {
+      stage.off('mousedown touchstart', handleMouseDown);
+      stage.off('mousemove touchmove', handleMouseMove);
+      stage.off('mouseup touchend mouseleave', handleMouseUp);
+      handleMouseUp();
+
+      if (container) {
+        container.style.cursor = 'default';
+      }
+    };
+  }, [stageRef, activeTool]);
+
+  return null;
+};
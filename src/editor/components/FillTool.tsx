@@ -1,96 +1,37 @@
 import { useEffect } from 'react';
 import type { Stage as StageType } from 'konva/lib/Stage';
 import { useEditorStore } from '../state/useEditorStore';
+import { findLayer, flattenLayers } from '../state/layerTree';
+import type { FillSampleSource } from '../state/editorTypes';
+import { expandFill, floodFill } from '../../utils/floodFill';
+import { getSelectionAlpha } from '../../utils/selection';
+import { MASK_SIZE } from '../../utils/layerMask';
+import { createFillLayerData } from '../../utils/fillImage';
+import type { FillPaint } from '../../utils/fillImage';
+import { loadImage } from '../../utils/image';
+import { hideEditorOverlays } from '../../utils/editorOverlays';
 
 interface FillToolProps {
   stageRef: React.RefObject<StageType | null>;
 }
 
-// Flood fill algorithm to find connected pixels
-// Uses alpha-based filling to properly fill template regions including anti-aliased edges
-const floodFill = (
-  imageData: ImageData,
-  startX: number,
-  startY: number,
-  width: number,
-  height: number
-): Set<number> => {
-  const filledPixels = new Set<number>();
-  const visited = new Set<number>();
-  const stack: Array<[number, number]> = [[startX, startY]];
-  
-  // Very low threshold to include ALL pixels that are part of the template
-  // This ensures anti-aliased edge pixels are included (they have partial alpha)
-  const alphaThreshold = 1; // Include pixels with even tiny alpha
-  
-  const getPixelIndex = (x: number, y: number) => (y * width + x) * 4;
-  
-  const hasAlpha = (x: number, y: number): boolean => {
-    if (x < 0 || x >= width || y < 0 || y >= height) return false;
-    const idx = getPixelIndex(x, y);
-    return imageData.data[idx + 3] >= alphaThreshold;
-  };
-  
-  // Check if start position is valid (has alpha)
-  if (!hasAlpha(startX, startY)) return filledPixels;
-  
-  while (stack.length > 0) {
-    const [x, y] = stack.pop()!;
-    const pixelIdx = getPixelIndex(x, y);
-    
-    // Skip if already visited
-    if (visited.has(pixelIdx)) continue;
-    visited.add(pixelIdx);
-    
-    // Check if this pixel has alpha (is part of template)
-    if (!hasAlpha(x, y)) continue;
-    
-    // Add to filled pixels
-    filledPixels.add(pixelIdx);
-    
-    // Add 4-connected neighbors (cardinal directions only for cleaner region detection)
-    if (x > 0) stack.push([x - 1, y]);
-    if (x < width - 1) stack.push([x + 1, y]);
-    if (y > 0) stack.push([x, y - 1]);
-    if (y < height - 1) stack.push([x, y + 1]);
-  }
-  
-  return filledPixels;
-};
+// Pixel data the fill compares colours in: everything on the canvas, or just the selected
+// layer (the whole canvas again when there isn't exactly one), in canvas pixels
+const sampleCanvas = (stage: StageType, source: Exclude<FillSampleSource, 'template'>): ImageData | null => {
+  const { layers, selectedLayerId, selectedLayerIds } = useEditorStore.getState();
+  const layer = source === 'currentLayer' && selectedLayerIds.length === 1 ? findLayer(layers, selectedLayerId) : undefined;
+  const node = layer ? stage.findOne(`#${layer.id}`) : stage.getLayers()[0];
+  if (!node) return null;
 
-// Convert filled pixels to a data URL image with the fill color
-const createFillImage = (
-  filledPixels: Set<number>,
-  fillColorHex: string,
-  width: number,
-  height: number
-): string => {
-  // Create offscreen canvas
-  const offCanvas = document.createElement('canvas');
-  offCanvas.width = width;
-  offCanvas.height = height;
-  const ctx = offCanvas.getContext('2d');
-  if (!ctx) return '';
-  
-  // Parse fill color
-  const fillColorMatch = fillColorHex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
-  const r = fillColorMatch ? parseInt(fillColorMatch[1], 16) : 0;
-  const g = fillColorMatch ? parseInt(fillColorMatch[2], 16) : 0;
-  const b = fillColorMatch ? parseInt(fillColorMatch[3], 16) : 0;
-  
-  // Create image data
-  const imageData = ctx.createImageData(width, height);
-  
-  // Fill the pixels
-  filledPixels.forEach((pixelIdx) => {
-    imageData.data[pixelIdx] = r;
-    imageData.data[pixelIdx + 1] = g;
-    imageData.data[pixelIdx + 2] = b;
-    imageData.data[pixelIdx + 3] = 255; // Full opacity
-  });
-  
-  ctx.putImageData(imageData, 0, 0);
-  return offCanvas.toDataURL('image/png');
+  // Leave out the layer's opacity and the editor overlays, which aren't part of the design
+  const opacity = node.opacity();
+  if (layer) node.opacity(1);
+  const restoreOverlays = hideEditorOverlays(stage);
+  const canvas = node.toCanvas({ x: 0, y: 0, width: MASK_SIZE, height: MASK_SIZE, pixelRatio: 1 });
+  restoreOverlays();
+  node.opacity(opacity);
+
+  return canvas.getContext('2d')?.getImageData(0, 0, MASK_SIZE, MASK_SIZE) ?? null;
 };
 
 export const FillTool = ({ stageRef }: FillToolProps) => {
@@ -105,10 +46,6 @@ export const FillTool = ({ stageRef }: FillToolProps) => {
       const pos = stage.getPointerPosition();
       if (!pos) return;
       
-      // Get click position in canvas coordinates (0-1024)
-      const x = Math.floor(pos.x);
-      const y = Math.floor(pos.y);
-      
       // Create a temporary canvas to read pixel data from template
       const canvas = document.createElement('canvas');
       canvas.width = templateImage.width;
@@ -120,97 +57,83 @@ export const FillTool = ({ stageRef }: FillToolProps) => {
       ctx.drawImage(templateImage, 0, 0);
       
       // Get pixel data
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const templateData = ctx.getImageData(0, 0, canvas.width, canvas.height);
       
       // Get the alpha at click position to check if it's part of template
-      const pixelIdx = (y * canvas.width + x) * 4;
-      const clickedAlpha = imageData.data[pixelIdx + 3];
+      const templateX = Math.floor((pos.x / MASK_SIZE) * canvas.width);
+      const templateY = Math.floor((pos.y / MASK_SIZE) * canvas.height);
+      const clickedAlpha = templateData.data[(templateY * canvas.width + templateX) * 4 + 3];
       
       // If clicking on transparent area (outside template), don't fill
       if (clickedAlpha < 1) return;
       
       // Get fill color from brush settings
       const fillColorHex = brushSettings.color;
-      
-      // Perform flood fill - finds all connected pixels with alpha
-      const filledPixels = floodFill(
-        imageData,
-        x,
-        y,
-        canvas.width,
-        canvas.height
+      const { fillSettings } = useEditorStore.getState();
+      const { contiguous } = fillSettings;
+      
+      // Template fills take every connected pixel with alpha; the other sources compare colours
+      const sampled = fillSettings.sample === 'template' ? null : sampleCanvas(stage, fillSettings.sample);
+      const imageData = sampled ?? templateData;
+      const x = Math.floor((pos.x / MASK_SIZE) * imageData.width);
+      const y = Math.floor((pos.y / MASK_SIZE) * imageData.height);
+      const filledPixels = expandFill(
+        sampled
+          ? floodFill(imageData, x, y, fillSettings.tolerance, { contiguous, includeTransparent: true })
+          : floodFill(imageData, x, y, 100, { contiguous }),
+        imageData.width,
+        imageData.height,
+        fillSettings.expand
       );
       
-      if (filledPixels.size === 0) return;
-      
-      // Calculate bounding box for path
-      let minX = canvas.width;
-      let minY = canvas.height;
-      let maxX = 0;
-      let maxY = 0;
-      
-      filledPixels.forEach((pixelIdx) => {
-        const px = (pixelIdx / 4) % canvas.width;
-        const py = Math.floor((pixelIdx / 4) / canvas.width);
-        minX = Math.min(minX, px);
-        minY = Math.min(minY, py);
-        maxX = Math.max(maxX, px);
-        maxY = Math.max(maxY, py);
-      });
-      
-      const bboxWidth = maxX - minX + 1;
-      const bboxHeight = maxY - minY + 1;
-      const path = [minX, minY, bboxWidth, bboxHeight];
-      
-      // Create cropped image for bounding box only
-      // Adjust pixel indices to be relative to bounding box
-      const croppedPixelIndices: number[] = [];
-      const getPixelIndex = (px: number, py: number, w: number) => (py * w + px) * 4;
-      
-      filledPixels.forEach((pixelIdx) => {
-        const px = (pixelIdx / 4) % canvas.width;
-        const py = Math.floor((pixelIdx / 4) / canvas.width);
-        // Convert to bounding box relative coordinates
-        const relX = px - minX;
-        const relY = py - minY;
-        const relIdx = getPixelIndex(relX, relY, bboxWidth);
-        croppedPixelIndices.push(relIdx);
-      });
-      
-      // Create cropped fill image (only bounding box area)
-      const fillImageDataUrl = createFillImage(
-        new Set(croppedPixelIndices),
-        fillColorHex,
-        bboxWidth,
-        bboxHeight
-      );
-      if (!fillImageDataUrl) return;
+      // With a pixel selection, only the mostly selected part of the region is filled
+      const { pixelSelection } = useEditorStore.getState();
+      if (pixelSelection) {
+        const selected = getSelectionAlpha(pixelSelection);
+        filledPixels.forEach((pixelIdx) => {
+          const px = Math.floor((((pixelIdx / 4) % imageData.width) / imageData.width) * MASK_SIZE);
+          const py = Math.floor((Math.floor((pixelIdx / 4) / imageData.width) / imageData.height) * MASK_SIZE);
+          if (selected[py * MASK_SIZE + px] < 128) filledPixels.delete(pixelIdx);
+        });
+      }
       
       // Create fill layer
       const { layers } = useEditorStore.getState();
       let index = 1;
-      while (layers.some((l) => l.name === `Fill ${index}`)) {
+      while (flattenLayers(layers).some((l) => l.name === `Fill ${index}`)) {
         index += 1;
       }
       
-      addLayer({
-        type: 'fill',
-        name: `Fill ${index}`,
-        fill: fillColorHex,
-        path,
-        fillImageDataUrl, // Store the cropped image data URL
-        pixelMask: croppedPixelIndices, // Store pixel indices relative to bounding box
-        maskWidth: bboxWidth,
-        maskHeight: bboxHeight,
-        visible: true,
-        locked: false,
-        opacity: 1,
-        x: minX, // Position at bounding box origin
-        y: minY,
-        rotation: 0,
-        scaleX: 1,
-        scaleY: 1,
-      });
+      let paint: FillPaint = {};
+      if (fillSettings.content === 'gradient') {
+        paint = { gradient: { type: fillSettings.gradientType, stops: fillSettings.gradientStops } };
+      } else if (fillSettings.content === 'texture') {
+        if (!fillSettings.textureSrc) {
+          alert('Choose a texture to fill with first.');
+          return;
+        }
+        try {
+          paint = { texture: { image: await loadImage(fillSettings.textureSrc), scale: fillSettings.textureScale / 100 } };
+        } catch (error) {
+          console.error('Failed to load texture:', error);
+          alert('The fill texture could not be loaded. Choose another texture and try again.');
+          return;
+        }
+      }
+      
+      const fillLayer = createFillLayerData(filledPixels, imageData.width, imageData.height, fillColorHex, `Fill ${index}`, paint);
+      if (!fillLayer) return;
+      // The eraser reads baked texture fills from their loaded image
+      if (fillLayer.fillImageDataUrl && !fillLayer.pixelMask) {
+        try {
+          fillLayer.fillImage = await loadImage(fillLayer.fillImageDataUrl);
+        } catch (error) {
+          console.error('Failed to load fill image:', error);
+          alert('The fill could not be created. Please try again.');
+          return;
+        }
+      }
+      addLayer(fillLayer);
     };
     
     stage.on('click', handleClick);
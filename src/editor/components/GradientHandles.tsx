@@ -0,0 +1,51 @@
+import { Circle, Group, Line } from 'react-konva';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import type { Transform } from 'konva/lib/Util';
+import type { GradientFill } from '../state/editorTypes';
+import { sortStops } from '../../utils/gradients';
+import { EDITOR_OVERLAY_NAME } from '../../utils/editorOverlays';
+
+interface GradientHandlesProps {
+  gradient: GradientFill;
+  // Maps the gradient's coordinate space (the shape's own space) onto the stage
+  transform: Transform;
+  locked?: boolean;
+  onChange: (gradient: GradientFill) => void;
+  onChangeEnd: () => void;
+}
+
+// Start and end points of a gradient, dragged on the canvas
+export const GradientHandles = ({ gradient, transform, locked, onChange, onChangeEnd }: GradientHandlesProps) => {
+  const start = transform.point(gradient.start);
+  const end = transform.point(gradient.end);
+  const stops = sortStops(gradient.stops);
+
+  const handleDragMove = (point: 'start' | 'end') => (e: KonvaEventObject<DragEvent>) => {
+    onChange({ ...gradient, [point]: transform.copy().invert().point(e.target.position()) });
+  };
+
+  const handleProps = {
+    radius: 7,
+    stroke: '#B73038',
+    strokeWidth: 2,
+    draggable: !locked,
+    listening: !locked,
+    onDragEnd: onChangeEnd,
+  };
+
+  return (
+    <Group name={EDITOR_OVERLAY_NAME}>
+      <Line
+        points={[start.x, start.y, end.x, end.y]}
+        stroke="#ffffff"
+        strokeWidth={1.5}
+        dash={[6, 4]}
+        shadowColor="#000000"
+        shadowBlur={2}
+        listening={false}
+      />
+      <Circle {...handleProps} x={start.x} y={start.y} fill={stops[0]?.color} onDragMove={handleDragMove('start')} />
+      <Circle {...handleProps} x={end.x} y={end.y} fill={stops[stops.length - 1]?.color} onDragMove={handleDragMove('end')} />
+    </Group>
+  );
+};
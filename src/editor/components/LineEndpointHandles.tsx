@@ -2,6 +2,8 @@ import { Circle } from 'react-konva';
 import { useEffect, useRef } from 'react';
 import type Konva from 'konva';
 import { useEditorStore } from '../state/useEditorStore';
+import { findLayer, getParentTransform } from '../state/layerTree';
+import { EDITOR_OVERLAY_NAME } from '../../utils/editorOverlays';
 
 interface LineEndpointHandlesProps {
   layerId: string;
@@ -14,7 +16,7 @@ export const LineEndpointHandles = ({ layerId }: LineEndpointHandlesProps) => {
   const lineNodeRef = useRef<Konva.Line | null>(null);
   const isDraggingHandleRef = useRef<'start' | 'end' | null>(null);
 
-  const layer = layers.find(l => l.id === layerId);
+  const layer = findLayer(layers, layerId);
   
   if (!layer || layer.type !== 'line' || selectedLayerId !== layerId) {
     return null;
@@ -24,11 +26,12 @@ export const LineEndpointHandles = ({ layerId }: LineEndpointHandlesProps) => {
   const layerX = layer.x || 0;
   const layerY = layer.y || 0;
   
+  // Lines inside groups live in the group's coordinate space
+  const parentTransform = getParentTransform(layers, layerId);
+
   // Absolute positions of endpoints on stage
-  const startX = points[0] + layerX;
-  const startY = points[1] + layerY;
-  const endX = points[2] + layerX;
-  const endY = points[3] + layerY;
+  const { x: startX, y: startY } = parentTransform.point({ x: points[0] + layerX, y: points[1] + layerY });
+  const { x: endX, y: endY } = parentTransform.point({ x: points[2] + layerX, y: points[3] + layerY });
 
   // Find and track the line node to listen to its drag events
   useEffect(() => {
@@ -48,15 +51,12 @@ export const LineEndpointHandles = ({ layerId }: LineEndpointHandlesProps) => {
         const currentLineY = lineNode.y();
         
         // Update handle positions to match line movement
-        const newStartX = points[0] + currentLineX;
-        const newStartY = points[1] + currentLineY;
-        const newEndX = points[2] + currentLineX;
-        const newEndY = points[3] + currentLineY;
+        const parentTransform = getParentTransform(useEditorStore.getState().layers, layerId);
+        const newStart = parentTransform.point({ x: points[0] + currentLineX, y: points[1] + currentLineY });
+        const newEnd = parentTransform.point({ x: points[2] + currentLineX, y: points[3] + currentLineY });
         
-        startHandleRef.current.x(newStartX);
-        startHandleRef.current.y(newStartY);
-        endHandleRef.current.x(newEndX);
-        endHandleRef.current.y(newEndY);
+        startHandleRef.current.position(newStart);
+        endHandleRef.current.position(newEnd);
       };
 
       lineNode.on('dragmove', handleLineDragMove);
@@ -93,11 +93,10 @@ export const LineEndpointHandles = ({ layerId }: LineEndpointHandlesProps) => {
 
     const handleDragMove = () => {
       // Get current layer state (may have changed if line was dragged)
-      const currentLayer = layers.find(l => l.id === layerId);
+      const currentLayer = findLayer(layers, layerId);
       if (!currentLayer || currentLayer.type !== 'line') return;
       
-      const currentX = startHandle.x();
-      const currentY = startHandle.y();
+      const { x: currentX, y: currentY } = getParentTransform(layers, layerId).invert().point(startHandle.position());
       const currentLayerX = currentLayer.x || 0;
       const currentLayerY = currentLayer.y || 0;
       const currentPoints = currentLayer.points || [0, 0, 0, 0];
@@ -135,11 +134,10 @@ export const LineEndpointHandles = ({ layerId }: LineEndpointHandlesProps) => {
 
     const handleDragMove = () => {
       // Get current layer state (may have changed if line was dragged)
-      const currentLayer = layers.find(l => l.id === layerId);
+      const currentLayer = findLayer(layers, layerId);
       if (!currentLayer || currentLayer.type !== 'line') return;
       
-      const currentX = endHandle.x();
-      const currentY = endHandle.y();
+      const { x: currentX, y: currentY } = getParentTransform(layers, layerId).invert().point(endHandle.position());
       const currentLayerX = currentLayer.x || 0;
       const currentLayerY = currentLayer.y || 0;
       const currentPoints = currentLayer.points || [0, 0, 0, 0];
@@ -179,6 +177,7 @@ export const LineEndpointHandles = ({ layerId }: LineEndpointHandlesProps) => {
       {/* Start point handle */}
       <Circle
         ref={startHandleRef}
+        name={EDITOR_OVERLAY_NAME}
         x={startX}
         y={startY}
         radius={handleSize}
@@ -193,6 +192,7 @@ export const LineEndpointHandles = ({ layerId }: LineEndpointHandlesProps) => {
       {/* End point handle */}
       <Circle
         ref={endHandleRef}
+        name={EDITOR_OVERLAY_NAME}
         x={endX}
         y={endY}
         radius={handleSize}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Circle, Group, Line, Rect } from 'react-konva';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import type { Transform } from 'konva/lib/Util';
+import type { PathAnchor, PathLayer } from '../state/editorTypes';
+import { getSmoothHandles } from '../../utils/paths';
+import { EDITOR_OVERLAY_NAME } from '../../utils/editorOverlays';
+
+// Name of every handle node, so the pen tool can tell handle clicks from canvas clicks
+export const PATH_HANDLE_NAME = 'path-handle';
+
+interface PathHandlesProps {
+  layer: PathLayer;
+  // Maps the path's own space onto the stage
+  transform: Transform;
+  // Anchor whose Bezier handles show until another anchor is picked
+  defaultIndex?: number;
+  onChange: (anchors: PathAnchor[]) => void;
+  onChangeEnd: () => void;
+}
+
+// Anchors and Bezier handles of the selected path. Drag an anchor to move it, drag a
+// handle to bend the curve (Alt breaks the symmetry), double-click an anchor to switch
+// between a corner and a smooth point.
+export const PathHandles = ({ layer, transform, defaultIndex, onChange, onChangeEnd }: PathHandlesProps) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const { anchors } = layer;
+  const shownIndex = selectedIndex !== null && selectedIndex < anchors.length ? selectedIndex : defaultIndex;
+  const shown = shownIndex !== undefined ? anchors[shownIndex] : undefined;
+  const inverse = transform.copy().invert();
+
+  const updateAnchor = (index: number, anchor: PathAnchor) => {
+    onChange(anchors.map((a, i) => (i === index ? anchor : a)));
+  };
+
+  const handleAnchorDragMove = (index: number) => (e: KonvaEventObject<DragEvent>) => {
+    const { x, y } = inverse.point(e.target.position());
+    updateAnchor(index, { ...anchors[index], x, y });
+  };
+
+  const handleHandleDragMove = (index: number, side: 'handleIn' | 'handleOut') => (e: KonvaEventObject<DragEvent>) => {
+    const anchor = anchors[index];
+    const point = inverse.point(e.target.position());
+    const offset = { x: point.x - anchor.x, y: point.y - anchor.y };
+    const opposite = side === 'handleIn' ? 'handleOut' : 'handleIn';
+    updateAnchor(index, {
+      ...anchor,
+      [side]: offset,
+      ...(!e.evt.altKey && { [opposite]: { x: -offset.x, y: -offset.y } }),
+    });
+  };
+
+  const toggleSmooth = (index: number) => {
+    const anchor = anchors[index];
+    const corner = { x: anchor.x, y: anchor.y };
+    updateAnchor(index, anchor.handleIn || anchor.handleOut ? corner : { ...corner, ...getSmoothHandles(anchors, index, layer.closed) });
+    onChangeEnd();
+  };
+
+  const handleProps = {
+    name: PATH_HANDLE_NAME,
+    stroke: '#B73038',
+    strokeWidth: 2,
+    draggable: !layer.locked,
+    listening: !layer.locked,
+    onDragEnd: onChangeEnd,
+  };
+
+  const toStage = (anchor: PathAnchor, offset?: { x: number; y: number }) =>
+    transform.point({ x: anchor.x + (offset?.x ?? 0), y: anchor.y + (offset?.y ?? 0) });
+
+  return (
+    <Group name={EDITOR_OVERLAY_NAME}>
+      {shown &&
+        shownIndex !== undefined &&
+        (['handleIn', 'handleOut'] as const).map((side) => {
+          const offset = shown[side];
+          if (!offset) return null;
+          const anchorPoint = toStage(shown);
+          const handlePoint = toStage(shown, offset);
+          return [
+            <Line
+              key={`${side}-line`}
+              points={[anchorPoint.x, anchorPoint.y, handlePoint.x, handlePoint.y]}
+              stroke="#B73038"
+              strokeWidth={1}
+              listening={false}
+            />,
+            <Circle
+              key={side}
+              {...handleProps}
+              x={handlePoint.x}
+              y={handlePoint.y}
+              radius={4}
+              fill="#ffffff"
+              onDragMove={handleHandleDragMove(shownIndex, side)}
+            />,
+          ];
+        })}
+      {anchors.map((anchor, index) => {
+        const point = toStage(anchor);
+        return (
+          <Rect
+            key={index}
+            {...handleProps}
+            x={point.x}
+            y={point.y}
+            width={10}
+            height={10}
+            offsetX={5}
+            offsetY={5}
+            fill={index === shownIndex ? '#B73038' : '#ffffff'}
+            onMouseDown={() => setSelectedIndex(index)}
+            onDragMove={handleAnchorDragMove(index)}
+            onDblClick={() => toggleSmooth(index)}
+          />
+        );
+      })}
+    </Group>
+  );
+};
@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from 'react';
+import { Line } from 'react-konva';
+import type { Stage as StageType } from 'konva/lib/Stage';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import { useEditorStore } from '../state/useEditorStore';
+import { findLayer, flattenLayers, getLayerTransform, getParentTransform } from '../state/layerTree';
+import type { PathAnchor, PathLayer } from '../state/editorTypes';
+import { PATH_HANDLE_NAME } from './PathHandles';
+import { EDITOR_OVERLAY_NAME } from '../../utils/editorOverlays';
+
+interface PenToolProps {
+  stageRef: React.RefObject<StageType | null>;
+}
+
+// How close (in canvas pixels) a click has to be to the first anchor to close the path
+const CLOSE_DISTANCE = 8;
+// Pointer travel before a press turns into dragging out Bezier handles
+const DRAG_THRESHOLD = 2;
+
+const nextPathName = () => {
+  const { layers } = useEditorStore.getState();
+  let index = 1;
+  while (flattenLayers(layers).some((l) => l.name === `Path ${index}`)) {
+    index += 1;
+  }
+  return `Path ${index}`;
+};
+
+// Click to place corner anchors, press and drag to pull out smooth Bezier handles.
+// Clicking the first anchor closes the path; Enter or Escape ends an open one.
+export const PenTool = ({ stageRef }: PenToolProps) => {
+  const activeTool = useEditorStore((state) => state.activeTool);
+  // Path being drawn; new clicks append anchors to it
+  const drawingIdRef = useRef<string | null>(null);
+  // Anchor whose handles are being dragged out by the current press
+  const pressRef = useRef<{ index: number; start: { x: number; y: number }; dragged: boolean; created: boolean } | null>(null);
+  // Rubber band from the last anchor to the pointer (canvas coordinates)
+  const [preview, setPreview] = useState<number[] | null>(null);
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage || activeTool !== 'pen') return;
+
+    const getDrawingPath = (): PathLayer | null => {
+      const { layers, selectedLayerId } = useEditorStore.getState();
+      const id = drawingIdRef.current;
+      const layer = id && selectedLayerId === id ? findLayer(layers, id) : undefined;
+      return layer?.type === 'path' && !layer.closed ? layer : null;
+    };
+
+    // Maps the path's own space onto the canvas
+    const getTransform = (layer: PathLayer) =>
+      getParentTransform(useEditorStore.getState().layers, layer.id).multiply(getLayerTransform(layer));
+
+    const finishPath = () => {
+      const layer = getDrawingPath();
+      drawingIdRef.current = null;
+      pressRef.current = null;
+      setPreview(null);
+      // A single anchor draws nothing
+      if (layer && layer.anchors.length < 2) {
+        useEditorStore.getState().deleteLayer(layer.id);
+      }
+    };
+
+    const handleMouseDown = (e: KonvaEventObject<MouseEvent>) => {
+      const pos = stage.getPointerPosition();
+      if (!pos) return;
+      const { addLayer, updateLayer, pushHistory } = useEditorStore.getState();
+      const layer = getDrawingPath();
+
+      if (layer) {
+        const transform = getTransform(layer);
+        const first = transform.point(layer.anchors[0]);
+        if (layer.anchors.length > 1 && Math.hypot(pos.x - first.x, pos.y - first.y) <= CLOSE_DISTANCE) {
+          updateLayer(layer.id, { closed: true });
+          pushHistory();
+          drawingIdRef.current = null;
+          setPreview(null);
+          return;
+        }
+        // Anchors and handles drag as usual
+        if (e.target.name() === PATH_HANDLE_NAME) return;
+
+        const local = transform.invert().point(pos);
+        updateLayer(layer.id, { anchors: [...layer.anchors, { x: local.x, y: local.y }] });
+        pressRef.current = { index: layer.anchors.length, start: pos, dragged: false, created: false };
+        return;
+      }
+
+      if (e.target.name() === PATH_HANDLE_NAME) return;
+      // New paths start at the top of the root list, so the canvas is their own space
+      addLayer({
+        type: 'path',
+        name: nextPathName(),
+        anchors: [{ x: pos.x, y: pos.y }],
+        closed: false,
+        stroke: '#B73038',
+        strokeWidth: 4,
+        lineCap: 'round',
+        lineJoin: 'round',
+        visible: true,
+        locked: false,
+        opacity: 1,
+        x: 0,
+        y: 0,
+        rotation: 0,
+        scaleX: 1,
+        scaleY: 1,
+      });
+      drawingIdRef.current = useEditorStore.getState().selectedLayerId;
+      pressRef.current = { index: 0, start: pos, dragged: false, created: true };
+    };
+
+    const handleMouseMove = () => {
+      const pos = stage.getPointerPosition();
+      const layer = getDrawingPath();
+      if (!pos || !layer) {
+        setPreview(null);
+        return;
+      }
+
+      const press = pressRef.current;
+      if (!press) {
+        const transform = getTransform(layer);
+        const last = transform.point(layer.anchors[layer.anchors.length - 1]);
+        setPreview([last.x, last.y, pos.x, pos.y]);
+        return;
+      }
+
+      if (!press.dragged && Math.hypot(pos.x - press.start.x, pos.y - press.start.y) < DRAG_THRESHOLD) return;
+      press.dragged = true;
+      setPreview(null);
+      const anchor = layer.anchors[press.index];
+      if (!anchor) return;
+      const local = getTransform(layer).invert().point(pos);
+      const handleOut = { x: local.x - anchor.x, y: local.y - anchor.y };
+      const updated: PathAnchor = { ...anchor, handleIn: { x: -handleOut.x, y: -handleOut.y }, handleOut };
+      useEditorStore.getState().updateLayer(layer.id, {
+        anchors: layer.anchors.map((a, i) => (i === press.index ? updated : a)),
+      });
+    };
+
+    const handleMouseUp = () => {
+      const press = pressRef.current;
+      pressRef.current = null;
+      // Creating the layer already recorded its first anchor
+      if (press && (press.dragged || !press.created)) {
+        useEditorStore.getState().pushHistory();
+      }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === 'Escape') {
+        finishPath();
+      }
+    };
+
+    stage.on('mousedown', handleMouseDown);
+    stage.on('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('keydown', handleKeyDown);
+
+    const container = stage.container();
+    if (container) {
+      container.style.cursor = 'crosshair';
+    }
+
+    return () => {
+      stage.off('mousedown', handleMouseDown);
+      stage.off('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('keydown', handleKeyDown);
+      // Switching tools ends the path being drawn
+      finishPath();
+
+      if (container) {
+        container.style.cursor = 'default';
+      }
+    };
+  }, [stageRef, activeTool]);
+
+  if (!preview) return null;
+
+  return <Line name={EDITOR_OVERLAY_NAME} points={preview} stroke="#B73038" strokeWidth={1} dash={[4, 4]} listening={false} />;
+};
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import type { Stage as StageType } from 'konva/lib/Stage';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import { useEditorStore } from '../state/useEditorStore';
+import { carModels } from '../../data/carModels';
+import type { CarRegion } from '../../data/carRegions';
+import { getRegionAt } from '../../utils/carRegions';
+
+interface RegionLabelProps {
+  stageRef: React.RefObject<StageType | null>;
+  scale: number;  // Zoom of the canvas wrapper, undone so the label stays readable
+}
+
+// Names the template panel under the pointer. It's HTML over the canvas rather than a
+// Konva node, so exports never pick it up.
+export const RegionLabel = ({ stageRef, scale }: RegionLabelProps) => {
+  const showRegionLabels = useEditorStore((state) => state.showRegionLabels);
+  const templateImage = useEditorStore((state) => state.templateImage);
+  const currentModelId = useEditorStore((state) => state.currentModelId);
+  const [hovered, setHovered] = useState<{ region: CarRegion; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    const regions = carModels.find((m) => m.id === currentModelId)?.regions;
+    if (!stage || !showRegionLabels || !templateImage || !regions) return;
+
+    const handleMouseMove = (e: KonvaEventObject<MouseEvent>) => {
+      const pos = stage.getPointerPosition();
+      // Stay out of the way while dragging or painting
+      if (!pos || e.evt.buttons) {
+        setHovered(null);
+        return;
+      }
+      const region = getRegionAt(templateImage, regions, pos);
+      setHovered(region ? { region, x: pos.x, y: pos.y } : null);
+    };
+
+    const handleMouseLeave = () => setHovered(null);
+
+    stage.on('mousemove', handleMouseMove);
+    stage.on('mousedown mouseleave', handleMouseLeave);
+
+    return () => {
+      stage.off('mousemove', handleMouseMove);
+      stage.off('mousedown mouseleave', handleMouseLeave);
+      setHovered(null);
+    };
+  }, [stageRef, showRegionLabels, templateImage, currentModelId]);
+
+  if (!hovered) return null;
+
+  return (
+    <div
+      className="absolute pointer-events-none z-10 px-2 py-1 rounded-md bg-black/75 text-white text-xs whitespace-nowrap"
+      style={{
+        left: hovered.x + 14,
+        top: hovered.y + 14,
+        transform: `scale(${1 / scale})`,
+        transformOrigin: 'top left',
+      }}
+    >
+      {hovered.region.name}
+    </div>
+  );
+};
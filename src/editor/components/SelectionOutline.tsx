@@ -0,0 +1,56 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { Image as KonvaImage } from 'react-konva';
+import type Konva from 'konva';
+import type { PixelSelection } from '../state/editorTypes';
+import { getSelectionEdges } from '../../utils/selection';
+import { MASK_SIZE } from '../../utils/layerMask';
+import { EDITOR_OVERLAY_NAME } from '../../utils/editorOverlays';
+
+// Time between steps of the marching ants
+const MARCH_INTERVAL = 120;
+
+interface SelectionOutlineProps {
+  selection: PixelSelection;
+}
+
+// "Marching ants" around the pixel selection: its edge pixels in black and white stripes
+// that shift along every few frames
+export const SelectionOutline = ({ selection }: SelectionOutlineProps) => {
+  const imageRef = useRef<Konva.Image>(null);
+  const edges = useMemo(() => getSelectionEdges(selection), [selection]);
+  const canvas = useMemo(() => {
+    const outline = document.createElement('canvas');
+    outline.width = MASK_SIZE;
+    outline.height = MASK_SIZE;
+    return outline;
+  }, []);
+
+  useEffect(() => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const imageData = ctx.createImageData(MASK_SIZE, MASK_SIZE);
+    let phase = 0;
+
+    const draw = () => {
+      edges.forEach((pixel) => {
+        const x = pixel % MASK_SIZE;
+        const y = Math.floor(pixel / MASK_SIZE);
+        const value = (x + y + phase) % 8 < 4 ? 0 : 255;
+        const i = pixel * 4;
+        imageData.data[i] = value;
+        imageData.data[i + 1] = value;
+        imageData.data[i + 2] = value;
+        imageData.data[i + 3] = 255;
+      });
+      ctx.putImageData(imageData, 0, 0);
+      imageRef.current?.getLayer()?.batchDraw();
+      phase = (phase + 7) % 8;
+    };
+
+    draw();
+    const timer = window.setInterval(draw, MARCH_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [canvas, edges]);
+
+  return <KonvaImage ref={imageRef} name={EDITOR_OVERLAY_NAME} image={canvas} listening={false} />;
+};
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { Ellipse, Line, Rect } from 'react-konva';
+import type { Stage as StageType } from 'konva/lib/Stage';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import { useEditorStore } from '../state/useEditorStore';
+import type { SelectionMode } from '../state/editorTypes';
+import { combineSelections, drawSelectionRegion, drawSelectionShape, isSelectionTool } from '../../utils/selection';
+import type { SelectionShape } from '../../utils/selection';
+import { floodFill } from '../../utils/floodFill';
+import { MASK_SIZE } from '../../utils/layerMask';
+import { EDITOR_OVERLAY_NAME } from '../../utils/editorOverlays';
+
+interface SelectionToolProps {
+  stageRef: React.RefObject<StageType | null>;
+}
+
+// Pointer travel below which a marquee counts as a click, which clears the selection
+const CLICK_DISTANCE = 2;
+
+// Shift adds to the selection, Alt subtracts and both intersect; otherwise the panel's mode applies
+const getMode = (e: MouseEvent, fallback: SelectionMode): SelectionMode => {
+  if (e.shiftKey && e.altKey) return 'intersect';
+  if (e.shiftKey) return 'add';
+  if (e.altKey) return 'subtract';
+  return fallback;
+};
+
+// Marquee, ellipse and lasso selections are dragged out on the canvas; the magic wand
+// selects the template region under a click.
+export const SelectionTool = ({ stageRef }: SelectionToolProps) => {
+  const activeTool = useEditorStore((state) => state.activeTool);
+  // Shape being dragged out (canvas coordinates)
+  const [preview, setPreview] = useState<SelectionShape | null>(null);
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage || !isSelectionTool(activeTool)) return;
+
+    let drag: { start: { x: number; y: number }; points: number[]; mode: SelectionMode; shape: SelectionShape | null } | null = null;
+
+    const commit = (canvas: HTMLCanvasElement, mode: SelectionMode) => {
+      const { pixelSelection, setPixelSelection } = useEditorStore.getState();
+      setPixelSelection(combineSelections(pixelSelection, canvas, mode));
+    };
+
+    const selectTemplateRegion = (pos: { x: number; y: number }, mode: SelectionMode) => {
+      const { templateImage, selectionSettings } = useEditorStore.getState();
+      if (!templateImage) return;
+      const canvas = document.createElement('canvas');
+      canvas.width = templateImage.width;
+      canvas.height = templateImage.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.drawImage(templateImage, 0, 0);
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const x = Math.floor((pos.x / MASK_SIZE) * canvas.width);
+      const y = Math.floor((pos.y / MASK_SIZE) * canvas.height);
+      const pixels = floodFill(imageData, x, y, selectionSettings.tolerance);
+      if (pixels.size === 0) {
+        // Clicking outside the template clears a new selection
+        if (mode === 'replace') useEditorStore.getState().setPixelSelection(null);
+        return;
+      }
+      commit(drawSelectionRegion(pixels, canvas.width, canvas.height, selectionSettings.feather), mode);
+    };
+
+    const getShape = (pos: { x: number; y: number }): SelectionShape | null => {
+      if (!drag) return null;
+      if (activeTool === 'lasso') {
+        return drag.points.length >= 6 ? { type: 'polygon', points: drag.points } : null;
+      }
+      return {
+        type: activeTool === 'ellipseSelect' ? 'ellipse' : 'rect',
+        x: Math.min(drag.start.x, pos.x),
+        y: Math.min(drag.start.y, pos.y),
+        width: Math.abs(pos.x - drag.start.x),
+        height: Math.abs(pos.y - drag.start.y),
+      };
+    };
+
+    const finishDrag = () => {
+      const current = drag;
+      drag = null;
+      setPreview(null);
+      if (!current) return;
+      const shape = current.shape;
+      const isClick = !shape || (shape.type !== 'polygon' && shape.width < CLICK_DISTANCE && shape.height < CLICK_DISTANCE);
+      if (isClick) {
+        if (current.mode === 'replace') useEditorStore.getState().setPixelSelection(null);
+        return;
+      }
+      commit(drawSelectionShape(shape, useEditorStore.getState().selectionSettings.feather), current.mode);
+    };
+
+    const handleMouseDown = (e: KonvaEventObject<MouseEvent>) => {
+      const pos = stage.getPointerPosition();
+      if (!pos) return;
+      const mode = getMode(e.evt, useEditorStore.getState().selectionSettings.mode);
+      if (activeTool === 'magicWand') {
+        selectTemplateRegion(pos, mode);
+        return;
+      }
+      drag = { start: pos, points: [pos.x, pos.y], mode, shape: null };
+      // Finish on window mouseup so releasing outside the canvas still ends the shape
+      window.addEventListener('mouseup', finishDrag, { once: true });
+    };
+
+    const handleMouseMove = () => {
+      const pos = stage.getPointerPosition();
+      if (!drag || !pos) return;
+      if (activeTool === 'lasso') {
+        drag.points = [...drag.points, pos.x, pos.y];
+      }
+      drag.shape = getShape(pos);
+      setPreview(drag.shape);
+    };
+
+    stage.on('mousedown', handleMouseDown);
+    stage.on('mousemove', handleMouseMove);
+
+    const container = stage.container();
+    if (container) {
+      container.style.cursor = 'crosshair';
+    }
+
+    return () => {
+      stage.off('mousedown', handleMouseDown);
+      stage.off('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', finishDrag);
+      setPreview(null);
+
+      if (container) {
+        container.style.cursor = 'default';
+      }
+    };
+  }, [stageRef, activeTool]);
+
+  if (!preview) return null;
+
+  const outline = { name: EDITOR_OVERLAY_NAME, stroke: '#ffffff', strokeWidth: 1, dash: [4, 4], listening: false };
+  if (preview.type === 'polygon') {
+    return <Line points={preview.points} closed {...outline} />;
+  }
+  if (preview.type === 'ellipse') {
+    return (
+      <Ellipse
+        x={preview.x + preview.width / 2}
+        y={preview.y + preview.height / 2}
+        radiusX={preview.width / 2}
+        radiusY={preview.height / 2}
+        {...outline}
+      />
+    );
+  }
+  return <Rect x={preview.x} y={preview.y} width={preview.width} height={preview.height} {...outline} />;
+};
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Layers, Shapes, AlertTriangle } from 'lucide-react';
+import { useEditorStore } from '../state/useEditorStore';
+import { importSvg, type SvgImportMode } from '../../utils/svgImport';
+
+export interface SvgFile {
+  name: string;   // Without the extension
+  text: string;
+}
+
+interface SvgImportDialogProps {
+  file: SvgFile | null;
+  onClose: () => void;
+}
+
+export const SvgImportDialog = ({ file, onClose }: SvgImportDialogProps) => {
+  const addLayers = useEditorStore((state) => state.addLayers);
+  const [mode, setMode] = useState<SvgImportMode>('group');
+  const [isImporting, setIsImporting] = useState(false);
+  // Shown after importing, before the dialog closes
+  const [warnings, setWarnings] = useState<string[] | null>(null);
+
+  if (!file) return null;
+
+  const handleClose = () => {
+    setWarnings(null);
+    onClose();
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await importSvg(file.text, file.name, mode);
+      addLayers(result.layers);
+      if (result.warnings.length > 0) {
+        setWarnings(result.warnings);
+      } else {
+        handleClose();
+      }
+    } catch (error) {
+      console.error('Failed to import SVG:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import SVG');
+      handleClose();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const modes: { id: SvgImportMode; label: string; description: string; icon: React.ReactNode }[] = [
+    { id: 'group', label: 'Group', description: 'One group that moves as a logo', icon: <Layers className="w-5 h-5" /> },
+    { id: 'separate', label: 'Separate layers', description: 'Every shape on its own layer', icon: <Shapes className="w-5 h-5" /> },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={isImporting ? undefined : handleClose} />
+
+      {/* Dialog */}
+      <div className="relative bg-[#1c1c1e] border border-white/10 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="p-6">
+          <h3 className="text-xl font-semibold text-white text-center mb-2">
+            {warnings ? 'SVG imported' : 'Import SVG'}
+          </h3>
+          <p className="text-white/60 text-center text-sm mb-5 truncate">{file.name}</p>
+
+          {warnings ? (
+            <ul className="space-y-2">
+              {warnings.map((warning) => (
+                <li key={warning} className="flex items-start gap-2 text-sm text-white/70">
+                  <AlertTriangle className="w-4 h-4 text-yellow-500 flex-shrink-0 mt-0.5" />
+                  <span>{warning}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              {modes.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setMode(option.id)}
+                  className={`p-3 rounded-xl border text-left transition-colors ${
+                    mode === option.id
+                      ? 'border-tesla-red bg-tesla-red/10 text-white'
+                      : 'border-white/10 text-white/60 hover:bg-white/5 hover:text-white'
+                  }`}
+                >
+                  <div className="mb-2">{option.icon}</div>
+                  <div className="text-sm font-medium">{option.label}</div>
+                  <div className="text-xs text-white/50 mt-0.5">{option.description}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-white/10 flex items-center justify-end gap-3 bg-[#161618]">
+          {warnings ? (
+            <button
+              onClick={handleClose}
+              className="px-5 py-2 text-white rounded-lg font-medium transition-colors text-sm bg-tesla-red hover:bg-tesla-red/90"
+            >
+              OK
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={handleClose}
+                disabled={isImporting}
+                className="px-5 py-2 text-white/50 hover:text-white hover:bg-white/5 rounded-lg transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={isImporting}
+                className="px-5 py-2 text-white rounded-lg font-medium transition-colors text-sm bg-tesla-red hover:bg-tesla-red/90 disabled:opacity-50"
+              >
+                {isImporting ? 'Importing…' : 'Import'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,9 @@
 import { useState, useRef, useEffect } from 'react';
 import { useEditorStore } from '../state/useEditorStore';
+import { flattenLayers } from '../state/layerTree';
 import type { ToolType } from '../state/editorTypes';
 import { loadImage, calculateImageScale } from '../../utils/image';
+import { isSvgFile } from '../../utils/svgImport';
 import {
   Move,
   Brush,
@@ -9,14 +11,22 @@ import {
   RectangleHorizontal,
   Circle,
   Minus,
+  PenTool,
   Star,
   Image as ImageIcon,
   Layers,
   PaintBucket,
   Sparkles,
   X,
+  SquareDashed,
+  CircleDashed,
+  Lasso,
+  WandSparkles,
+  Eraser,
+  FlipHorizontal2,
 } from 'lucide-react';
 import { AIGeneratorDialog } from './AIGeneratorDialog';
+import { SvgImportDialog, type SvgFile } from './SvgImportDialog';
 import { useAuth } from '../../contexts/AuthContext';
 import { LoginDialog } from '../../components/LoginDialog';
 import Tooltip from '@mui/material/Tooltip';
@@ -27,11 +37,12 @@ interface ToolsPanelProps {
 }
 
 export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanelProps = {}) => {
-  const { activeTool, setActiveTool, addLayer, setSelection } = useEditorStore();
+  const { activeTool, setActiveTool, addLayer, addSymmetricLayer, setSelection, symmetry, setSymmetry } = useEditorStore();
   const { user } = useAuth();
   const [isAIGeneratorDialogOpen, setIsAIGeneratorDialogOpen] = useState(false);
   const [isLoginDialogOpen, setIsLoginDialogOpen] = useState(false);
   const [showAITooltip, setShowAITooltip] = useState(false);
+  const [svgFile, setSvgFile] = useState<SvgFile | null>(null);
   const pendingAIOpenRef = useRef(false);
   const loginSuccessRef = useRef(false); // Track if login succeeded (to not clear pending on close)
   const aiToolButtonRef = useRef<HTMLButtonElement>(null);
@@ -81,6 +92,7 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
       'rect': 'Rectangle',
       'circle': 'Ellipse',
       'line': 'Line',
+      'path': 'Path',
       'star': 'Star',
       'image': 'Image',
       'texture': 'Texture',
@@ -93,7 +105,7 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
     const { layers } = useEditorStore.getState();
     const baseName = getLayerTypeName(layerType);
     let index = 1;
-    while (layers.some((l) => l.name === `${baseName} ${index}`)) {
+    while (flattenLayers(layers).some((l) => l.name === `${baseName} ${index}`)) {
       index += 1;
     }
     return `${baseName} ${index}`;
@@ -112,6 +124,36 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
       shortcut: 'B',
       icon: <Brush className="w-5 h-5" />,
     },
+    {
+      id: 'eraser',
+      label: 'Eraser Tool',
+      shortcut: 'E',
+      icon: <Eraser className="w-5 h-5" />,
+    },
+    {
+      id: 'rectSelect',
+      label: 'Rectangular Marquee',
+      shortcut: 'M',
+      icon: <SquareDashed className="w-5 h-5" />,
+    },
+    {
+      id: 'ellipseSelect',
+      label: 'Elliptical Marquee',
+      shortcut: 'Shift+M',
+      icon: <CircleDashed className="w-5 h-5" />,
+    },
+    {
+      id: 'lasso',
+      label: 'Lasso',
+      shortcut: 'Shift+L',
+      icon: <Lasso className="w-5 h-5" />,
+    },
+    {
+      id: 'magicWand',
+      label: 'Magic Wand',
+      shortcut: 'W',
+      icon: <WandSparkles className="w-5 h-5" />,
+    },
     {
       id: 'text',
       label: 'Text Tool',
@@ -142,6 +184,12 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
       shortcut: 'L',
       icon: <Minus className="w-5 h-5" />,
     },
+    {
+      id: 'pen',
+      label: 'Pen Tool',
+      shortcut: 'P',
+      icon: <PenTool className="w-5 h-5" />,
+    },
     {
       id: 'star',
       label: 'Star Tool',
@@ -185,7 +233,7 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
     // BRUSH TOOL: Auto-create or select a brush layer for convenience
     if (tool === 'brush') {
       const { layers } = useEditorStore.getState();
-      const existingBrushLayer = layers.find(l => l.type === 'brush');
+      const existingBrushLayer = flattenLayers(layers).find(l => l.type === 'brush');
       
       if (existingBrushLayer) {
         setSelection(existingBrushLayer.id);
@@ -233,7 +281,7 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
     }
     
     if (tool === 'rectangle') {
-      addLayer({
+      addSymmetricLayer({
         type: 'rect',
         name: nextLayerName('rect'),
         width: 200,
@@ -252,7 +300,7 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
     }
     
     if (tool === 'circle') {
-      addLayer({
+      addSymmetricLayer({
         type: 'circle',
         name: nextLayerName('circle'),
         radius: 50,
@@ -270,7 +318,7 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
     }
     
     if (tool === 'line') {
-      addLayer({
+      addSymmetricLayer({
         type: 'line',
         name: nextLayerName('line'),
         points: [100, 100, 300, 200],
@@ -291,7 +339,7 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
     }
     
     if (tool === 'star') {
-      addLayer({
+      addSymmetricLayer({
         type: 'star',
         name: nextLayerName('star'),
         numPoints: 5,
@@ -323,6 +371,13 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
           return;
         }
 
+        // SVGs are converted into editable layers instead of a flat image
+        if (isSvgFile(file)) {
+          setSvgFile({ name: file.name.replace(/\.svg$/i, ''), text: await file.text() });
+          setActiveTool('select');
+          return;
+        }
+
         const reader = new FileReader();
         reader.onload = async (event) => {
           const src = event.target?.result as string;
@@ -462,6 +517,24 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
               </Tooltip>
             );
           })}
+
+          {/* Symmetry toggle (axes and mode are in the properties panel) */}
+          <div className="border-t border-tesla-dark/30 pt-1.5">
+            <Tooltip title="Symmetry (Y)" placement="right" arrow>
+              <button
+                onClick={() => setSymmetry({ mode: symmetry.mode === 'off' ? 'vertical' : 'off' })}
+                className={`w-full p-2 rounded-lg transition-all duration-200 flex items-center justify-center ${
+                  symmetry.mode !== 'off'
+                    ? 'bg-cyan-500/20 text-cyan-400'
+                    : 'text-tesla-gray hover:text-tesla-light hover:bg-tesla-dark/40'
+                }`}
+                aria-label="Toggle symmetry"
+                aria-pressed={symmetry.mode !== 'off'}
+              >
+                <FlipHorizontal2 className="w-5 h-5" />
+              </button>
+            </Tooltip>
+          </div>
         </div>
       </div>
 
@@ -526,6 +599,9 @@ export const ToolsPanel = ({ openAIDialogOnMount, onAIDialogOpened }: ToolsPanel
         </div>
       )}
 
+      {/* SVG Import Dialog */}
+      <SvgImportDialog file={svgFile} onClose={() => setSvgFile(null)} />
+
       {/* Login Dialog */}
       <LoginDialog
         isOpen={isLoginDialogOpen}
@@ -1,15 +1,18 @@
 import { Transformer } from 'react-konva';
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import type Konva from 'konva';
+import { findLayer } from '../state/layerTree';
+import { isSelectionTool } from '../../utils/selection';
+import { EDITOR_OVERLAY_NAME } from '../../utils/editorOverlays';
 
 interface TransformerWrapperProps {
-  selectedLayerId: string | null;
+  selectedLayerIds: string[];
   layers: any[];
   onTransformMove?: (node: any) => void;
   activeTool?: string;
 }
 
-export const TransformerWrapper = ({ selectedLayerId, layers, onTransformMove, activeTool }: TransformerWrapperProps) => {
+export const TransformerWrapper = ({ selectedLayerIds, layers, onTransformMove, activeTool }: TransformerWrapperProps) => {
   const transformerRef = useRef<Konva.Transformer>(null);
   const transformMoveCallbackRef = useRef(onTransformMove);
 
@@ -18,28 +21,32 @@ export const TransformerWrapper = ({ selectedLayerId, layers, onTransformMove, a
     transformMoveCallbackRef.current = onTransformMove;
   }, [onTransformMove]);
 
+  // A single line layer uses endpoint handles instead of the transformer.
+  // Adjustment layers have no bounds, so there is nothing to transform.
+  const transformIds = useMemo(() => {
+    if (selectedLayerIds.length === 1 && findLayer(layers, selectedLayerIds[0])?.type === 'line') return [];
+    return selectedLayerIds.filter((id) => findLayer(layers, id)?.type !== 'adjustment');
+  }, [selectedLayerIds, layers]);
+
   useEffect(() => {
-    if (!transformerRef.current || !selectedLayerId) return;
+    if (!transformerRef.current || transformIds.length === 0) return;
 
     const stage = transformerRef.current.getStage();
     if (!stage) return;
 
-    // Don't show transformer for line layers (they use endpoint handles instead)
-    const selectedLayer = layers.find(l => l.id === selectedLayerId);
-    if (selectedLayer?.type === 'line') {
-      transformerRef.current.nodes([]);
-      return;
-    }
-
-    // Don't show transformer when brush tool is active (only show for select/move tool)
-    if (activeTool === 'brush') {
+    // Don't show transformer when brush tool is active (only show for select/move tool).
+    // The pen edits path anchors instead, and selection tools drag out selections.
+    if (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'pen' || (activeTool && isSelectionTool(activeTool))) {
       transformerRef.current.nodes([]);
       return;
     }
 
-    const selectedNode = stage.findOne(`#${selectedLayerId}`);
-    if (selectedNode) {
-      transformerRef.current.nodes([selectedNode]);
+    const selectedNodes = transformIds
+      .map((id) => stage.findOne(`#${id}`))
+      .filter((node): node is Konva.Node => !!node);
+    if (selectedNodes.length > 0) {
+      const selectedNode = selectedNodes[0];
+      transformerRef.current.nodes(selectedNodes);
       transformerRef.current.getLayer()?.batchDraw();
       
       // Add transform move listener using stage mousemove
@@ -75,23 +82,27 @@ export const TransformerWrapper = ({ selectedLayerId, layers, onTransformMove, a
     } else {
       transformerRef.current.nodes([]);
     }
-  }, [selectedLayerId, layers, activeTool]);
+  }, [transformIds, layers, activeTool]);
 
-  if (!selectedLayerId) return null;
+  if (transformIds.length === 0) return null;
 
   // Don't show transformer when brush tool is active (only show for select/move tool)
-  if (activeTool === 'brush') return null;
+  if (activeTool === 'brush' || activeTool === 'eraser' || activeTool === 'pen' || (activeTool && isSelectionTool(activeTool))) return null;
 
-  // Find the selected layer to check its type
-  const selectedLayer = layers.find(l => l.id === selectedLayerId);
-  const isImageLayer = selectedLayer?.type === 'image';
-  
-  // For image layers, preserve aspect ratio
-  const keepRatio = isImageLayer;
+  // Preserve aspect ratio when an image layer is part of the selection
+  const isImageLayer = transformIds.some((id) => findLayer(layers, id)?.type === 'image');
+  // Straight text resizes its box from the sides and its font size from the corners,
+  // so it has no top and bottom handles
+  const hasTextBox = transformIds.some((id) => {
+    const layer = findLayer(layers, id);
+    return layer?.type === 'text' && !layer.textPath;
+  });
+  const keepRatio = isImageLayer || hasTextBox;
 
   return (
     <Transformer
       ref={transformerRef}
+      name={EDITOR_OVERLAY_NAME}
       boundBoxFunc={(oldBox: any, newBox: any) => {
         // Limit resize
         if (Math.abs(newBox.width) < 5 || Math.abs(newBox.height) < 5) {
@@ -120,10 +131,10 @@ export const TransformerWrapper = ({ selectedLayerId, layers, onTransformMove, a
         }
         
         // Call transform move callback to check for snapping
-        if (transformMoveCallbackRef.current && selectedLayerId) {
+        if (transformMoveCallbackRef.current && transformIds.length > 0) {
           const stage = transformerRef.current?.getStage();
           if (stage) {
-            const selectedNode = stage.findOne(`#${selectedLayerId}`);
+            const selectedNode = stage.findOne(`#${transformIds[0]}`);
             if (selectedNode) {
               // Use requestAnimationFrame to avoid calling during the transform
               requestAnimationFrame(() => {
@@ -148,7 +159,9 @@ export const TransformerWrapper = ({ selectedLayerId, layers, onTransformMove, a
       // Better visual feedback
       keepRatio={keepRatio}
       centeredScaling={false}
-      enabledAnchors={['top-left', 'top-right', 'bottom-left', 'bottom-right', 'top-center', 'bottom-center', 'middle-left', 'middle-right']}
+      enabledAnchors={hasTextBox
+        ? ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'middle-left', 'middle-right']
+        : ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'top-center', 'bottom-center', 'middle-left', 'middle-right']}
     />
   );
 };
@@ -0,0 +1,73 @@
+import Konva from 'konva';
+import { Shape } from 'react-konva';
+import { useRef } from 'react';
+import type { AdjustmentLayer as AdjustmentLayerType } from '../../state/editorTypes';
+import { applyAdjustment } from '../../../utils/adjustments';
+import { useEditorStore } from '../../state/useEditorStore';
+
+interface AdjustmentLayerProps {
+  layer: AdjustmentLayerType;
+  id?: string;
+  // Everything drawn before the adjustment (base colour, template, the layers below it)
+  below: unknown[];
+}
+
+// Last result, with what it was worked out from
+interface AdjustedPixels {
+  below: unknown[];
+  adjustment: AdjustmentLayerType['adjustment'];
+  opacity: number;
+  view: number[];  // The canvas transform and size
+  canvasVersion: number;
+  imageData: ImageData;
+}
+
+const isSameResult = (cached: AdjustedPixels, next: Omit<AdjustedPixels, 'imageData'>): boolean =>
+  cached.adjustment === next.adjustment &&
+  cached.opacity === next.opacity &&
+  cached.canvasVersion === next.canvasVersion &&
+  cached.view.every((value, index) => value === next.view[index]) &&
+  cached.below.length === next.below.length &&
+  cached.below.every((item, index) => item === next.below[index]);
+
+// Draws nothing itself: when its turn comes it rewrites the pixels already on the
+// canvas, i.e. everything below it. Inside an isolated group (clipping group, mask)
+// that is the group's own canvas, so a clipped adjustment only affects its base layer.
+// The canvas is redrawn for things above it too (the brush cursor, handles), so the
+// filtered pixels are kept until something below, the view or the adjustment changes
+// (layers that redraw without changing bump the store's canvasVersion).
+// Layers being dragged or transformed only reach the store once they're let go, so
+// nothing is kept meanwhile.
+export const AdjustmentLayer = ({ layer, id, below }: AdjustmentLayerProps) => {
+  const cache = useRef<AdjustedPixels | null>(null);
+  const canvasVersion = useEditorStore((state) => state.canvasVersion);
+
+  return (
+    <Shape
+      id={id || layer.id}
+      visible={layer.visible}
+      listening={false}
+      perfectDrawEnabled={false}
+      sceneFunc={(context) => {
+        const ctx = context._context;
+        const { width, height } = ctx.canvas;
+        if (width === 0 || height === 0) return;
+        const { a, b, c, d, e, f } = ctx.getTransform();
+        const next = {
+          below,
+          adjustment: layer.adjustment,
+          opacity: layer.opacity,
+          view: [a, b, c, d, e, f, width, height],
+          canvasVersion,
+        };
+        if (!cache.current || Konva.isDragging() || Konva.isTransforming() || !isSameResult(cache.current, next)) {
+          const imageData = ctx.getImageData(0, 0, width, height);
+          applyAdjustment(imageData.data, layer.adjustment, layer.opacity);
+          cache.current = { ...next, imageData };
+        }
+        ctx.putImageData(cache.current.imageData, 0, 0);
+      }}
+      hitFunc={() => {}}
+    />
+  );
+};
@@ -1,6 +1,13 @@
-import { Line, Group, Rect } from 'react-konva';
-import { useMemo } from 'react';
-import type { BrushLayer as BrushLayerType, BrushStroke } from '../../state/editorTypes';
+import { Line, Group, Rect, Shape, Image as KonvaImage } from 'react-konva';
+import { useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { BrushLayer as BrushLayerType, BrushStamp, BrushStroke, BrushStrokeClip } from '../../state/editorTypes';
+import { useCanvasContent } from '../../state/useEditorStore';
+import { getCompositeOperation } from '../../../utils/blendModes';
+import { loadImage } from '../../../utils/image';
+import { IsolatedGroup } from './IsolatedGroup';
+import { paintFadingStroke, traceStrokeOutline } from '../../../utils/strokeOutline';
+import { getDabReach, getStrokeDabs, paintBrushDabs, paintStrokeImage, usesDabs } from '../../../utils/brushTips';
 
 interface BrushLayerProps {
   layer: BrushLayerType;
@@ -14,73 +21,238 @@ interface BrushLayerProps {
   draggable?: boolean;
 }
 
-// Render a single stroke with its settings
-const StrokeRenderer = ({ stroke, index }: { stroke: BrushStroke; index: number }) => {
-  if (!stroke.points || stroke.points.length < 2) return null;
+// Strokes painted inside a pixel selection, cut down to the selection they were painted through.
+// They composite onto the strokes below as a whole, with their shared blend mode.
+const StrokeClipGroup = ({ clip, compositeOperation, children }: {
+  clip: BrushStrokeClip;
+  compositeOperation: GlobalCompositeOperation;
+  children: ReactNode;
+}) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
 
-  if (stroke.color === 'transparent') {
-    return (
-      <Line
-        key={index}
-        points={stroke.points}
-        stroke="#ffffff"
-        strokeWidth={stroke.size}
-        lineCap="round"
-        lineJoin="round"
-        tension={0.5}
-        globalCompositeOperation="destination-out"
-        opacity={stroke.opacity}
-      />
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(clip.src)
+      .then((loaded) => {
+        if (!cancelled) setImage(loaded);
+      })
+      .catch((error) => {
+        console.error('Failed to load stroke selection:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [clip.src]);
+  useCanvasContent(image);
+
+  // Hidden until the clip has loaded, rather than flashing the whole stroke
+  return (
+    <IsolatedGroup visible={!!image} globalCompositeOperation={compositeOperation}>
+      {children}
+      {image && (
+        <KonvaImage
+          image={image}
+          x={clip.x}
+          y={clip.y}
+          width={clip.width}
+          height={clip.height}
+          globalCompositeOperation="destination-in"
+          listening={false}
+        />
+      )}
+    </IsolatedGroup>
+  );
+};
+
+// How a stroke composites, shared by all the ways a stroke is drawn
+interface StrokeAppearance {
+  opacity: number;
+  shadowColor?: string;
+  shadowBlur?: number;
+  shadowEnabled?: boolean;
+  globalCompositeOperation: GlobalCompositeOperation;
+}
+
+// Pen stroke whose opacity follows the pressure. It is painted into an image once, since
+// its translucent segments can't be filled as one shape.
+const FadingStroke = ({ points, widths, alphas, color, appearance }: {
+  points: number[];
+  widths: number[];
+  alphas: number[];
+  color: string;
+  appearance: StrokeAppearance;
+}) => {
+  // Painted at screen resolution
+  const painted = useMemo(
+    () => paintStrokeImage(points, Math.max(...widths) / 2 + 1, window.devicePixelRatio || 1, (ctx) =>
+      paintFadingStroke(ctx, points, widths, alphas, color)
+    ),
+    [points, widths, alphas, color]
+  );
+
+  return (
+    <KonvaImage
+      image={painted.canvas}
+      x={painted.x}
+      y={painted.y}
+      width={painted.width}
+      height={painted.height}
+      listening={false}
+      {...appearance}
+    />
+  );
+};
+
+// Stroke with a shaped tip, stamped dab by dab into an image. Its dabs build up by the flow,
+// and the image as a whole takes the stroke opacity.
+const DabStroke = ({ stroke, stamps, color, appearance }: {
+  stroke: BrushStroke;
+  stamps: BrushStamp[];  // The layer's stamps
+  color: string;
+  appearance: StrokeAppearance;
+}) => {
+  const stampSrc = stroke.tip?.shape === 'stamp' ? stamps.find((s) => s.id === stroke.tip?.stampId)?.src : undefined;
+  const [stamp, setStamp] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    if (!stampSrc) return;
+    let cancelled = false;
+    loadImage(stampSrc)
+      .then((loaded) => {
+        if (!cancelled) setStamp(loaded);
+      })
+      .catch((error) => {
+        console.error('Failed to load brush stamp:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [stampSrc]);
+  useCanvasContent(stamp);
+
+  const painted = useMemo(() => {
+    if (!stroke.tip || (stampSrc && !stamp)) return null;
+    const { tip, hardness, seed = 0 } = stroke;
+    const dabs = getStrokeDabs(stroke);
+    return paintStrokeImage(
+      dabs.flatMap((dab) => [dab.x, dab.y]),
+      Math.max(...dabs.map(getDabReach)) + 1,
+      window.devicePixelRatio || 1,
+      (ctx) => paintBrushDabs(ctx, dabs, { tip, color, hardness, seed, stamp: stamp ?? undefined })
     );
-  }
+  }, [stroke, color, stampSrc, stamp]);
 
-  // Calculate shadow blur based on hardness (lower hardness = more blur = softer edge)
-  const shadowBlur = stroke.hardness < 100 ? ((100 - stroke.hardness) / 100) * stroke.size * 0.5 : 0;
-  
-  // Map blend mode to globalCompositeOperation
-  type CompositeOp = 'source-over' | 'multiply' | 'screen' | 'overlay';
+  // Hidden until the stamp has loaded
+  if (!painted) return null;
+  return (
+    <KonvaImage
+      image={painted.canvas}
+      x={painted.x}
+      y={painted.y}
+      width={painted.width}
+      height={painted.height}
+      listening={false}
+      {...appearance}
+    />
+  );
+};
+
+type CompositeOp = 'source-over' | 'multiply' | 'screen' | 'overlay' | 'destination-out';
+
+// Map blend mode to globalCompositeOperation
+const getStrokeCompositeOp = (stroke: BrushStroke): CompositeOp => {
   const blendModeMap: Record<string, CompositeOp> = {
     'normal': 'source-over',
     'multiply': 'multiply',
     'screen': 'screen',
     'overlay': 'overlay',
   };
-  const compositeOp: CompositeOp = blendModeMap[stroke.blendMode] || 'source-over';
+  return stroke.color === 'transparent' ? 'destination-out' : blendModeMap[stroke.blendMode] || 'source-over';
+};
 
-  // For soft brushes (hardness < 100), use shadow effect for feathering
-  if (shadowBlur > 0) {
-    return (
+// Render a single stroke with its settings. A clipped stroke is drawn inside its clip group,
+// which applies the composite op to the run of strokes as a whole.
+const StrokeRenderer = ({ stroke, index, stamps, clipped = false }: {
+  stroke: BrushStroke;
+  index: number;
+  stamps: BrushStamp[];
+  clipped?: boolean;
+}) => {
+  if (!stroke.points || stroke.points.length < 2) return null;
+
+  const isEraser = stroke.color === 'transparent';
+
+  const isDabStroke = usesDabs(stroke.tip);
+
+  // Calculate shadow blur based on hardness (lower hardness = more blur = softer edge).
+  // Soft brushes (hardness < 100) use the shadow for feathering; dab tips feather themselves.
+  const shadowBlur = !isEraser && !isDabStroke && stroke.hardness < 100 ? ((100 - stroke.hardness) / 100) * stroke.size * 0.5 : 0;
+  
+  // Inside a clip group, blend modes still mix strokes of the run with each other, while
+  // eraser strokes are gathered up to erase together
+  const compositeOp = getStrokeCompositeOp(stroke);
+  const appearance: StrokeAppearance = {
+    opacity: stroke.opacity,
+    ...(shadowBlur > 0 && { shadowColor: stroke.color, shadowBlur, shadowEnabled: true }),
+    globalCompositeOperation: clipped && isEraser ? 'source-over' : compositeOp,
+  };
+  const color = isEraser ? '#ffffff' : stroke.color;
+  const { points, widths, alphas } = stroke;
+
+  // Shaped tips stamp dabs, pen strokes follow their per-point widths, and older and mouse
+  // strokes are plain lines
+  let line;
+  if (isDabStroke) {
+    line = <DabStroke key={index} stroke={stroke} stamps={stamps} color={color} appearance={appearance} />;
+  } else if (widths && alphas) {
+    line = <FadingStroke key={index} points={points} widths={widths} alphas={alphas} color={color} appearance={appearance} />;
+  } else if (widths) {
+    line = (
+      <Shape
+        key={index}
+        sceneFunc={(context, shape) => {
+          context.beginPath();
+          traceStrokeOutline(context, points, widths);
+          context.fillShape(shape);
+        }}
+        fill={color}
+        listening={false}
+        {...appearance}
+      />
+    );
+  } else {
+    line = (
       <Line
         key={index}
-        points={stroke.points}
-        stroke={stroke.color}
+        points={points}
+        stroke={color}
         strokeWidth={stroke.size}
         lineCap="round"
         lineJoin="round"
         tension={0.5}
-        opacity={stroke.opacity}
-        shadowColor={stroke.color}
-        shadowBlur={shadowBlur}
-        shadowEnabled={true}
-        globalCompositeOperation={compositeOp}
+        {...appearance}
       />
     );
   }
 
-  // Hard brush (hardness = 100)
-  return (
-    <Line
-      key={index}
-      points={stroke.points}
-      stroke={stroke.color}
-      strokeWidth={stroke.size}
-      lineCap="round"
-      lineJoin="round"
-      tension={0.5}
-      opacity={stroke.opacity}
-      globalCompositeOperation={compositeOp}
-    />
-  );
+  return line;
+};
+
+// Strokes in drawing order, with neighbours painted through the same selection (and composited
+// the same way) gathered into one clip group
+const groupClippedStrokes = (strokes: BrushStroke[], clips: BrushStrokeClip[]) => {
+  const runs: { clip?: BrushStrokeClip; compositeOp: CompositeOp; strokes: { stroke: BrushStroke; index: number }[] }[] = [];
+  strokes.forEach((stroke, index) => {
+    const clip = stroke.clipId ? clips.find((c) => c.id === stroke.clipId) : undefined;
+    const compositeOp = getStrokeCompositeOp(stroke);
+    const last = runs[runs.length - 1];
+    if (clip && last?.clip === clip && last.compositeOp === compositeOp) {
+      last.strokes.push({ stroke, index });
+    } else {
+      runs.push({ clip, compositeOp, strokes: [{ stroke, index }] });
+    }
+  });
+  return runs;
 };
 
 // Calculate bounding box of all strokes
@@ -97,7 +269,9 @@ const calculateBoundingBox = (strokes: BrushStroke[]) => {
   strokes.forEach((stroke) => {
     if (!stroke.points || stroke.points.length < 2) return;
     
-    const halfStrokeWidth = (stroke.size || 1) / 2;
+    // Scattered dabs can land up to the scatter away from the stroke
+    const maxWidth = Math.max(stroke.size || 1, ...(stroke.widths ?? []));
+    const halfStrokeWidth = maxWidth / 2 + (usesDabs(stroke.tip) ? (maxWidth * stroke.tip.scatter) / 100 : 0);
     
     for (let i = 0; i < stroke.points.length; i += 2) {
       const x = stroke.points[i];
@@ -120,6 +294,8 @@ const calculateBoundingBox = (strokes: BrushStroke[]) => {
   };
 };
 
+const NO_STAMPS: BrushStamp[] = [];
+
 export const BrushLayer = ({ 
   layer,
   id,
@@ -135,6 +311,8 @@ export const BrushLayer = ({
   
   // Calculate bounding box for hit area
   const boundingBox = useMemo(() => calculateBoundingBox(strokes), [strokes]);
+  const stamps = layer.stamps ?? NO_STAMPS;
+  const runs = useMemo(() => groupClippedStrokes(layer.strokes || [], layer.strokeClips ?? []), [layer.strokes, layer.strokeClips]);
 
   if (strokes.length === 0) {
     // Return an invisible placeholder for selection
@@ -147,6 +325,7 @@ export const BrushLayer = ({
         scaleX={layer.scaleX}
         scaleY={layer.scaleY}
         opacity={layer.opacity}
+        globalCompositeOperation={getCompositeOperation(layer.blendMode)}
         visible={layer.visible}
         listening={!layer.locked}
         onClick={onClick}
@@ -176,6 +355,7 @@ export const BrushLayer = ({
       scaleX={layer.scaleX}
       scaleY={layer.scaleY}
       opacity={layer.opacity}
+      globalCompositeOperation={getCompositeOperation(layer.blendMode)}
       visible={layer.visible}
       listening={!layer.locked}
       onClick={onClick}
@@ -197,9 +377,17 @@ export const BrushLayer = ({
         perfectDrawEnabled={false}
       />
       {/* Render all strokes */}
-      {strokes.map((stroke, index) => (
-        <StrokeRenderer key={index} stroke={stroke} index={index} />
-      ))}
+      {runs.map((run) =>
+        run.clip ? (
+          <StrokeClipGroup key={run.strokes[0].index} clip={run.clip} compositeOperation={run.compositeOp}>
+            {run.strokes.map(({ stroke, index }) => (
+              <StrokeRenderer key={index} stroke={stroke} index={index} stamps={stamps} clipped />
+            ))}
+          </StrokeClipGroup>
+        ) : (
+          <StrokeRenderer key={run.strokes[0].index} stroke={run.strokes[0].stroke} index={run.strokes[0].index} stamps={stamps} />
+        )
+      )}
     </Group>
   );
 };
@@ -1,5 +1,7 @@
 import { Circle } from 'react-konva';
 import type { CircleLayer as CircleLayerType } from '../../state/editorTypes';
+import { getCompositeOperation } from '../../../utils/blendModes';
+import { getFillProps } from '../../../utils/gradients';
 
 interface CircleLayerProps {
   layer: CircleLayerType;
@@ -32,13 +34,14 @@ export const CircleLayer = ({
       x={layer.x}
       y={layer.y}
       radius={layer.radius}
-      fill={layer.fill}
+      {...getFillProps(layer.fill, layer.fillGradient)}
       stroke={layer.stroke}
       strokeWidth={layer.strokeWidth}
       rotation={layer.rotation}
       scaleX={layer.scaleX}
       scaleY={layer.scaleY}
       opacity={layer.opacity}
+      globalCompositeOperation={getCompositeOperation(layer.blendMode)}
       visible={layer.visible}
       listening={!layer.locked}
       onClick={onClick}
@@ -0,0 +1,20 @@
+import type { ReactNode } from 'react';
+import type { BlendMode } from '../../state/editorTypes';
+import { getCompositeOperation } from '../../../utils/blendModes';
+import { IsolatedGroup } from './IsolatedGroup';
+
+interface ClippingGroupProps {
+  // Blend mode and visibility of the base layer apply to the whole clipping group
+  blendMode?: BlendMode;
+  visible: boolean;
+  children?: ReactNode;
+}
+
+// Wraps a base layer, the layers clipped to it and a destination-in copy of the base.
+// The clip has to be composited in isolation, otherwise destination-in would also cut
+// away everything below.
+export const ClippingGroup = ({ blendMode, visible, children }: ClippingGroupProps) => (
+  <IsolatedGroup visible={visible} globalCompositeOperation={getCompositeOperation(blendMode)}>
+    {children}
+  </IsolatedGroup>
+);
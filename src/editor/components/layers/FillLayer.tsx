@@ -1,6 +1,10 @@
 import { Image as KonvaImage } from 'react-konva';
 import { useEffect, useState } from 'react';
 import type { FillLayer as FillLayerType } from '../../state/editorTypes';
+import { useCanvasContent } from '../../state/useEditorStore';
+import { getCompositeOperation } from '../../../utils/blendModes';
+import { regenerateFillImage } from '../../../utils/fillImage';
+import { loadImage } from '../../../utils/image';
 
 interface FillLayerProps {
   layer: FillLayerType;
@@ -16,40 +20,6 @@ interface FillLayerProps {
   listening?: boolean;
 }
 
-// Helper function to regenerate fill image with new color
-const regenerateFillImage = (
-  pixelMask: number[],
-  fillColorHex: string,
-  width: number,
-  height: number
-): string => {
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return '';
-  
-  // Parse fill color
-  const fillColorMatch = fillColorHex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
-  const r = fillColorMatch ? parseInt(fillColorMatch[1], 16) : 0;
-  const g = fillColorMatch ? parseInt(fillColorMatch[2], 16) : 0;
-  const b = fillColorMatch ? parseInt(fillColorMatch[3], 16) : 0;
-  
-  // Create image data
-  const imageData = ctx.createImageData(width, height);
-  
-  // Fill the pixels
-  pixelMask.forEach((pixelIdx) => {
-    imageData.data[pixelIdx] = r;
-    imageData.data[pixelIdx + 1] = g;
-    imageData.data[pixelIdx + 2] = b;
-    imageData.data[pixelIdx + 3] = 255; // Full opacity
-  });
-  
-  ctx.putImageData(imageData, 0, 0);
-  return canvas.toDataURL('image/png');
-};
-
 export const FillLayer = ({
   layer,
   id,
@@ -65,30 +35,21 @@ export const FillLayer = ({
 }: FillLayerProps) => {
   const [image, setImage] = useState<HTMLImageElement | null>(null);
   
-  // Load or regenerate image when layer changes or fill color changes
+  // Load or regenerate image when layer changes or fill color (or gradient) changes
   useEffect(() => {
-    // If we have pixel mask data, regenerate the image with current fill color
-    if (layer.pixelMask && layer.maskWidth && layer.maskHeight) {
-      const newImageDataUrl = regenerateFillImage(
-        layer.pixelMask,
-        layer.fill,
-        layer.maskWidth,
-        layer.maskHeight
-      );
-      const img = new window.Image();
-      img.onload = () => {
-        setImage(img);
-      };
-      img.src = newImageDataUrl;
-    } else if (layer.fillImageDataUrl) {
-      // Fallback to existing image data URL if no pixel mask
-      const img = new window.Image();
-      img.onload = () => {
-        setImage(img);
-      };
-      img.src = layer.fillImageDataUrl;
-    }
-  }, [layer.fillImageDataUrl, layer.fill, layer.pixelMask, layer.maskWidth, layer.maskHeight]);
+    // If we have pixel mask data, regenerate the image with current fill color or gradient;
+    // otherwise fall back to the existing image data URL
+    const imageDataUrl = layer.pixelMask && layer.maskWidth && layer.maskHeight
+      ? regenerateFillImage(layer.pixelMask, layer.fill, layer.maskWidth, layer.maskHeight, layer.fillGradient)
+      : layer.fillImageDataUrl;
+    if (!imageDataUrl) return;
+    loadImage(imageDataUrl)
+      .then(setImage)
+      .catch((error) => {
+        console.error('Failed to load fill image:', error);
+      });
+  }, [layer.fillImageDataUrl, layer.fill, layer.fillGradient, layer.pixelMask, layer.maskWidth, layer.maskHeight]);
+  useCanvasContent(image);
   
   if (!image) return null;
   
@@ -108,6 +69,7 @@ export const FillLayer = ({
       scaleX={layer.scaleX}
       scaleY={layer.scaleY}
       opacity={layer.opacity}
+      globalCompositeOperation={getCompositeOperation(layer.blendMode)}
       visible={layer.visible}
       listening={listening !== undefined ? listening : !layer.locked}
       onClick={onClick}
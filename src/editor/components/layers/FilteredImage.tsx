@@ -0,0 +1,38 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { ComponentProps } from 'react';
+import { Image as KonvaImage } from 'react-konva';
+import type Konva from 'konva';
+import type { ImageFilter } from '../../state/editorTypes';
+import { useEditorStore } from '../../state/useEditorStore';
+import { createImageFilters, getImageFiltersPadding } from '../../../utils/imageFilters';
+
+type FilteredImageProps = ComponentProps<typeof KonvaImage> & {
+  imageFilters?: ImageFilter[];
+};
+
+// Konva image drawn through a layer's filter stack. The filtered pixels are cached on the
+// node, so moving or transforming it doesn't run the filters again; only new pixels or
+// filter settings rebuild the cache.
+export const FilteredImage = ({ imageFilters, ...props }: FilteredImageProps) => {
+  const imageRef = useRef<Konva.Image>(null);
+  const filters = useMemo(() => createImageFilters(imageFilters), [imageFilters]);
+  const padding = useMemo(
+    () => getImageFiltersPadding((imageFilters ?? []).filter((filter) => filter.enabled)),
+    [imageFilters]
+  );
+  const { image, cropX, cropY, cropWidth, cropHeight, width, height } = props;
+
+  useEffect(() => {
+    const node = imageRef.current;
+    if (!node) return;
+    node.clearCache();
+    if (filters.length > 0 && node.width() > 0 && node.height() > 0) {
+      node.cache({ offset: padding });
+    }
+    // The filtered pixels change after the commit that brought the new settings
+    useEditorStore.getState().bumpCanvasVersion();
+    node.getLayer()?.batchDraw();
+  }, [filters, padding, image, cropX, cropY, cropWidth, cropHeight, width, height]);
+
+  return <KonvaImage ref={imageRef} {...props} filters={filters} />;
+};
@@ -0,0 +1,62 @@
+import { Group } from 'react-konva';
+import type { ReactNode } from 'react';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import type { GroupLayer as GroupLayerType } from '../../state/editorTypes';
+import { getCompositeOperation } from '../../../utils/blendModes';
+
+interface GroupLayerProps {
+  layer: GroupLayerType;
+  id?: string;
+  children?: ReactNode;
+  onClick?: (e: KonvaEventObject<MouseEvent>) => void;
+  onTap?: (e: KonvaEventObject<TouchEvent>) => void;
+  onDragStart?: (e: KonvaEventObject<DragEvent>) => void;
+  onDragMove?: (e: KonvaEventObject<DragEvent>) => void;
+  onDragEnd?: (e: KonvaEventObject<DragEvent>) => void;
+  onTransformStart?: (e: KonvaEventObject<Event>) => void;
+  onTransformEnd?: (e: KonvaEventObject<Event>) => void;
+  draggable?: boolean;
+}
+
+// Children are rendered by the canvas so they get the same handlers as root layers;
+// this group only carries the shared transform, opacity and visibility.
+export const GroupLayer = ({
+  layer,
+  id,
+  children,
+  onClick,
+  onTap,
+  onDragStart,
+  onDragMove,
+  onDragEnd,
+  onTransformStart,
+  onTransformEnd,
+  draggable
+}: GroupLayerProps) => {
+  return (
+    <Group
+      id={id || layer.id}
+      // Lets export code tell layer groups apart from UI overlay groups
+      name="layer-group"
+      x={layer.x}
+      y={layer.y}
+      rotation={layer.rotation}
+      scaleX={layer.scaleX}
+      scaleY={layer.scaleY}
+      opacity={layer.opacity}
+      globalCompositeOperation={getCompositeOperation(layer.blendMode)}
+      visible={layer.visible}
+      listening={!layer.locked}
+      onClick={onClick}
+      onTap={onTap}
+      onDragStart={onDragStart}
+      onDragMove={onDragMove}
+      onDragEnd={onDragEnd}
+      onTransformStart={onTransformStart}
+      onTransformEnd={onTransformEnd}
+      draggable={draggable}
+    >
+      {children}
+    </Group>
+  );
+};
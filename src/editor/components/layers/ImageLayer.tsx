@@ -1,14 +1,17 @@
 import { useEffect, useState, useMemo, useRef } from 'react';
-import { Image as KonvaImage } from 'react-konva';
 import type { ImageLayer as ImageLayerType } from '../../state/editorTypes';
+import { getCompositeOperation } from '../../../utils/blendModes';
+import { getCropChanges } from '../../../utils/crop';
 import { loadImage } from '../../../utils/image';
-import { useEditorStore } from '../../state/useEditorStore';
+import { FilteredImage } from './FilteredImage';
+import { useCanvasContent, useEditorStore } from '../../state/useEditorStore';
 
 interface ImageLayerProps {
   layer: ImageLayerType;
   id?: string;
   onClick?: (e: any) => void;
   onTap?: (e: any) => void;
+  onDblClick?: () => void;
   onDragStart?: (e: any) => void;
   onDragMove?: (e: any) => void;
   onDragEnd?: (e: any) => void;
@@ -18,10 +21,11 @@ interface ImageLayerProps {
 }
 
 export const ImageLayer = ({ 
-  layer,
+  layer: storedLayer,
   id,
   onClick,
   onTap,
+  onDblClick,
   onDragStart,
   onDragMove,
   onDragEnd,
@@ -29,11 +33,17 @@ export const ImageLayer = ({
   onTransformEnd,
   draggable 
 }: ImageLayerProps) => {
-  const [image, setImage] = useState<HTMLImageElement | null>(layer.image || null);
+  const [image, setImage] = useState<HTMLImageElement | HTMLCanvasElement | null>(storedLayer.image || null);
   const templateImage = useEditorStore((state) => state.templateImage);
   const updateLayer = useEditorStore((state) => state.updateLayer);
+  const cropEdit = useEditorStore((state) => state.cropEdit);
   const dragStartPosRef = useRef<{ x: number; y: number } | null>(null);
 
+  // While cropping, the layer shows the draft crop in place of its own
+  const layer = cropEdit?.layerId === storedLayer.id && image
+    ? { ...storedLayer, ...getCropChanges(storedLayer, cropEdit.rect, image) }
+    : storedLayer;
+
   useEffect(() => {
     if (layer.image) {
       setImage(layer.image);
@@ -45,6 +55,7 @@ export const ImageLayer = ({
         });
     }
   }, [layer.image, layer.src]);
+  useCanvasContent(image);
 
   // Create masked canvas when template mask is enabled
   const maskedCanvas = useMemo(() => {
@@ -143,8 +154,9 @@ export const ImageLayer = ({
   // If using template mask and we have a masked canvas, render it
   if (layer.useTemplateMask && maskedCanvas) {
     return (
-      <KonvaImage
+      <FilteredImage
         id={id || layer.id}
+        imageFilters={layer.filters}
         x={0}
         y={0}
         image={maskedCanvas}
@@ -152,10 +164,13 @@ export const ImageLayer = ({
         scaleX={1}
         scaleY={1}
         opacity={layer.opacity}
+        globalCompositeOperation={getCompositeOperation(layer.blendMode)}
         visible={layer.visible}
         listening={!layer.locked}
         onClick={onClick}
         onTap={onTap}
+        onDblClick={onDblClick}
+        onDblTap={onDblClick}
         onDragStart={handleMaskedDragStart}
         onDragMove={handleMaskedDragMove}
         onDragEnd={handleMaskedDragEnd} 
@@ -169,8 +184,9 @@ export const ImageLayer = ({
 
   // Normal rendering without mask
   return (
-    <KonvaImage
+    <FilteredImage
       id={id || layer.id}
+      imageFilters={layer.filters}
       x={layer.x}
       y={layer.y}
       image={image}
@@ -178,14 +194,20 @@ export const ImageLayer = ({
       scaleX={layer.scaleX}
       scaleY={layer.scaleY}
       opacity={layer.opacity}
+      globalCompositeOperation={getCompositeOperation(layer.blendMode)}
       visible={layer.visible}
       listening={!layer.locked}
       cropX={layer.cropX}
       cropY={layer.cropY}
       cropWidth={layer.cropWidth}
       cropHeight={layer.cropHeight}
+      // A cropped image is as large as its crop, not stretched back to the full picture
+      width={layer.cropWidth}
+      height={layer.cropHeight}
       onClick={onClick}
       onTap={onTap}
+      onDblClick={onDblClick}
+      onDblTap={onDblClick}
       onDragStart={onDragStart}
       onDragMove={onDragMove}
       onDragEnd={onDragEnd}
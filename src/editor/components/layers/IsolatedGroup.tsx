@@ -0,0 +1,64 @@
+import { Group } from 'react-konva';
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import type { ReactNode } from 'react';
+import type Konva from 'konva';
+import type { Filter } from 'konva/lib/Node';
+
+interface IsolatedGroupProps {
+  visible?: boolean;
+  globalCompositeOperation?: GlobalCompositeOperation;
+  // Extra room around the children for filters that draw past their bounds
+  padding?: number;
+  // Run over the cached pixels after each rebuild
+  filters?: Filter[];
+  children?: ReactNode;
+}
+
+// Group whose children are composited on their own before the result is drawn onto
+// the layers below, so destination-in masks inside it only cut its own content.
+// It is drawn from a cache that is rebuilt before every draw of the layer, so drags,
+// transforms and late-loading images show up without extra bookkeeping; this covers
+// PNG export and the 3D preview too since both draw the stage.
+export const IsolatedGroup = ({ visible = true, globalCompositeOperation, padding = 0, filters, children }: IsolatedGroupProps) => {
+  const groupRef = useRef<Konva.Group>(null);
+  const paddingRef = useRef(padding);
+
+  // Read by the next rebuild, which always comes after the commit
+  useLayoutEffect(() => {
+    paddingRef.current = padding;
+  }, [padding]);
+
+  useEffect(() => {
+    const group = groupRef.current;
+    const layer = group?.getLayer();
+    if (!group || !layer) return;
+
+    // cache() requests a redraw itself, which doesn't need another rebuild
+    let skipNextDraw = false;
+    const rebuildCache = () => {
+      if (skipNextDraw) {
+        skipNextDraw = false;
+        return;
+      }
+      if (!group.isVisible()) return;
+      group.clearCache();
+      const rect = group.getClientRect({ skipTransform: true });
+      if (rect.width < 1 || rect.height < 1) return;
+      skipNextDraw = true;
+      group.cache({ ...rect, offset: paddingRef.current, pixelRatio: layer.getCanvas().getPixelRatio() });
+    };
+
+    layer.on('beforeDraw', rebuildCache);
+    rebuildCache();
+    return () => {
+      layer.off('beforeDraw', rebuildCache);
+      group.clearCache();
+    };
+  }, []);
+
+  return (
+    <Group ref={groupRef} visible={visible} globalCompositeOperation={globalCompositeOperation} filters={filters}>
+      {children}
+    </Group>
+  );
+};
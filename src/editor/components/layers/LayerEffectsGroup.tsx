@@ -0,0 +1,79 @@
+import Konva from 'konva';
+import { useLayoutEffect, useMemo, useRef } from 'react';
+import type { ReactNode } from 'react';
+import type { Filter } from 'konva/lib/Node';
+import type { BlendMode, LayerEffect } from '../../state/editorTypes';
+import { useEditorStore } from '../../state/useEditorStore';
+import { getCompositeOperation } from '../../../utils/blendModes';
+import { createEffectsFilter, getEffectsPadding } from '../../../utils/layerEffects';
+import { IsolatedGroup } from './IsolatedGroup';
+
+interface LayerEffectsGroupProps {
+  // Enabled effects only
+  effects: LayerEffect[];
+  // Everything the layer is drawn from (the layer itself, a crop in progress)
+  content: unknown[];
+  // The layer's own blend mode has to be applied when the isolated result is drawn
+  blendMode?: BlendMode;
+  children?: ReactNode;
+}
+
+// Last filtered pixels, with what they were worked out from
+interface EffectsResult {
+  content: unknown[];
+  canvasVersion: number;
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Renders a layer on its own and draws its effects around the result as a filter
+// over the cached pixels, so every layer type gets them the same way. The group is
+// cached again on every draw of the canvas, so the effects are only worked out again
+// when the layer, its effects or the canvas version change (or while it's dragged or
+// transformed, which only reaches the store once it's let go).
+export const LayerEffectsGroup = ({ effects, content, blendMode, children }: LayerEffectsGroupProps) => {
+  const canvasVersion = useEditorStore((state) => state.canvasVersion);
+  const current = useRef({ content, canvasVersion });
+  const result = useRef<EffectsResult | null>(null);
+
+  // Read by the next rebuild, which always comes after the commit
+  useLayoutEffect(() => {
+    current.current = { content, canvasVersion };
+  }, [content, canvasVersion]);
+
+  const filters = useMemo(() => {
+    const applyEffects = createEffectsFilter(effects);
+    const filter: Filter = function (imageData) {
+      const { width, height } = imageData;
+      const next = current.current;
+      const last = result.current;
+      if (
+        last &&
+        !Konva.isDragging() &&
+        !Konva.isTransforming() &&
+        last.canvasVersion === next.canvasVersion &&
+        last.width === width &&
+        last.height === height &&
+        last.content.length === next.content.length &&
+        last.content.every((item, index) => item === next.content[index])
+      ) {
+        imageData.data.set(last.data);
+        return;
+      }
+      applyEffects.call(this, imageData);
+      result.current = { ...next, width, height, data: imageData.data.slice() };
+    };
+    return [filter];
+  }, [effects]);
+
+  return (
+    <IsolatedGroup
+      globalCompositeOperation={getCompositeOperation(blendMode)}
+      padding={getEffectsPadding(effects)}
+      filters={filters}
+    >
+      {children}
+    </IsolatedGroup>
+  );
+};
@@ -0,0 +1,66 @@
+import { Image as KonvaImage } from 'react-konva';
+import { useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { BlendMode, LayerMask } from '../../state/editorTypes';
+import { useCanvasContent } from '../../state/useEditorStore';
+import { getCompositeOperation } from '../../../utils/blendModes';
+import { loadImage } from '../../../utils/image';
+import { maskToAlpha } from '../../../utils/layerMask';
+import { IsolatedGroup } from './IsolatedGroup';
+
+interface MaskPlacement {
+  x: number;
+  y: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+  skewX: number;
+  skewY: number;
+}
+
+interface LayerMaskGroupProps {
+  mask: LayerMask;
+  // Maps canvas space into the layer's parent space (identity for root-level layers)
+  placement: MaskPlacement;
+  // The layer's own blend mode has to be applied when the isolated result is drawn
+  blendMode?: BlendMode;
+  children?: ReactNode;
+}
+
+// Cuts a layer down to its mask. The grayscale mask is converted to alpha and
+// composited with destination-in inside an isolated group.
+export const LayerMaskGroup = ({ mask, placement, blendMode, children }: LayerMaskGroupProps) => {
+  const [loadedImage, setLoadedImage] = useState<HTMLImageElement | null>(null);
+
+  // Masks normally arrive decoded; fall back to loading the stored image
+  useEffect(() => {
+    if (mask.image || !mask.src) return;
+    loadImage(mask.src)
+      .then(setLoadedImage)
+      .catch((error) => {
+        console.error('Failed to load layer mask:', error);
+      });
+  }, [mask.image, mask.src]);
+  useCanvasContent(loadedImage);
+
+  // Rebuilt only when the mask image or its inversion changes (a mask stroke swaps the image
+  // at most once a frame), not when the mask is toggled or the layer moves
+  const alphaMask = useMemo(() => {
+    const source = mask.image || loadedImage;
+    return source ? maskToAlpha(source, mask.inverted) : null;
+  }, [mask.image, mask.inverted, loadedImage]);
+
+  return (
+    <IsolatedGroup globalCompositeOperation={getCompositeOperation(blendMode)}>
+      {children}
+      {alphaMask && (
+        <KonvaImage
+          image={alphaMask}
+          {...placement}
+          globalCompositeOperation="destination-in"
+          listening={false}
+        />
+      )}
+    </IsolatedGroup>
+  );
+};
@@ -1,5 +1,6 @@
 import { Line, Arrow } from 'react-konva';
 import type { LineLayer as LineLayerType } from '../../state/editorTypes';
+import { getCompositeOperation } from '../../../utils/blendModes';
 
 interface LineLayerProps {
   layer: LineLayerType;
@@ -39,6 +40,7 @@ export const LineLayer = ({
     scaleX: layer.scaleX,
     scaleY: layer.scaleY,
     opacity: layer.opacity,
+    globalCompositeOperation: getCompositeOperation(layer.blendMode),
     visible: layer.visible,
     stroke: layer.stroke,
     strokeWidth: layer.strokeWidth,
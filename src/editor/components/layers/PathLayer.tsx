@@ -0,0 +1,67 @@
+import { Path } from 'react-konva';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import type { PathLayer as PathLayerType } from '../../state/editorTypes';
+import { getCompositeOperation } from '../../../utils/blendModes';
+import { getFillProps } from '../../../utils/gradients';
+import { getLayerPathData } from '../../../utils/paths';
+
+interface PathLayerProps {
+  layer: PathLayerType;
+  id?: string;
+  onClick?: (e: KonvaEventObject<MouseEvent>) => void;
+  onTap?: (e: KonvaEventObject<Event>) => void;
+  onDragStart?: (e: KonvaEventObject<DragEvent>) => void;
+  onDragMove?: (e: KonvaEventObject<DragEvent>) => void;
+  onDragEnd?: (e: KonvaEventObject<DragEvent>) => void;
+  onTransformStart?: (e: KonvaEventObject<Event>) => void;
+  onTransformEnd?: (e: KonvaEventObject<Event>) => void;
+  draggable?: boolean;
+}
+
+export const PathLayer = ({
+  layer,
+  id,
+  onClick,
+  onTap,
+  onDragStart,
+  onDragMove,
+  onDragEnd,
+  onTransformStart,
+  onTransformEnd,
+  draggable,
+}: PathLayerProps) => {
+  return (
+    <Path
+      id={id || layer.id}
+      data={getLayerPathData(layer)}
+      x={layer.x}
+      y={layer.y}
+      rotation={layer.rotation}
+      scaleX={layer.scaleX}
+      scaleY={layer.scaleY}
+      opacity={layer.opacity}
+      globalCompositeOperation={getCompositeOperation(layer.blendMode)}
+      visible={layer.visible}
+      {...getFillProps(layer.fill ?? '', layer.fillGradient)}
+      fillRule={layer.fillRule}
+      stroke={layer.stroke}
+      strokeWidth={layer.strokeWidth}
+      strokeEnabled={layer.strokeWidth > 0}
+      lineCap={layer.lineCap}
+      lineJoin={layer.lineJoin}
+      dash={layer.dash}
+      // Thin or unfilled paths are still easy to grab
+      hitStrokeWidth={Math.max(layer.strokeWidth, 20)}
+      listening={!layer.locked}
+      perfectDrawEnabled={false}
+      onClick={onClick}
+      onTap={onTap}
+      onDragStart={onDragStart}
+      onDragMove={onDragMove}
+      onDragEnd={onDragEnd}
+      onTransformStart={onTransformStart}
+      onTransformEnd={onTransformEnd}
+      draggable={draggable}
+    />
+  );
+};
@@ -1,5 +1,7 @@
 import { Rect } from 'react-konva';
 import type { RectLayer as RectLayerType } from '../../state/editorTypes';
+import { getCompositeOperation } from '../../../utils/blendModes';
+import { getFillProps } from '../../../utils/gradients';
 
 interface RectLayerProps {
   layer: RectLayerType;
@@ -33,7 +35,7 @@ export const RectLayer = ({
       y={layer.y}
       width={layer.width}
       height={layer.height}
-      fill={layer.fill}
+      {...getFillProps(layer.fill, layer.fillGradient)}
       stroke={layer.stroke}
       strokeWidth={layer.strokeWidth}
       cornerRadius={layer.cornerRadius}
@@ -41,6 +43,7 @@ export const RectLayer = ({
       scaleX={layer.scaleX}
       scaleY={layer.scaleY}
       opacity={layer.opacity}
+      globalCompositeOperation={getCompositeOperation(layer.blendMode)}
       visible={layer.visible}
       listening={!layer.locked}
       onClick={onClick}
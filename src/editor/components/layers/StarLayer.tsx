@@ -1,5 +1,7 @@
 import { Star } from 'react-konva';
 import type { StarLayer as StarLayerType } from '../../state/editorTypes';
+import { getCompositeOperation } from '../../../utils/blendModes';
+import { getFillProps } from '../../../utils/gradients';
 
 interface StarLayerProps {
   layer: StarLayerType;
@@ -34,13 +36,14 @@ export const StarLayer = ({
       numPoints={layer.numPoints}
       innerRadius={layer.innerRadius}
       outerRadius={layer.outerRadius}
-      fill={layer.fill}
+      {...getFillProps(layer.fill, layer.fillGradient)}
       stroke={layer.stroke}
       strokeWidth={layer.strokeWidth}
       rotation={layer.rotation}
       scaleX={layer.scaleX}
       scaleY={layer.scaleY}
       opacity={layer.opacity}
+      globalCompositeOperation={getCompositeOperation(layer.blendMode)}
       visible={layer.visible}
       listening={!layer.locked}
       onClick={onClick}
@@ -1,5 +1,17 @@
-import { Text } from 'react-konva';
-import type { TextLayer as TextLayerType } from '../../state/editorTypes';
+import { useMemo } from 'react';
+import { Text, Shape, Image as KonvaImage } from 'react-konva';
+import type { Context } from 'konva/lib/Context';
+import type { Shape as ShapeType } from 'konva/lib/Shape';
+import type { Text as TextType } from 'konva/lib/shapes/Text';
+import type { KonvaEventObject } from 'konva/lib/Node';
+import type { GradientFill, TextLayer as TextLayerType } from '../../state/editorTypes';
+import { useEditorStore } from '../../state/useEditorStore';
+import { getCompositeOperation } from '../../../utils/blendModes';
+import { getFillProps, sortStops } from '../../../utils/gradients';
+import { layoutTextOnPath } from '../../../utils/textPath';
+import type { PathGlyph } from '../../../utils/textPath';
+import { renderWarpedText } from '../../../utils/textWarp';
+import { getTextStyleProps } from '../../../utils/textStyle';
 
 interface TextLayerProps {
   layer: TextLayerType;
@@ -14,6 +26,25 @@ interface TextLayerProps {
   draggable?: boolean;
 }
 
+// Canvas gradient for one letter on a path. Gradient points are in the text's own space,
+// so they are turned into the letter's rotated frame.
+const createGlyphGradient = (context: Context, gradient: GradientFill, glyph: PathGlyph) => {
+  const cos = Math.cos(-glyph.rotation);
+  const sin = Math.sin(-glyph.rotation);
+  const toGlyph = (point: { x: number; y: number }) => {
+    const dx = point.x - glyph.x;
+    const dy = point.y - glyph.y;
+    return { x: dx * cos - dy * sin, y: dx * sin + dy * cos };
+  };
+  const start = toGlyph(gradient.start);
+  const end = toGlyph(gradient.end);
+  const canvasGradient = gradient.type === 'linear'
+    ? context.createLinearGradient(start.x, start.y, end.x, end.y)
+    : context.createRadialGradient(start.x, start.y, 0, start.x, start.y, Math.hypot(end.x - start.x, end.y - start.y));
+  sortStops(gradient.stops).forEach((stop) => canvasGradient.addColorStop(stop.offset, stop.color));
+  return canvasGradient;
+};
+
 export const TextLayer = ({ 
   layer, 
   id,
@@ -26,34 +57,114 @@ export const TextLayer = ({
   onTransformEnd,
   draggable 
 }: TextLayerProps) => {
+  // Laid out again when a font finishes loading (the canvas version moves), since text measured
+  // with a fallback font has the wrong letter widths
+  const canvasVersion = useEditorStore((state) => state.canvasVersion);
+  const measured = useMemo(() => ({ layer, canvasVersion }), [layer, canvasVersion]);
+  const pathLayout = useMemo(() => layoutTextOnPath(measured.layer), [measured]);
+  const warped = useMemo(() => {
+    const { textPath, warp } = measured.layer;
+    return !textPath && warp && warp.bend !== 0 ? renderWarpedText(measured.layer, warp) : null;
+  }, [measured]);
+
+  const nodeProps = {
+    id: id || layer.id,
+    x: layer.x,
+    y: layer.y,
+    rotation: layer.rotation,
+    scaleX: layer.scaleX,
+    scaleY: layer.scaleY,
+    opacity: layer.opacity,
+    globalCompositeOperation: getCompositeOperation(layer.blendMode),
+    visible: layer.visible,
+    listening: !layer.locked,
+    onClick,
+    onTap,
+    onDragStart,
+    onDragMove,
+    onDragEnd,
+    onTransformStart,
+    onTransformEnd,
+    draggable,
+  };
+
+  // Text on a curve draws letter by letter. The letters are drawn shifted into a box
+  // starting at 0,0 and the node offset moves them back, so the box is the node's size.
+  if (pathLayout) {
+    const { glyphs, font, ascent, descent, bounds } = pathLayout;
+    const sceneFunc = (context: Context) => {
+      context.setAttr('font', font);
+      context.setAttr('textBaseline', 'alphabetic');
+      context.setAttr('textAlign', 'left');
+      if (layer.strokeWidth) {
+        context.setAttr('strokeStyle', layer.stroke ?? '#000000');
+        context.setAttr('lineWidth', layer.strokeWidth);
+        context.setAttr('lineJoin', 'round');
+      }
+      glyphs.forEach((glyph) => {
+        context.save();
+        context.translate(glyph.x - bounds.x, glyph.y - bounds.y);
+        context.rotate(glyph.rotation);
+        if (layer.strokeWidth) context.strokeText(glyph.char, 0, 0);
+        context.setAttr('fillStyle', layer.fillGradient ? createGlyphGradient(context, layer.fillGradient, glyph) : layer.fill);
+        context.fillText(glyph.char, 0, 0);
+        context.restore();
+      });
+    };
+    const hitFunc = (context: Context, shape: ShapeType) => {
+      context.beginPath();
+      glyphs.forEach((glyph) => {
+        context.save();
+        context.translate(glyph.x - bounds.x, glyph.y - bounds.y);
+        context.rotate(glyph.rotation);
+        context.rect(0, -ascent, glyph.width, ascent + descent);
+        context.restore();
+      });
+      context.fillStrokeShape(shape);
+    };
+    return (
+      <Shape
+        {...nodeProps}
+        width={bounds.width}
+        height={bounds.height}
+        offsetX={-bounds.x}
+        offsetY={-bounds.y}
+        sceneFunc={sceneFunc}
+        hitFunc={hitFunc}
+      />
+    );
+  }
+
+  if (warped) {
+    return (
+      <KonvaImage
+        {...nodeProps}
+        image={warped.canvas}
+        width={warped.width}
+        height={warped.height}
+        offsetY={warped.offsetY}
+      />
+    );
+  }
+
+  // Side handles of the transformer resize the paragraph box instead of stretching the letters.
+  // Corner handles also change the height, and are turned into a font size when they end.
+  const handleTransform = (e: KonvaEventObject<Event>) => {
+    const node = e.target as TextType;
+    if (Math.abs(node.scaleY() - layer.scaleY) > 1e-6) return;
+    node.setAttrs({
+      width: Math.max(layer.fontSize, (node.width() * node.scaleX()) / layer.scaleX),
+      scaleX: layer.scaleX,
+    });
+  };
+
   return (
     <Text
-      id={id || layer.id}
-      x={layer.x}
-      y={layer.y}
-      text={layer.text}
-      fontSize={layer.fontSize}
-      fontFamily={layer.fontFamily}
-      fill={layer.fill}
-      align={layer.align}
+      {...nodeProps}
+      {...getTextStyleProps(layer)}
+      {...getFillProps(layer.fill, layer.fillGradient)}
       verticalAlign={layer.verticalAlign}
-      fontStyle={layer.fontStyle}
-      textDecoration={layer.textDecoration}
-      rotation={layer.rotation}
-      scaleX={layer.scaleX}
-      scaleY={layer.scaleY}
-      opacity={layer.opacity}
-      visible={layer.visible}
-      listening={!layer.locked}
-      onClick={onClick}
-      onTap={onTap}
-      onDragStart={onDragStart}
-      onDragMove={onDragMove}
-      onDragEnd={onDragEnd}
-      onTransformStart={onTransformStart}
-      onTransformEnd={onTransformEnd}
-      draggable={draggable}
+      onTransform={handleTransform}
     />
   );
 };
-
@@ -1,7 +1,9 @@
 import { useEffect, useState } from 'react';
-import { Image as KonvaImage } from 'react-konva';
 import type { TextureLayer as TextureLayerType } from '../../state/editorTypes';
+import { useCanvasContent } from '../../state/useEditorStore';
+import { getCompositeOperation } from '../../../utils/blendModes';
 import { loadImage } from '../../../utils/image';
+import { FilteredImage } from './FilteredImage';
 
 interface TextureLayerProps {
   layer: TextureLayerType;
@@ -28,7 +30,7 @@ export const TextureLayer = ({
   onTransformEnd,
   draggable 
 }: TextureLayerProps) => {
-  const [textureImage, setTextureImage] = useState<HTMLImageElement | null>(layer.image || null);
+  const [textureImage, setTextureImage] = useState<HTMLImageElement | HTMLCanvasElement | null>(layer.image || null);
 
   useEffect(() => {
     if (layer.image) {
@@ -41,14 +43,16 @@ export const TextureLayer = ({
         });
     }
   }, [layer.image, layer.src]);
+  useCanvasContent(textureImage);
 
   if (!textureImage) return null;
 
   // Render as a simple image - same behavior as ImageLayer
   // This allows normal transform/resize operations
   return (
-    <KonvaImage
+    <FilteredImage
       id={id || layer.id}
+      imageFilters={layer.filters}
       x={layer.x}
       y={layer.y}
       image={textureImage}
@@ -56,6 +60,7 @@ export const TextureLayer = ({
       scaleX={layer.scaleX}
       scaleY={layer.scaleY}
       opacity={layer.opacity}
+      globalCompositeOperation={getCompositeOperation(layer.blendMode)}
       visible={layer.visible}
       listening={!layer.locked}
       onClick={onClick}
@@ -1,7 +1,20 @@
-export type LayerType = 'background' | 'text' | 'image' | 'rect' | 'circle' | 'texture' | 'brush' | 'line' | 'star' | 'fill';
+export type LayerType = 'background' | 'text' | 'image' | 'rect' | 'circle' | 'texture' | 'brush' | 'line' | 'star' | 'fill' | 'group' | 'adjustment' | 'path';
 
 // Tool types for Photoshop-like instrument system
-export type ToolType = 'select' | 'brush' | 'text' | 'rectangle' | 'circle' | 'line' | 'star' | 'image' | 'texture' | 'fill';
+export type ToolType = 'select' | 'brush' | 'eraser' | 'text' | 'rectangle' | 'circle' | 'line' | 'star' | 'image' | 'texture' | 'fill' | 'pen'
+  | 'rectSelect' | 'ellipseSelect' | 'lasso' | 'magicWand';
+
+// Part of a selection strokes were painted through, cropped to the selection's bounds and
+// placed in the strokes' own coordinate space so it moves with them. Brush layers keep each
+// one once, shared by every stroke painted through that selection.
+export interface BrushStrokeClip {
+  id: string;
+  src: string;           // PNG data URL, alpha = how much of the stroke shows
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 // Individual brush stroke with its own settings (captured at time of drawing)
 export interface BrushStroke {
@@ -12,8 +25,40 @@ export interface BrushStroke {
   opacity: number;       // 0-1, stroke opacity
   flow: number;          // 0-100, paint flow rate
   blendMode: 'normal' | 'multiply' | 'screen' | 'overlay';
+  clipId?: string;       // Clip in the layer's strokeClips, when painted inside a pixel selection
+  // Pen pressure and tilt, one entry per point. Strokes drawn without a pen have neither.
+  widths?: number[];     // Stroke width at each point
+  alphas?: number[];     // 0-1, multiplied with the stroke opacity at each point
+  // Textured and shaped tips stamp dabs along the stroke. Strokes without a tip are round lines.
+  tip?: BrushTip;
+  spacing?: number;      // 1-200% of the size between dabs
+  seed?: number;         // Fixes the stroke's random scatter and jitter, so it renders the same every time
+}
+
+// Mark a brush leaves. Round tips paint a line; the others stamp dabs along the stroke.
+export type BrushTipShape = 'round' | 'calligraphy' | 'spray' | 'splatter' | 'stamp';
+
+export interface BrushTip {
+  shape: BrushTipShape;
+  angle: number;         // 0-180°, angle of a calligraphy nib or stamp
+  roundness: number;     // 5-100%, thickness of a calligraphy nib against its width
+  density: number;       // 1-100%, how many droplets spray and splatter tips throw
+  scatter: number;       // 0-200% of the size, how far dabs stray across the stroke
+  angleJitter: number;   // 0-180°, random turn of each dab
+  sizeJitter: number;    // 0-100%, random shrinking of each dab
+  stampId?: string;      // Stamp image whose alpha shapes the dab (see BrushStamp)
 }
 
+// Stamp image of a stamp tip. Kept once by id wherever tips refer to it: by the editor for the
+// brush and its presets, and by each brush layer for its strokes.
+export interface BrushStamp {
+  id: string;
+  src: string;           // Small PNG data URL (see createStampSrc)
+}
+
+// How pen pressure is turned into size and opacity
+export type PressureCurve = 'linear' | 'soft' | 'firm';
+
 // Global brush settings (the current tool settings)
 export interface BrushSettings {
   size: number;          // 1-500 px
@@ -24,6 +69,142 @@ export interface BrushSettings {
   spacing: number;       // 1-200% (brush spacing)
   smoothing: number;    // 0-100% (stroke smoothing)
   blendMode: 'normal' | 'multiply' | 'screen' | 'overlay';
+  pressureSize: number;     // 0-100%, how much a light touch thins the stroke (0 = off)
+  pressureOpacity: number;  // 0-100%, how much a light touch fades the stroke (0 = off)
+  pressureCurve: PressureCurve;
+  tiltSize: number;         // 0-100%, how much tilting the pen widens the stroke (0 = off)
+  tip: BrushTip;
+}
+
+// Saved brush tip and dynamics; color and blend mode stay as they are when a preset is picked
+export interface BrushPreset {
+  id: string;
+  name: string;
+  settings: Pick<BrushSettings, 'size' | 'hardness' | 'opacity' | 'flow' | 'spacing' | 'tip'>;
+}
+
+// Layer blend modes (the canvas compositing set, 'normal' = source-over)
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+// Grayscale layer mask covering the 1024x1024 canvas: white reveals, black hides.
+// The mask stays in canvas space, so it doesn't follow the layer when it moves.
+export interface LayerMask {
+  src: string;              // PNG data URL (an images/ path inside .twrap files)
+  enabled: boolean;
+  inverted: boolean;
+  image?: HTMLImageElement | HTMLCanvasElement;  // Decoded mask for rendering and painting
+}
+
+// Pixel selection over the 1024x1024 canvas. Like layer masks it stays in canvas space;
+// the canvas is black with alpha = how selected each pixel is, so feathered edges are partial.
+export interface PixelSelection {
+  canvas: HTMLCanvasElement;
+  bounds: { x: number; y: number; width: number; height: number };  // Around every selected pixel
+}
+
+// How a new selection shape combines with the current selection
+export type SelectionMode = 'replace' | 'add' | 'subtract' | 'intersect';
+
+export interface SelectionSettings {
+  mode: SelectionMode;
+  feather: number;      // 0-100 px, softens the edge of new shapes
+  tolerance: number;    // 0-100%, how different a colour the magic wand still picks up
+}
+
+// Which axes brush strokes and new shapes are mirrored across ('both' makes four copies)
+export type SymmetryMode = 'off' | 'vertical' | 'horizontal' | 'both';
+
+export interface SymmetrySettings {
+  mode: SymmetryMode;
+  x: number;            // Canvas x of the vertical axis
+  y: number;            // Canvas y of the horizontal axis
+}
+
+// Where the fill tool looks for the area to fill: template panels, or colours on the canvas
+export type FillSampleSource = 'template' | 'allLayers' | 'currentLayer';
+
+export type FillContent = 'color' | 'gradient' | 'texture';
+
+export interface FillSettings {
+  sample: FillSampleSource;
+  tolerance: number;      // 0-100%, how different a colour the fill still spreads into (not for template panels)
+  contiguous: boolean;    // Off fills every matching pixel, connected or not
+  expand: number;         // 0-4 px the fill grows past its edge, under anti-aliased outlines
+  content: FillContent;   // Colour fills use the brush colour
+  gradientType: GradientFill['type'];
+  gradientStops: GradientStop[];  // Spread across each new fill
+  textureSrc: string | null;      // Tiled image (data URL or texture layer source)
+  textureScale: number;   // 10-400%
+}
+
+export interface GradientStop {
+  offset: number;   // 0-1 along the gradient
+  color: string;
+}
+
+// Gradient points are in the shape's own coordinate space (canvas space for the base paint).
+// Radial gradients are centred on `start` and reach out to `end`.
+export interface GradientFill {
+  type: 'linear' | 'radial';
+  stops: GradientStop[];
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+}
+
+export type LayerEffectType = 'dropShadow' | 'outerGlow' | 'stroke' | 'innerShadow';
+
+// Effect rendered from the layer's pixels (after its mask). Sizes are in the layer's
+// parent space, so effects don't turn or scale with the layer itself.
+export interface LayerEffect {
+  id: string;
+  type: LayerEffectType;
+  enabled: boolean;
+  color: string;
+  opacity: number;          // 0-1
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  size: number;             // Outline width, or how far a shadow or glow spreads
+}
+
+export type ImageFilterType =
+  | 'blur'
+  | 'sharpen'
+  | 'grayscale'
+  | 'sepia'
+  | 'invert'
+  | 'posterize'
+  | 'pixelate'
+  | 'noise'
+  | 'hsl'
+  | 'threshold';
+
+// Non-destructive filter over an image or texture layer's pixels, run in list order.
+// `amount` is the filter's one setting (see IMAGE_FILTER_AMOUNTS); HSL uses its own three.
+export interface ImageFilter {
+  id: string;
+  type: ImageFilterType;
+  enabled: boolean;
+  amount: number;
+  hue?: number;             // HSL: -180 to 180 degrees
+  saturation?: number;      // HSL: -100 to 100%
+  luminance?: number;       // HSL: -100 to 100%
 }
 
 export interface BaseLayer {
@@ -33,6 +214,10 @@ export interface BaseLayer {
   visible: boolean;
   locked: boolean;
   opacity: number;
+  blendMode?: BlendMode;  // How the layer composites onto the layers below (default 'normal')
+  clipToBelow?: boolean;  // Clipping mask: only show where the nearest unclipped layer below is opaque
+  mask?: LayerMask;
+  effects?: LayerEffect[];  // Drawn in list order; outer effects behind the layer, inner shadows on top
   x: number;
   y: number;
   rotation: number;
@@ -45,27 +230,80 @@ export interface BackgroundLayer extends BaseLayer {
   fill: string;
 }
 
+// Text set along a curve instead of in straight lines. Circles and arcs are centred
+// on (radius, radius) in the text's own space, so their top left sits at the layer position.
+export interface TextPathSettings {
+  shape: 'circle' | 'arc' | 'path';
+  radius: number;              // Circle and arc
+  arcAngle: number;            // Sweep of the arc in degrees, centred on its top
+  anchors?: PathAnchor[];      // Path shape: copied from a path layer into the text's own space
+  closed?: boolean;
+  startOffset: number;         // Where along the curve the text is aligned, 0-100%
+  side: 'outside' | 'inside';  // Letters stand on the curve or hang below it
+}
+
+export type TextWarpStyle = 'arc' | 'bulge' | 'flag' | 'rise';
+
+export interface TextWarp {
+  style: TextWarpStyle;
+  bend: number;                // -100 to 100%
+}
+
 export interface TextLayer extends BaseLayer {
   type: 'text';
   text: string;
   fontSize: number;
   fontFamily: string;
   fill: string;
+  fillGradient?: GradientFill;  // Replaces the solid fill when set
   align: 'left' | 'center' | 'right';
   verticalAlign: 'top' | 'middle' | 'bottom';
   fontStyle: 'normal' | 'italic' | 'bold' | 'bold italic';
   textDecoration: 'none' | 'underline' | 'line-through';
+  textCase?: 'none' | 'uppercase' | 'small-caps';
+  letterSpacing?: number;       // Extra space after each letter, px
+  lineHeight?: number;          // Multiple of the font size
+  width?: number;               // Paragraph box width; the text wraps inside it when set
+  stroke?: string;              // Outline colour
+  strokeWidth?: number;
+  textPath?: TextPathSettings;
+  warp?: TextWarp;              // Ignored while the text follows a path
+}
+
+// A font file uploaded by the user. It is saved with the project, so text renders the same elsewhere.
+export interface CustomFont {
+  family: string;
+  fileName: string;   // Name of the uploaded file, extension included
+  src: string;        // Data URL of the font file
 }
 
 export interface ImageLayer extends BaseLayer {
   type: 'image';
   src: string;
-  image?: HTMLImageElement;
+  image?: HTMLImageElement | HTMLCanvasElement;  // A canvas once pixels have been erased
   cropX?: number;
   cropY?: number;
   cropWidth?: number;
   cropHeight?: number;
   useTemplateMask?: boolean;  // When true, the image is masked by the template
+  filters?: ImageFilter[];
+}
+
+// Part of an image, in the image's own pixels
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type CropAspect = 'free' | 'original' | '1:1' | '4:3' | '3:2' | '16:9';
+
+// Crop being edited on the canvas. The image layer shows the draft until it is applied.
+export interface CropEdit {
+  layerId: string;
+  rect: CropRect;
+  aspect: CropAspect;
 }
 
 export interface RectLayer extends BaseLayer {
@@ -73,6 +311,7 @@ export interface RectLayer extends BaseLayer {
   width: number;
   height: number;
   fill: string;
+  fillGradient?: GradientFill;  // Replaces the solid fill when set
   stroke?: string;
   strokeWidth?: number;
   cornerRadius?: number;
@@ -82,6 +321,7 @@ export interface CircleLayer extends BaseLayer {
   type: 'circle';
   radius: number;
   fill: string;
+  fillGradient?: GradientFill;  // Replaces the solid fill when set
   stroke?: string;
   strokeWidth?: number;
 }
@@ -89,12 +329,15 @@ export interface CircleLayer extends BaseLayer {
 export interface TextureLayer extends BaseLayer {
   type: 'texture';
   src: string;
-  image?: HTMLImageElement;
+  image?: HTMLImageElement | HTMLCanvasElement;  // A canvas once pixels have been erased
+  filters?: ImageFilter[];
 }
 
 export interface BrushLayer extends BaseLayer {
   type: 'brush';
   strokes: BrushStroke[];  // Array of strokes with individual settings
+  strokeClips?: BrushStrokeClip[];  // Selections strokes were painted through
+  stamps?: BrushStamp[];  // Stamps of its strokes' tips
 }
 
 export interface LineLayer extends BaseLayer {
@@ -115,13 +358,45 @@ export interface StarLayer extends BaseLayer {
   innerRadius: number;
   outerRadius: number;
   fill: string;
+  fillGradient?: GradientFill;  // Replaces the solid fill when set
   stroke?: string;
   strokeWidth?: number;
 }
 
+// Bezier handles are offsets from their anchor; an anchor without handles is a sharp corner
+export interface PathAnchor {
+  x: number;
+  y: number;
+  handleIn?: { x: number; y: number };   // Controls the segment arriving at the anchor
+  handleOut?: { x: number; y: number };  // Controls the segment leaving the anchor
+}
+
+export interface PathSubpath {
+  anchors: PathAnchor[];
+  closed: boolean;
+}
+
+export interface PathLayer extends BaseLayer {
+  type: 'path';
+  anchors: PathAnchor[];   // In the layer's own space
+  closed: boolean;
+  // Further contours of the same shape, such as the holes in imported lettering.
+  // Only the main contour above is edited on the canvas.
+  subpaths?: PathSubpath[];
+  fillRule?: 'nonzero' | 'evenodd';
+  fill?: string;           // No fill when unset
+  fillGradient?: GradientFill;  // Replaces the solid fill when set
+  stroke: string;
+  strokeWidth: number;     // 0 = no stroke
+  lineCap: 'butt' | 'round' | 'square';
+  lineJoin: 'miter' | 'round' | 'bevel';
+  dash?: number[];         // [dashLength, gapLength] for dashed strokes
+}
+
 export interface FillLayer extends BaseLayer {
   type: 'fill';
   fill: string;
+  fillGradient?: GradientFill;  // Replaces the solid fill when set, in mask pixels
   path: number[]; // Bounding box: [x, y, width, height]
   fillImageDataUrl?: string; // Pre-rendered fill image as data URL
   fillImage?: HTMLImageElement; // Loaded image for rendering
@@ -130,17 +405,90 @@ export interface FillLayer extends BaseLayer {
   maskHeight?: number; // Height of the mask
 }
 
-export type Layer = BackgroundLayer | TextLayer | ImageLayer | RectLayer | CircleLayer | TextureLayer | BrushLayer | LineLayer | StarLayer | FillLayer;
+// Folder of layers. Its transform, opacity and visibility apply to all children,
+// and child positions are relative to the group's origin.
+export interface GroupLayer extends BaseLayer {
+  type: 'group';
+  children: Layer[];       // Same ordering as the root list: index 0 = top of panel
+  collapsed?: boolean;     // Folder collapsed in the layers panel
+}
+
+// Colour adjustments applied by adjustment layers
+export interface HueSaturationAdjustment {
+  kind: 'hueSaturation';
+  hue: number;           // -180 to 180 degrees
+  saturation: number;    // -100 to 100
+  lightness: number;     // -100 to 100
+}
+
+export interface BrightnessContrastAdjustment {
+  kind: 'brightnessContrast';
+  brightness: number;    // -100 to 100
+  contrast: number;      // -100 to 100
+}
+
+export interface LevelsAdjustment {
+  kind: 'levels';
+  inputBlack: number;    // 0-255
+  inputWhite: number;    // 0-255
+  gamma: number;         // 0.1-3 (midtones)
+  outputBlack: number;   // 0-255
+  outputWhite: number;   // 0-255
+}
+
+export interface CurvesAdjustment {
+  kind: 'curves';
+  points: number[];      // Output levels (0-255) for inputs 0, 64, 128, 192 and 255
+}
+
+// Cyan-red, magenta-green and yellow-blue shifts (-100 to 100) per tonal range
+export type ColorBalanceShift = [number, number, number];
+
+export interface ColorBalanceAdjustment {
+  kind: 'colorBalance';
+  shadows: ColorBalanceShift;
+  midtones: ColorBalanceShift;
+  highlights: ColorBalanceShift;
+  preserveLuminosity: boolean;
+}
+
+export type Adjustment =
+  | HueSaturationAdjustment
+  | BrightnessContrastAdjustment
+  | LevelsAdjustment
+  | CurvesAdjustment
+  | ColorBalanceAdjustment;
+
+// Applies its adjustment to everything drawn below it; the layer has no pixels of its own.
+// Opacity fades the adjustment in and out.
+export interface AdjustmentLayer extends BaseLayer {
+  type: 'adjustment';
+  adjustment: Adjustment;
+}
+
+export type Layer = BackgroundLayer | TextLayer | ImageLayer | RectLayer | CircleLayer | TextureLayer | BrushLayer | LineLayer | StarLayer | FillLayer | GroupLayer | AdjustmentLayer | PathLayer;
 
 export interface EditorState {
   layers: Layer[];
-  selectedLayerId: string | null;
+  selectedLayerId: string | null;   // Primary (most recently selected) layer, shown in the properties panel
+  selectedLayerIds: string[];       // Every selected layer, including the primary one
   baseColor: string;
+  baseGradient: GradientFill | null;  // Paints the base with a gradient instead of baseColor
   currentModelId: string;
   templateDimensions: { width: number; height: number } | null;
   templateImage: HTMLImageElement | null;
   // Tool system
   activeTool: ToolType;
   brushSettings: BrushSettings;
+  brushPresets: BrushPreset[];      // The user's own presets (see utils/brushTips), kept across projects
+  brushStamps: BrushStamp[];        // Stamps the brush and its presets can use
+  maskEditLayerId: string | null;   // Layer whose mask the brush paints on instead of a brush layer
+  customFonts: CustomFont[];
+  cropEdit: CropEdit | null;
+  pixelSelection: PixelSelection | null;
+  selectionSettings: SelectionSettings;
+  symmetry: SymmetrySettings;
+  fillSettings: FillSettings;
+  showRegionLabels: boolean;        // Name the template panel under the pointer
 }
 
@@ -0,0 +1,186 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Transform } from 'konva/lib/Util';
+import type { Layer, GroupLayer } from './editorTypes';
+
+/**
+ * Helpers for working with the nested layer tree.
+ * Group layers hold their children in `children`, using the same ordering as the
+ * root list (index 0 = top of the layers panel, rendered last on the canvas).
+ */
+
+export const isGroupLayer = (layer: Layer | null | undefined): layer is GroupLayer =>
+  !!layer && layer.type === 'group';
+
+/**
+ * Find a layer anywhere in the tree
+ */
+export const findLayer = (layers: Layer[], id: string | null | undefined): Layer | undefined => {
+  if (!id) return undefined;
+  for (const layer of layers) {
+    if (layer.id === id) return layer;
+    if (isGroupLayer(layer)) {
+      const found = findLayer(layer.children, id);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Flatten the tree depth-first in panel order (a group comes before its children)
+ */
+export const flattenLayers = (layers: Layer[]): Layer[] =>
+  layers.flatMap((layer) => (isGroupLayer(layer) ? [layer, ...flattenLayers(layer.children)] : [layer]));
+
+/**
+ * Every layer drawn before the given one: its lower siblings and those of each group it's in,
+ * children included
+ */
+export const getLayersBelow = (layers: Layer[], id: string): Layer[] => {
+  const flat = flattenLayers(layers);
+  const index = flat.findIndex((layer) => layer.id === id);
+  return index === -1 ? [] : flat.slice(index + 1);
+};
+
+/**
+ * Get the chain of layers from the root down to (and including) the given layer
+ */
+export const getLayerPath = (layers: Layer[], id: string): Layer[] => {
+  for (const layer of layers) {
+    if (layer.id === id) return [layer];
+    if (isGroupLayer(layer)) {
+      const path = getLayerPath(layer.children, id);
+      if (path.length > 0) return [layer, ...path];
+    }
+  }
+  return [];
+};
+
+/**
+ * Get the group that directly contains a layer (null for root-level layers)
+ */
+export const findParentGroup = (layers: Layer[], id: string): GroupLayer | null => {
+  const path = getLayerPath(layers, id);
+  return path.length > 1 ? (path[path.length - 2] as GroupLayer) : null;
+};
+
+/**
+ * Get the sibling list and index of a layer
+ */
+export const getLayerLocation = (layers: Layer[], id: string): { parentId: string | null; index: number } | null => {
+  const parent = findParentGroup(layers, id);
+  const siblings = parent ? parent.children : layers;
+  const index = siblings.findIndex((l) => l.id === id);
+  return index === -1 ? null : { parentId: parent ? parent.id : null, index };
+};
+
+/**
+ * Apply an update to a single layer anywhere in the tree
+ */
+export const updateLayerInTree = (layers: Layer[], id: string, update: (layer: Layer) => Layer): Layer[] =>
+  layers.map((layer) => {
+    if (layer.id === id) return update(layer);
+    if (isGroupLayer(layer)) {
+      return { ...layer, children: updateLayerInTree(layer.children, id, update) };
+    }
+    return layer;
+  });
+
+/**
+ * Remove a layer (and its children) from the tree
+ */
+export const removeLayerFromTree = (layers: Layer[], id: string): Layer[] =>
+  layers
+    .filter((layer) => layer.id !== id)
+    .map((layer) => (isGroupLayer(layer) ? { ...layer, children: removeLayerFromTree(layer.children, id) } : layer));
+
+/**
+ * Insert a layer into a group (or the root when parentId is null) at the given index
+ */
+export const insertLayerIntoTree = (layers: Layer[], layer: Layer, parentId: string | null, index: number): Layer[] => {
+  if (parentId === null) {
+    const next = [...layers];
+    next.splice(Math.max(0, Math.min(index, next.length)), 0, layer);
+    return next;
+  }
+  return updateLayerInTree(layers, parentId, (group) => {
+    if (!isGroupLayer(group)) return group;
+    return { ...group, children: insertLayerIntoTree(group.children, layer, null, index) };
+  });
+};
+
+/**
+ * Whether `id` is `ancestorId` itself or nested somewhere inside it
+ */
+export const isLayerWithin = (layers: Layer[], id: string, ancestorId: string): boolean =>
+  getLayerPath(layers, id).some((l) => l.id === ancestorId);
+
+/**
+ * Resolve a set of ids to layers in panel order, dropping any layer that is
+ * already covered by another selected group
+ */
+export const getSelectionRoots = (layers: Layer[], ids: string[]): Layer[] => {
+  const ordered = flattenLayers(layers).filter((l) => ids.includes(l.id));
+  return ordered.filter((l) => !ordered.some((other) => other.id !== l.id && isLayerWithin(layers, l.id, other.id)));
+};
+
+/**
+ * Deep copy a layer, giving it (and every child) a fresh id
+ */
+export const cloneLayerWithNewIds = (layer: Layer): Layer => {
+  if (isGroupLayer(layer)) {
+    return { ...layer, id: uuidv4(), children: layer.children.map(cloneLayerWithNewIds) };
+  }
+  return { ...layer, id: uuidv4() } as Layer;
+};
+
+/**
+ * Local transform of a layer (same order Konva applies: translate, rotate, scale)
+ */
+export const getLayerTransform = (layer: Layer): Transform => {
+  const tr = new Transform();
+  tr.translate(layer.x || 0, layer.y || 0);
+  tr.rotate(((layer.rotation || 0) * Math.PI) / 180);
+  tr.scale(layer.scaleX ?? 1, layer.scaleY ?? 1);
+  return tr;
+};
+
+/**
+ * Combined transform of all groups that contain the layer (identity for root-level layers).
+ * Maps the layer's own coordinate space (its x/y) into canvas coordinates.
+ */
+export const getParentTransform = (layers: Layer[], id: string): Transform => {
+  const tr = new Transform();
+  getLayerPath(layers, id)
+    .slice(0, -1)
+    .forEach((group) => tr.multiply(getLayerTransform(group)));
+  return tr;
+};
+
+/**
+ * Transform that maps the content space of a group into canvas coordinates
+ * (identity for the root list, i.e. parentId = null)
+ */
+export const getContentTransform = (layers: Layer[], parentId: string | null): Transform => {
+  if (!parentId) return new Transform();
+  const group = findLayer(layers, parentId);
+  if (!group) return new Transform();
+  return getParentTransform(layers, parentId).multiply(getLayerTransform(group));
+};
+
+/**
+ * Re-express a layer's transform in a different parent space so it keeps its
+ * on-canvas position when moved between groups.
+ */
+export const rebaseLayerTransform = (layer: Layer, fromParent: Transform, toParent: Transform): Layer => {
+  const absolute = fromParent.copy().multiply(getLayerTransform(layer));
+  const local = toParent.copy().invert().multiply(absolute).decompose();
+  return {
+    ...layer,
+    x: local.x,
+    y: local.y,
+    rotation: local.rotation,
+    scaleX: local.scaleX,
+    scaleY: local.scaleY,
+  } as Layer;
+};
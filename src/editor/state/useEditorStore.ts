@@ -1,11 +1,34 @@
 import { create } from 'zustand';
+import { useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import type { Layer, EditorState, ToolType, BrushSettings, BrushStroke } from './editorTypes';
+import type { Layer, EditorState, ToolType, BrushSettings, BrushStroke, BrushStrokeClip, GroupLayer, ImageLayer, LayerMask, GradientFill, CustomFont, CropEdit, PixelSelection, SelectionSettings, SymmetrySettings, FillSettings } from './editorTypes';
 import { defaultModel } from '../../data/carModels';
+import { createMaskCanvas } from '../../utils/layerMask';
+import { registerFont } from '../../utils/customFonts';
+import { getReflections, mirrorLayer } from '../../utils/symmetry';
+import { BUILT_IN_BRUSH_PRESETS, DEFAULT_BRUSH_TIP, loadBrushPresets, loadBrushStamps, storeBrushPresets } from '../../utils/brushTips';
+import { getCropChanges, getLayerCropRect } from '../../utils/crop';
+import { hideSelectionInMask, invertSelection } from '../../utils/selection';
+import {
+  findLayer,
+  flattenLayers,
+  getLayerLocation,
+  getParentTransform,
+  updateLayerInTree,
+  removeLayerFromTree,
+  insertLayerIntoTree,
+  isLayerWithin,
+  isGroupLayer,
+  getSelectionRoots,
+  cloneLayerWithNewIds,
+  rebaseLayerTransform,
+  getContentTransform,
+} from './layerTree';
 
 interface HistorySnapshot {
   layers: Layer[];
   baseColor: string;
+  baseGradient: GradientFill | null;
 }
 
 // Default brush settings (like Photoshop defaults)
@@ -18,6 +41,40 @@ const defaultBrushSettings: BrushSettings = {
   spacing: 25,      // 25% spacing (Photoshop default)
   smoothing: 0,     // No smoothing by default
   blendMode: 'normal',
+  pressureSize: 100,
+  pressureOpacity: 0,
+  pressureCurve: 'linear',
+  tiltSize: 0,
+  tip: DEFAULT_BRUSH_TIP,
+};
+
+const defaultSelectionSettings: SelectionSettings = {
+  mode: 'replace',
+  feather: 0,
+  tolerance: 32,
+};
+
+// Starts out filling whole template panels
+const defaultFillSettings: FillSettings = {
+  sample: 'template',
+  tolerance: 32,
+  contiguous: true,
+  expand: 0,
+  content: 'color',
+  gradientType: 'linear',
+  gradientStops: [
+    { offset: 0, color: '#ffffff' },
+    { offset: 1, color: '#000000' },
+  ],
+  textureSrc: null,
+  textureScale: 100,
+};
+
+// Mirrored across the middle of the 1024x1024 canvas once turned on
+const defaultSymmetrySettings: SymmetrySettings = {
+  mode: 'off',
+  x: 512,
+  y: 512,
 };
 
 // Project file format
@@ -28,7 +85,9 @@ export interface ProjectFile {
   modifiedAt: string;
   modelId: string;
   baseColor: string;
+  baseGradient?: GradientFill | null;
   layers: SerializedLayer[];
+  fonts?: CustomFont[];
 }
 
 // Serialized layer (without HTMLImageElement references)
@@ -55,30 +114,86 @@ interface EditorStore extends EditorState {
   isDirty: boolean;  // Track unsaved changes
   projectName: string;
   designId: string | null;  // Track if editing existing design from database
-  clipboardLayer: Layer | null;
+  clipboardLayers: Layer[];
   contextMenu: { layerId: string; x: number; y: number } | null;
+  // Bumped when layers redraw differently without changing themselves (an image or font
+  // finishing loading, filters re-run), so pixels read back from the canvas can be refreshed
+  canvasVersion: number;
   
   // Actions
   addLayer: (layer: Omit<Layer, 'id'> | Record<string, any>) => void;
+  // Adds finished layers (ids included) at the top of the list, in list order, and selects them
+  addLayers: (layers: Layer[]) => void;
+  // Adds a new shape plus its mirrored copies while symmetry is on, in one history step
+  addSymmetricLayer: (layer: Omit<Layer, 'id'> | Record<string, unknown>) => void;
   updateLayer: (id: string, updates: Partial<Layer> | Record<string, any>) => void;
   deleteLayer: (id: string) => void;
-  duplicateLayer: (id: string) => void;
-  copyLayer: (id: string) => void;
-  pasteLayer: () => Layer | null;
-  mirrorLayerHorizontal: (id: string) => void;
-  mirrorLayerVertical: (id: string) => void;
+  deleteLayers: (ids: string[]) => void;
+  duplicateLayers: (ids: string[]) => void;
+  copyLayers: (ids: string[]) => void;
+  pasteLayers: () => Layer[];
+  mirrorLayersHorizontal: (ids: string[]) => void;
+  mirrorLayersVertical: (ids: string[]) => void;
+  toggleClipToBelow: (ids: string[]) => void;
+  addLayerMask: (id: string) => void;
+  updateLayerMask: (id: string, updates: Partial<LayerMask>) => void;
+  removeLayerMask: (id: string) => void;
+  applyLayerMask: (id: string, src: string, image: HTMLImageElement) => void;
+  setMaskEditLayer: (id: string | null) => void;
+  // Crop mode for image layers. The draft only reaches the layer, and history, when applied.
+  startCrop: (id: string) => void;
+  updateCropEdit: (changes: Partial<Pick<CropEdit, 'rect' | 'aspect'>>) => void;
+  applyCrop: () => void;
+  cancelCrop: () => void;
+  // Pixel selection. It isn't part of history; deleting inside it is.
+  setPixelSelection: (selection: PixelSelection | null) => void;
+  setSelectionSettings: (settings: Partial<SelectionSettings>) => void;
+  deleteInsideSelection: (id: string) => void;
+  // Hides everything outside a selection (a template panel, say) with the layer's mask
+  clipLayerToSelection: (id: string, selection: PixelSelection) => void;
+  // Adds the pixels copied out of a layer (see utils/selection) as a new image layer
+  copySelectionToLayer: (id: string, pixels: { src: string; x: number; y: number }) => void;
+  // Erasing image, texture and fill layers (see utils/eraser). The preview only shows the
+  // bitmap; committing stores it and adds a history step.
+  previewLayerBitmap: (id: string, bitmap: HTMLCanvasElement) => void;
+  commitLayerBitmap: (id: string, bitmap: HTMLCanvasElement) => void;
   openLayerContextMenu: (layerId: string, x: number, y: number) => void;
   closeLayerContextMenu: () => void;
   reorderLayers: (fromIndex: number, toIndex: number) => void;
+  moveLayer: (id: string, parentId: string | null, index: number) => void;
+  groupLayers: (ids: string[]) => string | null;
+  ungroupLayer: (id: string) => void;
   setSelection: (id: string | null) => void;
+  setSelectedLayers: (ids: string[]) => void;
+  toggleLayerSelection: (id: string) => void;
   setBaseColor: (color: string) => void;
+  // Doesn't record history; callers push it once an edit is finished
+  setBaseGradient: (gradient: GradientFill | null) => void;
   setTemplateDimensions: (dimensions: { width: number; height: number }) => void;
   setTemplateImage: (image: HTMLImageElement | null) => void;
   setCurrentModelId: (modelId: string) => void;
+  // Expects a font that is already registered (see utils/customFonts)
+  addCustomFont: (font: CustomFont) => void;
   // Tool actions
   setActiveTool: (tool: ToolType) => void;
   setBrushSettings: (settings: Partial<BrushSettings>) => void;
+  // Saves the current brush (color and blend mode aside) as a preset, under a unique name.
+  // False when the browser has no room left to store it.
+  saveBrushPreset: (name: string) => boolean;
+  deleteBrushPreset: (id: string) => void;
+  // Id of the stamp with this image, added if it's new
+  addBrushStamp: (src: string) => string;
   addBrushStroke: (layerId: string, stroke: BrushStroke) => void;
+  // Several strokes in one history step (a stroke and its mirrored copies)
+  addBrushStrokes: (layerId: string, strokes: BrushStroke[]) => void;
+  // Makes a selection clip available to the layer's strokes (no history step; the stroke using it makes one)
+  addStrokeClip: (layerId: string, clip: BrushStrokeClip) => void;
+  // Makes one of the brush's stamps available to the layer's strokes (no history step either)
+  addStrokeStamp: (layerId: string, stampId: string) => void;
+  setSymmetry: (settings: Partial<SymmetrySettings>) => void;
+  setFillSettings: (settings: Partial<FillSettings>) => void;
+  setShowRegionLabels: (show: boolean) => void;
+  bumpCanvasVersion: () => void;
   // History
   undo: () => void;
   redo: () => void;
@@ -92,11 +207,49 @@ interface EditorStore extends EditorState {
   loadProject: (project: ProjectFile) => Promise<void>;
 }
 
-const createHistorySnapshot = (layers: Layer[], baseColor: string): HistorySnapshot => ({
+// Selection state for a list of ids; the last one becomes the primary layer
+const selectionOf = (ids: string[]) => ({
+  selectedLayerIds: ids,
+  selectedLayerId: ids.length > 0 ? ids[ids.length - 1] : null,
+});
+
+const createHistorySnapshot = (layers: Layer[], baseColor: string, baseGradient: GradientFill | null = null): HistorySnapshot => ({
   layers: layers.map(layer => ({ ...layer })),
   baseColor,
+  baseGradient,
 });
 
+// A raster layer showing an edited bitmap. Fill layers become image layers, since their
+// pixels no longer follow the fill colour.
+const withBitmap = (layer: Layer, bitmap: HTMLCanvasElement, src?: string): Layer => {
+  if (layer.type === 'image' || layer.type === 'texture') {
+    return { ...layer, image: bitmap, src: src ?? layer.src };
+  }
+  if (layer.type === 'fill') {
+    const { id, name, visible, locked, opacity, blendMode, clipToBelow, mask, effects, x, y, rotation, scaleX, scaleY } = layer;
+    return {
+      id, name, visible, locked, opacity, blendMode, clipToBelow, mask, effects, x, y, rotation, scaleX, scaleY,
+      type: 'image',
+      image: bitmap,
+      src: src ?? layer.fillImageDataUrl ?? '',
+    };
+  }
+  return layer;
+};
+
+// A layer whose mask (added if needed) also hides the selected pixels. An existing mask
+// keeps its enabled and inverted settings.
+const withSelectionHidden = (layer: Layer, selection: PixelSelection): Layer => {
+  const canvas = hideSelectionInMask(layer.mask, selection);
+  const mask: LayerMask = {
+    src: canvas.toDataURL('image/png'),
+    enabled: layer.mask?.enabled ?? true,
+    inverted: layer.mask?.inverted ?? false,
+    image: canvas,
+  };
+  return { ...layer, mask } as Layer;
+};
+
 // Helper to load an image from a data URL
 const loadImageFromSrc = (src: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
@@ -110,7 +263,7 @@ const loadImageFromSrc = (src: string): Promise<HTMLImageElement> => {
 export const useEditorStore = create<EditorStore>((set, get) => {
   const pushHistory = () => {
     const state = get();
-    const snapshot = createHistorySnapshot(state.layers, state.baseColor);
+    const snapshot = createHistorySnapshot(state.layers, state.baseColor, state.baseGradient);
     
     set((state) => {
       const newHistory = state.history.slice(0, state.historyIndex + 1);
@@ -134,20 +287,33 @@ export const useEditorStore = create<EditorStore>((set, get) => {
   return {
     layers: [],
     selectedLayerId: null,
+    selectedLayerIds: [],
     baseColor: '#F5F5F0', // Tesla Pearl White Multi-Coat
+    baseGradient: null,
     currentModelId: defaultModel.id,
     templateDimensions: null,
     templateImage: null,
     activeTool: 'select' as ToolType,
     brushSettings: { ...defaultBrushSettings },
+    brushPresets: loadBrushPresets(),
+    brushStamps: loadBrushStamps(),
+    maskEditLayerId: null,
+    customFonts: [],
+    cropEdit: null,
+    pixelSelection: null,
+    selectionSettings: { ...defaultSelectionSettings },
+    symmetry: { ...defaultSymmetrySettings },
+    fillSettings: { ...defaultFillSettings },
+    showRegionLabels: true,
     history: [createHistorySnapshot([], '#F5F5F0')], // Tesla Pearl White Multi-Coat
     historyIndex: 0,
     maxHistorySize: 50,
     isDirty: false,
     projectName: 'Untitled Project',
     designId: null,
-    clipboardLayer: null,
+    clipboardLayers: [],
     contextMenu: null,
+    canvasVersion: 0,
 
     addLayer: (layerData) => {
       const newLayer: Layer = {
@@ -157,115 +323,359 @@ export const useEditorStore = create<EditorStore>((set, get) => {
       
       set((state) => ({
         layers: [newLayer, ...state.layers],
-        selectedLayerId: newLayer.id,
+        ...selectionOf([newLayer.id]),
       }));
       
       pushHistory();
     },
 
-    updateLayer: (id, updates) => {
+    addLayers: (newLayers) => {
+      if (newLayers.length === 0) return;
       set((state) => ({
-        layers: state.layers.map((layer) =>
-          layer.id === id ? { ...layer, ...updates } as Layer : layer
-        ),
+        layers: [...newLayers, ...state.layers],
+        ...selectionOf(newLayers.map((layer) => layer.id)),
       }));
+
+      pushHistory();
     },
 
-    deleteLayer: (id) => {
+    addSymmetricLayer: (layerData) => {
+      const { symmetry } = get();
+      const layer = { ...layerData, id: uuidv4() } as Layer;
+      const mirrored = getReflections(symmetry).map((reflection) => ({
+        ...mirrorLayer(layer, reflection, symmetry),
+        id: uuidv4(),
+        name: `${layer.name} (mirrored)`,
+      }));
+      // The original ends up on top and selected
       set((state) => ({
-        layers: state.layers.filter((layer) => layer.id !== id),
-        selectedLayerId: state.selectedLayerId === id ? null : state.selectedLayerId,
+        layers: [layer, ...mirrored, ...state.layers],
+        ...selectionOf([layer.id]),
       }));
       pushHistory();
     },
 
-    duplicateLayer: (id) => {
-      const state = get();
-      const layer = state.layers.find((l) => l.id === id);
-      if (!layer) {
-        return;
-      }
-      const duplicated: Layer = {
-        ...layer,
-        id: uuidv4(),
-        name: `${layer.name} Copy`,
-        x: layer.x + 20,
-        y: layer.y + 20,
-      } as Layer;
-
+    updateLayer: (id, updates) => {
       set((state) => ({
-        layers: [...state.layers, duplicated],
-        selectedLayerId: duplicated.id,
+        layers: updateLayerInTree(state.layers, id, (layer) => ({ ...layer, ...updates } as Layer)),
       }));
+    },
+
+    deleteLayer: (id) => {
+      get().deleteLayers([id]);
+    },
+
+    deleteLayers: (ids) => {
+      const state = get();
+      const existing = ids.filter((id) => findLayer(state.layers, id));
+      if (existing.length === 0) return;
+      
+      let newLayers = state.layers;
+      existing.forEach((id) => {
+        newLayers = removeLayerFromTree(newLayers, id);
+      });
+      set({
+        layers: newLayers,
+        // Deleting a group also drops any of its children from the selection
+        ...selectionOf(state.selectedLayerIds.filter((selectedId) => findLayer(newLayers, selectedId))),
+      });
       pushHistory();
     },
 
-    copyLayer: (id) => {
+    duplicateLayers: (ids) => {
       const state = get();
-      const layer = state.layers.find((l) => l.id === id);
-      if (!layer) return;
-      set({ clipboardLayer: { ...layer } as Layer });
+      const originals = getSelectionRoots(state.layers, ids);
+      if (originals.length === 0) return;
+      
+      let newLayers = state.layers;
+      const duplicatedIds: string[] = [];
+      originals.forEach((layer) => {
+        const location = getLayerLocation(newLayers, layer.id);
+        if (!location) return;
+        const duplicated: Layer = {
+          ...cloneLayerWithNewIds(layer),
+          name: `${layer.name} Copy`,
+          x: layer.x + 20,
+          y: layer.y + 20,
+        } as Layer;
+        // Append to the end of the same list the original lives in
+        const siblingCount = location.parentId
+          ? (findLayer(newLayers, location.parentId) as GroupLayer).children.length
+          : newLayers.length;
+        newLayers = insertLayerIntoTree(newLayers, duplicated, location.parentId, siblingCount);
+        duplicatedIds.push(duplicated.id);
+      });
+
+      set({ layers: newLayers, ...selectionOf(duplicatedIds) });
+      pushHistory();
     },
 
-    pasteLayer: () => {
+    copyLayers: (ids) => {
       const state = get();
-      const clip = state.clipboardLayer;
-      if (!clip) return null;
+      const layers = getSelectionRoots(state.layers, ids);
+      if (layers.length === 0) return;
+      set({ clipboardLayers: layers.map((layer) => ({ ...layer } as Layer)) });
+    },
 
-      const pasted: Layer = {
-        ...clip,
-        id: uuidv4(),
-        name: `${clip.name || 'Layer'} Copy`,
-        x: (clip.x || 0) + 20,
-        y: (clip.y || 0) + 20,
-      } as Layer;
+    pasteLayers: () => {
+      const state = get();
+      const clips = state.clipboardLayers;
+      if (clips.length === 0) return [];
 
-      set((curr) => {
-        // Find the original layer's position (if it still exists)
-        const originalIndex = curr.layers.findIndex(l => l.id === clip.id);
+      let newLayers = state.layers;
+      const pasted: Layer[] = [];
+      const orphans: Layer[] = [];
+      clips.forEach((clip) => {
+        const copy: Layer = {
+          ...cloneLayerWithNewIds(clip),
+          name: `${clip.name || 'Layer'} Copy`,
+          x: (clip.x || 0) + 20,
+          y: (clip.y || 0) + 20,
+        } as Layer;
+        pasted.push(copy);
         
-        if (originalIndex !== -1) {
+        // Find the original layer's position (if it still exists)
+        const originalLocation = getLayerLocation(newLayers, clip.id);
+        if (originalLocation) {
           // Insert the pasted layer above the original in both panel and canvas
           // Panel shows array in order: index 0 = top of panel
           // Canvas renders in reverse: index 0 = bottom of canvas, last = top
           // To place pasted ABOVE original in panel (smaller index), insert at same position
           // This pushes original down in panel, and down in canvas (which is what we want)
-          const newLayers = [...curr.layers];
-          newLayers.splice(originalIndex, 0, pasted);
-          return {
-            layers: newLayers,
-            selectedLayerId: pasted.id,
-          };
+          newLayers = insertLayerIntoTree(newLayers, copy, originalLocation.parentId, originalLocation.index);
         } else {
-          // Original layer doesn't exist anymore, add to the top of panel (index 0)
-          return {
-            layers: [pasted, ...curr.layers],
-            selectedLayerId: pasted.id,
-          };
+          orphans.push(copy);
         }
       });
+      // Originals that don't exist anymore go to the top of the panel (index 0)
+      newLayers = [...orphans, ...newLayers];
+
+      set({ layers: newLayers, ...selectionOf(pasted.map((layer) => layer.id)) });
       pushHistory();
       return pasted;
     },
 
-    mirrorLayerHorizontal: (id) => {
+    mirrorLayersHorizontal: (ids) => {
+      const targets = getSelectionRoots(get().layers, ids);
+      if (targets.length === 0) return;
+      set((state) => {
+        let layers = state.layers;
+        targets.forEach((target) => {
+          layers = updateLayerInTree(layers, target.id, (layer) =>
+            ({ ...layer, scaleX: (layer.scaleX || 1) * -1 } as Layer)
+          );
+        });
+        return { layers };
+      });
+      pushHistory();
+    },
+
+    mirrorLayersVertical: (ids) => {
+      const targets = getSelectionRoots(get().layers, ids);
+      if (targets.length === 0) return;
+      set((state) => {
+        let layers = state.layers;
+        targets.forEach((target) => {
+          layers = updateLayerInTree(layers, target.id, (layer) =>
+            ({ ...layer, scaleY: (layer.scaleY || 1) * -1 } as Layer)
+          );
+        });
+        return { layers };
+      });
+      pushHistory();
+    },
+
+    toggleClipToBelow: (ids) => {
+      const targets = ids.map((id) => findLayer(get().layers, id)).filter((l): l is Layer => !!l);
+      if (targets.length === 0) return;
+      // Clip every target unless all of them are clipped already
+      const clipToBelow = targets.some((layer) => !layer.clipToBelow);
+      set((state) => {
+        let layers = state.layers;
+        targets.forEach((target) => {
+          layers = updateLayerInTree(layers, target.id, (layer) => ({ ...layer, clipToBelow } as Layer));
+        });
+        return { layers };
+      });
+      pushHistory();
+    },
+
+    addLayerMask: (id) => {
+      const layer = findLayer(get().layers, id);
+      if (!layer || layer.mask) return;
+      // New masks reveal the whole layer
+      const canvas = createMaskCanvas();
+      const mask: LayerMask = { src: canvas.toDataURL('image/png'), enabled: true, inverted: false, image: canvas };
       set((state) => ({
-        layers: state.layers.map((layer) =>
-          layer.id === id 
-            ? { ...layer, scaleX: (layer.scaleX || 1) * -1 } as Layer 
-            : layer
-        ),
+        layers: updateLayerInTree(state.layers, id, (l) => ({ ...l, mask } as Layer)),
       }));
       pushHistory();
     },
 
-    mirrorLayerVertical: (id) => {
+    updateLayerMask: (id, updates) => {
+      const layer = findLayer(get().layers, id);
+      if (!layer?.mask) return;
+      const mask = { ...layer.mask, ...updates };
       set((state) => ({
-        layers: state.layers.map((layer) =>
-          layer.id === id 
-            ? { ...layer, scaleY: (layer.scaleY || 1) * -1 } as Layer 
-            : layer
-        ),
+        layers: updateLayerInTree(state.layers, id, (l) => ({ ...l, mask } as Layer)),
+      }));
+      pushHistory();
+    },
+
+    removeLayerMask: (id) => {
+      const layer = findLayer(get().layers, id);
+      if (!layer?.mask) return;
+      set((state) => ({
+        layers: updateLayerInTree(state.layers, id, (l) => ({ ...l, mask: undefined } as Layer)),
+        maskEditLayerId: state.maskEditLayerId === id ? null : state.maskEditLayerId,
+      }));
+      pushHistory();
+    },
+
+    applyLayerMask: (id, src, image) => {
+      const state = get();
+      const layer = findLayer(state.layers, id);
+      if (!layer?.mask || isGroupLayer(layer)) return;
+      // The masked result is a canvas-sized image; keep the layer's id and appearance
+      // and place it back into the parent group's space
+      const imageLayer: ImageLayer = {
+        id: layer.id,
+        name: layer.name,
+        type: 'image',
+        visible: layer.visible,
+        locked: layer.locked,
+        opacity: layer.opacity,
+        blendMode: layer.blendMode,
+        clipToBelow: layer.clipToBelow,
+        effects: layer.effects,
+        src,
+        image,
+        x: 0,
+        y: 0,
+        rotation: 0,
+        scaleX: 1,
+        scaleY: 1,
+      };
+      const placed = rebaseLayerTransform(imageLayer, getContentTransform(state.layers, null), getParentTransform(state.layers, id));
+      set({
+        layers: updateLayerInTree(state.layers, id, () => placed),
+        maskEditLayerId: state.maskEditLayerId === id ? null : state.maskEditLayerId,
+      });
+      pushHistory();
+    },
+
+    setMaskEditLayer: (id) => {
+      set({ maskEditLayerId: id });
+    },
+
+    startCrop: (id) => {
+      const layer = findLayer(get().layers, id);
+      if (layer?.type !== 'image' || !layer.image || layer.locked) return;
+      set({
+        ...selectionOf([id]),
+        activeTool: 'select',
+        cropEdit: { layerId: id, rect: getLayerCropRect(layer, layer.image), aspect: 'free' },
+      });
+    },
+
+    updateCropEdit: (changes) => {
+      const { cropEdit } = get();
+      if (cropEdit) set({ cropEdit: { ...cropEdit, ...changes } });
+    },
+
+    applyCrop: () => {
+      const { cropEdit, layers } = get();
+      if (!cropEdit) return;
+      const layer = findLayer(layers, cropEdit.layerId);
+      set({ cropEdit: null });
+      if (layer?.type !== 'image' || !layer.image) return;
+      get().updateLayer(layer.id, getCropChanges(layer, cropEdit.rect, layer.image));
+      get().pushHistory();
+    },
+
+    cancelCrop: () => {
+      set({ cropEdit: null });
+    },
+
+    setPixelSelection: (selection) => {
+      set({ pixelSelection: selection });
+    },
+
+    setSelectionSettings: (settings) => {
+      set((state) => ({
+        selectionSettings: { ...state.selectionSettings, ...settings },
+      }));
+    },
+
+    setSymmetry: (settings) => {
+      set((state) => ({
+        symmetry: { ...state.symmetry, ...settings },
+      }));
+    },
+
+    setFillSettings: (settings) => {
+      set((state) => ({
+        fillSettings: { ...state.fillSettings, ...settings },
+      }));
+    },
+
+    setShowRegionLabels: (show) => {
+      set({ showRegionLabels: show });
+    },
+
+    bumpCanvasVersion: () => {
+      set((state) => ({ canvasVersion: state.canvasVersion + 1 }));
+    },
+
+    // Hides the selected pixels with the layer's mask (adding one if needed) rather than
+    // destroying them, so any layer type works and the result can still be refined
+    deleteInsideSelection: (id) => {
+      const { pixelSelection, layers } = get();
+      const layer = findLayer(layers, id);
+      if (!pixelSelection || !layer || layer.locked) return;
+      set((state) => ({
+        layers: updateLayerInTree(state.layers, id, (l) => withSelectionHidden(l, pixelSelection)),
+      }));
+      pushHistory();
+    },
+
+    clipLayerToSelection: (id, selection) => {
+      const layer = findLayer(get().layers, id);
+      const outside = invertSelection(selection);
+      if (!layer || layer.locked || !outside) return;
+      set((state) => ({
+        layers: updateLayerInTree(state.layers, id, (l) => withSelectionHidden(l, outside)),
+      }));
+      pushHistory();
+    },
+
+    copySelectionToLayer: (id, { src, x, y }) => {
+      const layer = findLayer(get().layers, id);
+      if (!layer) return;
+      get().addLayer({
+        type: 'image',
+        name: `${layer.name} Copy`,
+        src,
+        visible: true,
+        locked: false,
+        opacity: 1,
+        x,
+        y,
+        rotation: 0,
+        scaleX: 1,
+        scaleY: 1,
+      });
+    },
+
+    previewLayerBitmap: (id, bitmap) => {
+      set((state) => ({
+        layers: updateLayerInTree(state.layers, id, (layer) => withBitmap(layer, bitmap)),
+      }));
+    },
+
+    commitLayerBitmap: (id, bitmap) => {
+      set((state) => ({
+        layers: updateLayerInTree(state.layers, id, (layer) => withBitmap(layer, bitmap, bitmap.toDataURL('image/png'))),
       }));
       pushHistory();
     },
@@ -288,8 +698,118 @@ export const useEditorStore = create<EditorStore>((set, get) => {
       pushHistory();
     },
 
+    moveLayer: (id, parentId, index) => {
+      const state = get();
+      const layer = findLayer(state.layers, id);
+      if (!layer) return;
+      // A group can't be moved into itself or one of its descendants
+      if (parentId && isLayerWithin(state.layers, parentId, id)) return;
+      
+      // Keep the layer where it is on the canvas when it changes parent group
+      const currentParentId = getLayerLocation(state.layers, id)?.parentId ?? null;
+      const moved = currentParentId === parentId
+        ? layer
+        : rebaseLayerTransform(layer, getParentTransform(state.layers, id), getContentTransform(state.layers, parentId));
+      
+      set((state) => ({
+        layers: insertLayerIntoTree(removeLayerFromTree(state.layers, id), moved, parentId, index),
+      }));
+      pushHistory();
+    },
+
+    groupLayers: (ids) => {
+      const state = get();
+      // Keep panel order and skip layers already covered by another selected group
+      const members = getSelectionRoots(state.layers, ids);
+      if (members.length === 0) return null;
+      
+      // The new group takes the place of the top-most member
+      const location = getLayerLocation(state.layers, members[0].id);
+      if (!location) return null;
+      const parentTransform = getContentTransform(state.layers, location.parentId);
+      
+      const existingNames = flattenLayers(state.layers).map((l) => l.name);
+      let nameIndex = 1;
+      while (existingNames.includes(`Group ${nameIndex}`)) {
+        nameIndex += 1;
+      }
+      
+      const group: GroupLayer = {
+        id: uuidv4(),
+        type: 'group',
+        name: `Group ${nameIndex}`,
+        visible: true,
+        locked: false,
+        opacity: 1,
+        x: 0,
+        y: 0,
+        rotation: 0,
+        scaleX: 1,
+        scaleY: 1,
+        children: members.map((member) =>
+          rebaseLayerTransform(member, getParentTransform(state.layers, member.id), parentTransform)
+        ),
+      };
+      
+      let newLayers = state.layers;
+      members.forEach((member) => {
+        newLayers = removeLayerFromTree(newLayers, member.id);
+      });
+      // Removing members above the insertion point shifts it up
+      const siblingsBefore = location.parentId
+        ? (findLayer(state.layers, location.parentId) as GroupLayer).children
+        : state.layers;
+      const removedAbove = siblingsBefore.slice(0, location.index).filter((l) => members.some((m) => m.id === l.id)).length;
+      newLayers = insertLayerIntoTree(newLayers, group, location.parentId, location.index - removedAbove);
+      
+      set({ layers: newLayers, ...selectionOf([group.id]) });
+      pushHistory();
+      return group.id;
+    },
+
+    ungroupLayer: (id) => {
+      const state = get();
+      const group = findLayer(state.layers, id);
+      const location = getLayerLocation(state.layers, id);
+      if (!isGroupLayer(group) || !location) return;
+      
+      // Bake the group's transform and opacity into each child so nothing moves
+      const groupSpace = getContentTransform(state.layers, group.id);
+      const parentSpace = getContentTransform(state.layers, location.parentId);
+      const children = group.children.map((child) => ({
+        ...rebaseLayerTransform(child, groupSpace, parentSpace),
+        opacity: child.opacity * group.opacity,
+        visible: child.visible && group.visible,
+      } as Layer));
+      
+      let newLayers = removeLayerFromTree(state.layers, id);
+      children.forEach((child, i) => {
+        newLayers = insertLayerIntoTree(newLayers, child, location.parentId, location.index + i);
+      });
+      
+      // A selected group hands its selection over to its former children
+      const selectedIds = state.selectedLayerIds.includes(id)
+        ? [...state.selectedLayerIds.filter((selectedId) => selectedId !== id), ...children.map((child) => child.id)]
+        : state.selectedLayerIds;
+      set({ layers: newLayers, ...selectionOf(selectedIds) });
+      pushHistory();
+    },
+
     setSelection: (id) => {
-      set({ selectedLayerId: id });
+      set(selectionOf(id ? [id] : []));
+    },
+
+    setSelectedLayers: (ids) => {
+      set(selectionOf(ids));
+    },
+
+    toggleLayerSelection: (id) => {
+      const { selectedLayerIds } = get();
+      set(selectionOf(
+        selectedLayerIds.includes(id)
+          ? selectedLayerIds.filter((selectedId) => selectedId !== id)
+          : [...selectedLayerIds, id]
+      ));
     },
 
     setBaseColor: (color) => {
@@ -297,6 +817,10 @@ export const useEditorStore = create<EditorStore>((set, get) => {
       pushHistory();
     },
 
+    setBaseGradient: (gradient) => {
+      set({ baseGradient: gradient });
+    },
+
     setTemplateDimensions: (dimensions) => {
       set({ templateDimensions: dimensions });
     },
@@ -309,9 +833,17 @@ export const useEditorStore = create<EditorStore>((set, get) => {
       set({ currentModelId: modelId });
     },
 
+    addCustomFont: (font) => {
+      set((state) => ({
+        customFonts: [...state.customFonts.filter((f) => f.family !== font.family), font],
+        isDirty: true,
+      }));
+    },
+
     // Tool actions
     setActiveTool: (tool) => {
-      set({ activeTool: tool });
+      // Mask painting only lasts while the brush stays active
+      set(tool === 'brush' ? { activeTool: tool } : { activeTool: tool, maskEditLayerId: null });
     },
 
     setBrushSettings: (settings) => {
@@ -320,13 +852,54 @@ export const useEditorStore = create<EditorStore>((set, get) => {
       }));
     },
 
+    saveBrushPreset: (name) => {
+      const { brushSettings, brushPresets } = get();
+      const { size, hardness, opacity, flow, spacing, tip } = brushSettings;
+      const baseName = name.trim() || 'Brush';
+      let uniqueName = baseName;
+      const takenNames = [...BUILT_IN_BRUSH_PRESETS, ...brushPresets].map((preset) => preset.name);
+      for (let n = 2; takenNames.includes(uniqueName); n++) {
+        uniqueName = `${baseName} ${n}`;
+      }
+      const presets = [...brushPresets, { id: uuidv4(), name: uniqueName, settings: { size, hardness, opacity, flow, spacing, tip: { ...tip } } }];
+      if (!storeBrushPresets(presets, get().brushStamps)) return false;
+      set({ brushPresets: presets });
+      return true;
+    },
+
+    deleteBrushPreset: (id) => {
+      const presets = get().brushPresets.filter((preset) => preset.id !== id);
+      storeBrushPresets(presets, get().brushStamps);
+      set({ brushPresets: presets });
+    },
+
+    addBrushStamp: (src) => {
+      const existing = get().brushStamps.find((stamp) => stamp.src === src);
+      if (existing) return existing.id;
+      const stamp = { id: uuidv4(), src };
+      set((state) => ({ brushStamps: [...state.brushStamps, stamp] }));
+      return stamp.id;
+    },
+
     addBrushStroke: (layerId, stroke) => {
+      get().addBrushStrokes(layerId, [stroke]);
+    },
+
+    addBrushStrokes: (layerId, strokes) => {
       set((state) => ({
-        layers: state.layers.map((layer) => {
-          if (layer.id === layerId && layer.type === 'brush') {
+        layers: updateLayerInTree(state.layers, layerId, (layer) => {
+          if (layer.type === 'brush') {
+            const allStrokes = [...layer.strokes, ...strokes];
             return {
               ...layer,
-              strokes: [...(layer as any).strokes, stroke],
+              strokes: allStrokes,
+              // Clips and stamps of strokes that were never finished are dropped
+              ...(layer.strokeClips && {
+                strokeClips: layer.strokeClips.filter((clip) => allStrokes.some((stroke) => stroke.clipId === clip.id)),
+              }),
+              ...(layer.stamps && {
+                stamps: layer.stamps.filter((stamp) => allStrokes.some((stroke) => stroke.tip?.stampId === stamp.id)),
+              }),
             };
           }
           return layer;
@@ -335,6 +908,26 @@ export const useEditorStore = create<EditorStore>((set, get) => {
       pushHistory();
     },
 
+    addStrokeClip: (layerId, clip) => {
+      set((state) => ({
+        layers: updateLayerInTree(state.layers, layerId, (layer) => {
+          if (layer.type !== 'brush' || layer.strokeClips?.some((c) => c.id === clip.id)) return layer;
+          return { ...layer, strokeClips: [...(layer.strokeClips ?? []), clip] };
+        }),
+      }));
+    },
+
+    addStrokeStamp: (layerId, stampId) => {
+      const stamp = get().brushStamps.find((s) => s.id === stampId);
+      if (!stamp) return;
+      set((state) => ({
+        layers: updateLayerInTree(state.layers, layerId, (layer) => {
+          if (layer.type !== 'brush' || layer.stamps?.some((s) => s.id === stampId)) return layer;
+          return { ...layer, stamps: [...(layer.stamps ?? []), stamp] };
+        }),
+      }));
+    },
+
     undo: () => {
       const state = get();
       if (state.historyIndex > 0) {
@@ -343,6 +936,7 @@ export const useEditorStore = create<EditorStore>((set, get) => {
           historyIndex: state.historyIndex - 1,
           layers: snapshot.layers.map((l) => ({ ...l })),
           baseColor: snapshot.baseColor,
+          baseGradient: snapshot.baseGradient,
         });
       }
     },
@@ -355,6 +949,7 @@ export const useEditorStore = create<EditorStore>((set, get) => {
           historyIndex: state.historyIndex + 1,
           layers: snapshot.layers.map((l) => ({ ...l })),
           baseColor: snapshot.baseColor,
+          baseGradient: snapshot.baseGradient,
           isDirty: true,
         });
       }
@@ -367,13 +962,19 @@ export const useEditorStore = create<EditorStore>((set, get) => {
       set({
         layers: [],
         selectedLayerId: null,
+        selectedLayerIds: [],
         baseColor: '#F5F5F0', // Tesla Pearl White Multi-Coat
+        baseGradient: null,
         history: [createHistorySnapshot([], '#F5F5F0')],
         historyIndex: 0,
         isDirty: false,
         projectName: 'Untitled Project',
         designId: null,
         activeTool: 'select',
+        maskEditLayerId: null,
+        customFonts: [],
+        cropEdit: null,
+        pixelSelection: null,
       });
     },
     
@@ -393,13 +994,21 @@ export const useEditorStore = create<EditorStore>((set, get) => {
       const state = get();
       
       // Serialize layers, removing HTMLImageElement references
-      const serializedLayers: SerializedLayer[] = state.layers.map(layer => {
+      const serializeLayer = (layer: Layer): SerializedLayer => {
         const { ...rest } = layer as any;
         // Remove non-serializable properties
         delete rest.image;
         delete rest.fillImage;
+        if (layer.mask) {
+          rest.mask = { src: layer.mask.src, enabled: layer.mask.enabled, inverted: layer.mask.inverted };
+        }
+        // Group children are serialized recursively
+        if (layer.type === 'group') {
+          rest.children = layer.children.map(serializeLayer);
+        }
         return rest as SerializedLayer;
-      });
+      };
+      const serializedLayers: SerializedLayer[] = state.layers.map(serializeLayer);
       
       return {
         version: '1.0',
@@ -408,16 +1017,28 @@ export const useEditorStore = create<EditorStore>((set, get) => {
         modifiedAt: new Date().toISOString(),
         modelId: state.currentModelId,
         baseColor: state.baseColor,
+        baseGradient: state.baseGradient,
         layers: serializedLayers,
+        fonts: state.customFonts,
       };
     },
     
     loadProject: async (project: ProjectFile) => {
+      // Fonts load first, so text is measured with them as soon as it renders
+      const fonts = project.fonts ?? [];
+      await Promise.all(fonts.map((font) => registerFont(font).catch(() => {
+        console.warn(`Failed to load font ${font.family}`);
+      })));
+
       // Restore layers with image loading
-      const restoredLayers: Layer[] = await Promise.all(
-        project.layers.map(async (serializedLayer) => {
+      const restoreLayer = async (serializedLayer: SerializedLayer): Promise<Layer> => {
           const layer = { ...serializedLayer } as any;
           
+          // Restore group children recursively
+          if (layer.type === 'group') {
+            layer.children = await Promise.all((layer.children || []).map(restoreLayer));
+          }
+          
           // Load images for image/texture layers
           if ((layer.type === 'image' || layer.type === 'texture') && layer.src) {
             try {
@@ -436,22 +1057,46 @@ export const useEditorStore = create<EditorStore>((set, get) => {
             }
           }
           
+          // Decode layer masks so they can be painted on right away
+          if (layer.mask?.src) {
+            try {
+              layer.mask = { ...layer.mask, image: await loadImageFromSrc(layer.mask.src) };
+            } catch {
+              // Failed to load mask; the canvas loads it again when rendering
+            }
+          }
+          
           return layer as Layer;
-        })
-      );
+      };
+      const restoredLayers: Layer[] = await Promise.all(project.layers.map(restoreLayer));
       
       set({
         layers: restoredLayers,
         selectedLayerId: null,
+        selectedLayerIds: [],
         baseColor: project.baseColor,
+        baseGradient: project.baseGradient ?? null,
         currentModelId: project.modelId,
-        history: [createHistorySnapshot(restoredLayers, project.baseColor)],
+        history: [createHistorySnapshot(restoredLayers, project.baseColor, project.baseGradient ?? null)],
         historyIndex: 0,
         isDirty: false,
         projectName: project.name,
         activeTool: 'select',
+        maskEditLayerId: null,
+        customFonts: fonts,
+        cropEdit: null,
+        pixelSelection: null,
       });
     },
   };
 });
 
+/**
+ * Bump canvasVersion once new content for a layer (a loaded image, say) has been committed,
+ * for layers that draw differently without the layer itself changing
+ */
+export const useCanvasContent = (content: unknown): void => {
+  useEffect(() => {
+    if (content) useEditorStore.getState().bumpCanvasVersion();
+  }, [content]);
+};
@@ -0,0 +1,211 @@
+import type { Adjustment } from '../editor/state/editorTypes';
+
+export type AdjustmentKind = Adjustment['kind'];
+
+/**
+ * Adjustment kinds offered for adjustment layers, in the order shown in the UI
+ */
+export const ADJUSTMENT_OPTIONS: { value: AdjustmentKind; label: string }[] = [
+  { value: 'hueSaturation', label: 'Hue/Saturation' },
+  { value: 'brightnessContrast', label: 'Brightness/Contrast' },
+  { value: 'levels', label: 'Levels' },
+  { value: 'curves', label: 'Curves' },
+  { value: 'colorBalance', label: 'Color Balance' },
+];
+
+// Inputs the curve points sit at
+export const CURVE_INPUTS = [0, 64, 128, 192, 255];
+
+export const getAdjustmentLabel = (kind: AdjustmentKind): string =>
+  ADJUSTMENT_OPTIONS.find((option) => option.value === kind)?.label ?? 'Adjustment';
+
+/**
+ * Settings for a new adjustment; every default leaves the image unchanged
+ */
+export const createDefaultAdjustment = (kind: AdjustmentKind): Adjustment => {
+  switch (kind) {
+    case 'hueSaturation':
+      return { kind, hue: 0, saturation: 0, lightness: 0 };
+    case 'brightnessContrast':
+      return { kind, brightness: 0, contrast: 0 };
+    case 'levels':
+      return { kind, inputBlack: 0, inputWhite: 255, gamma: 1, outputBlack: 0, outputWhite: 255 };
+    case 'curves':
+      return { kind, points: [...CURVE_INPUTS] };
+    case 'colorBalance':
+      return { kind, shadows: [0, 0, 0], midtones: [0, 0, 0], highlights: [0, 0, 0], preserveLuminosity: true };
+  }
+};
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, value));
+
+const buildLut = (map: (value: number) => number): Uint8ClampedArray => {
+  const lut = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    lut[i] = Math.round(clampByte(map(i)));
+  }
+  return lut;
+};
+
+/**
+ * Evaluate the curve at an input level with a cubic Hermite spline through the points
+ * (Catmull-Rom tangents), so the curve passes through every point without kinks
+ */
+export const evaluateCurve = (points: number[], input: number): number => {
+  const last = CURVE_INPUTS.length - 1;
+  let segment = 0;
+  while (segment < last - 1 && input > CURVE_INPUTS[segment + 1]) segment++;
+
+  const x0 = CURVE_INPUTS[segment];
+  const x1 = CURVE_INPUTS[segment + 1];
+  const y0 = points[segment];
+  const y1 = points[segment + 1];
+  const slope = (i: number) => {
+    const prev = Math.max(0, i - 1);
+    const next = Math.min(last, i + 1);
+    return (points[next] - points[prev]) / (CURVE_INPUTS[next] - CURVE_INPUTS[prev]);
+  };
+
+  const width = x1 - x0;
+  const t = (input - x0) / width;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return clampByte(
+    (2 * t3 - 3 * t2 + 1) * y0 +
+      (t3 - 2 * t2 + t) * width * slope(segment) +
+      (-2 * t3 + 3 * t2) * y1 +
+      (t3 - t2) * width * slope(segment + 1)
+  );
+};
+
+/**
+ * Lookup table for adjustments that map each channel independently
+ */
+const getChannelLut = (adjustment: Adjustment): Uint8ClampedArray | null => {
+  switch (adjustment.kind) {
+    case 'brightnessContrast': {
+      const contrast = adjustment.contrast * 2.55;
+      const factor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+      const offset = adjustment.brightness * 1.28;
+      return buildLut((v) => factor * (v + offset - 128) + 128);
+    }
+    case 'levels': {
+      const { inputBlack, inputWhite, gamma, outputBlack, outputWhite } = adjustment;
+      const range = Math.max(1, inputWhite - inputBlack);
+      return buildLut((v) => {
+        const normalized = Math.max(0, Math.min(1, (v - inputBlack) / range));
+        return outputBlack + (outputWhite - outputBlack) * Math.pow(normalized, 1 / Math.max(0.01, gamma));
+      });
+    }
+    case 'curves':
+      return buildLut((v) => evaluateCurve(adjustment.points, v));
+    default:
+      return null;
+  }
+};
+
+const rgbToHsl = (r: number, g: number, b: number): [number, number, number] => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+  else if (max === g) h = (b - r) / d + 2;
+  else h = (r - g) / d + 4;
+  return [h / 6, s, l];
+};
+
+const hueToRgb = (p: number, q: number, t: number) => {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+  return p;
+};
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  if (s === 0) return [l, l, l];
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  return [hueToRgb(p, q, h + 1 / 3), hueToRgb(p, q, h), hueToRgb(p, q, h - 1 / 3)];
+};
+
+const luminance = (r: number, g: number, b: number) => r * 0.299 + g * 0.587 + b * 0.114;
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Adjust the pixels in place. `amount` (0-1) mixes between the original and adjusted colour.
+ * Fully transparent pixels are skipped; alpha is never changed.
+ */
+export const applyAdjustment = (data: Uint8ClampedArray, adjustment: Adjustment, amount = 1): void => {
+  if (amount <= 0) return;
+  const mix = (original: number, adjusted: number) => original + (adjusted - original) * amount;
+
+  const lut = getChannelLut(adjustment);
+  if (lut) {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] === 0) continue;
+      data[i] = mix(data[i], lut[data[i]]);
+      data[i + 1] = mix(data[i + 1], lut[data[i + 1]]);
+      data[i + 2] = mix(data[i + 2], lut[data[i + 2]]);
+    }
+    return;
+  }
+
+  if (adjustment.kind === 'hueSaturation') {
+    const hueShift = adjustment.hue / 360;
+    const saturation = adjustment.saturation / 100;
+    const lightness = adjustment.lightness / 100;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] === 0) continue;
+      let [h, s, l] = rgbToHsl(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255);
+      h = (h + hueShift + 1) % 1;
+      s = Math.max(0, Math.min(1, s * (1 + saturation)));
+      l = lightness > 0 ? l + (1 - l) * lightness : l * (1 + lightness);
+      const [r, g, b] = hslToRgb(h, s, l);
+      data[i] = mix(data[i], r * 255);
+      data[i + 1] = mix(data[i + 1], g * 255);
+      data[i + 2] = mix(data[i + 2], b * 255);
+    }
+    return;
+  }
+
+  if (adjustment.kind === 'colorBalance') {
+    const { shadows, midtones, highlights, preserveLuminosity } = adjustment;
+    // A full +/-100 shift moves a channel by up to a quarter of its range
+    const scale = 64 / 100;
+    const shiftFor = (channel: number, shadowWeight: number, midtoneWeight: number, highlightWeight: number) =>
+      (shadows[channel] * shadowWeight + midtones[channel] * midtoneWeight + highlights[channel] * highlightWeight) * scale;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] === 0) continue;
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+      const lum = luminance(r, g, b) / 255;
+      const shadowWeight = 1 - smoothstep(0, 0.5, lum);
+      const highlightWeight = smoothstep(0.5, 1, lum);
+      const midtoneWeight = 1 - shadowWeight - highlightWeight;
+      let nr = r + shiftFor(0, shadowWeight, midtoneWeight, highlightWeight);
+      let ng = g + shiftFor(1, shadowWeight, midtoneWeight, highlightWeight);
+      let nb = b + shiftFor(2, shadowWeight, midtoneWeight, highlightWeight);
+      if (preserveLuminosity) {
+        const correction = luminance(r, g, b) - luminance(nr, ng, nb);
+        nr += correction;
+        ng += correction;
+        nb += correction;
+      }
+      data[i] = mix(r, nr);
+      data[i + 1] = mix(g, ng);
+      data[i + 2] = mix(b, nb);
+    }
+  }
+};
@@ -0,0 +1,97 @@
+import type { Stage } from 'konva/lib/Stage';
+import type { Node } from 'konva/lib/Node';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export interface LayerPosition {
+  id: string;
+  x: number;
+  y: number;
+}
+
+interface NodeBox {
+  id: string;
+  node: Node;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const getNodeBoxes = (stage: Stage, ids: string[]): NodeBox[] =>
+  ids.flatMap((id) => {
+    const node = stage.findOne(`#${id}`);
+    if (!node) return [];
+    const box = node.getClientRect();
+    return [{ id, node, ...box }];
+  });
+
+/**
+ * Move a node by an offset in canvas coordinates and return its new position
+ * in its parent's coordinate space (what the layer's x/y are stored in)
+ */
+const offsetPosition = ({ id, node }: NodeBox, dx: number, dy: number): LayerPosition => {
+  const absolute = node.getAbsolutePosition();
+  const target = { x: absolute.x + dx, y: absolute.y + dy };
+  const parent = node.getParent();
+  const local = parent ? parent.getAbsoluteTransform().copy().invert().point(target) : target;
+  return { id, x: local.x, y: local.y };
+};
+
+/**
+ * Align the on-canvas bounding boxes of the given layers to the edges or
+ * center of their combined bounds
+ */
+export const getAlignedPositions = (stage: Stage, ids: string[], mode: AlignMode): LayerPosition[] => {
+  const boxes = getNodeBoxes(stage, ids);
+  if (boxes.length < 2) return [];
+
+  const left = Math.min(...boxes.map((b) => b.x));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const top = Math.min(...boxes.map((b) => b.y));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+
+  return boxes.map((box) => {
+    switch (mode) {
+      case 'left':
+        return offsetPosition(box, left - box.x, 0);
+      case 'center':
+        return offsetPosition(box, (left + right) / 2 - (box.x + box.width / 2), 0);
+      case 'right':
+        return offsetPosition(box, right - (box.x + box.width), 0);
+      case 'top':
+        return offsetPosition(box, 0, top - box.y);
+      case 'middle':
+        return offsetPosition(box, 0, (top + bottom) / 2 - (box.y + box.height / 2));
+      case 'bottom':
+        return offsetPosition(box, 0, bottom - (box.y + box.height));
+    }
+  });
+};
+
+/**
+ * Space the given layers so the gaps between their bounding boxes are equal.
+ * The outermost layers stay where they are.
+ */
+export const getDistributedPositions = (stage: Stage, ids: string[], axis: DistributeAxis): LayerPosition[] => {
+  const boxes = getNodeBoxes(stage, ids);
+  if (boxes.length < 3) return [];
+
+  const horizontal = axis === 'horizontal';
+  const start = (b: NodeBox) => (horizontal ? b.x : b.y);
+  const size = (b: NodeBox) => (horizontal ? b.width : b.height);
+
+  const sorted = [...boxes].sort((a, b) => start(a) - start(b));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const totalSize = sorted.reduce((sum, b) => sum + size(b), 0);
+  const gap = (start(last) + size(last) - start(first) - totalSize) / (sorted.length - 1);
+
+  let cursor = start(first);
+  return sorted.map((box) => {
+    const delta = cursor - start(box);
+    cursor += size(box) + gap;
+    return horizontal ? offsetPosition(box, delta, 0) : offsetPosition(box, 0, delta);
+  });
+};
@@ -0,0 +1,191 @@
+import { loadImage } from './image';
+
+// How the background is found: every pixel close to the key colour, or only the
+// key-coloured region that touches the image border
+export type BackgroundRemovalMode = 'color' | 'flood';
+
+export interface BackgroundRemovalOptions {
+  mode: BackgroundRemovalMode;
+  color: string;      // Key colour, hex
+  tolerance: number;  // 0-100, how far a colour may be from the key and still count as background
+  feather: number;    // 0-100, band past the tolerance that fades out instead of being cut
+}
+
+export const BACKGROUND_REMOVAL_MODE_OPTIONS: { value: BackgroundRemovalMode; label: string }[] = [
+  { value: 'flood', label: 'Connected to Edges' },
+  { value: 'color', label: 'Color to Alpha' },
+];
+
+export const DEFAULT_BACKGROUND_REMOVAL: BackgroundRemovalOptions = {
+  mode: 'flood',
+  color: '#ffffff',
+  tolerance: 15,
+  feather: 10,
+};
+
+const parseHex = (hex: string): [number, number, number] => {
+  const match = hex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : [255, 255, 255];
+};
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map((v) => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Likely background colour of an image: the average of its opaque corner pixels
+ */
+export const detectBackgroundColor = (image: HTMLImageElement | HTMLCanvasElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image instanceof HTMLImageElement ? image.naturalWidth || image.width : image.width;
+  canvas.height = image instanceof HTMLImageElement ? image.naturalHeight || image.height : image.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return DEFAULT_BACKGROUND_REMOVAL.color;
+  ctx.drawImage(image, 0, 0);
+  const corners = [
+    [0, 0],
+    [canvas.width - 1, 0],
+    [0, canvas.height - 1],
+    [canvas.width - 1, canvas.height - 1],
+  ].map(([x, y]) => ctx.getImageData(x, y, 1, 1).data).filter((pixel) => pixel[3] > 0);
+  if (corners.length === 0) return DEFAULT_BACKGROUND_REMOVAL.color;
+  const average = (channel: number) => corners.reduce((sum, pixel) => sum + pixel[channel], 0) / corners.length;
+  return toHex(average(0), average(1), average(2));
+};
+
+/**
+ * Make the background of an image transparent, in place. Pixels within the tolerance are
+ * cleared; pixels in the feather band fade out and have the key colour taken out of them,
+ * so anti-aliased edges don't keep a halo of the old background.
+ */
+export const removeBackgroundPixels = (imageData: ImageData, options: BackgroundRemovalOptions): void => {
+  const { width, height, data } = imageData;
+  const [keyR, keyG, keyB] = parseHex(options.color);
+  const tolerance = options.tolerance / 100;
+  const feather = options.feather / 100;
+  const maxDistance = Math.sqrt(3) * 255;
+  const pixelCount = width * height;
+
+  // Distance of every pixel from the key colour, 0-1. Transparent pixels already are background.
+  const distances = new Float32Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * 4;
+    distances[p] = data[i + 3] === 0
+      ? 0
+      : Math.hypot(data[i] - keyR, data[i + 1] - keyG, data[i + 2] - keyB) / maxDistance;
+  }
+
+  // Share of each pixel's colour to keep: 0 inside the tolerance, rising to 1 across the feather band
+  const keepAmount = (distance: number) => {
+    if (distance <= tolerance) return 0;
+    if (feather <= 0 || distance >= tolerance + feather) return 1;
+    return (distance - tolerance) / feather;
+  };
+
+  const clearPixel = (p: number, keep: number) => {
+    const i = p * 4;
+    if (keep <= 0) {
+      data[i + 3] = 0;
+      return;
+    }
+    // Undo the blend with the key colour, as if the pixel had been drawn on transparency
+    data[i] = (data[i] - keyR * (1 - keep)) / keep;
+    data[i + 1] = (data[i + 1] - keyG * (1 - keep)) / keep;
+    data[i + 2] = (data[i + 2] - keyB * (1 - keep)) / keep;
+    data[i + 3] = data[i + 3] * keep;
+  };
+
+  if (options.mode === 'color') {
+    for (let p = 0; p < pixelCount; p++) {
+      const keep = keepAmount(distances[p]);
+      if (keep < 1) clearPixel(p, keep);
+    }
+    return;
+  }
+
+  // Grow the background from every border pixel within the tolerance
+  const inBackground = new Uint8Array(pixelCount);
+  const stack: number[] = [];
+  const seed = (p: number) => {
+    if (!inBackground[p] && distances[p] <= tolerance) {
+      inBackground[p] = 1;
+      stack.push(p);
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    seed(x);
+    seed((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    seed(y * width);
+    seed(y * width + width - 1);
+  }
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    const x = p % width;
+    if (x > 0) seed(p - 1);
+    if (x < width - 1) seed(p + 1);
+    if (p >= width) seed(p - width);
+    if (p < pixelCount - width) seed(p + width);
+  }
+
+  // Feather only the pixels bordering the background, so matching colours inside the artwork stay
+  const edge = new Uint8Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) {
+    if (!inBackground[p]) continue;
+    const x = p % width;
+    if (x > 0 && !inBackground[p - 1]) edge[p - 1] = 1;
+    if (x < width - 1 && !inBackground[p + 1]) edge[p + 1] = 1;
+    if (p >= width && !inBackground[p - width]) edge[p - width] = 1;
+    if (p < pixelCount - width && !inBackground[p + width]) edge[p + width] = 1;
+  }
+  for (let p = 0; p < pixelCount; p++) {
+    if (inBackground[p]) {
+      clearPixel(p, 0);
+    } else if (edge[p]) {
+      const keep = keepAmount(distances[p]);
+      if (keep < 1) clearPixel(p, keep);
+    }
+  }
+};
+
+// Runs the removal off the main thread where workers are available
+const runInWorker = (imageData: ImageData, options: BackgroundRemovalOptions): Promise<ImageData> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./backgroundRemoval.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ImageData>) => {
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Background removal failed'));
+    };
+    worker.postMessage({ imageData, options }, [imageData.data.buffer]);
+  });
+
+/**
+ * Copy of an image with its background made transparent, as a PNG data URL
+ */
+export const removeBackground = async (
+  source: HTMLImageElement | HTMLCanvasElement | string,
+  options: BackgroundRemovalOptions
+): Promise<{ src: string; image: HTMLImageElement }> => {
+  const image = typeof source === 'string' ? await loadImage(source) : source;
+  const canvas = document.createElement('canvas');
+  canvas.width = image instanceof HTMLImageElement ? image.naturalWidth || image.width : image.width;
+  canvas.height = image instanceof HTMLImageElement ? image.naturalHeight || image.height : image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(image, 0, 0);
+
+  let imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  if (typeof Worker !== 'undefined') {
+    imageData = await runInWorker(imageData, options);
+  } else {
+    removeBackgroundPixels(imageData, options);
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  const src = canvas.toDataURL('image/png');
+  return { src, image: await loadImage(src) };
+};
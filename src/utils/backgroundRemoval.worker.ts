@@ -0,0 +1,9 @@
+import { removeBackgroundPixels } from './backgroundRemoval';
+import type { BackgroundRemovalOptions } from './backgroundRemoval';
+
+// Background removal for large images, kept off the main thread so the editor stays responsive
+self.onmessage = (e: MessageEvent<{ imageData: ImageData; options: BackgroundRemovalOptions }>) => {
+  const { imageData, options } = e.data;
+  removeBackgroundPixels(imageData, options);
+  self.postMessage(imageData, { transfer: [imageData.data.buffer] });
+};
@@ -0,0 +1,30 @@
+import type { BlendMode } from '../editor/state/editorTypes';
+
+/**
+ * Blend modes offered for layers, in the order shown in the properties panel
+ */
+export const BLEND_MODE_OPTIONS: { value: BlendMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' },
+  { value: 'color-dodge', label: 'Color Dodge' },
+  { value: 'color-burn', label: 'Color Burn' },
+  { value: 'hard-light', label: 'Hard Light' },
+  { value: 'soft-light', label: 'Soft Light' },
+  { value: 'difference', label: 'Difference' },
+  { value: 'exclusion', label: 'Exclusion' },
+  { value: 'hue', label: 'Hue' },
+  { value: 'saturation', label: 'Saturation' },
+  { value: 'color', label: 'Color' },
+  { value: 'luminosity', label: 'Luminosity' },
+];
+
+/**
+ * Map a layer blend mode to the canvas globalCompositeOperation.
+ * Every mode except 'normal' shares its name with the canvas operation.
+ */
+export const getCompositeOperation = (blendMode: BlendMode | undefined): GlobalCompositeOperation =>
+  !blendMode || blendMode === 'normal' ? 'source-over' : blendMode;
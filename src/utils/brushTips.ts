@@ -0,0 +1,356 @@
+import type { BrushPreset, BrushStamp, BrushStroke, BrushTip, BrushTipShape } from '../editor/state/editorTypes';
+
+export const BRUSH_TIP_OPTIONS: { value: BrushTipShape; label: string }[] = [
+  { value: 'round', label: 'Round' },
+  { value: 'calligraphy', label: 'Flat' },
+  { value: 'spray', label: 'Spray' },
+  { value: 'splatter', label: 'Splatter' },
+  { value: 'stamp', label: 'Stamp' },
+];
+
+export const DEFAULT_BRUSH_TIP: BrushTip = {
+  shape: 'round',
+  angle: 45,
+  roundness: 25,
+  density: 40,
+  scatter: 0,
+  angleJitter: 0,
+  sizeJitter: 0,
+};
+
+export const BUILT_IN_BRUSH_PRESETS: BrushPreset[] = [
+  {
+    id: 'builtin-hard-round',
+    name: 'Hard Round',
+    settings: { size: 20, hardness: 100, opacity: 100, flow: 100, spacing: 25, tip: DEFAULT_BRUSH_TIP },
+  },
+  {
+    id: 'builtin-airbrush',
+    name: 'Airbrush',
+    settings: { size: 80, hardness: 0, opacity: 100, flow: 20, spacing: 10, tip: { ...DEFAULT_BRUSH_TIP, shape: 'spray', density: 70 } },
+  },
+  {
+    id: 'builtin-spray-can',
+    name: 'Spray Can',
+    settings: { size: 50, hardness: 70, opacity: 100, flow: 60, spacing: 15, tip: { ...DEFAULT_BRUSH_TIP, shape: 'spray', density: 35, scatter: 5 } },
+  },
+  {
+    id: 'builtin-splatter',
+    name: 'Splatter',
+    settings: {
+      size: 80, hardness: 100, opacity: 100, flow: 100, spacing: 90,
+      tip: { ...DEFAULT_BRUSH_TIP, shape: 'splatter', density: 40, scatter: 80, angleJitter: 180, sizeJitter: 60 },
+    },
+  },
+  {
+    id: 'builtin-calligraphy',
+    name: 'Calligraphy',
+    settings: { size: 30, hardness: 100, opacity: 100, flow: 100, spacing: 3, tip: { ...DEFAULT_BRUSH_TIP, shape: 'calligraphy' } },
+  },
+];
+
+const PRESETS_STORAGE_KEY = 'tesla_wrap_brush_presets';
+// Stamps of the presets' stamp tips, each stored once
+const STAMPS_STORAGE_KEY = 'tesla_wrap_brush_stamps';
+
+/**
+ * The user's saved brush presets
+ */
+export const loadBrushPresets = (): BrushPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    if (!stored) return [];
+    const presets = JSON.parse(stored);
+    return Array.isArray(presets) ? presets.filter((preset) => preset?.id && preset.settings?.tip) : [];
+  } catch (error) {
+    console.error('Failed to load brush presets:', error);
+    return [];
+  }
+};
+
+/**
+ * Stamps the saved presets use
+ */
+export const loadBrushStamps = (): BrushStamp[] => {
+  try {
+    const stored = localStorage.getItem(STAMPS_STORAGE_KEY);
+    if (!stored) return [];
+    const stamps = JSON.parse(stored);
+    return Array.isArray(stamps) ? stamps.filter((stamp) => stamp?.id && typeof stamp.src === 'string') : [];
+  } catch (error) {
+    console.error('Failed to load brush stamps:', error);
+    return [];
+  }
+};
+
+/**
+ * Save the presets along with the stamps they use. False when the browser's storage is full
+ * or unavailable, in which case the saved presets stay as they were.
+ */
+export const storeBrushPresets = (presets: BrushPreset[], stamps: BrushStamp[]): boolean => {
+  const used = stamps.filter((stamp) => presets.some((preset) => preset.settings.tip.stampId === stamp.id));
+  let previousStamps: string | null = null;
+  try {
+    previousStamps = localStorage.getItem(STAMPS_STORAGE_KEY);
+    localStorage.setItem(STAMPS_STORAGE_KEY, JSON.stringify(used));
+    localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    return true;
+  } catch (error) {
+    console.error('Failed to save brush presets:', error);
+    // The old presets may still need stamps that were just dropped
+    try {
+      if (previousStamps !== null) localStorage.setItem(STAMPS_STORAGE_KEY, previousStamps);
+    } catch {
+      // Storage is unavailable altogether
+    }
+    return false;
+  }
+};
+
+/**
+ * Whether strokes with this tip are stamped as dabs rather than drawn as a line
+ */
+export const usesDabs = (tip: BrushTip | undefined): tip is BrushTip =>
+  !!tip && (tip.shape !== 'round' || tip.scatter > 0 || tip.sizeJitter > 0);
+
+// Random numbers from a seed (mulberry32), so a stroke's dabs land in the same place every render
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createStrokeSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// One mark of the tip along a stroke
+export interface BrushDab {
+  x: number;
+  y: number;
+  size: number;
+  angle: number;  // Radians
+  alpha: number;  // 0-1, flow and pen pressure
+}
+
+/**
+ * Dabs of a stroke with a shaped tip: one at the start, then one every `spacing` percent of
+ * the size along its points, scattered and jittered by the tip's settings
+ */
+export const getStrokeDabs = (stroke: BrushStroke): BrushDab[] => {
+  const { points, size, widths, alphas, flow, spacing = 25, tip = DEFAULT_BRUSH_TIP, seed = 0 } = stroke;
+  const random = createRandom(seed);
+  const count = points.length / 2;
+  const dabs: BrushDab[] = [];
+  if (count < 1) return dabs;
+
+  const widthAt = (i: number) => widths?.[i] ?? size;
+  const alphaAt = (i: number) => alphas?.[i] ?? 1;
+  const addDab = (x: number, y: number, width: number, alpha: number, direction: number) => {
+    // Scatter pushes the dab across the stroke, to either side
+    const offset = width * (tip.scatter / 100) * (random() * 2 - 1);
+    dabs.push({
+      x: x - Math.sin(direction) * offset,
+      y: y + Math.cos(direction) * offset,
+      size: width * (1 - (tip.sizeJitter / 100) * random()),
+      angle: ((tip.angle + tip.angleJitter * (random() * 2 - 1)) * Math.PI) / 180,
+      alpha: (flow / 100) * alpha,
+    });
+  };
+
+  const startDirection = count > 1 ? Math.atan2(points[3] - points[1], points[2] - points[0]) : 0;
+  addDab(points[0], points[1], widthAt(0), alphaAt(0), startDirection);
+
+  let travelled = 0;  // Distance since the last dab
+  for (let i = 1; i < count; i++) {
+    const x0 = points[i * 2 - 2];
+    const y0 = points[i * 2 - 1];
+    const dx = points[i * 2] - x0;
+    const dy = points[i * 2 + 1] - y0;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) continue;
+    const direction = Math.atan2(dy, dx);
+    let along = 0;
+    for (;;) {
+      const t = along / length;
+      const width = widthAt(i - 1) + (widthAt(i) - widthAt(i - 1)) * t;
+      const step = Math.max(0, Math.max(1, (width * spacing) / 100) - travelled);
+      if (along + step > length) {
+        travelled += length - along;
+        break;
+      }
+      along += step;
+      travelled = 0;
+      const f = along / length;
+      addDab(x0 + dx * f, y0 + dy * f, width, alphaAt(i - 1) + (alphaAt(i) - alphaAt(i - 1)) * f, direction);
+    }
+  }
+  return dabs;
+};
+
+/**
+ * How far a dab's paint can reach from its center
+ */
+export const getDabReach = (dab: BrushDab): number => dab.size * 0.75;
+
+const TIP_IMAGE_SIZE = 128;
+
+// The tip drawn once in the stroke color, to be stamped for every round, calligraphy or stamp dab.
+// Hardness fades the edge of round and calligraphy tips.
+const createTipImage = (tip: BrushTip, color: string, hardness: number, stamp?: HTMLImageElement) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = TIP_IMAGE_SIZE;
+  canvas.height = TIP_IMAGE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  const half = TIP_IMAGE_SIZE / 2;
+  if (tip.shape === 'stamp') {
+    if (!stamp) return canvas;
+    const scale = TIP_IMAGE_SIZE / Math.max(stamp.width, stamp.height, 1);
+    const width = stamp.width * scale;
+    const height = stamp.height * scale;
+    ctx.drawImage(stamp, half - width / 2, half - height / 2, width, height);
+  } else {
+    const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, half);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+    gradient.addColorStop(Math.min(1, hardness / 100), 'rgba(0, 0, 0, 1)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.translate(half, half);
+    if (tip.shape === 'calligraphy') ctx.scale(1, Math.max(5, tip.roundness) / 100);
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(0, 0, half, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+  }
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, TIP_IMAGE_SIZE, TIP_IMAGE_SIZE);
+  return canvas;
+};
+
+interface DabPaint {
+  tip: BrushTip;
+  color: string;
+  hardness: number;  // 0-100
+  seed: number;
+  stamp?: HTMLImageElement;  // Loaded stamp image of stamp tips
+}
+
+/**
+ * Paint a stroke's dabs. Spray tips throw fine droplets, denser toward the middle the softer
+ * the brush; splatter tips throw a few large drops.
+ */
+export const paintBrushDabs = (ctx: CanvasRenderingContext2D, dabs: BrushDab[], { tip, color, hardness, seed, stamp }: DabPaint): void => {
+  ctx.save();
+  if (tip.shape === 'spray' || tip.shape === 'splatter') {
+    // Its own sequence, so droplets don't shift when the stroke's dab count changes
+    const random = createRandom(seed ^ 0x9e3779b9);
+    const spreadPower = 0.5 + (1 - hardness / 100) * 0.5;
+    ctx.fillStyle = color;
+    dabs.forEach((dab) => {
+      const radius = dab.size / 2;
+      const isSpray = tip.shape === 'spray';
+      const dropletRadius = Math.max(0.5, dab.size * 0.015);
+      const count = isSpray
+        ? Math.ceil((tip.density / 100) * 0.3 * (radius / dropletRadius) ** 2)
+        : Math.max(1, Math.round(tip.density / 8));
+      ctx.globalAlpha = dab.alpha;
+      ctx.beginPath();
+      for (let n = 0; n < count; n++) {
+        const angle = random() * Math.PI * 2;
+        const distance = radius * random() ** (isSpray ? spreadPower : 0.5);
+        const size = isSpray ? dropletRadius : radius * (0.05 + 0.3 * random() ** 2);
+        const x = dab.x + Math.cos(angle) * distance;
+        const y = dab.y + Math.sin(angle) * distance;
+        ctx.moveTo(x + size, y);
+        ctx.arc(x, y, size, 0, Math.PI * 2);
+      }
+      ctx.fill();
+    });
+  } else {
+    const image = createTipImage(tip, color, hardness, stamp);
+    dabs.forEach((dab) => {
+      ctx.save();
+      ctx.globalAlpha = dab.alpha;
+      ctx.translate(dab.x, dab.y);
+      ctx.rotate(dab.angle);
+      ctx.drawImage(image, -dab.size / 2, -dab.size / 2, dab.size, dab.size);
+      ctx.restore();
+    });
+  }
+  ctx.restore();
+};
+
+/**
+ * Paint a stroke into its own canvas, covering its points and `reach` around them. `ratio`
+ * sets the canvas pixels per unit.
+ */
+export const paintStrokeImage = (
+  points: number[],
+  reach: number,
+  ratio: number,
+  paint: (ctx: CanvasRenderingContext2D) => void
+): { canvas: HTMLCanvasElement; x: number; y: number; width: number; height: number } => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < points.length; i += 2) {
+    minX = Math.min(minX, points[i] - reach);
+    minY = Math.min(minY, points[i + 1] - reach);
+    maxX = Math.max(maxX, points[i] + reach);
+    maxY = Math.max(maxY, points[i + 1] + reach);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil((maxX - minX) * ratio));
+  canvas.height = Math.max(1, Math.ceil((maxY - minY) * ratio));
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.scale(ratio, ratio);
+    ctx.translate(-minX, -minY);
+    paint(ctx);
+  }
+  return { canvas, x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+const STAMP_MAX_SIZE = 128;
+
+/**
+ * Stamp tip from an image, as a small PNG whose alpha shapes the dab. Images without
+ * transparency use their darkness instead, so a black mark on white paper stamps the mark.
+ */
+export const createStampSrc = (source: HTMLImageElement | HTMLCanvasElement): string => {
+  const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth || source.width : source.width;
+  const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight || source.height : source.height;
+  const scale = Math.min(1, STAMP_MAX_SIZE / Math.max(sourceWidth, sourceHeight, 1));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas.toDataURL('image/png');
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = imageData;
+  let opaque = true;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) {
+      opaque = false;
+      break;
+    }
+  }
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    data[i + 3] = opaque ? 255 - luminance : data[i + 3];
+    data[i] = 0;
+    data[i + 1] = 0;
+    data[i + 2] = 0;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
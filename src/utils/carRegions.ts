@@ -0,0 +1,175 @@
+import { Transform } from 'konva/lib/Util';
+import type { CarRegion, CarRegionPair } from '../data/carRegions';
+import { getCounterpartRegion, getRegionPair } from '../data/carRegions';
+import type { Layer } from '../editor/state/editorTypes';
+import { cloneLayerWithNewIds, getLayerTransform, getParentTransform } from '../editor/state/layerTree';
+import { floodFill } from './floodFill';
+import { MASK_SIZE, transformMask } from './layerMask';
+import { drawSelectionRegion } from './selection';
+
+// How different a colour a panel still reaches from its seed: enough to cross the faint guide
+// lines some templates draw inside panels, but not the black outlines between them
+const REGION_TOLERANCE = 40;
+
+interface RegionBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Which panel every template pixel belongs to
+interface RegionMap {
+  width: number;
+  height: number;
+  labels: Uint8Array;  // Index of the pixel's panel + 1, or 0 outside every panel
+  bounds: (RegionBounds | null)[];  // Per panel, in template pixels (null when the seed misses)
+}
+
+// Worked out once per template, the first time a panel is looked up
+const regionMaps = new WeakMap<HTMLImageElement, { regions: CarRegion[]; map: RegionMap }>();
+
+const getRegionMap = (templateImage: HTMLImageElement, regions: CarRegion[]): RegionMap | null => {
+  const cached = regionMaps.get(templateImage);
+  if (cached && cached.regions === regions) return cached.map;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = templateImage.width;
+  canvas.height = templateImage.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(templateImage, 0, 0);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const labels = new Uint8Array(canvas.width * canvas.height);
+  const bounds = regions.map((region, index): RegionBounds | null => {
+    const x = Math.floor((region.x / MASK_SIZE) * canvas.width);
+    const y = Math.floor((region.y / MASK_SIZE) * canvas.height);
+    let box: RegionBounds | null = null;
+    floodFill(imageData, x, y, REGION_TOLERANCE).forEach((idx) => {
+      const pixel = idx / 4;
+      const px = pixel % canvas.width;
+      const py = Math.floor(pixel / canvas.width);
+      labels[pixel] = index + 1;
+      box = box
+        ? { minX: Math.min(box.minX, px), minY: Math.min(box.minY, py), maxX: Math.max(box.maxX, px), maxY: Math.max(box.maxY, py) }
+        : { minX: px, minY: py, maxX: px, maxY: py };
+    });
+    return box;
+  });
+
+  const map = { width: canvas.width, height: canvas.height, labels, bounds };
+  regionMaps.set(templateImage, { regions, map });
+  return map;
+};
+
+/**
+ * The panel under a canvas position, or null over outlines and gaps
+ */
+export const getRegionAt = (
+  templateImage: HTMLImageElement,
+  regions: CarRegion[],
+  pos: { x: number; y: number }
+): CarRegion | null => {
+  const map = getRegionMap(templateImage, regions);
+  if (!map || pos.x < 0 || pos.y < 0 || pos.x >= MASK_SIZE || pos.y >= MASK_SIZE) return null;
+  const x = Math.floor((pos.x / MASK_SIZE) * map.width);
+  const y = Math.floor((pos.y / MASK_SIZE) * map.height);
+  const label = map.labels[y * map.width + x];
+  return label ? regions[label - 1] : null;
+};
+
+/**
+ * A panel's template pixels, as byte offsets into the template's image data (like floodFill)
+ */
+export const getRegionPixels = (
+  templateImage: HTMLImageElement,
+  regions: CarRegion[],
+  region: CarRegion
+): { pixels: Set<number>; width: number; height: number } => {
+  const map = getRegionMap(templateImage, regions);
+  const pixels = new Set<number>();
+  if (!map) return { pixels, width: templateImage.width, height: templateImage.height };
+  const label = regions.indexOf(region) + 1;
+  map.labels.forEach((value, pixel) => {
+    if (label && value === label) pixels.add(pixel * 4);
+  });
+  return { pixels, width: map.width, height: map.height };
+};
+
+/**
+ * Selection canvas covering a panel
+ */
+export const drawRegionSelection = (
+  templateImage: HTMLImageElement,
+  regions: CarRegion[],
+  region: CarRegion
+): HTMLCanvasElement => {
+  const { pixels, width, height } = getRegionPixels(templateImage, regions, region);
+  return drawSelectionRegion(pixels, width, height, 0);
+};
+
+/**
+ * Canvas transform that mirrors a panel onto its counterpart on the other side of the car,
+ * or null for panels without one. A transform given with the template's pair is used as is
+ * (inverted from the pair's second panel). Otherwise the two sides face each other across the
+ * template, so the panel is reflected across the axis halfway between the pair and slid along
+ * that axis until their centres line up.
+ */
+export const getOppositeSideTransform = (
+  templateImage: HTMLImageElement,
+  regions: CarRegion[],
+  region: CarRegion,
+  pairs: CarRegionPair[] = []
+): Transform | null => {
+  const pair = getRegionPair(pairs, region);
+  if (pair?.transform) {
+    const transform = new Transform([...pair.transform]);
+    return pair.regions[0] === region.id ? transform : transform.invert();
+  }
+
+  const counterpart = getCounterpartRegion(regions, region, pairs);
+  const map = getRegionMap(templateImage, regions);
+  if (!counterpart || !map) return null;
+  const from = map.bounds[regions.indexOf(region)];
+  const to = map.bounds[regions.indexOf(counterpart)];
+  if (!from || !to) return null;
+
+  // Panel centres in canvas coordinates
+  const scaleX = MASK_SIZE / map.width;
+  const scaleY = MASK_SIZE / map.height;
+  const fromX = ((from.minX + from.maxX + 1) / 2) * scaleX;
+  const fromY = ((from.minY + from.maxY + 1) / 2) * scaleY;
+  const toX = ((to.minX + to.maxX + 1) / 2) * scaleX;
+  const toY = ((to.minY + to.maxY + 1) / 2) * scaleY;
+  // Sides usually sit left and right of each other, but some templates unfold them above and below
+  return Math.abs(toX - fromX) >= Math.abs(toY - fromY)
+    ? new Transform([-1, 0, 0, 1, fromX + toX, toY - fromY])
+    : new Transform([1, 0, 0, -1, toX - fromX, fromY + toY]);
+};
+
+// Masks stay in canvas space, so they move with a copy (children's masks included)
+const transformLayerMasks = (layer: Layer, transform: Transform): Layer => {
+  const moved = layer.mask ? ({ ...layer, mask: transformMask(layer.mask, transform) } as Layer) : layer;
+  if (moved.type !== 'group') return moved;
+  return { ...moved, children: moved.children.map((child) => transformLayerMasks(child, transform)) };
+};
+
+/**
+ * A copy of a layer (with fresh ids) for the top of the layer list, moved across the canvas
+ * by a transform such as getOppositeSideTransform
+ */
+export const createTransformedCopy = (layers: Layer[], layer: Layer, transform: Transform): Layer => {
+  const local = transform.copy().multiply(getParentTransform(layers, layer.id)).multiply(getLayerTransform(layer)).decompose();
+  return transformLayerMasks(
+    {
+      ...cloneLayerWithNewIds(layer),
+      x: local.x,
+      y: local.y,
+      rotation: local.rotation,
+      scaleX: local.scaleX,
+      scaleY: local.scaleY,
+    } as Layer,
+    transform
+  );
+};
@@ -0,0 +1,135 @@
+import { Transform } from 'konva/lib/Util';
+import type { CropAspect, CropRect, ImageLayer } from '../editor/state/editorTypes';
+import { getLayerTransform } from '../editor/state/layerTree';
+
+// Smallest crop, in image pixels
+const MIN_CROP_SIZE = 10;
+
+/**
+ * Aspect presets offered while cropping, in the order shown in the properties panel
+ */
+export const CROP_ASPECT_OPTIONS: { value: CropAspect; label: string }[] = [
+  { value: 'free', label: 'Free' },
+  { value: 'original', label: 'Original' },
+  { value: '1:1', label: '1:1' },
+  { value: '4:3', label: '4:3' },
+  { value: '3:2', label: '3:2' },
+  { value: '16:9', label: '16:9' },
+];
+
+/**
+ * Width / height ratio of an aspect preset, or null when the crop is free
+ */
+export const getCropAspectRatio = (aspect: CropAspect, imageSize: { width: number; height: number }): number | null => {
+  if (aspect === 'free') return null;
+  if (aspect === 'original') return imageSize.width / imageSize.height;
+  const [width, height] = aspect.split(':').map(Number);
+  return width / height;
+};
+
+/**
+ * The part of the image a layer currently shows, in image pixels
+ */
+export const getLayerCropRect = (layer: ImageLayer, imageSize: { width: number; height: number }): CropRect =>
+  layer.cropWidth && layer.cropHeight
+    ? { x: layer.cropX ?? 0, y: layer.cropY ?? 0, width: layer.cropWidth, height: layer.cropHeight }
+    : { x: 0, y: 0, width: imageSize.width, height: imageSize.height };
+
+/**
+ * Maps the whole, uncropped image onto the layer's parent space
+ */
+export const getUncroppedTransform = (layer: ImageLayer): Transform =>
+  getLayerTransform(layer).multiply(new Transform().translate(-(layer.cropX ?? 0), -(layer.cropY ?? 0)));
+
+/**
+ * Layer changes that show the given part of the image. The position moves with the crop,
+ * so the picture itself stays where it is on the canvas. Cropping to the whole image removes the crop.
+ */
+export const getCropChanges = (
+  layer: ImageLayer,
+  rect: CropRect,
+  imageSize: { width: number; height: number }
+): Partial<ImageLayer> => {
+  const position = getUncroppedTransform(layer).point({ x: rect.x, y: rect.y });
+  const isWholeImage = rect.x <= 0 && rect.y <= 0 && rect.width >= imageSize.width && rect.height >= imageSize.height;
+  return {
+    x: position.x,
+    y: position.y,
+    cropX: isWholeImage ? undefined : rect.x,
+    cropY: isWholeImage ? undefined : rect.y,
+    cropWidth: isWholeImage ? undefined : rect.width,
+    cropHeight: isWholeImage ? undefined : rect.height,
+  };
+};
+
+/**
+ * Largest crop with the given ratio that fits inside the current one, centred on it
+ */
+export const fitCropToAspect = (rect: CropRect, ratio: number | null): CropRect => {
+  if (!ratio) return rect;
+  const width = Math.min(rect.width, rect.height * ratio);
+  const height = width / ratio;
+  return {
+    x: rect.x + (rect.width - width) / 2,
+    y: rect.y + (rect.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+/**
+ * Move a crop handle to a point in image pixels. The handle is given by the sides it moves:
+ * -1 for the left or top side, 1 for the right or bottom side, 0 for neither. The opposite
+ * sides stay put; with a fixed ratio, edge handles grow the crop evenly on both sides.
+ */
+export const resizeCropRect = (
+  rect: CropRect,
+  handle: { x: number; y: number },
+  point: { x: number; y: number },
+  imageSize: { width: number; height: number },
+  ratio: number | null
+): CropRect => {
+  const px = Math.max(0, Math.min(imageSize.width, point.x));
+  const py = Math.max(0, Math.min(imageSize.height, point.y));
+  const left = rect.x;
+  const top = rect.y;
+  const right = rect.x + rect.width;
+  const bottom = rect.y + rect.height;
+
+  if (!ratio) {
+    const x1 = handle.x < 0 ? Math.min(px, right - MIN_CROP_SIZE) : left;
+    const x2 = handle.x > 0 ? Math.max(px, left + MIN_CROP_SIZE) : right;
+    const y1 = handle.y < 0 ? Math.min(py, bottom - MIN_CROP_SIZE) : top;
+    const y2 = handle.y > 0 ? Math.max(py, top + MIN_CROP_SIZE) : bottom;
+    return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+  }
+
+  // Size the handle asks for along each axis it moves
+  const draggedWidth = handle.x < 0 ? right - px : handle.x > 0 ? px - left : 0;
+  const draggedHeight = handle.y < 0 ? bottom - py : handle.y > 0 ? py - top : 0;
+  let width = Math.max(draggedWidth, draggedHeight * ratio);
+
+  // Room from the sides that stay put to the image edges
+  const centerX = left + rect.width / 2;
+  const centerY = top + rect.height / 2;
+  const maxWidth = handle.x < 0 ? right : handle.x > 0 ? imageSize.width - left : 2 * Math.min(centerX, imageSize.width - centerX);
+  const maxHeight = handle.y < 0 ? bottom : handle.y > 0 ? imageSize.height - top : 2 * Math.min(centerY, imageSize.height - centerY);
+  width = Math.max(MIN_CROP_SIZE, Math.min(width, maxWidth, maxHeight * ratio));
+  const height = width / ratio;
+
+  return {
+    x: handle.x < 0 ? right - width : handle.x > 0 ? left : centerX - width / 2,
+    y: handle.y < 0 ? bottom - height : handle.y > 0 ? top : centerY - height / 2,
+    width,
+    height,
+  };
+};
+
+/**
+ * Move the crop so its top left corner is at (x, y), without leaving the image
+ */
+export const moveCropRect = (rect: CropRect, x: number, y: number, imageSize: { width: number; height: number }): CropRect => ({
+  ...rect,
+  x: Math.max(0, Math.min(imageSize.width - rect.width, x)),
+  y: Math.max(0, Math.min(imageSize.height - rect.height, y)),
+});
@@ -0,0 +1,69 @@
+import type { CustomFont } from '../editor/state/editorTypes';
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+const FONT_MIME_TYPES: Record<string, string> = {
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+};
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+export const isFontFile = (file: File): boolean => getExtension(file.name) in FONT_MIME_TYPES;
+
+/**
+ * MIME type of a font file, from its extension
+ */
+export const getFontMimeType = (fileName: string): string =>
+  FONT_MIME_TYPES[getExtension(fileName)] ?? 'application/octet-stream';
+
+// Family name and file of every font added to the document, so each is only registered once
+const registeredFonts = new Map<string, string>();
+
+/**
+ * Make a font usable by the canvas under its family name. Resolves once the font has loaded,
+ * so text measured afterwards uses the real letter widths. The font joins the document's set
+ * before loading, so the set's loadingdone event covers it like any web font.
+ */
+export const registerFont = async (font: CustomFont): Promise<void> => {
+  if (registeredFonts.get(font.family) === font.src) return;
+  const face = new FontFace(font.family, `url(${font.src})`);
+  document.fonts.add(face);
+  try {
+    await face.load();
+  } catch (error) {
+    document.fonts.delete(face);
+    throw error;
+  }
+  registeredFonts.set(font.family, font.src);
+};
+
+/**
+ * Read an uploaded font file and register it. The family is named after the file, made
+ * unique against the families already in use.
+ */
+export const readFontFile = async (file: File, takenFamilies: string[]): Promise<CustomFont> => {
+  const src = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+  // Quotes would break the CSS font strings the family name ends up in
+  const baseName = file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').replace(/['"]/g, '').trim() || 'Custom Font';
+  let family = baseName;
+  for (let n = 2; takenFamilies.includes(family); n++) {
+    family = `${baseName} ${n}`;
+  }
+
+  const font: CustomFont = { family, fileName: file.name, src };
+  try {
+    await registerFont(font);
+  } catch {
+    throw new Error(`${file.name} is not a font file this browser can read.`);
+  }
+  return font;
+};
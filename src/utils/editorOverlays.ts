@@ -0,0 +1,14 @@
+import type { Stage } from 'konva/lib/Stage';
+
+// Name given to every editor-only node (transformer, handles, guides, cursors), so exports
+// and canvas sampling can leave them out
+export const EDITOR_OVERLAY_NAME = 'editor-overlay';
+
+/**
+ * Hide every editor overlay on the stage, returning a function that shows them again
+ */
+export const hideEditorOverlays = (stage: Stage): (() => void) => {
+  const hidden = stage.find(`.${EDITOR_OVERLAY_NAME}`).filter((node) => node.visible());
+  hidden.forEach((node) => node.visible(false));
+  return () => hidden.forEach((node) => node.visible(true));
+};
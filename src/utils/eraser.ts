@@ -0,0 +1,144 @@
+import { Transform } from 'konva/lib/Util';
+import type { FillLayer, ImageLayer, Layer, PixelSelection, TextureLayer } from '../editor/state/editorTypes';
+import { getLayerTransform, getParentTransform } from '../editor/state/layerTree';
+import { getUncroppedTransform } from './crop';
+import { drawFillImage } from './fillImage';
+import { DEFAULT_BRUSH_TIP, getStrokeDabs, paintBrushDabs } from './brushTips';
+
+// Layers the eraser removes pixels from directly; brush layers get eraser strokes instead
+export type RasterLayer = ImageLayer | TextureLayer | FillLayer;
+
+export const isRasterLayer = (layer: Layer): layer is RasterLayer =>
+  layer.type === 'image' || layer.type === 'texture' || layer.type === 'fill';
+
+interface EraseStrokeSettings {
+  size: number;      // In bitmap pixels
+  hardness: number;  // 0-100
+  opacity: number;   // 0-1
+  flow: number;      // 0-100, below 100 the erase builds up dab by dab like a brush stroke
+  spacing: number;   // 1-200% of the size between dabs
+  clip?: HTMLCanvasElement;  // Part of the bitmap the stroke is confined to
+}
+
+const createBitmapCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Editable copy of a raster layer's pixels, at the size the layer shows them before its
+ * transform (null while its image is still loading). Fill layers are drawn from their pixel mask.
+ */
+export const getLayerBitmap = (layer: RasterLayer): HTMLCanvasElement | null => {
+  if (layer.type === 'fill') {
+    if (layer.pixelMask && layer.maskWidth && layer.maskHeight) {
+      return drawFillImage(layer.pixelMask, layer.fill, layer.maskWidth, layer.maskHeight, layer.fillGradient);
+    }
+    if (!layer.fillImage) return null;
+    const canvas = createBitmapCanvas(layer.path?.[2] || layer.fillImage.width, layer.path?.[3] || layer.fillImage.height);
+    canvas.getContext('2d')?.drawImage(layer.fillImage, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  }
+  if (!layer.image) return null;
+  const canvas = createBitmapCanvas(layer.image.width, layer.image.height);
+  canvas.getContext('2d')?.drawImage(layer.image, 0, 0);
+  return canvas;
+};
+
+/**
+ * Maps canvas coordinates onto a raster layer's bitmap pixels (the whole image, crop ignored)
+ */
+export const getBitmapTransform = (layers: Layer[], layer: RasterLayer): Transform =>
+  getParentTransform(layers, layer.id)
+    .multiply(layer.type === 'image' ? getUncroppedTransform(layer) : getLayerTransform(layer))
+    .invert();
+
+/**
+ * How many local units (e.g. bitmap pixels) one canvas pixel covers
+ */
+export const getLocalScale = (toLocal: Transform): number => {
+  const origin = toLocal.point({ x: 0, y: 0 });
+  const unit = toLocal.point({ x: 1, y: 0 });
+  return Math.hypot(unit.x - origin.x, unit.y - origin.y);
+};
+
+/**
+ * The pixel selection moved onto a bitmap, for confining erase strokes
+ */
+export const getBitmapClip = (
+  selection: PixelSelection,
+  toBitmap: Transform,
+  width: number,
+  height: number
+): HTMLCanvasElement => {
+  const canvas = createBitmapCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  const [a, b, c, d, e, f] = toBitmap.getMatrix();
+  ctx.setTransform(a, b, c, d, e, f);
+  ctx.drawImage(selection.canvas, 0, 0);
+  return canvas;
+};
+
+/**
+ * Redraw a bitmap from its state before the stroke with the whole stroke so far erased,
+ * so overlapping segments of a translucent stroke don't erase more
+ */
+export const eraseBitmapStroke = (
+  target: HTMLCanvasElement,
+  base: HTMLCanvasElement,
+  points: number[],
+  { size, hardness, opacity, flow, spacing, clip }: EraseStrokeSettings
+): void => {
+  const targetCtx = target.getContext('2d');
+  if (!targetCtx || points.length < 2) return;
+
+  targetCtx.save();
+  targetCtx.globalCompositeOperation = 'copy';
+  targetCtx.drawImage(base, 0, 0);
+  targetCtx.restore();
+
+  // The stroke is drawn on its own first so the selection only cuts the stroke, and the
+  // stroke as a whole takes the opacity
+  const stroke = createBitmapCanvas(target.width, target.height);
+  const ctx = stroke.getContext('2d');
+  if (!ctx) return;
+  if (flow < 100) {
+    // Round dabs that build up where they overlap, softened by the hardness
+    const dabs = getStrokeDabs({ points, size, hardness, opacity, flow, spacing, color: '#000000', blendMode: 'normal' });
+    paintBrushDabs(ctx, dabs, { tip: DEFAULT_BRUSH_TIP, color: '#000000', hardness, seed: 0 });
+  } else {
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    // Soft erasers feather their edge the same way soft brushes do
+    if (hardness < 100) {
+      ctx.shadowColor = '#000000';
+      ctx.shadowBlur = ((100 - hardness) / 100) * size * 0.5;
+    }
+    ctx.beginPath();
+    ctx.moveTo(points[0], points[1]);
+    if (points.length === 2) {
+      // A single click erases a dot
+      ctx.lineTo(points[0], points[1]);
+    }
+    for (let i = 2; i < points.length; i += 2) {
+      ctx.lineTo(points[i], points[i + 1]);
+    }
+    ctx.stroke();
+  }
+
+  if (clip) {
+    ctx.shadowBlur = 0;
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(clip, 0, 0);
+  }
+  targetCtx.save();
+  targetCtx.globalAlpha = opacity;
+  targetCtx.globalCompositeOperation = 'destination-out';
+  targetCtx.drawImage(stroke, 0, 0);
+  targetCtx.restore();
+};
@@ -1,7 +1,5 @@
 import type { Stage } from 'konva/lib/Stage';
-import type { Node } from 'konva/lib/Node';
-import type { Group } from 'konva/lib/Group';
-import type { Line as KonvaLine } from 'konva/lib/shapes/Line';
+import { hideEditorOverlays } from './editorOverlays';
 
 export const exportPng = (stage: Stage | null, filename: string): void => {
   if (!stage) {
@@ -9,54 +7,8 @@ export const exportPng = (stage: Stage | null, filename: string): void => {
     return;
   }
 
-  // Find and temporarily hide UI elements that shouldn't be exported
-  const transformer = stage.findOne('Transformer');
-  
-  // Store original visibility states
-  const elementsToHide: { node: Node; wasVisible: boolean }[] = [];
-  
-  // Hide transformer if it exists
-  if (transformer) {
-    elementsToHide.push({ node: transformer, wasVisible: transformer.visible() });
-    transformer.visible(false);
-  }
-  
-  // Hide brush cursor groups (they have listening=false and Circle children)
-  const allGroups = stage.find('Group');
-  allGroups.forEach(node => {
-    const group = node as Group;
-    // BrushCursor uses a Group with listening=false
-    if (group.listening() === false) {
-      const children = group.getChildren();
-      const hasCircles = children.some((child) => child.getClassName() === 'Circle');
-      if (hasCircles && children.length >= 2) {
-        elementsToHide.push({ node: group, wasVisible: group.visible() });
-        group.visible(false);
-      }
-    }
-  });
-
-  // Hide cyan guide lines (they have stroke="#00FFFF" or stroke="#00ffff")
-  const allLines = stage.find('Line');
-  allLines.forEach(lineNode => {
-    const line = lineNode as KonvaLine;
-    const stroke = line.stroke();
-    // Check for cyan color in various formats
-    if (stroke === '#00FFFF' || stroke === '#00ffff' || stroke === 'rgb(0, 255, 255)' || stroke === 'cyan') {
-      elementsToHide.push({ node: lineNode, wasVisible: lineNode.visible() });
-      lineNode.visible(false);
-    }
-  });
-
-  // Hide line endpoint handles (Circles with red stroke #B73038)
-  const allCircles = stage.find('Circle');
-  allCircles.forEach(circleNode => {
-    const stroke = (circleNode as any).stroke();
-    if (stroke === '#B73038') {
-      elementsToHide.push({ node: circleNode, wasVisible: circleNode.visible() });
-      circleNode.visible(false);
-    }
-  });
+  // Temporarily hide UI elements that shouldn't be exported
+  const showOverlays = hideEditorOverlays(stage);
   
   // Force redraw to apply visibility changes
   stage.batchDraw();
@@ -70,9 +22,7 @@ export const exportPng = (stage: Stage | null, filename: string): void => {
   });
 
   // Restore visibility of hidden elements
-  elementsToHide.forEach(({ node, wasVisible }) => {
-    node.visible(wasVisible);
-  });
+  showOverlays();
   
   // Force redraw to restore UI
   stage.batchDraw();
@@ -0,0 +1,468 @@
+import { Line as KonvaLine } from 'konva/lib/shapes/Line';
+import { Text as KonvaText } from 'konva/lib/shapes/Text';
+import { Transform } from 'konva/lib/Util';
+import type {
+  BlendMode,
+  BrushLayer,
+  BrushStamp,
+  BrushStroke,
+  BrushStrokeClip,
+  CustomFont,
+  GradientFill,
+  ImageFilter,
+  Layer,
+  LayerMask,
+  LineLayer,
+  TextLayer,
+} from '../editor/state/editorTypes';
+import { flattenLayers, getLayerTransform } from '../editor/state/layerTree';
+import { sortStops } from './gradients';
+import { getLayerPathData } from './paths';
+import { loadImage } from './image';
+import { applyImageFilters } from './imageFilters';
+import { maskToAlpha, MASK_SIZE } from './layerMask';
+import { regenerateFillImage } from './fillImage';
+import { layoutTextOnPath } from './textPath';
+import { getTextStyleProps } from './textStyle';
+import { getStrokeOutlinePathData } from './strokeOutline';
+import { getDabReach, getStrokeDabs, paintBrushDabs, paintStrokeImage, usesDabs } from './brushTips';
+import type { TextPathLayout } from './textPath';
+import { renderWarpedText } from './textWarp';
+
+interface SvgExportOptions {
+  layers: Layer[];
+  baseColor: string;
+  baseGradient: GradientFill | null;
+  templateImage: HTMLImageElement | null;
+  fonts?: CustomFont[];  // Uploaded fonts; the ones used by text are embedded
+}
+
+// Konva's stroke width when a shape has a stroke colour but no width
+const DEFAULT_STROKE_WIDTH = 2;
+
+const num = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const matrixAttr = (transform: Transform) => `transform="matrix(${transform.getMatrix().map(num).join(' ')})"`;
+
+const pointsAttr = (points: number[]) => {
+  const pairs: string[] = [];
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    pairs.push(`${num(points[i])},${num(points[i + 1])}`);
+  }
+  return pairs.join(' ');
+};
+
+const fontAttrs = (layer: TextLayer) =>
+  ` font-family="${escapeXml(`'${layer.fontFamily}'`)}" font-size="${num(layer.fontSize)}"` +
+  `${layer.fontStyle.includes('bold') ? ' font-weight="bold"' : ''}${layer.fontStyle.includes('italic') ? ' font-style="italic"' : ''}` +
+  `${layer.textCase === 'small-caps' ? ' font-variant="small-caps"' : ''}` +
+  `${layer.letterSpacing ? ` letter-spacing="${num(layer.letterSpacing)}"` : ''}` +
+  // The outline is painted first, behind the fill, as on the canvas
+  `${layer.strokeWidth ? ` stroke="${escapeXml(layer.stroke ?? '#000000')}" stroke-width="${num(layer.strokeWidth)}" ` +
+    'stroke-linejoin="round" paint-order="stroke"' : ''}`;
+
+const blendStyle = (blendMode: BlendMode | undefined) =>
+  blendMode && blendMode !== 'normal' ? ` style="mix-blend-mode:${blendMode}"` : '';
+
+/**
+ * Copy of an image or canvas with every pixel turned white, keeping its alpha.
+ * Luminance masks made from it hide exactly what the alpha hides.
+ */
+const toWhiteMask = (source: HTMLImageElement | HTMLCanvasElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = MASK_SIZE;
+  canvas.height = MASK_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  ctx.drawImage(source, 0, 0, MASK_SIZE, MASK_SIZE);
+  const imageData = ctx.getImageData(0, 0, MASK_SIZE, MASK_SIZE);
+  for (let i = 0; i < imageData.data.length; i += 4) {
+    imageData.data[i] = 255;
+    imageData.data[i + 1] = 255;
+    imageData.data[i + 2] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Image data that stays valid outside the app. Data URLs are kept as they are;
+ * anything else, and any image with filters, is drawn into a PNG.
+ */
+const toEmbeddedImage = async (src: string, image?: HTMLImageElement | HTMLCanvasElement, filters?: ImageFilter[]) => {
+  const source = image ?? (await loadImage(src));
+  if (filters?.some((filter) => filter.enabled)) {
+    const canvas = applyImageFilters(source, filters);
+    return { href: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height };
+  }
+  const width = source instanceof HTMLImageElement ? source.naturalWidth || source.width : source.width;
+  const height = source instanceof HTMLImageElement ? source.naturalHeight || source.height : source.height;
+  if (src.startsWith('data:')) {
+    return { href: src, width, height };
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.drawImage(source, 0, 0);
+  return { href: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height };
+};
+
+// Path data for a brush stroke, following the same cardinal spline Konva draws (tension 0.5)
+const getStrokePathData = (points: number[]) => {
+  const start = `M ${num(points[0])} ${num(points[1])}`;
+  if (points.length <= 4) {
+    return points.length === 4 ? `${start} L ${num(points[2])} ${num(points[3])}` : start;
+  }
+  const tp = new KonvaLine({ points, tension: 0.5 }).getTensionPoints();
+  const segments = [`Q ${tp.slice(0, 4).map(num).join(' ')}`];
+  for (let n = 4; n < tp.length - 2; n += 6) {
+    segments.push(`C ${tp.slice(n, n + 6).map(num).join(' ')}`);
+  }
+  segments.push(`Q ${num(tp[tp.length - 2])} ${num(tp[tp.length - 1])} ${num(points[points.length - 2])} ${num(points[points.length - 1])}`);
+  return `${start} ${segments.join(' ')}`;
+};
+
+/**
+ * Write the design as an SVG document: the base paint and all visible layers, cut to the
+ * template with an SVG mask. Shapes, text, lines, paths and brush strokes stay vector;
+ * image, texture and fill layers are embedded as PNG images. Adjustment layers and layer
+ * effects only exist as canvas filters and are left out.
+ */
+export const createDesignSvg = async ({ layers, baseColor, baseGradient, templateImage, fonts = [] }: SvgExportOptions): Promise<string> => {
+  const defs: string[] = [];
+
+  // Uploaded fonts only exist in this browser, so the file carries the ones its text uses
+  const usedFamilies = new Set(flattenLayers(layers).flatMap((layer) => (layer.type === 'text' ? [layer.fontFamily] : [])));
+  const fontFaces = fonts
+    .filter((font) => usedFamilies.has(font.family))
+    .map((font) => `@font-face{font-family:'${font.family}';src:url(${font.src});}`);
+  if (fontFaces.length > 0) defs.push(`<style>${escapeXml(fontFaces.join(''))}</style>`);
+  let idCounter = 0;
+  const nextId = (prefix: string) => `${prefix}-${++idCounter}`;
+
+  // Gradients are written in the user space of the shape that uses them, like GradientFill
+  const paint = (color: string | undefined, gradient?: GradientFill) => {
+    if (!gradient) return color ?? 'none';
+    const id = nextId('gradient');
+    const stops = sortStops(gradient.stops)
+      .map((stop) => `<stop offset="${num(stop.offset)}" stop-color="${escapeXml(stop.color)}"/>`)
+      .join('');
+    if (gradient.type === 'linear') {
+      defs.push(
+        `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${num(gradient.start.x)}" y1="${num(gradient.start.y)}" ` +
+          `x2="${num(gradient.end.x)}" y2="${num(gradient.end.y)}">${stops}</linearGradient>`
+      );
+    } else {
+      const r = Math.hypot(gradient.end.x - gradient.start.x, gradient.end.y - gradient.start.y);
+      defs.push(
+        `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${num(gradient.start.x)}" cy="${num(gradient.start.y)}" ` +
+          `r="${num(r)}">${stops}</radialGradient>`
+      );
+    }
+    return `url(#${id})`;
+  };
+
+  const strokeAttrs = (stroke: string | undefined, strokeWidth: number | undefined) =>
+    stroke ? ` stroke="${escapeXml(stroke)}" stroke-width="${num(strokeWidth ?? DEFAULT_STROKE_WIDTH)}"` : '';
+
+  // Letters on a curve become one text element each, so they stay editable as type
+  const renderTextOnPath = (layer: TextLayer, layout: TextPathLayout) => {
+    const fill = escapeXml(paint(layer.fill, layer.fillGradient));
+    return layout.glyphs
+      .map((glyph) => `<text xml:space="preserve" transform="translate(${num(glyph.x)} ${num(glyph.y)}) rotate(${num((glyph.rotation * 180) / Math.PI)})"` +
+        `${fontAttrs(layer)} fill="${fill}">${escapeXml(glyph.char)}</text>`)
+      .join('');
+  };
+
+  const renderText = (layer: TextLayer) => {
+    const pathLayout = layoutTextOnPath(layer);
+    if (pathLayout) return renderTextOnPath(layer, pathLayout);
+    // Warps only exist as a redrawn bitmap
+    const warped = layer.warp && layer.warp.bend !== 0 ? renderWarpedText(layer, layer.warp) : null;
+    if (warped) {
+      return `<image y="${num(-warped.offsetY)}" width="${num(warped.width)}" height="${num(warped.height)}" preserveAspectRatio="none" ` +
+        `xlink:href="${warped.canvas.toDataURL('image/png')}"/>`;
+    }
+
+    // An off-screen Konva text gives the same line breaks, widths and baseline as the canvas
+    const node = new KonvaText(getTextStyleProps(layer));
+    const metrics = node.measureSize('M');
+    const ascent = metrics.fontBoundingBoxAscent ?? metrics.actualBoundingBoxAscent;
+    const descent = metrics.fontBoundingBoxDescent ?? metrics.actualBoundingBoxDescent;
+    const lineHeight = layer.fontSize * (layer.lineHeight ?? 1);
+    const baseline = (ascent - descent) / 2 + lineHeight / 2;
+    const totalWidth = node.getWidth();
+    const lines = node.textArr.map((line, index) => {
+      const x = layer.align === 'right' ? totalWidth - line.width : layer.align === 'center' ? (totalWidth - line.width) / 2 : 0;
+      return `<tspan x="${num(x)}" y="${num(baseline + index * lineHeight)}">${escapeXml(line.text)}</tspan>`;
+    });
+    node.destroy();
+    return (
+      `<text xml:space="preserve"${fontAttrs(layer)}` +
+      `${layer.textDecoration !== 'none' ? ` text-decoration="${layer.textDecoration}"` : ''}` +
+      ` fill="${escapeXml(paint(layer.fill, layer.fillGradient))}">${lines.join('')}</text>`
+    );
+  };
+
+  const renderLine = (layer: LineLayer) => {
+    const dash = layer.dash?.length ? ` stroke-dasharray="${layer.dash.map(num).join(' ')}"` : '';
+    const stroke = ` stroke="${escapeXml(layer.stroke)}" stroke-width="${num(layer.strokeWidth)}" ` +
+      `stroke-linecap="${layer.lineCap || 'round'}" stroke-linejoin="${layer.lineJoin || 'round'}"`;
+    const parts = [`<polyline points="${pointsAttr(layer.points)}" fill="none"${stroke}${dash}/>`];
+
+    // Arrow heads as Konva draws them: filled and outlined triangles, never dashed
+    const { points } = layer;
+    const length = layer.strokeWidth * 3;
+    const pointer = (tip: { x: number; y: number }, from: { x: number; y: number }) => {
+      const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+      const corner = (side: number) => ({
+        x: tip.x - length * Math.cos(angle) - (side * length) / 2 * Math.sin(angle),
+        y: tip.y - length * Math.sin(angle) + (side * length) / 2 * Math.cos(angle),
+      });
+      const [a, b] = [corner(1), corner(-1)];
+      parts.push(`<polygon points="${pointsAttr([tip.x, tip.y, a.x, a.y, b.x, b.y])}" fill="${escapeXml(layer.stroke)}"${stroke}/>`);
+    };
+    const n = points.length;
+    if (layer.arrowEnd && n >= 4) {
+      pointer({ x: points[n - 2], y: points[n - 1] }, { x: points[n - 4], y: points[n - 3] });
+    }
+    if (layer.arrowStart && n >= 4) {
+      pointer({ x: points[0], y: points[1] }, { x: points[2], y: points[3] });
+    }
+    return parts.join('');
+  };
+
+  const renderStroke = (stroke: BrushStroke, color: string) => {
+    // Pen strokes are filled outlines; opacity that follows the pressure is averaged over the stroke
+    const opacity = stroke.alphas?.length
+      ? stroke.opacity * (stroke.alphas.reduce((sum, alpha) => sum + alpha, 0) / stroke.alphas.length)
+      : stroke.opacity;
+    const attrs = stroke.widths
+      ? `d="${getStrokeOutlinePathData(stroke.points, stroke.widths)}" fill="${escapeXml(color)}"`
+      : `d="${getStrokePathData(stroke.points)}" fill="none" stroke="${escapeXml(color)}" stroke-width="${num(stroke.size)}" ` +
+        `stroke-linecap="round" stroke-linejoin="round"`;
+    return `<path ${attrs}${opacity < 1 ? ` opacity="${num(opacity)}"` : ''}${blendStyle(stroke.blendMode)}/>`;
+  };
+
+  // Strokes with a shaped tip are thousands of dabs and droplets, so they go in as an image
+  const renderDabStroke = async (stroke: BrushStroke, stamps: BrushStamp[]) => {
+    if (!stroke.tip) return '';
+    const { tip, color, hardness, seed = 0 } = stroke;
+    const stampSrc = tip.shape === 'stamp' ? stamps.find((s) => s.id === tip.stampId)?.src : undefined;
+    const stamp = stampSrc ? await loadImage(stampSrc) : undefined;
+    const dabs = getStrokeDabs(stroke);
+    // At twice the canvas resolution, so it holds up when the SVG is scaled
+    const painted = paintStrokeImage(
+      dabs.flatMap((dab) => [dab.x, dab.y]),
+      Math.max(...dabs.map(getDabReach)) + 1,
+      2,
+      (ctx) => paintBrushDabs(ctx, dabs, { tip, color, hardness, seed, stamp })
+    );
+    return `<image x="${num(painted.x)}" y="${num(painted.y)}" width="${num(painted.width)}" height="${num(painted.height)}" ` +
+      `preserveAspectRatio="none" xlink:href="${painted.canvas.toDataURL('image/png')}"` +
+      `${stroke.opacity < 1 ? ` opacity="${num(stroke.opacity)}"` : ''}${blendStyle(stroke.blendMode)}/>`;
+  };
+
+  // Strokes painted inside a pixel selection only show within it. Each clip becomes one mask,
+  // shared by all of its strokes.
+  const clipMasks = new Map<BrushStrokeClip, string>();
+  const clipStroke = async (markup: string, clip: BrushStrokeClip | undefined) => {
+    if (!clip) return markup;
+    let id = clipMasks.get(clip);
+    if (!id) {
+      id = nextId('stroke-clip');
+      clipMasks.set(clip, id);
+      defs.push(`<mask id="${id}" maskUnits="userSpaceOnUse" x="-100000" y="-100000" width="200000" height="200000">` +
+        `<image x="${num(clip.x)}" y="${num(clip.y)}" width="${num(clip.width)}" height="${num(clip.height)}" preserveAspectRatio="none" ` +
+        `xlink:href="${toWhiteMask(await loadImage(clip.src))}"/></mask>`);
+    }
+    return `<g mask="url(#${id})">${markup}</g>`;
+  };
+
+  const renderBrush = async (layer: BrushLayer) => {
+    let content = '';
+    for (const stroke of layer.strokes) {
+      const clip = layer.strokeClips?.find((c) => c.id === stroke.clipId);
+      if (!stroke.points || stroke.points.length < 2) continue;
+
+      // Eraser strokes cut through everything painted before them
+      if (stroke.color === 'transparent') {
+        const id = nextId('eraser');
+        const eraser = await clipStroke(renderStroke(stroke, '#000000'), clip);
+        defs.push(`<mask id="${id}" maskUnits="userSpaceOnUse" x="-100000" y="-100000" width="200000" height="200000">` +
+          `<rect x="-100000" y="-100000" width="200000" height="200000" fill="#ffffff"/>${eraser}</mask>`);
+        content = `<g mask="url(#${id})">${content}</g>`;
+        continue;
+      }
+
+      if (usesDabs(stroke.tip)) {
+        content += await clipStroke(await renderDabStroke(stroke, layer.stamps ?? []), clip);
+        continue;
+      }
+
+      // Soft brushes are feathered with a blurred copy, like the shadow Konva uses
+      const shadowBlur = stroke.hardness < 100 ? ((100 - stroke.hardness) / 100) * stroke.size * 0.5 : 0;
+      if (shadowBlur > 0) {
+        const id = nextId('soft');
+        defs.push(`<filter id="${id}" x="-50%" y="-50%" width="200%" height="200%">` +
+          `<feGaussianBlur in="SourceGraphic" stdDeviation="${num(shadowBlur / 2)}" result="blur"/>` +
+          `<feMerge><feMergeNode in="blur"/><feMergeNode in="SourceGraphic"/></feMerge></filter>`);
+        content += await clipStroke(`<g filter="url(#${id})">${renderStroke(stroke, stroke.color)}</g>`, clip);
+        continue;
+      }
+      content += await clipStroke(renderStroke(stroke, stroke.color), clip);
+    }
+    return content;
+  };
+
+  // Layer content in its own space (the layer transform is applied around it)
+  const renderContent = async (layer: Layer, parentTransform: Transform): Promise<string> => {
+    switch (layer.type) {
+      case 'text':
+        return renderText(layer);
+      case 'rect':
+        return `<rect width="${num(layer.width)}" height="${num(layer.height)}"` +
+          `${layer.cornerRadius ? ` rx="${num(layer.cornerRadius)}"` : ''}` +
+          ` fill="${escapeXml(paint(layer.fill, layer.fillGradient))}"${strokeAttrs(layer.stroke, layer.strokeWidth)}/>`;
+      case 'circle':
+        return `<circle r="${num(layer.radius)}" fill="${escapeXml(paint(layer.fill, layer.fillGradient))}"` +
+          `${strokeAttrs(layer.stroke, layer.strokeWidth)}/>`;
+      case 'star': {
+        const points: number[] = [];
+        for (let n = 0; n < layer.numPoints * 2; n++) {
+          const radius = n % 2 === 0 ? layer.outerRadius : layer.innerRadius;
+          points.push(radius * Math.sin((n * Math.PI) / layer.numPoints), -radius * Math.cos((n * Math.PI) / layer.numPoints));
+        }
+        return `<polygon points="${pointsAttr(points)}" fill="${escapeXml(paint(layer.fill, layer.fillGradient))}"` +
+          `${strokeAttrs(layer.stroke, layer.strokeWidth)}/>`;
+      }
+      case 'line':
+        return renderLine(layer);
+      case 'path': {
+        const stroke = layer.strokeWidth > 0
+          ? ` stroke="${escapeXml(layer.stroke)}" stroke-width="${num(layer.strokeWidth)}" stroke-linecap="${layer.lineCap}" ` +
+            `stroke-linejoin="${layer.lineJoin}"${layer.dash?.length ? ` stroke-dasharray="${layer.dash.map(num).join(' ')}"` : ''}`
+          : '';
+        return `<path d="${getLayerPathData(layer)}" fill="${escapeXml(paint(layer.fill, layer.fillGradient))}"` +
+          `${layer.fillRule ? ` fill-rule="${layer.fillRule}"` : ''}${stroke}/>`;
+      }
+      case 'brush':
+        return renderBrush(layer);
+      case 'image': {
+        const image = await toEmbeddedImage(layer.src, layer.image, layer.filters);
+        const tag = `<image width="${image.width}" height="${image.height}" preserveAspectRatio="none" xlink:href="${image.href}"/>`;
+        if (layer.cropX !== undefined && layer.cropY !== undefined && layer.cropWidth !== undefined && layer.cropHeight !== undefined) {
+          return `<svg width="${num(layer.cropWidth)}" height="${num(layer.cropHeight)}" ` +
+            `viewBox="${[layer.cropX, layer.cropY, layer.cropWidth, layer.cropHeight].map(num).join(' ')}">${tag}</svg>`;
+        }
+        return tag;
+      }
+      case 'texture': {
+        const image = await toEmbeddedImage(layer.src, layer.image, layer.filters);
+        return `<image width="${image.width}" height="${image.height}" preserveAspectRatio="none" xlink:href="${image.href}"/>`;
+      }
+      case 'fill': {
+        const href = layer.pixelMask && layer.maskWidth && layer.maskHeight
+          ? regenerateFillImage(layer.pixelMask, layer.fill, layer.maskWidth, layer.maskHeight, layer.fillGradient)
+          : layer.fillImageDataUrl;
+        if (!href) return '';
+        const width = layer.maskWidth || layer.path?.[2] || 0;
+        const height = layer.maskHeight || layer.path?.[3] || 0;
+        return `<image width="${num(width)}" height="${num(height)}" preserveAspectRatio="none" xlink:href="${href}"/>`;
+      }
+      case 'group':
+        return renderList(layer.children, parentTransform.copy().multiply(getLayerTransform(layer)));
+      default:
+        // Adjustments have no vector equivalent
+        return '';
+    }
+  };
+
+  const renderMask = async (mask: LayerMask, parentTransform: Transform) => {
+    const source = mask.image ?? (await loadImage(mask.src));
+    const id = nextId('layer-mask');
+    // Masks are in canvas space, so they are placed with the inverse of the parent groups' transform
+    defs.push(`<mask id="${id}"><image width="${MASK_SIZE}" height="${MASK_SIZE}" ${matrixAttr(parentTransform.copy().invert())} ` +
+      `xlink:href="${toWhiteMask(maskToAlpha(source, mask.inverted))}"/></mask>`);
+    return id;
+  };
+
+  // A layer and its transform, opacity, blend mode and mask
+  const renderLayer = async (layer: Layer, parentTransform: Transform, elementId?: string): Promise<string> => {
+    if (!layer.visible || layer.type === 'adjustment') return '';
+    const content = await renderContent(layer, parentTransform);
+    if (!content) return '';
+
+    const id = elementId ? ` id="${elementId}"` : '';
+    const opacity = layer.opacity < 1 ? ` opacity="${num(layer.opacity)}"` : '';
+    if (layer.mask?.enabled) {
+      const maskId = await renderMask(layer.mask, parentTransform);
+      return `<g${id} mask="url(#${maskId})"${opacity}${blendStyle(layer.blendMode)}>` +
+        `<g ${matrixAttr(getLayerTransform(layer))}>${content}</g></g>`;
+    }
+    return `<g${id} ${matrixAttr(getLayerTransform(layer))}${opacity}${blendStyle(layer.blendMode)}>${content}</g>`;
+  };
+
+  // Siblings bottom to top. Layers clipped to the one below are cut to its alpha.
+  const renderList = async (list: Layer[], parentTransform: Transform): Promise<string> => {
+    const stacks: { base: Layer; clipped: Layer[] }[] = [];
+    [...list].reverse().forEach((layer) => {
+      const current = stacks[stacks.length - 1];
+      if (layer.clipToBelow && current) {
+        current.clipped.push(layer);
+      } else {
+        stacks.push({ base: layer, clipped: [] });
+      }
+    });
+
+    const parts: string[] = [];
+    for (const { base, clipped } of stacks) {
+      if (clipped.length === 0) {
+        parts.push(await renderLayer(base, parentTransform));
+        continue;
+      }
+      if (!base.visible) continue;
+      const baseId = nextId('clip-base');
+      parts.push(await renderLayer(base, parentTransform, baseId));
+      const clippedContent = (await Promise.all(clipped.map((layer) => renderLayer(layer, parentTransform)))).join('');
+      const maskId = nextId('clip');
+      defs.push(`<mask id="${maskId}" mask-type="alpha" style="mask-type:alpha"><use xlink:href="#${baseId}"/></mask>`);
+      parts.push(`<g mask="url(#${maskId})">${clippedContent}</g>`);
+    }
+    return parts.join('');
+  };
+
+  const design = await renderList(layers, new Transform());
+  const base = `<rect width="1024" height="1024" fill="${escapeXml(paint(baseColor, baseGradient ?? undefined))}"/>`;
+
+  let maskAttr = '';
+  if (templateImage) {
+    defs.push(`<mask id="template-mask" maskUnits="userSpaceOnUse" x="0" y="0" width="1024" height="1024">` +
+      `<image width="1024" height="1024" xlink:href="${toWhiteMask(templateImage)}"/></mask>`);
+    maskAttr = ' mask="url(#template-mask)"';
+  }
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="1024" height="1024" viewBox="0 0 1024 1024">\n` +
+    `<defs>${defs.join('')}</defs>\n` +
+    `<g${maskAttr}>${base}${design}</g>\n` +
+    `</svg>\n`
+  );
+};
+
+export const exportSvg = async (options: SvgExportOptions, filename: string): Promise<void> => {
+  const svg = await createDesignSvg(options);
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
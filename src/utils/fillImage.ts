@@ -0,0 +1,153 @@
+import type { FillLayer, GradientFill } from '../editor/state/editorTypes';
+import { MASK_SIZE } from './layerMask';
+import { createCanvasGradient, createGradient } from './gradients';
+
+/**
+ * Paint a fill layer's pixel mask in its fill colour (or gradient) on a canvas of the mask's size
+ */
+export const drawFillImage = (
+  pixelMask: number[],
+  fillColorHex: string,
+  width: number,
+  height: number,
+  gradient?: GradientFill
+): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  
+  // Parse fill color
+  const fillColorMatch = fillColorHex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  const r = fillColorMatch ? parseInt(fillColorMatch[1], 16) : 0;
+  const g = fillColorMatch ? parseInt(fillColorMatch[2], 16) : 0;
+  const b = fillColorMatch ? parseInt(fillColorMatch[3], 16) : 0;
+  
+  // Create image data
+  const imageData = ctx.createImageData(width, height);
+  
+  // Fill the pixels
+  pixelMask.forEach((pixelIdx) => {
+    imageData.data[pixelIdx] = r;
+    imageData.data[pixelIdx + 1] = g;
+    imageData.data[pixelIdx + 2] = b;
+    imageData.data[pixelIdx + 3] = 255; // Full opacity
+  });
+  
+  ctx.putImageData(imageData, 0, 0);
+
+  if (gradient) {
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = createCanvasGradient(ctx, gradient);
+    ctx.fillRect(0, 0, width, height);
+  }
+  return canvas;
+};
+
+/**
+ * Paint a fill layer's pixel mask in its fill colour (or gradient), as a PNG data URL
+ */
+export const regenerateFillImage = (
+  pixelMask: number[],
+  fillColorHex: string,
+  width: number,
+  height: number,
+  gradient?: GradientFill
+): string => drawFillImage(pixelMask, fillColorHex, width, height, gradient).toDataURL('image/png');
+
+// What a new fill is painted with instead of its solid colour
+export interface FillPaint {
+  gradient?: Pick<GradientFill, 'type' | 'stops'>;  // Spread across the fill's bounds
+  texture?: { image: HTMLImageElement; scale: number };  // Tiled at `scale` times its size on the canvas
+}
+
+// Pixel mask tiled with a texture, as a PNG data URL. `toCanvas` places mask pixels on the
+// canvas, where the tiles start from the origin so neighbouring fills line up.
+const drawTextureFill = (
+  pixelMask: number[],
+  width: number,
+  height: number,
+  texture: NonNullable<FillPaint['texture']>,
+  toCanvas: DOMMatrix
+): string => {
+  const canvas = drawFillImage(pixelMask, '#000000', width, height);
+  const ctx = canvas.getContext('2d');
+  const pattern = ctx?.createPattern(texture.image, 'repeat');
+  if (!ctx || !pattern) return canvas.toDataURL('image/png');
+  pattern.setTransform(toCanvas.inverse().scale(texture.scale));
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = pattern;
+  ctx.fillRect(0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Fill layer painting flood-filled pixels (byte offsets into image data of the given size) in a
+ * colour, gradient or texture, cropped to their bounding box and stretched over the canvas.
+ * Null when there are no pixels. Texture fills are baked into the fill image, so unlike colours
+ * and gradients they can't be changed afterwards.
+ */
+export const createFillLayerData = (
+  pixels: Set<number>,
+  width: number,
+  height: number,
+  color: string,
+  name: string,
+  { gradient, texture }: FillPaint = {}
+): Omit<FillLayer, 'id'> | null => {
+  if (pixels.size === 0) return null;
+
+  // Calculate bounding box for path
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = 0;
+  let maxY = 0;
+  pixels.forEach((pixelIdx) => {
+    const px = (pixelIdx / 4) % width;
+    const py = Math.floor((pixelIdx / 4) / width);
+    minX = Math.min(minX, px);
+    minY = Math.min(minY, py);
+    maxX = Math.max(maxX, px);
+    maxY = Math.max(maxY, py);
+  });
+  const bboxWidth = maxX - minX + 1;
+  const bboxHeight = maxY - minY + 1;
+  const scaleX = MASK_SIZE / width;
+  const scaleY = MASK_SIZE / height;
+
+  // Pixel indices relative to the bounding box
+  const pixelMask: number[] = [];
+  pixels.forEach((pixelIdx) => {
+    const px = (pixelIdx / 4) % width;
+    const py = Math.floor((pixelIdx / 4) / width);
+    pixelMask.push(((py - minY) * bboxWidth + (px - minX)) * 4);
+  });
+
+  // Texture fills take over from gradients
+  const fillGradient = gradient && !texture
+    ? { ...createGradient(gradient.type, { x: 0, y: 0, width: bboxWidth, height: bboxHeight }, color), stops: gradient.stops }
+    : undefined;
+  const fillImageDataUrl = texture
+    ? drawTextureFill(pixelMask, bboxWidth, bboxHeight, texture, new DOMMatrix([scaleX, 0, 0, scaleY, minX * scaleX, minY * scaleY]))
+    : regenerateFillImage(pixelMask, color, bboxWidth, bboxHeight, fillGradient);
+
+  return {
+    type: 'fill',
+    name,
+    fill: color,
+    ...(fillGradient && { fillGradient }),
+    path: [minX, minY, bboxWidth, bboxHeight],
+    fillImageDataUrl,
+    // Without a pixel mask the baked texture is drawn as is rather than repainted in the colour
+    ...(!texture && { pixelMask, maskWidth: bboxWidth, maskHeight: bboxHeight }),
+    visible: true,
+    locked: false,
+    opacity: 1,
+    x: minX * scaleX, // Position at bounding box origin
+    y: minY * scaleY,
+    rotation: 0,
+    scaleX,
+    scaleY,
+  };
+};
@@ -0,0 +1,109 @@
+interface FloodFillOptions {
+  contiguous?: boolean;       // Off reaches every matching pixel, connected or not
+  includeTransparent?: boolean;  // Lets transparent pixels match (drawn layers, not the template)
+}
+
+/**
+ * Find the pixels connected to a start pixel, as byte offsets into the image data.
+ * Unless transparent pixels are included, only pixels with some alpha are reached, so
+ * transparent gaps in the template separate its regions and anti-aliased edge pixels are
+ * still included. With a tolerance below 100, a pixel also has to be within that percentage
+ * of the start pixel's colour.
+ */
+export const floodFill = (
+  imageData: ImageData,
+  startX: number,
+  startY: number,
+  tolerance: number = 100,
+  { contiguous = true, includeTransparent = false }: FloodFillOptions = {}
+): Set<number> => {
+  const { width, height, data } = imageData;
+  const filledPixels = new Set<number>();
+  if (startX < 0 || startX >= width || startY < 0 || startY >= height) return filledPixels;
+
+  // Very low threshold to include ALL pixels that are part of the template
+  const alphaThreshold = 1;
+  const start = (startY * width + startX) * 4;
+  // Largest possible RGBA distance is 2 * 255
+  const maxDistance = (tolerance / 100) * 510;
+
+  const matches = (idx: number): boolean => {
+    if (!includeTransparent && data[idx + 3] < alphaThreshold) return false;
+    if (tolerance >= 100) return true;
+    const dr = data[idx] - data[start];
+    const dg = data[idx + 1] - data[start + 1];
+    const db = data[idx + 2] - data[start + 2];
+    const da = data[idx + 3] - data[start + 3];
+    return Math.sqrt(dr * dr + dg * dg + db * db + da * da) <= maxDistance;
+  };
+
+  if (!matches(start)) return filledPixels;
+
+  if (!contiguous) {
+    for (let idx = 0; idx < data.length; idx += 4) {
+      if (matches(idx)) filledPixels.add(idx);
+    }
+    return filledPixels;
+  }
+
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [startY * width + startX];
+  visited[stack[0]] = 1;
+
+  while (stack.length > 0) {
+    const pixel = stack.pop()!;
+    const idx = pixel * 4;
+    if (!matches(idx)) continue;
+    filledPixels.add(idx);
+
+    // 4-connected neighbours (cardinal directions only for cleaner region detection)
+    const x = pixel % width;
+    const neighbours = [
+      x > 0 ? pixel - 1 : -1,
+      x < width - 1 ? pixel + 1 : -1,
+      pixel >= width ? pixel - width : -1,
+      pixel < width * (height - 1) ? pixel + width : -1,
+    ];
+    for (const next of neighbours) {
+      if (next >= 0 && !visited[next]) {
+        visited[next] = 1;
+        stack.push(next);
+      }
+    }
+  }
+
+  return filledPixels;
+};
+
+/**
+ * Grow filled pixels (byte offsets) outwards by a few pixels, so a fill reaches under the
+ * anti-aliased edge it stopped at instead of leaving a light fringe
+ */
+export const expandFill = (pixels: Set<number>, width: number, height: number, radius: number): Set<number> => {
+  if (radius <= 0) return pixels;
+  let current = pixels;
+  let edge = [...pixels];
+  for (let step = 0; step < radius; step++) {
+    const grown = new Set(current);
+    const nextEdge: number[] = [];
+    edge.forEach((idx) => {
+      const pixel = idx / 4;
+      const x = pixel % width;
+      const neighbours = [
+        x > 0 ? pixel - 1 : -1,
+        x < width - 1 ? pixel + 1 : -1,
+        pixel >= width ? pixel - width : -1,
+        pixel < width * (height - 1) ? pixel + width : -1,
+      ];
+      neighbours.forEach((next) => {
+        if (next >= 0 && !grown.has(next * 4)) {
+          grown.add(next * 4);
+          nextEdge.push(next * 4);
+        }
+      });
+    });
+    current = grown;
+    edge = nextEdge;
+  }
+  return current;
+};
@@ -0,0 +1,110 @@
+import type { GradientFill, GradientStop } from '../editor/state/editorTypes';
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const sortStops = (stops: GradientStop[]): GradientStop[] => [...stops].sort((a, b) => a.offset - b.offset);
+
+/**
+ * Konva fill props for a solid colour or a gradient.
+ * fillPriority picks which of them Konva actually draws.
+ */
+export const getFillProps = (fill: string, gradient?: GradientFill | null) => {
+  if (!gradient) {
+    return { fill, fillPriority: 'color' };
+  }
+  const colorStops = sortStops(gradient.stops).flatMap((stop) => [stop.offset, stop.color]);
+  if (gradient.type === 'linear') {
+    return {
+      fill,
+      fillPriority: 'linear-gradient',
+      fillLinearGradientStartPoint: gradient.start,
+      fillLinearGradientEndPoint: gradient.end,
+      fillLinearGradientColorStops: colorStops,
+    };
+  }
+  return {
+    fill,
+    fillPriority: 'radial-gradient',
+    fillRadialGradientStartPoint: gradient.start,
+    fillRadialGradientEndPoint: gradient.start,
+    fillRadialGradientStartRadius: 0,
+    fillRadialGradientEndRadius: Math.hypot(gradient.end.x - gradient.start.x, gradient.end.y - gradient.start.y),
+    fillRadialGradientColorStops: colorStops,
+  };
+};
+
+/**
+ * A two-stop gradient across the given bounds, starting from the current solid colour.
+ * Linear gradients run left to right; radial ones start in the middle.
+ */
+export const createGradient = (type: GradientFill['type'], bounds: Bounds, color: string): GradientFill => {
+  const midY = bounds.y + bounds.height / 2;
+  const stops = [
+    { offset: 0, color },
+    { offset: 1, color: '#000000' },
+  ];
+  if (type === 'linear') {
+    return { type, stops, start: { x: bounds.x, y: midY }, end: { x: bounds.x + bounds.width, y: midY } };
+  }
+  return {
+    type,
+    stops,
+    start: { x: bounds.x + bounds.width / 2, y: midY },
+    end: { x: bounds.x + bounds.width, y: midY },
+  };
+};
+
+/**
+ * Canvas gradient for a 2D context, in the context's current coordinate space
+ */
+export const createCanvasGradient = (ctx: CanvasRenderingContext2D, gradient: GradientFill): CanvasGradient => {
+  const { start, end } = gradient;
+  const canvasGradient = gradient.type === 'linear'
+    ? ctx.createLinearGradient(start.x, start.y, end.x, end.y)
+    : ctx.createRadialGradient(start.x, start.y, 0, start.x, start.y, Math.hypot(end.x - start.x, end.y - start.y));
+  sortStops(gradient.stops).forEach((stop) => canvasGradient.addColorStop(stop.offset, stop.color));
+  return canvasGradient;
+};
+
+const parseHex = (color: string): [number, number, number] => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex;
+  const value = parseInt(full.slice(0, 6), 16);
+  if (Number.isNaN(value)) return [0, 0, 0];
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const toHex = (channels: number[]): string =>
+  `#${channels.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Colour of the gradient at an offset, used for new stops
+ */
+export const getGradientColorAt = (stops: GradientStop[], offset: number): string => {
+  const sorted = sortStops(stops);
+  if (sorted.length === 0) return '#000000';
+  if (offset <= sorted[0].offset) return sorted[0].color;
+  const last = sorted[sorted.length - 1];
+  if (offset >= last.offset) return last.color;
+
+  const nextIndex = sorted.findIndex((stop) => stop.offset >= offset);
+  const prev = sorted[nextIndex - 1];
+  const next = sorted[nextIndex];
+  const t = (offset - prev.offset) / Math.max(0.0001, next.offset - prev.offset);
+  const from = parseHex(prev.color);
+  const to = parseHex(next.color);
+  return toHex(from.map((c, i) => c + (to[i] - c) * t));
+};
+
+/**
+ * CSS gradient showing the stops left to right (for the stop bar and swatches)
+ */
+export const toCssGradient = (stops: GradientStop[]): string =>
+  `linear-gradient(to right, ${sortStops(stops)
+    .map((stop) => `${stop.color} ${Math.round(stop.offset * 100)}%`)
+    .join(', ')})`;
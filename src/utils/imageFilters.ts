@@ -0,0 +1,139 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Filter, FilterFunction, Node } from 'konva/lib/Node';
+import { Blur } from 'konva/lib/filters/Blur';
+import { Grayscale } from 'konva/lib/filters/Grayscale';
+import { HSL } from 'konva/lib/filters/HSL';
+import { Invert } from 'konva/lib/filters/Invert';
+import { Noise } from 'konva/lib/filters/Noise';
+import { Pixelate } from 'konva/lib/filters/Pixelate';
+import { Posterize } from 'konva/lib/filters/Posterize';
+import { Sepia } from 'konva/lib/filters/Sepia';
+import { Threshold } from 'konva/lib/filters/Threshold';
+import type { ImageFilter, ImageFilterType } from '../editor/state/editorTypes';
+
+/**
+ * Filters offered for image and texture layers, in the order shown in the properties panel
+ */
+export const IMAGE_FILTER_OPTIONS: { value: ImageFilterType; label: string }[] = [
+  { value: 'blur', label: 'Blur' },
+  { value: 'sharpen', label: 'Sharpen' },
+  { value: 'grayscale', label: 'Grayscale' },
+  { value: 'sepia', label: 'Sepia' },
+  { value: 'invert', label: 'Invert' },
+  { value: 'posterize', label: 'Posterize' },
+  { value: 'pixelate', label: 'Pixelate' },
+  { value: 'noise', label: 'Noise' },
+  { value: 'hsl', label: 'Hue / Saturation' },
+  { value: 'threshold', label: 'Threshold' },
+];
+
+/**
+ * What `amount` means for each filter that has one, with its slider range and default
+ */
+export const IMAGE_FILTER_AMOUNTS: Partial<Record<ImageFilterType, { label: string; min: number; max: number; unit: string; default: number }>> = {
+  blur: { label: 'Radius', min: 0, max: 40, unit: 'px', default: 4 },
+  sharpen: { label: 'Strength', min: 0, max: 100, unit: '%', default: 50 },
+  posterize: { label: 'Levels', min: 2, max: 16, unit: '', default: 4 },
+  pixelate: { label: 'Cell Size', min: 2, max: 64, unit: 'px', default: 8 },
+  noise: { label: 'Amount', min: 0, max: 100, unit: '%', default: 20 },
+  threshold: { label: 'Level', min: 0, max: 100, unit: '%', default: 50 },
+};
+
+export const getImageFilterLabel = (type: ImageFilterType): string =>
+  IMAGE_FILTER_OPTIONS.find((option) => option.value === type)?.label ?? 'Filter';
+
+export const createImageFilter = (type: ImageFilterType): ImageFilter => ({
+  id: uuidv4(),
+  type,
+  enabled: true,
+  amount: IMAGE_FILTER_AMOUNTS[type]?.default ?? 0,
+  ...(type === 'hsl' && { hue: 0, saturation: 0, luminance: 0 }),
+});
+
+/**
+ * How far the filters can spread pixels past the image's edges
+ */
+export const getImageFiltersPadding = (filters: ImageFilter[]): number =>
+  filters.reduce((padding, filter) => padding + (filter.type === 'blur' ? Math.ceil(filter.amount) : 0), 0);
+
+// Konva's filters read their settings from the node they run on. Every filter in a stack
+// has its own settings, so they are handed over as getters instead of node attributes.
+const withSettings = (filter: Filter, settings: Record<string, number>): FilterFunction => {
+  const getters = Object.fromEntries(Object.entries(settings).map(([key, value]) => [key, () => value]));
+  return (imageData) => (filter as FilterFunction).call(getters as unknown as Node, imageData);
+};
+
+// Pushes every pixel away from the average of its four neighbours
+const sharpen = (strength: number): FilterFunction => (imageData) => {
+  const { width, height, data } = imageData;
+  const source = new Uint8ClampedArray(data);
+  const amount = (strength / 100) * 2;
+  const row = width * 4;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const center = source[i + c];
+        const up = y > 0 ? source[i + c - row] : center;
+        const down = y < height - 1 ? source[i + c + row] : center;
+        const left = x > 0 ? source[i + c - 4] : center;
+        const right = x < width - 1 ? source[i + c + 4] : center;
+        data[i + c] = center * (1 + 4 * amount) - amount * (up + down + left + right);
+      }
+    }
+  }
+};
+
+const toKonvaFilter = (filter: ImageFilter): FilterFunction => {
+  switch (filter.type) {
+    case 'blur':
+      return withSettings(Blur, { blurRadius: filter.amount });
+    case 'sharpen':
+      return sharpen(filter.amount);
+    case 'grayscale':
+      return Grayscale as FilterFunction;
+    case 'sepia':
+      return Sepia as FilterFunction;
+    case 'invert':
+      return Invert as FilterFunction;
+    case 'posterize':
+      return withSettings(Posterize, { levels: (Math.max(2, filter.amount) - 1) / 254 });
+    case 'pixelate':
+      return withSettings(Pixelate, { pixelSize: Math.max(1, filter.amount) });
+    case 'noise':
+      return withSettings(Noise, { noise: filter.amount / 100 });
+    case 'hsl':
+      // Konva scales saturation by 2^saturation, so -100% lands on grey and +100% doubles it
+      return withSettings(HSL, {
+        hue: filter.hue ?? 0,
+        saturation: Math.log2(Math.max(0, 1 + (filter.saturation ?? 0) / 100)),
+        luminance: (filter.luminance ?? 0) / 100,
+      });
+    case 'threshold':
+      return withSettings(Threshold, { threshold: filter.amount / 100 });
+  }
+};
+
+/**
+ * Konva filter functions for the enabled filters, in stack order
+ */
+export const createImageFilters = (filters: ImageFilter[] | undefined): FilterFunction[] =>
+  (filters ?? []).filter((filter) => filter.enabled).map(toKonvaFilter);
+
+/**
+ * Copy of an image with its filters applied, for exports that don't draw the stage
+ */
+export const applyImageFilters = (source: HTMLImageElement | HTMLCanvasElement, filters: ImageFilter[] | undefined): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = source instanceof HTMLImageElement ? source.naturalWidth || source.width : source.width;
+  canvas.height = source instanceof HTMLImageElement ? source.naturalHeight || source.height : source.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  ctx.drawImage(source, 0, 0);
+  const functions = createImageFilters(filters);
+  if (functions.length === 0) return canvas;
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  functions.forEach((filter) => filter.call(undefined as unknown as Node, imageData));
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,143 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Node } from 'konva/lib/Node';
+import type { LayerEffect, LayerEffectType } from '../editor/state/editorTypes';
+
+/**
+ * Effects offered for layers, in the order shown in the properties panel
+ */
+export const LAYER_EFFECT_OPTIONS: { value: LayerEffectType; label: string }[] = [
+  { value: 'dropShadow', label: 'Drop Shadow' },
+  { value: 'outerGlow', label: 'Outer Glow' },
+  { value: 'stroke', label: 'Outline' },
+  { value: 'innerShadow', label: 'Inner Shadow' },
+];
+
+export const getLayerEffectLabel = (type: LayerEffectType): string =>
+  LAYER_EFFECT_OPTIONS.find((option) => option.value === type)?.label ?? 'Effect';
+
+/**
+ * A new effect with settings that read well on most designs
+ */
+export const createLayerEffect = (type: LayerEffectType): LayerEffect => {
+  const base = { id: uuidv4(), type, enabled: true };
+  switch (type) {
+    case 'dropShadow':
+      return { ...base, color: '#000000', opacity: 0.6, offsetX: 6, offsetY: 6, blur: 8, size: 0 };
+    case 'outerGlow':
+      return { ...base, color: '#ffffff', opacity: 0.8, offsetX: 0, offsetY: 0, blur: 12, size: 2 };
+    case 'stroke':
+      return { ...base, color: '#000000', opacity: 1, offsetX: 0, offsetY: 0, blur: 0, size: 3 };
+    case 'innerShadow':
+      return { ...base, color: '#000000', opacity: 0.5, offsetX: 3, offsetY: 3, blur: 6, size: 0 };
+  }
+};
+
+/**
+ * How far the effects can reach past the layer's own pixels
+ */
+export const getEffectsPadding = (effects: LayerEffect[]): number =>
+  effects.length === 0
+    ? 0
+    : Math.ceil(
+        Math.max(...effects.map((e) => e.size + e.blur * 1.5 + Math.max(Math.abs(e.offsetX), Math.abs(e.offsetY)))) + 2
+      );
+
+const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Grow a silhouette outwards by stamping it around a few rings
+ */
+const dilate = (source: HTMLCanvasElement, radius: number): HTMLCanvasElement => {
+  if (radius <= 0) return source;
+  const canvas = createCanvas(source.width, source.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return source;
+
+  const rings = Math.min(4, Math.ceil(radius / 3));
+  for (let ring = 1; ring <= rings; ring++) {
+    const r = (radius * ring) / rings;
+    const steps = Math.min(32, Math.max(8, Math.ceil(r * 2)));
+    for (let i = 0; i < steps; i++) {
+      const angle = (i / steps) * Math.PI * 2;
+      ctx.drawImage(source, Math.cos(angle) * r, Math.sin(angle) * r);
+    }
+  }
+  ctx.drawImage(source, 0, 0);
+  return canvas;
+};
+
+/**
+ * Draw only the shadow of `source` in the effect's colour. The source itself is placed
+ * off-canvas and the shadow offset brings its shadow back into view.
+ */
+const drawShadowOf = (ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, effect: LayerEffect, pixelRatio: number) => {
+  const shift = source.width;
+  ctx.save();
+  ctx.globalAlpha = effect.opacity;
+  ctx.shadowColor = effect.color;
+  ctx.shadowBlur = effect.blur * pixelRatio;
+  ctx.shadowOffsetX = shift + effect.offsetX * pixelRatio;
+  ctx.shadowOffsetY = effect.offsetY * pixelRatio;
+  ctx.drawImage(source, -shift, 0);
+  ctx.restore();
+};
+
+/**
+ * Render effects around (and inside) the pixels of a cached layer, in place.
+ * `pixelRatio` converts effect sizes into pixels of the image.
+ */
+export const renderLayerEffects = (imageData: ImageData, effects: LayerEffect[], pixelRatio: number): void => {
+  const { width, height } = imageData;
+  const content = createCanvas(width, height);
+  const result = createCanvas(width, height);
+  const contentCtx = content.getContext('2d');
+  const resultCtx = result.getContext('2d');
+  if (!contentCtx || !resultCtx) return;
+  contentCtx.putImageData(imageData, 0, 0);
+
+  // Outer effects go behind the layer
+  effects
+    .filter((effect) => effect.type !== 'innerShadow')
+    .forEach((effect) => drawShadowOf(resultCtx, dilate(content, effect.size * pixelRatio), effect, pixelRatio));
+
+  resultCtx.drawImage(content, 0, 0);
+
+  // Inner shadows are cast by everything outside the layer and kept to its pixels
+  effects
+    .filter((effect) => effect.type === 'innerShadow')
+    .forEach((effect) => {
+      const inverse = createCanvas(width, height);
+      const shadow = createCanvas(width, height);
+      const inverseCtx = inverse.getContext('2d');
+      const shadowCtx = shadow.getContext('2d');
+      if (!inverseCtx || !shadowCtx) return;
+
+      inverseCtx.fillRect(0, 0, width, height);
+      inverseCtx.globalCompositeOperation = 'destination-out';
+      inverseCtx.drawImage(content, 0, 0);
+
+      drawShadowOf(shadowCtx, inverse, effect, pixelRatio);
+      shadowCtx.globalCompositeOperation = 'destination-in';
+      shadowCtx.drawImage(content, 0, 0);
+      resultCtx.drawImage(shadow, 0, 0);
+    });
+
+  imageData.data.set(resultCtx.getImageData(0, 0, width, height).data);
+};
+
+// Konva filter function, called with the node being cached
+export type EffectsFilter = (this: Node, imageData: ImageData) => void;
+
+/**
+ * Konva filter that renders the effects over a cached node
+ */
+export const createEffectsFilter = (effects: LayerEffect[]): EffectsFilter =>
+  function (this: Node, imageData: ImageData) {
+    // Isolated groups are cached at the canvas pixel ratio
+    renderLayerEffects(imageData, effects, this.getLayer()?.getCanvas().getPixelRatio() ?? 1);
+  };
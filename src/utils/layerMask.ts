@@ -0,0 +1,174 @@
+import type { Stage } from 'konva/lib/Stage';
+import type { Transform } from 'konva/lib/Util';
+import type { Layer, LayerMask } from '../editor/state/editorTypes';
+
+// Masks cover the whole canvas, which is always 1024x1024
+export const MASK_SIZE = 1024;
+
+type MaskSource = HTMLImageElement | HTMLCanvasElement;
+
+/**
+ * Create a mask canvas, copied from an existing mask or filled white (everything revealed)
+ */
+export const createMaskCanvas = (source?: MaskSource): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = MASK_SIZE;
+  canvas.height = MASK_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    if (source) {
+      ctx.drawImage(source, 0, 0, MASK_SIZE, MASK_SIZE);
+    } else {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, MASK_SIZE, MASK_SIZE);
+    }
+  }
+  return canvas;
+};
+
+/**
+ * A mask moved across the canvas by a transform, for a copy of its layer placed elsewhere.
+ * Wherever the moved mask doesn't reach, the copy shows.
+ */
+export const transformMask = (mask: LayerMask, transform: Transform): LayerMask => {
+  if (!mask.image) return mask;
+  const canvas = document.createElement('canvas');
+  canvas.width = MASK_SIZE;
+  canvas.height = MASK_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return mask;
+  ctx.fillStyle = mask.inverted ? '#000000' : '#ffffff';
+  ctx.fillRect(0, 0, MASK_SIZE, MASK_SIZE);
+  const [a, b, c, d, e, f] = transform.getMatrix();
+  ctx.setTransform(a, b, c, d, e, f);
+  ctx.drawImage(mask.image, 0, 0, MASK_SIZE, MASK_SIZE);
+  return { ...mask, src: canvas.toDataURL('image/png'), image: canvas };
+};
+
+/**
+ * Turn a grayscale mask into an alpha mask that can be composited with destination-in
+ */
+export const maskToAlpha = (source: MaskSource, inverted: boolean): HTMLCanvasElement => {
+  const canvas = createMaskCanvas(source);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  const imageData = ctx.getImageData(0, 0, MASK_SIZE, MASK_SIZE);
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) * (data[i + 3] / 255);
+    data[i] = 0;
+    data[i + 1] = 0;
+    data[i + 2] = 0;
+    data[i + 3] = inverted ? 255 - gray : gray;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+/**
+ * Gray level a brush color paints on a mask (its luminance)
+ */
+export const toMaskGray = (color: string): string => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex;
+  const value = parseInt(full.slice(0, 6), 16);
+  if (Number.isNaN(value)) return '#ffffff';
+  const r = (value >> 16) & 255;
+  const g = (value >> 8) & 255;
+  const b = value & 255;
+  const gray = Math.round(r * 0.299 + g * 0.587 + b * 0.114);
+  return `rgb(${gray}, ${gray}, ${gray})`;
+};
+
+// Scratch canvas for a stroke that is cut down before it reaches the mask
+const createStrokeCanvas = (): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = MASK_SIZE;
+  canvas.height = MASK_SIZE;
+  return canvas;
+};
+
+interface MaskStrokeSettings {
+  color: string;
+  size: number;
+  hardness: number;  // 0-100
+  opacity: number;   // 0-1
+  clip?: HTMLCanvasElement;  // Pixel selection the stroke is confined to
+}
+
+/**
+ * Redraw a mask from its state before the stroke plus the whole stroke so far,
+ * so overlapping segments of a translucent stroke don't build up
+ */
+export const paintMaskStroke = (
+  target: HTMLCanvasElement,
+  base: MaskSource,
+  points: number[],
+  { color, size, hardness, opacity, clip }: MaskStrokeSettings
+): void => {
+  const targetCtx = target.getContext('2d');
+  if (!targetCtx || points.length < 2) return;
+
+  targetCtx.save();
+  targetCtx.globalCompositeOperation = 'copy';
+  targetCtx.drawImage(base, 0, 0, MASK_SIZE, MASK_SIZE);
+  targetCtx.restore();
+
+  // A confined stroke is painted on its own first, so the selection only cuts the stroke
+  const strokeCanvas = clip ? createStrokeCanvas() : target;
+  const ctx = strokeCanvas.getContext('2d');
+  if (!ctx) return;
+
+  const gray = toMaskGray(color);
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  ctx.strokeStyle = gray;
+  ctx.lineWidth = size;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  // Soft brushes feather their edge the same way brush layers do
+  if (hardness < 100) {
+    ctx.shadowColor = gray;
+    ctx.shadowBlur = ((100 - hardness) / 100) * size * 0.5;
+  }
+  ctx.beginPath();
+  ctx.moveTo(points[0], points[1]);
+  if (points.length === 2) {
+    // A single click paints a dot
+    ctx.lineTo(points[0], points[1]);
+  }
+  for (let i = 2; i < points.length; i += 2) {
+    ctx.lineTo(points[i], points[i + 1]);
+  }
+  ctx.stroke();
+  ctx.restore();
+
+  if (clip) {
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(clip, 0, 0);
+    targetCtx.drawImage(strokeCanvas, 0, 0);
+  }
+};
+
+/**
+ * Render a layer with its mask baked in, in canvas space (used by "Apply Mask").
+ * Opacity is left out since the layer keeps its own opacity.
+ */
+export const rasterizeMaskedLayer = (stage: Stage, layer: Layer): HTMLCanvasElement | null => {
+  const node = stage.findOne(`#${layer.id}`);
+  if (!node || !layer.mask?.image) return null;
+
+  const opacity = node.opacity();
+  node.opacity(1);
+  const canvas = node.toCanvas({ x: 0, y: 0, width: MASK_SIZE, height: MASK_SIZE, pixelRatio: 1 });
+  node.opacity(opacity);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  if (layer.mask.enabled) {
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(maskToAlpha(layer.mask.image, layer.mask.inverted), 0, 0);
+  }
+  return canvas;
+};
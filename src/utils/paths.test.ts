@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { parsePathData } from './paths';
+
+// Handle length of a cubic quarter circle, relative to the radius
+const QUARTER = (4 / 3) * Math.tan(Math.PI / 8);
+
+const expectPoint = (point: { x: number; y: number } | undefined, x: number, y: number) => {
+  expect(point?.x).toBeCloseTo(x);
+  expect(point?.y).toBeCloseTo(y);
+};
+
+describe('parsePathData', () => {
+  it('reads straight segments, with implicit line-tos after a move', () => {
+    expect(parsePathData('M0 0 L10 0 10 10 H 0 Z')).toEqual([
+      { anchors: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }], closed: true },
+    ]);
+  });
+
+  it('starts relative subpaths after a close from the previous start point', () => {
+    const [first, second] = parsePathData('m 5 5 h 10 v 10 z m 2 2 l 1 1');
+    expect(first.anchors).toEqual([{ x: 5, y: 5 }, { x: 15, y: 5 }, { x: 15, y: 15 }]);
+    expect(first.closed).toBe(true);
+    expect(second).toEqual({ anchors: [{ x: 7, y: 7 }, { x: 8, y: 8 }], closed: false });
+  });
+
+  it('merges the anchor that closes a curve back onto its start', () => {
+    const [subpath] = parsePathData('M0 0 C 0 -5 10 -5 10 0 C 10 5 0 5 0 0 Z');
+    expect(subpath.closed).toBe(true);
+    expect(subpath.anchors).toEqual([
+      { x: 0, y: 0, handleIn: { x: 0, y: 5 }, handleOut: { x: 0, y: -5 } },
+      { x: 10, y: 0, handleIn: { x: 0, y: -5 }, handleOut: { x: 0, y: 5 } },
+    ]);
+  });
+
+  it('converts quadratic curves and reflects the smooth shorthands', () => {
+    const [{ anchors }] = parsePathData('M0 0 Q 15 30 30 0 T 60 0');
+    expect(anchors).toHaveLength(3);
+    expectPoint(anchors[0].handleOut, 10, 20);
+    expectPoint(anchors[1].handleIn, -10, 20);
+    // The reflected control point mirrors the previous one through the shared anchor
+    expectPoint(anchors[1].handleOut, 10, -20);
+    expectPoint(anchors[2].handleIn, -10, -20);
+
+    const [{ anchors: smooth }] = parsePathData('M0 0 C 0 10 10 10 10 0 S 20 -10 20 0');
+    expectPoint(smooth[1].handleOut, 0, -10);
+  });
+
+  it('converts arcs into a cubic curve per quarter turn', () => {
+    const [{ anchors }] = parsePathData('M 0 0 A 10 10 0 0 1 20 0');
+    expect(anchors).toHaveLength(3);
+    expectPoint(anchors[0], 0, 0);
+    // A positive sweep runs through the top of the circle on the y-down canvas
+    expectPoint(anchors[1], 10, -10);
+    expectPoint(anchors[2], 20, 0);
+    expectPoint(anchors[0].handleOut, 0, -10 * QUARTER);
+    expectPoint(anchors[1].handleIn, -10 * QUARTER, 0);
+    expectPoint(anchors[1].handleOut, 10 * QUARTER, 0);
+    expectPoint(anchors[2].handleIn, 0, -10 * QUARTER);
+  });
+
+  it('reads arc flags written without separators', () => {
+    const [{ anchors }] = parsePathData('M0 0a10 10 0 0020 0');
+    expectPoint(anchors[1], 10, 10);
+    expectPoint(anchors[2], 20, 0);
+  });
+
+  it('scales up arc radii too small to reach the end point', () => {
+    const [{ anchors }] = parsePathData('M 0 0 A 1 1 0 0 1 20 0');
+    expectPoint(anchors[1], 10, -10);
+    expectPoint(anchors[anchors.length - 1], 20, 0);
+  });
+
+  it('draws arcs with a zero radius as straight lines', () => {
+    const [{ anchors }] = parsePathData('M 0 0 A 0 10 0 0 1 20 0');
+    expect(anchors).toEqual([{ x: 0, y: 0 }, { x: 20, y: 0 }]);
+  });
+
+  it('rejects invalid path data', () => {
+    expect(() => parsePathData('10 10')).toThrow('Path data must start with a command');
+    expect(() => parsePathData('M 0 0 L 5')).toThrow('Invalid path data');
+    expect(() => parsePathData('M 0 0 A 5 5 0 2 0 10 0')).toThrow('Invalid arc flag');
+    expect(() => parsePathData('M 0 0 B 1 1')).toThrow('Unsupported path command "B"');
+  });
+});
@@ -0,0 +1,316 @@
+import type { PathAnchor, PathLayer, PathSubpath } from '../editor/state/editorTypes';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * SVG path data for the anchors. Segments without handles are straight lines; on curved
+ * segments a side without a handle uses the anchor itself as its control point.
+ */
+export const getPathData = (anchors: PathAnchor[], closed: boolean): string => {
+  if (anchors.length === 0) return '';
+
+  const segment = (from: PathAnchor, to: PathAnchor) => {
+    if (!from.handleOut && !to.handleIn) return `L ${round(to.x)} ${round(to.y)}`;
+    const c1 = { x: from.x + (from.handleOut?.x ?? 0), y: from.y + (from.handleOut?.y ?? 0) };
+    const c2 = { x: to.x + (to.handleIn?.x ?? 0), y: to.y + (to.handleIn?.y ?? 0) };
+    return `C ${round(c1.x)} ${round(c1.y)} ${round(c2.x)} ${round(c2.y)} ${round(to.x)} ${round(to.y)}`;
+  };
+
+  const parts = [`M ${round(anchors[0].x)} ${round(anchors[0].y)}`];
+  for (let i = 1; i < anchors.length; i++) {
+    parts.push(segment(anchors[i - 1], anchors[i]));
+  }
+  if (closed && anchors.length > 1) {
+    parts.push(segment(anchors[anchors.length - 1], anchors[0]), 'Z');
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Path data for the main contour of a path layer followed by its further subpaths
+ */
+export const getLayerPathData = (layer: Pick<PathLayer, 'anchors' | 'closed' | 'subpaths'>): string =>
+  [{ anchors: layer.anchors, closed: layer.closed }, ...(layer.subpaths ?? [])]
+    .map((subpath) => getPathData(subpath.anchors, subpath.closed))
+    .join(' ');
+
+/**
+ * Symmetric handles that make the curve run smoothly through an anchor,
+ * pointing along the line between its neighbours
+ */
+export const getSmoothHandles = (anchors: PathAnchor[], index: number, closed: boolean): Pick<PathAnchor, 'handleIn' | 'handleOut'> => {
+  const count = anchors.length;
+  const anchor = anchors[index];
+  const prev = anchors[index - 1] ?? (closed ? anchors[count - 1] : anchor);
+  const next = anchors[index + 1] ?? (closed ? anchors[0] : anchor);
+  const dx = (next.x - prev.x) / 4;
+  const dy = (next.y - prev.y) / 4;
+  return { handleIn: { x: -dx, y: -dy }, handleOut: { x: dx, y: dy } };
+};
+
+type Point = { x: number; y: number };
+
+const offset = (from: Point, to: Point): Point | undefined =>
+  Math.abs(to.x - from.x) < 1e-6 && Math.abs(to.y - from.y) < 1e-6 ? undefined : { x: to.x - from.x, y: to.y - from.y };
+
+/**
+ * Cubic curves (as control point triples) approximating an SVG elliptical arc,
+ * one per quarter turn at most (SVG 1.1 implementation notes, F.6.5)
+ */
+const arcToCubics = (
+  from: Point,
+  rx: number,
+  ry: number,
+  angle: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point
+): [Point, Point, Point][] => {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [[from, to, to]];
+
+  const phi = (angle * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Scale up radii that are too small to reach the end point
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (factor * rx * y1) / ry;
+  const cyp = (-factor * ry * x1) / rx;
+  const cx = cos * cxp - sin * cyp + (from.x + to.x) / 2;
+  const cy = sin * cxp + cos * cyp + (from.y + to.y) / 2;
+
+  const vectorAngle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+  };
+  const theta = vectorAngle(1, 0, (x1 - cxp) / rx, (y1 - cyp) / ry);
+  let delta = vectorAngle((x1 - cxp) / rx, (y1 - cyp) / ry, (-x1 - cxp) / rx, (-y1 - cyp) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  const segments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2)));
+  const step = delta / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+  // Point on the ellipse, and its tangent scaled to the control point distance
+  const pointAt = (t: number): Point => {
+    const ex = rx * Math.cos(t);
+    const ey = ry * Math.sin(t);
+    return { x: cx + cos * ex - sin * ey, y: cy + sin * ex + cos * ey };
+  };
+  const tangentAt = (t: number): Point => {
+    const ex = -rx * Math.sin(t) * k;
+    const ey = ry * Math.cos(t) * k;
+    return { x: cos * ex - sin * ey, y: sin * ex + cos * ey };
+  };
+
+  const curves: [Point, Point, Point][] = [];
+  for (let i = 0; i < segments; i++) {
+    const t1 = theta + i * step;
+    const t2 = t1 + step;
+    const p1 = pointAt(t1);
+    const p2 = pointAt(t2);
+    const d1 = tangentAt(t1);
+    const d2 = tangentAt(t2);
+    curves.push([
+      { x: p1.x + d1.x, y: p1.y + d1.y },
+      { x: p2.x - d2.x, y: p2.y - d2.y },
+      i === segments - 1 ? to : p2,
+    ]);
+  }
+  return curves;
+};
+
+/**
+ * Parse SVG path data into subpaths of anchors. Lines, quadratic curves and arcs
+ * are converted to the equivalent cubic handles.
+ */
+export const parsePathData = (d: string): PathSubpath[] => {
+  const subpaths: PathSubpath[] = [];
+  let subpath: PathSubpath | null = null;
+  let current: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  // Control point of the previous curve, for the reflected S and T shorthands
+  let lastCubic: Point | null = null;
+  let lastQuad: Point | null = null;
+
+  let index = 0;
+  const skipSeparators = () => {
+    while (index < d.length && /[\s,]/.test(d[index])) index++;
+  };
+  const readNumber = (): number => {
+    skipSeparators();
+    const match = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(d.slice(index));
+    if (!match) throw new Error(`Invalid path data near "${d.slice(index, index + 10)}"`);
+    index += match[0].length;
+    return parseFloat(match[0]);
+  };
+  // Arc flags may be written without separators ("a1 1 0 011 1")
+  const readFlag = (): boolean => {
+    skipSeparators();
+    const flag = d[index++];
+    if (flag !== '0' && flag !== '1') throw new Error('Invalid arc flag in path data');
+    return flag === '1';
+  };
+  const hasNumber = () => {
+    skipSeparators();
+    return index < d.length && /[-+.\d]/.test(d[index]);
+  };
+
+  const moveTo = (point: Point) => {
+    subpath = { anchors: [{ ...point }], closed: false };
+    subpaths.push(subpath);
+    current = point;
+    start = point;
+  };
+  const ensureSubpath = (): PathSubpath => {
+    if (!subpath) moveTo(current);
+    return subpath!;
+  };
+  const lineTo = (point: Point) => {
+    ensureSubpath().anchors.push({ ...point });
+    current = point;
+  };
+  const curveTo = (c1: Point, c2: Point, point: Point) => {
+    const anchors = ensureSubpath().anchors;
+    const prev = anchors[anchors.length - 1];
+    prev.handleOut = offset(prev, c1);
+    anchors.push({ x: point.x, y: point.y, handleIn: offset(point, c2) });
+    current = point;
+  };
+  const close = () => {
+    if (!subpath) return;
+    const { anchors } = subpath;
+    const first = anchors[0];
+    const last = anchors[anchors.length - 1];
+    // The closing anchor usually repeats the first one; merge them
+    if (anchors.length > 1 && !offset(first, last)) {
+      first.handleIn = last.handleIn;
+      anchors.pop();
+    }
+    subpath.closed = true;
+    subpath = null;
+    current = start;
+  };
+
+  let command = '';
+  while (true) {
+    skipSeparators();
+    if (index >= d.length) break;
+    if (/[a-zA-Z]/.test(d[index])) {
+      command = d[index++];
+    } else if (!command) {
+      throw new Error('Path data must start with a command');
+    }
+    const relative = command === command.toLowerCase();
+    const at = (x: number, y: number): Point => (relative ? { x: current.x + x, y: current.y + y } : { x, y });
+    const type = command.toUpperCase();
+    let cubic: Point | null = null;
+    let quad: Point | null = null;
+
+    switch (type) {
+      case 'M':
+        moveTo(at(readNumber(), readNumber()));
+        // Further coordinate pairs are implicit line-tos
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        lineTo(at(readNumber(), readNumber()));
+        break;
+      case 'H': {
+        const x = readNumber();
+        lineTo({ x: relative ? current.x + x : x, y: current.y });
+        break;
+      }
+      case 'V': {
+        const y = readNumber();
+        lineTo({ x: current.x, y: relative ? current.y + y : y });
+        break;
+      }
+      case 'C': {
+        const c1 = at(readNumber(), readNumber());
+        const c2 = at(readNumber(), readNumber());
+        curveTo(c1, c2, at(readNumber(), readNumber()));
+        cubic = c2;
+        break;
+      }
+      case 'S': {
+        const c1 = lastCubic ? { x: 2 * current.x - lastCubic.x, y: 2 * current.y - lastCubic.y } : current;
+        const c2 = at(readNumber(), readNumber());
+        curveTo(c1, c2, at(readNumber(), readNumber()));
+        cubic = c2;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const q: Point =
+          type === 'Q'
+            ? at(readNumber(), readNumber())
+            : lastQuad
+              ? { x: 2 * current.x - lastQuad.x, y: 2 * current.y - lastQuad.y }
+              : current;
+        const from = current;
+        const point = at(readNumber(), readNumber());
+        curveTo(
+          { x: from.x + (2 / 3) * (q.x - from.x), y: from.y + (2 / 3) * (q.y - from.y) },
+          { x: point.x + (2 / 3) * (q.x - point.x), y: point.y + (2 / 3) * (q.y - point.y) },
+          point
+        );
+        quad = q;
+        break;
+      }
+      case 'A': {
+        const rx = readNumber();
+        const ry = readNumber();
+        const angle = readNumber();
+        const largeArc = readFlag();
+        const sweep = readFlag();
+        const point = at(readNumber(), readNumber());
+        arcToCubics(current, rx, ry, angle, largeArc, sweep, point).forEach(([c1, c2, p]) => curveTo(c1, c2, p));
+        break;
+      }
+      case 'Z':
+        close();
+        break;
+      default:
+        throw new Error(`Unsupported path command "${command}"`);
+    }
+    lastCubic = cubic;
+    lastQuad = quad;
+
+    // Z takes no coordinates; anything else repeats while numbers follow
+    if (type === 'Z' && hasNumber()) {
+      throw new Error('Unexpected coordinates after closepath');
+    }
+  }
+
+  return subpaths;
+};
+
+/**
+ * Apply a transform to anchors and their handles
+ */
+export const transformAnchors = (anchors: PathAnchor[], transform: { point: (p: Point) => Point }): PathAnchor[] =>
+  anchors.map((anchor) => {
+    const point = transform.point(anchor);
+    const mapHandle = (handle?: Point) => {
+      if (!handle) return undefined;
+      const mapped = transform.point({ x: anchor.x + handle.x, y: anchor.y + handle.y });
+      return { x: mapped.x - point.x, y: mapped.y - point.y };
+    };
+    return { x: point.x, y: point.y, handleIn: mapHandle(anchor.handleIn), handleOut: mapHandle(anchor.handleOut) };
+  });
@@ -0,0 +1,44 @@
+import type { BrushSettings, PressureCurve } from '../editor/state/editorTypes';
+
+export const PRESSURE_CURVE_OPTIONS: { value: PressureCurve; label: string }[] = [
+  { value: 'soft', label: 'Soft' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'firm', label: 'Firm' },
+];
+
+// What the pen reported for one point
+export interface PenSample {
+  pressure: number;  // 0-1
+  tiltX: number;     // -90 to 90 degrees
+  tiltY: number;     // -90 to 90 degrees
+}
+
+/**
+ * Pen data of a pointer event, or null for mice and touch, which have no real pressure
+ */
+export const getPenSample = (e: PointerEvent): PenSample | null =>
+  e.pointerType === 'pen' ? { pressure: e.pressure, tiltX: e.tiltX || 0, tiltY: e.tiltY || 0 } : null;
+
+// Soft curves respond to light touches, firm ones need a harder press
+const applyCurve = (pressure: number, curve: PressureCurve): number => {
+  const clamped = Math.min(1, Math.max(0, pressure));
+  if (curve === 'soft') return Math.sqrt(clamped);
+  if (curve === 'firm') return clamped * clamped;
+  return clamped;
+};
+
+/**
+ * Width (as a factor of the brush size) and opacity factor of a stroke point drawn with a pen
+ */
+export const getPenDynamics = (
+  sample: PenSample,
+  { pressureSize, pressureOpacity, pressureCurve, tiltSize }: BrushSettings
+): { width: number; alpha: number } => {
+  const pressure = applyCurve(sample.pressure, pressureCurve);
+  // A pen held flat reports 90 degrees of tilt
+  const tilt = Math.min(1, Math.hypot(sample.tiltX, sample.tiltY) / 90);
+  return {
+    width: (1 - (pressureSize / 100) * (1 - pressure)) * (1 + (tiltSize / 100) * tilt),
+    alpha: 1 - (pressureOpacity / 100) * (1 - pressure),
+  };
+};
@@ -1,5 +1,7 @@
 import JSZip from 'jszip';
 import type { ProjectFile, SerializedLayer } from '../editor/state/useEditorStore';
+import type { CustomFont, GradientFill } from '../editor/state/editorTypes';
+import { getFontMimeType } from './customFonts';
 
 const PROJECT_FILE_EXTENSION = '.twrap';
 
@@ -32,18 +34,24 @@ const uint8ArrayToDataUrl = (bytes: Uint8Array, mimeType: string = 'image/png'):
  */
 interface ImageReference {
   layerId: string;
-  type: 'src' | 'fillImage';
+  type: 'src' | 'fillImage' | 'mask' | 'stamp' | 'strokeClip';
   dataUrl: string;
   filename: string;
 }
 
+// Brush stamps and stroke clips are kept per layer as { id, src } entries
+interface EmbeddedImage {
+  id: string;
+  src: string;
+}
+
 const extractImages = (layers: SerializedLayer[]): { 
   cleanedLayers: SerializedLayer[]; 
   images: ImageReference[] 
 } => {
   const images: ImageReference[] = [];
   
-  const cleanedLayers = layers.map(layer => {
+  const cleanLayerImages = (layer: SerializedLayer): SerializedLayer => {
     const cleanLayer = { ...layer };
     
     // Handle image/texture layers
@@ -76,8 +84,42 @@ const extractImages = (layers: SerializedLayer[]): {
       }
     }
     
+    // Handle layer masks (any layer type)
+    if (layer.mask?.src?.startsWith('data:')) {
+      const filename = `images/mask-${layer.id}.png`;
+      images.push({
+        layerId: layer.id,
+        type: 'mask',
+        dataUrl: layer.mask.src,
+        filename,
+      });
+      cleanLayer.mask = { ...layer.mask, src: filename };
+    }
+    
+    // Handle brush stamp images and the selections strokes are clipped to
+    const cleanEntries = (entries: EmbeddedImage[], type: 'stamp' | 'strokeClip', prefix: string) =>
+      entries.map((entry) => {
+        if (!entry.src?.startsWith('data:')) return entry;
+        const filename = `images/${prefix}-${layer.id}-${entry.id}.png`;
+        images.push({ layerId: layer.id, type, dataUrl: entry.src, filename });
+        return { ...entry, src: filename };
+      });
+    if (layer.type === 'brush' && Array.isArray(layer.stamps)) {
+      cleanLayer.stamps = cleanEntries(layer.stamps, 'stamp', 'stamp');
+    }
+    if (layer.type === 'brush' && Array.isArray(layer.strokeClips)) {
+      cleanLayer.strokeClips = cleanEntries(layer.strokeClips, 'strokeClip', 'clip');
+    }
+    
+    // Handle layers nested in groups
+    if (layer.type === 'group' && Array.isArray(layer.children)) {
+      cleanLayer.children = layer.children.map(cleanLayerImages);
+    }
+    
     return cleanLayer;
-  });
+  };
+  
+  const cleanedLayers = layers.map(cleanLayerImages);
   
   return { cleanedLayers, images };
 };
@@ -114,10 +156,84 @@ const restoreImages = async (
       }
     }
     
+    // Restore layer masks
+    if (layer.mask?.src?.startsWith('images/')) {
+      const file = zip.file(layer.mask.src);
+      if (file) {
+        const bytes = await file.async('uint8array');
+        restoredLayer.mask = { ...layer.mask, src: uint8ArrayToDataUrl(bytes) };
+      }
+    }
+    
+    // Restore brush stamp images and stroke clips
+    const restoreEntries = (entries: EmbeddedImage[]) =>
+      Promise.all(entries.map(async (entry) => {
+        const file = entry.src?.startsWith('images/') ? zip.file(entry.src) : null;
+        if (!file) return entry;
+        const bytes = await file.async('uint8array');
+        return { ...entry, src: uint8ArrayToDataUrl(bytes) };
+      }));
+    if (layer.type === 'brush' && Array.isArray(layer.stamps)) {
+      restoredLayer.stamps = await restoreEntries(layer.stamps);
+    }
+    if (layer.type === 'brush' && Array.isArray(layer.strokeClips)) {
+      restoredLayer.strokeClips = await restoreEntries(layer.strokeClips);
+    }
+    
+    // Restore images of layers nested in groups
+    if (layer.type === 'group' && Array.isArray(layer.children)) {
+      restoredLayer.children = await restoreImages(layer.children, zip);
+    }
+    
     return restoredLayer;
   }));
 };
 
+/**
+ * Move the layers' embedded images into the ZIP's images folder, returning the layers with
+ * file references in their place (shared by every .twrap writer so they all agree)
+ */
+export const writeProjectImages = (zip: JSZip, layers: SerializedLayer[]): SerializedLayer[] => {
+  const { cleanedLayers, images } = extractImages(layers);
+  images.forEach((img) => {
+    zip.file(img.filename, dataUrlToUint8Array(img.dataUrl));
+  });
+  return cleanedLayers;
+};
+
+/**
+ * Font files are stored in the fonts folder, numbered so families with similar names can't clash
+ */
+const getFontFilename = (font: CustomFont, index: number): string => {
+  const extension = font.fileName.split('.').pop()?.toLowerCase() ?? 'ttf';
+  return `fonts/${index + 1}-${font.family.replace(/[^a-zA-Z0-9-_]/g, '_')}.${extension}`;
+};
+
+/**
+ * Add the project's uploaded font files to the ZIP, returning the manifest's font entries
+ * (every .twrap writer embeds them, so saved and published projects keep their fonts)
+ */
+export const writeProjectFonts = (zip: JSZip, fonts: CustomFont[] = []): CustomFont[] =>
+  fonts.map((font, index) => {
+    const filename = getFontFilename(font, index);
+    zip.file(filename, dataUrlToUint8Array(font.src));
+    return { ...font, src: filename };
+  });
+
+/**
+ * Restore font data URLs from ZIP file references
+ */
+const restoreFonts = async (fonts: CustomFont[], zip: JSZip): Promise<CustomFont[]> => {
+  const restored = await Promise.all(fonts.map(async (font) => {
+    if (!font.src.startsWith('fonts/')) return font;
+    const file = zip.file(font.src);
+    if (!file) return null;
+    const bytes = await file.async('uint8array');
+    return { ...font, src: uint8ArrayToDataUrl(bytes, getFontMimeType(font.fileName)) };
+  }));
+  return restored.filter((font): font is CustomFont => font !== null);
+};
+
 /**
  * Project manifest stored in the ZIP
  */
@@ -128,7 +244,9 @@ interface ProjectManifest {
   modifiedAt: string;
   modelId: string;
   baseColor: string;
+  baseGradient?: GradientFill | null;
   layers: SerializedLayer[];
+  fonts?: CustomFont[];  // src points to a file in the fonts folder
 }
 
 /**
@@ -137,10 +255,7 @@ interface ProjectManifest {
 export const saveProjectToFile = async (project: ProjectFile): Promise<void> => {
   const zip = new JSZip();
   
-  // Extract images from layers
-  const { cleanedLayers, images } = extractImages(project.layers);
-  
-  // Create manifest (project data without embedded images)
+  // Create manifest (project data without embedded images, which go in the images folder)
   const manifest: ProjectManifest = {
     version: '2.0', // New version for ZIP format
     name: project.name,
@@ -148,25 +263,14 @@ export const saveProjectToFile = async (project: ProjectFile): Promise<void> =>
     modifiedAt: new Date().toISOString(),
     modelId: project.modelId,
     baseColor: project.baseColor,
-    layers: cleanedLayers,
+    baseGradient: project.baseGradient,
+    layers: writeProjectImages(zip, project.layers),
+    fonts: writeProjectFonts(zip, project.fonts),
   };
   
   // Add manifest to ZIP
   zip.file('manifest.json', JSON.stringify(manifest, null, 2));
   
-  // Add images folder and files
-  if (images.length > 0) {
-    const imagesFolder = zip.folder('images');
-    if (imagesFolder) {
-      for (const img of images) {
-        const bytes = dataUrlToUint8Array(img.dataUrl);
-        // Get just the filename from the path
-        const filename = img.filename.replace('images/', '');
-        imagesFolder.file(filename, bytes);
-      }
-    }
-  }
-  
   // Generate ZIP blob
   const blob = await zip.generateAsync({ 
     type: 'blob',
@@ -222,6 +326,7 @@ export const loadProjectFromFile = async (file: File | Blob): Promise<ProjectFil
       
       // Restore images from ZIP
       const restoredLayers = await restoreImages(manifest.layers, zip);
+      const restoredFonts = await restoreFonts(manifest.fonts ?? [], zip);
       
       return {
         version: manifest.version,
@@ -230,7 +335,9 @@ export const loadProjectFromFile = async (file: File | Blob): Promise<ProjectFil
         modifiedAt: manifest.modifiedAt,
         modelId: manifest.modelId,
         baseColor: manifest.baseColor,
+        baseGradient: manifest.baseGradient,
         layers: restoredLayers,
+        fonts: restoredFonts,
       };
     }
   } catch {
@@ -1,8 +1,9 @@
 import { supabase } from '../lib/supabase'
 import type { Stage } from 'konva/lib/Stage'
-import type { Line as KonvaLine } from 'konva/lib/shapes/Line'
 import type { ProjectFile } from '../editor/state/useEditorStore'
 import JSZip from 'jszip'
+import { hideEditorOverlays } from './editorOverlays'
+import { writeProjectFonts, writeProjectImages } from './projectFile'
 
 /**
  * Export PNG from stage and return as data URL
@@ -14,44 +15,9 @@ export function exportPngAsDataUrl(stage: Stage | null): Promise<string | null>
       return
     }
 
-    // Find and temporarily hide UI elements that shouldn't be exported
-    const transformer = stage.findOne('Transformer')
-    
-    // Store original visibility states
-    const elementsToHide: Array<{ node: any; wasVisible: boolean }> = []
-    
-    // Hide transformer if it exists
-    if (transformer) {
-      elementsToHide.push({ node: transformer, wasVisible: transformer.visible() })
-      transformer.visible(false)
-    }
-    
-    // Hide brush cursor groups
-    const allGroups = stage.find('Group')
-    allGroups.forEach((node) => {
-      const group = node as any
-      if (group.listening() === false) {
-        const children = group.getChildren()
-        const hasCircles = children.some((child: any) => child.getClassName() === 'Circle')
-        if (hasCircles && children.length >= 2) {
-          elementsToHide.push({ node: group, wasVisible: group.visible() })
-          group.visible(false)
-        }
-      }
-    })
+    // Temporarily hide UI elements that shouldn't be exported
+    const showOverlays = hideEditorOverlays(stage)
 
-    // Hide cyan guide lines (they have stroke="#00FFFF" or stroke="#00ffff")
-    const allLines = stage.find('Line')
-    allLines.forEach((lineNode) => {
-      const line = lineNode as KonvaLine
-      const stroke = line.stroke()
-      // Check for cyan color in various formats
-      if (stroke === '#00FFFF' || stroke === '#00ffff' || stroke === 'rgb(0, 255, 255)' || stroke === 'cyan') {
-        elementsToHide.push({ node: lineNode, wasVisible: lineNode.visible() })
-        lineNode.visible(false)
-      }
-    })
-    
     // Force redraw to apply visibility changes
     stage.batchDraw()
 
@@ -62,9 +28,7 @@ export function exportPngAsDataUrl(stage: Stage | null): Promise<string | null>
     })
 
     // Restore visibility of hidden elements
-    elementsToHide.forEach(({ node, wasVisible }) => {
-      node.visible(wasVisible)
-    })
+    showOverlays()
     
     // Force redraw to restore UI
     stage.batchDraw()
@@ -79,54 +43,6 @@ export function exportPngAsDataUrl(stage: Stage | null): Promise<string | null>
 export async function projectToBlob(project: ProjectFile): Promise<Blob> {
   const zip = new JSZip()
   
-  // Helper to convert data URL to Uint8Array
-  const dataUrlToUint8Array = (dataUrl: string): Uint8Array => {
-    const base64 = dataUrl.split(',')[1]
-    const binary = atob(base64)
-    const bytes = new Uint8Array(binary.length)
-    for (let i = 0; i < binary.length; i++) {
-      bytes[i] = binary.charCodeAt(i)
-    }
-    return bytes
-  }
-
-  // Extract images from layers
-  const images: Array<{ layerId: string; type: 'src' | 'fillImage'; dataUrl: string; filename: string }> = []
-  
-  const cleanedLayers = project.layers.map((layer) => {
-    const cleanLayer = { ...layer }
-    
-    // Handle image/texture layers
-    if ((layer.type === 'image' || layer.type === 'texture') && layer.src) {
-      if (layer.src.startsWith('data:')) {
-        const filename = `images/${layer.id}.png`
-        images.push({
-          layerId: layer.id,
-          type: 'src',
-          dataUrl: layer.src,
-          filename,
-        })
-        cleanLayer.src = filename
-      }
-    }
-    
-    // Handle fill layers
-    if (layer.type === 'fill' && layer.fillImageDataUrl) {
-      if (layer.fillImageDataUrl.startsWith('data:')) {
-        const filename = `images/fill-${layer.id}.png`
-        images.push({
-          layerId: layer.id,
-          type: 'fillImage',
-          dataUrl: layer.fillImageDataUrl,
-          filename,
-        })
-        cleanLayer.fillImageDataUrl = filename
-      }
-    }
-    
-    return cleanLayer
-  })
-
   // Create manifest
   const manifest = {
     version: '2.0',
@@ -135,24 +51,14 @@ export async function projectToBlob(project: ProjectFile): Promise<Blob> {
     modifiedAt: new Date().toISOString(),
     modelId: project.modelId,
     baseColor: project.baseColor,
-    layers: cleanedLayers,
+    baseGradient: project.baseGradient,
+    layers: writeProjectImages(zip, project.layers),
+    fonts: writeProjectFonts(zip, project.fonts),
   }
   
   // Add manifest to ZIP
   zip.file('manifest.json', JSON.stringify(manifest, null, 2))
   
-  // Add images folder and files
-  if (images.length > 0) {
-    const imagesFolder = zip.folder('images')
-    if (imagesFolder) {
-      for (const img of images) {
-        const bytes = dataUrlToUint8Array(img.dataUrl)
-        const filename = img.filename.replace('images/', '')
-        imagesFolder.file(filename, bytes)
-      }
-    }
-  }
-  
   // Generate ZIP blob
   return await zip.generateAsync({ 
     type: 'blob',
@@ -0,0 +1,272 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Stage } from 'konva/lib/Stage';
+import type { Transform } from 'konva/lib/Util';
+import type { BrushStrokeClip, Layer, LayerMask, PixelSelection, SelectionMode, ToolType } from '../editor/state/editorTypes';
+import { MASK_SIZE, createMaskCanvas, rasterizeMaskedLayer } from './layerMask';
+
+export const SELECTION_MODE_OPTIONS: { value: SelectionMode; label: string }[] = [
+  { value: 'replace', label: 'New' },
+  { value: 'add', label: 'Add' },
+  { value: 'subtract', label: 'Subtract' },
+  { value: 'intersect', label: 'Intersect' },
+];
+
+const SELECTION_TOOLS: string[] = ['rectSelect', 'ellipseSelect', 'lasso', 'magicWand'] satisfies ToolType[];
+
+export const isSelectionTool = (tool: string): boolean => SELECTION_TOOLS.includes(tool);
+
+// Shapes drawn by the marquee and lasso tools, in canvas space
+export type SelectionShape =
+  | { type: 'rect' | 'ellipse'; x: number; y: number; width: number; height: number }
+  | { type: 'polygon'; points: number[] };
+
+const createSelectionCanvas = (): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = MASK_SIZE;
+  canvas.height = MASK_SIZE;
+  return canvas;
+};
+
+// Blurs the edge of a selection canvas; feather is roughly how far the edge fades, in px
+const featherCanvas = (source: HTMLCanvasElement, feather: number): HTMLCanvasElement => {
+  if (feather <= 0) return source;
+  const canvas = createSelectionCanvas();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return source;
+  ctx.filter = `blur(${feather / 2}px)`;
+  ctx.drawImage(source, 0, 0);
+  return canvas;
+};
+
+/**
+ * Selection canvas covering a marquee or lasso shape
+ */
+export const drawSelectionShape = (shape: SelectionShape, feather: number): HTMLCanvasElement => {
+  const canvas = createSelectionCanvas();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  ctx.fillStyle = '#000000';
+  ctx.beginPath();
+  if (shape.type === 'polygon') {
+    ctx.moveTo(shape.points[0], shape.points[1]);
+    for (let i = 2; i < shape.points.length; i += 2) {
+      ctx.lineTo(shape.points[i], shape.points[i + 1]);
+    }
+    ctx.closePath();
+  } else if (shape.type === 'ellipse') {
+    ctx.ellipse(shape.x + shape.width / 2, shape.y + shape.height / 2, shape.width / 2, shape.height / 2, 0, 0, Math.PI * 2);
+  } else {
+    ctx.rect(shape.x, shape.y, shape.width, shape.height);
+  }
+  ctx.fill();
+  return featherCanvas(canvas, feather);
+};
+
+/**
+ * Selection canvas covering flood-filled pixels (byte offsets into an image of the given size),
+ * stretched over the canvas
+ */
+export const drawSelectionRegion = (pixels: Set<number>, width: number, height: number, feather: number): HTMLCanvasElement => {
+  const region = document.createElement('canvas');
+  region.width = width;
+  region.height = height;
+  const regionCtx = region.getContext('2d');
+  const canvas = createSelectionCanvas();
+  const ctx = canvas.getContext('2d');
+  if (!regionCtx || !ctx) return canvas;
+  const imageData = regionCtx.createImageData(width, height);
+  pixels.forEach((idx) => {
+    imageData.data[idx + 3] = 255;
+  });
+  regionCtx.putImageData(imageData, 0, 0);
+  ctx.drawImage(region, 0, 0, MASK_SIZE, MASK_SIZE);
+  return featherCanvas(canvas, feather);
+};
+
+/**
+ * Wrap a selection canvas with the bounds of its selected pixels, or null when nothing is selected
+ */
+export const toPixelSelection = (canvas: HTMLCanvasElement): PixelSelection | null => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const { data } = ctx.getImageData(0, 0, MASK_SIZE, MASK_SIZE);
+  let minX = MASK_SIZE;
+  let minY = MASK_SIZE;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < MASK_SIZE; y++) {
+    for (let x = 0; x < MASK_SIZE; x++) {
+      if (data[(y * MASK_SIZE + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  return { canvas, bounds: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } };
+};
+
+/**
+ * Combine a new selection shape with the current selection
+ */
+export const combineSelections = (
+  current: PixelSelection | null,
+  shape: HTMLCanvasElement,
+  mode: SelectionMode
+): PixelSelection | null => {
+  if (mode === 'replace' || (!current && mode === 'add')) return toPixelSelection(shape);
+  if (!current) return null;
+
+  const canvas = createSelectionCanvas();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return current;
+  ctx.drawImage(current.canvas, 0, 0);
+  ctx.globalCompositeOperation = mode === 'add' ? 'source-over' : mode === 'subtract' ? 'destination-out' : 'destination-in';
+  ctx.drawImage(shape, 0, 0);
+  return toPixelSelection(canvas);
+};
+
+/**
+ * Everything outside the selection (the whole canvas when nothing is selected)
+ */
+export const invertSelection = (selection: PixelSelection | null): PixelSelection | null => {
+  const canvas = createSelectionCanvas();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return selection;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, MASK_SIZE, MASK_SIZE);
+  if (selection) {
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.drawImage(selection.canvas, 0, 0);
+  }
+  return toPixelSelection(canvas);
+};
+
+/**
+ * How selected each canvas pixel is (0-255), row by row
+ */
+export const getSelectionAlpha = (selection: PixelSelection): Uint8ClampedArray => {
+  const ctx = selection.canvas.getContext('2d');
+  const alpha = new Uint8ClampedArray(MASK_SIZE * MASK_SIZE);
+  if (!ctx) return alpha;
+  const { data } = ctx.getImageData(0, 0, MASK_SIZE, MASK_SIZE);
+  for (let p = 0; p < alpha.length; p++) {
+    alpha[p] = data[p * 4 + 3];
+  }
+  return alpha;
+};
+
+/**
+ * Pixels on the edge of the selection (mostly selected, next to a mostly unselected pixel),
+ * for the marching ants
+ */
+export const getSelectionEdges = (selection: PixelSelection): number[] => {
+  const alpha = getSelectionAlpha(selection);
+  const isInside = (x: number, y: number) =>
+    x >= 0 && x < MASK_SIZE && y >= 0 && y < MASK_SIZE && alpha[y * MASK_SIZE + x] >= 128;
+  const edges: number[] = [];
+  const { x: left, y: top, width, height } = selection.bounds;
+  for (let y = top; y < top + height; y++) {
+    for (let x = left; x < left + width; x++) {
+      if (isInside(x, y) && (!isInside(x - 1, y) || !isInside(x + 1, y) || !isInside(x, y - 1) || !isInside(x, y + 1))) {
+        edges.push(y * MASK_SIZE + x);
+      }
+    }
+  }
+  return edges;
+};
+
+// Clips already made from each selection, by the transform they were made for, so all the
+// strokes painted through one selection share a clip
+const strokeClips = new WeakMap<PixelSelection, Map<string, BrushStrokeClip>>();
+
+/**
+ * The selection as a clip for brush strokes whose points are in the given group's space
+ */
+export const getStrokeClip = (selection: PixelSelection, parentTransform: Transform): BrushStrokeClip => {
+  const key = parentTransform.getMatrix().join(',');
+  const clips = strokeClips.get(selection) ?? new Map<string, BrushStrokeClip>();
+  strokeClips.set(selection, clips);
+  const cached = clips.get(key);
+  if (cached) return cached;
+
+  const toLocal = parentTransform.copy().invert();
+  const { x, y, width, height } = selection.bounds;
+  const corners = [
+    toLocal.point({ x, y }),
+    toLocal.point({ x: x + width, y }),
+    toLocal.point({ x, y: y + height }),
+    toLocal.point({ x: x + width, y: y + height }),
+  ];
+  const left = Math.floor(Math.min(...corners.map((p) => p.x)));
+  const top = Math.floor(Math.min(...corners.map((p) => p.y)));
+  const right = Math.ceil(Math.max(...corners.map((p) => p.x)));
+  const bottom = Math.ceil(Math.max(...corners.map((p) => p.y)));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, right - left);
+  canvas.height = Math.max(1, bottom - top);
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.translate(-left, -top);
+    const [a, b, c, d, e, f] = toLocal.getMatrix();
+    ctx.transform(a, b, c, d, e, f);
+    ctx.drawImage(selection.canvas, 0, 0);
+  }
+  const clip = { id: uuidv4(), src: canvas.toDataURL('image/png'), x: left, y: top, width: canvas.width, height: canvas.height };
+  clips.set(key, clip);
+  return clip;
+};
+
+/**
+ * Layer mask with the selected pixels hidden, so "delete" can be undone and refined later
+ */
+export const hideSelectionInMask = (mask: LayerMask | undefined, selection: PixelSelection): HTMLCanvasElement => {
+  const canvas = createMaskCanvas(mask?.image);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  // Inverted masks hide with white instead of black
+  const tinted = createSelectionCanvas();
+  const tintedCtx = tinted.getContext('2d');
+  if (!tintedCtx) return canvas;
+  tintedCtx.drawImage(selection.canvas, 0, 0);
+  tintedCtx.globalCompositeOperation = 'source-in';
+  tintedCtx.fillStyle = mask?.inverted ? '#ffffff' : '#000000';
+  tintedCtx.fillRect(0, 0, MASK_SIZE, MASK_SIZE);
+  ctx.drawImage(tinted, 0, 0);
+  return canvas;
+};
+
+/**
+ * The selected part of a layer as it shows on the canvas (mask included), cropped to the
+ * selection, for "copy selection to new layer"
+ */
+export const copySelectionPixels = (
+  stage: Stage,
+  layer: Layer,
+  selection: PixelSelection
+): { src: string; x: number; y: number } | null => {
+  let source: HTMLCanvasElement | null;
+  if (layer.mask?.image) {
+    source = rasterizeMaskedLayer(stage, layer);
+  } else {
+    const node = stage.findOne(`#${layer.id}`);
+    if (!node) return null;
+    const opacity = node.opacity();
+    node.opacity(1);
+    source = node.toCanvas({ x: 0, y: 0, width: MASK_SIZE, height: MASK_SIZE, pixelRatio: 1 });
+    node.opacity(opacity);
+  }
+  const ctx = source?.getContext('2d');
+  if (!source || !ctx) return null;
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(selection.canvas, 0, 0);
+
+  const { x, y, width, height } = selection.bounds;
+  const cropped = document.createElement('canvas');
+  cropped.width = width;
+  cropped.height = height;
+  cropped.getContext('2d')?.drawImage(source, x, y, width, height, 0, 0, width, height);
+  return { src: cropped.toDataURL('image/png'), x, y };
+};
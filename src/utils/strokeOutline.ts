@@ -0,0 +1,128 @@
+// Variable-width brush strokes (drawn with pen pressure) are filled outlines instead of lines:
+// a disc at every point and a band joining each pair of discs. Every piece winds the same way,
+// so filling them together with the nonzero rule gives their union.
+
+type StrokePiece =
+  | { type: 'disc'; x: number; y: number; radius: number }
+  | { type: 'band'; points: number[] };
+
+// Drawing calls shared by canvas and Konva contexts
+interface PathContext {
+  moveTo: (x: number, y: number) => void;
+  lineTo: (x: number, y: number) => void;
+  arc: (x: number, y: number, radius: number, startAngle: number, endAngle: number) => void;
+  closePath: () => void;
+}
+
+// Quad between the outer tangents of two discs, or null when one disc covers the other
+const getBand = (x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): number[] | null => {
+  const distance = Math.hypot(x1 - x0, y1 - y0);
+  if (distance <= Math.abs(r0 - r1)) return null;
+  const ux = (x1 - x0) / distance;
+  const uy = (y1 - y0) / distance;
+  const cos = (r0 - r1) / distance;
+  const sin = Math.sqrt(1 - cos * cos);
+  const a = { x: cos * ux - sin * uy, y: cos * uy + sin * ux };
+  const b = { x: cos * ux + sin * uy, y: cos * uy - sin * ux };
+  const quad = [
+    x0 + r0 * a.x, y0 + r0 * a.y,
+    x1 + r1 * a.x, y1 + r1 * a.y,
+    x1 + r1 * b.x, y1 + r1 * b.y,
+    x0 + r0 * b.x, y0 + r0 * b.y,
+  ];
+  // Wind it like the discs (clockwise on screen)
+  let area = 0;
+  for (let i = 0; i < 8; i += 2) {
+    const j = (i + 2) % 8;
+    area += quad[i] * quad[j + 1] - quad[j] * quad[i + 1];
+  }
+  if (area >= 0) return quad;
+  return [quad[6], quad[7], quad[4], quad[5], quad[2], quad[3], quad[0], quad[1]];
+};
+
+// Pieces covering the points from `from` to `to` (inclusive)
+const getStrokePieces = (points: number[], widths: number[], from = 0, to = points.length / 2 - 1): StrokePiece[] => {
+  const pieces: StrokePiece[] = [];
+  let prev: { x: number; y: number; radius: number } | null = null;
+  for (let i = from; i <= to; i++) {
+    const disc = { x: points[i * 2], y: points[i * 2 + 1], radius: (widths[i] ?? widths[widths.length - 1] ?? 0) / 2 };
+    pieces.push({ type: 'disc', ...disc });
+    if (prev) {
+      const band = getBand(prev.x, prev.y, prev.radius, disc.x, disc.y, disc.radius);
+      if (band) pieces.push({ type: 'band', points: band });
+    }
+    prev = disc;
+  }
+  return pieces;
+};
+
+const tracePieces = (ctx: PathContext, pieces: StrokePiece[]) => {
+  pieces.forEach((piece) => {
+    if (piece.type === 'disc') {
+      ctx.moveTo(piece.x + piece.radius, piece.y);
+      ctx.arc(piece.x, piece.y, piece.radius, 0, Math.PI * 2);
+    } else {
+      ctx.moveTo(piece.points[0], piece.points[1]);
+      for (let i = 2; i < piece.points.length; i += 2) {
+        ctx.lineTo(piece.points[i], piece.points[i + 1]);
+      }
+    }
+    ctx.closePath();
+  });
+};
+
+/**
+ * Add the outline of a variable-width stroke to the current path
+ */
+export const traceStrokeOutline = (ctx: PathContext, points: number[], widths: number[]): void => {
+  tracePieces(ctx, getStrokePieces(points, widths));
+};
+
+// Numbers for SVG path data, to three decimals
+const num = (value: number) => String(Math.round(value * 1000) / 1000);
+
+/**
+ * SVG path data of a variable-width stroke's outline (fill it with the nonzero rule)
+ */
+export const getStrokeOutlinePathData = (points: number[], widths: number[]): string =>
+  getStrokePieces(points, widths)
+    .map((piece) => {
+      if (piece.type === 'disc') {
+        const { x, y, radius } = piece;
+        const r = num(radius);
+        return `M ${num(x + radius)} ${num(y)} A ${r} ${r} 0 1 1 ${num(x - radius)} ${num(y)} ` +
+          `A ${r} ${r} 0 1 1 ${num(x + radius)} ${num(y)} Z`;
+      }
+      const corners = [];
+      for (let i = 0; i < piece.points.length; i += 2) corners.push(`${num(piece.points[i])} ${num(piece.points[i + 1])}`);
+      return `M ${corners.join(' L ')} Z`;
+    })
+    .join(' ');
+
+/**
+ * Paint a stroke whose opacity changes along its points. Each segment replaces what the
+ * previous one painted where they overlap, so the joins don't build up.
+ */
+export const paintFadingStroke = (
+  ctx: CanvasRenderingContext2D,
+  points: number[],
+  widths: number[],
+  alphas: number[],
+  color: string
+): void => {
+  const count = points.length / 2;
+  ctx.save();
+  ctx.fillStyle = color;
+  for (let i = 0; i < Math.max(1, count - 1); i++) {
+    const last = Math.min(i + 1, count - 1);
+    ctx.beginPath();
+    tracePieces(ctx, getStrokePieces(points, widths, i, last));
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.fill();
+    ctx.globalAlpha = ((alphas[i] ?? 1) + (alphas[last] ?? 1)) / 2;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fill();
+  }
+  ctx.restore();
+};
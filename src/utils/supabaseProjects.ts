@@ -1,6 +1,6 @@
 import { supabase } from '../lib/supabase';
-import type { ProjectFile, SerializedLayer } from '../editor/state/useEditorStore';
-import { loadProjectFromFile } from './projectFile';
+import type { ProjectFile } from '../editor/state/useEditorStore';
+import { loadProjectFromFile, writeProjectFonts, writeProjectImages } from './projectFile';
 import JSZip from 'jszip';
 
 export interface SavedDesign {
@@ -47,9 +47,6 @@ export const saveProjectToSupabase = async (
   // Convert project to ZIP blob
   const zip = new JSZip();
   
-  // Extract images from layers
-  const { cleanedLayers, images } = extractImages(project.layers);
-  
   // Create manifest
   const manifest = {
     version: '2.0',
@@ -58,23 +55,13 @@ export const saveProjectToSupabase = async (
     modifiedAt: new Date().toISOString(),
     modelId: project.modelId,
     baseColor: project.baseColor,
-    layers: cleanedLayers,
+    baseGradient: project.baseGradient,
+    layers: writeProjectImages(zip, project.layers),
+    fonts: writeProjectFonts(zip, project.fonts),
   };
   
   zip.file('manifest.json', JSON.stringify(manifest, null, 2));
   
-  // Add images
-  if (images.length > 0) {
-    const imagesFolder = zip.folder('images');
-    if (imagesFolder) {
-      for (const img of images) {
-        const bytes = dataUrlToUint8Array(img.dataUrl);
-        const filename = img.filename.replace('images/', '');
-        imagesFolder.file(filename, bytes);
-      }
-    }
-  }
-  
   const zipBlob = await zip.generateAsync({ 
     type: 'blob',
     compression: 'DEFLATE',
@@ -270,63 +257,7 @@ export const updateDesignVisibility = async (
 };
 
 // Helper functions
-interface ImageReference {
-  layerId: string;
-  type: 'src' | 'fillImage';
-  dataUrl: string;
-  filename: string;
-}
-
-const dataUrlToUint8Array = (dataUrl: string): Uint8Array => {
-  const base64 = dataUrl.split(',')[1];
-  const binary = atob(base64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes;
-};
-
 const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
   const response = await fetch(dataUrl);
   return await response.blob();
 };
-
-const extractImages = (layers: SerializedLayer[]): { cleanedLayers: SerializedLayer[]; images: ImageReference[] } => {
-  const images: ImageReference[] = [];
-  
-  const cleanedLayers = layers.map(layer => {
-    const cleanLayer = { ...layer };
-    
-    if ((layer.type === 'image' || layer.type === 'texture') && layer.src) {
-      if (layer.src.startsWith('data:')) {
-        const imageId = `img_${layer.id}_${Date.now()}.png`;
-        images.push({
-          layerId: layer.id,
-          type: 'src',
-          dataUrl: layer.src,
-          filename: `images/${imageId}`,
-        });
-        cleanLayer.src = `images/${imageId}`;
-      }
-    }
-    
-    if (layer.type === 'fill' && layer.fillImageDataUrl) {
-      const imageId = `fill_${layer.id}_${Date.now()}.png`;
-      images.push({
-        layerId: layer.id,
-        type: 'fillImage',
-        dataUrl: layer.fillImageDataUrl,
-        filename: `images/${imageId}`,
-      });
-      cleanLayer.fillImageDataUrl = `images/${imageId}`;
-    }
-    
-    return cleanLayer;
-  });
-  
-  return { cleanedLayers, images };
-};
-
-
-
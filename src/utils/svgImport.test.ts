@@ -0,0 +1,239 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GroupLayer, PathLayer, RectLayer, TextLayer } from '../editor/state/editorTypes';
+import { loadImage } from './image';
+import { importSvg } from './svgImport';
+
+vi.mock('./image', () => ({
+  loadImage: vi.fn((src: string) => Promise.resolve(Object.assign(document.createElement('img'), { src }))),
+}));
+
+declare global {
+  interface Window {
+    svgImportRan?: () => void;
+  }
+}
+
+const RASTER = 'data:image/png;base64,cmFzdGVy';
+
+// Lengths the test DOM doesn't lay out, read straight from the attributes. Each works both as a
+// single length (rect.x.baseVal.value) and as a list (text.x.baseVal[0].value).
+const LENGTHS = ['x', 'y', 'dy', 'width', 'height', 'rx', 'ry', 'cx', 'cy', 'r'];
+
+const svg = (content: string) => `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">${content}</svg>`;
+
+// A 100×100 viewBox is scaled up to 300px and centred on the 1024px canvas
+const toCanvas = (value: number) => 362 + value * 3;
+
+describe('importSvg', () => {
+  beforeEach(() => {
+    LENGTHS.forEach((name) => {
+      Object.defineProperty(SVGElement.prototype, name, {
+        configurable: true,
+        get(this: SVGElement) {
+          const values = (this.getAttribute(name) ?? '').split(/[\s,]+/).filter(Boolean).map((value) => ({ value: parseFloat(value) }));
+          return { baseVal: Object.assign(values, { value: values[0]?.value ?? 0 }) };
+        },
+      });
+    });
+    Object.defineProperty(SVGElement.prototype, 'getCTM', {
+      configurable: true,
+      value: () => ({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 }),
+    });
+    vi.stubGlobal('CSS', { escape: (value: string) => value.replace(/["\\]/g, '\\$&') });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      font: '',
+      measureText: (text: string) => ({ width: text.length * 10, fontBoundingBoxAscent: 16, fontBoundingBoxDescent: 4 }),
+      drawImage: vi.fn(),
+    } as unknown as CanvasRenderingContext2D);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue(RASTER);
+  });
+
+  afterEach(() => {
+    [...LENGTHS, 'getCTM'].forEach((name) => {
+      delete (SVGElement.prototype as unknown as Record<string, unknown>)[name];
+    });
+    delete window.svgImportRan;
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.mocked(loadImage).mockClear();
+  });
+
+  it('converts shapes into layers, grouped under the file name', async () => {
+    const result = await importSvg(svg(`
+      <rect x="10" y="20" width="30" height="40" rx="5" style="fill: #ff0000"/>
+      <path d="M 0 0 L 50 50" style="fill: none; stroke: #0000ff; stroke-width: 2; stroke-linecap: round"/>
+    `), 'Logo', 'group');
+
+    expect(result.rasterized).toBe(false);
+    expect(result.warnings).toEqual([]);
+    expect(result.layers).toHaveLength(1);
+    const group = result.layers[0] as GroupLayer;
+    expect(group).toMatchObject({ type: 'group', name: 'Logo' });
+
+    // The layer list is top first: the path was drawn last
+    const [path, rect] = group.children as [PathLayer, RectLayer];
+    expect(rect).toMatchObject({
+      type: 'rect',
+      name: 'Rectangle 1',
+      x: toCanvas(10),
+      y: toCanvas(20),
+      scaleX: 3,
+      scaleY: 3,
+      width: 30,
+      height: 40,
+      cornerRadius: 5,
+      fill: '#ff0000',
+    });
+    // Paths have the placement baked into their anchors and stroke
+    expect(path).toMatchObject({
+      type: 'path',
+      name: 'Path 1',
+      x: 0,
+      y: 0,
+      anchors: [{ x: toCanvas(0), y: toCanvas(0) }, { x: toCanvas(50), y: toCanvas(50) }],
+      closed: false,
+      fill: undefined,
+      stroke: '#0000ff',
+      strokeWidth: 6,
+      lineCap: 'round',
+    });
+  });
+
+  it('adds the layers on their own when importing them separately', async () => {
+    const result = await importSvg(svg(`
+      <circle id="Dot" cx="50" cy="50" r="10" style="fill: #00ff00"/>
+      <path d="M 0 0 H 10 V 10 Z" style="fill: #000000"/>
+    `), 'Logo', 'separate');
+
+    expect(result.layers.map((layer) => [layer.type, layer.name])).toEqual([
+      ['path', 'Path 1'],
+      ['circle', 'Dot'],
+    ]);
+    expect(result.layers[1]).toMatchObject({ x: toCanvas(50), y: toCanvas(50), radius: 10, fill: '#00ff00' });
+  });
+
+  it('keeps gradient fills in the layer’s own space', async () => {
+    const result = await importSvg(svg(`
+      <linearGradient id="Sky" gradientUnits="userSpaceOnUse" x1="10" y1="50" x2="90" y2="50">
+        <stop offset="0" style="stop-color: #ff0000"/>
+        <stop offset="100%" style="stop-color: #0000ff"/>
+      </linearGradient>
+      <linearGradient id="SkyCopy" href="#Sky" x1="0"/>
+      <rect x="10" y="10" width="80" height="80" style="fill: url(#Sky)"/>
+      <path d="M 0 0 H 100 V 100 Z" style="fill: url(#SkyCopy)"/>
+    `), 'Gradient', 'separate');
+
+    const [path, rect] = result.layers as [PathLayer, RectLayer];
+    expect(rect.fill).toBe('#ff0000');
+    expect(rect.fillGradient).toEqual({
+      type: 'linear',
+      stops: [{ offset: 0, color: '#ff0000' }, { offset: 1, color: '#0000ff' }],
+      start: { x: 0, y: 40 },
+      end: { x: 80, y: 40 },
+    });
+    // Attributes and stops not set on a gradient come from the one it links to
+    expect(path.fillGradient).toMatchObject({
+      stops: rect.fillGradient?.stops,
+      start: { x: toCanvas(0), y: toCanvas(50) },
+      end: { x: toCanvas(90), y: toCanvas(50) },
+    });
+  });
+
+  it('turns text into a text layer per positioned line', async () => {
+    const result = await importSvg(svg(`
+      <text x="10" y="50" style="font: bold 20px 'Brand Sans', sans-serif; fill: #112233">Hello   world</text>
+      <text x="50" y="20" style="font-size: 10px; font-style: italic; text-anchor: middle; fill: #000000">
+        <tspan x="50" y="20">First</tspan>
+        <tspan x="50" dy="12">Second</tspan>
+      </text>
+    `), 'Text', 'separate');
+
+    const [second, first, hello] = result.layers as TextLayer[];
+    expect(hello).toMatchObject({
+      type: 'text',
+      name: 'Hello world',
+      text: 'Hello world',
+      fontSize: 20,
+      fontFamily: 'Brand Sans',
+      fontStyle: 'bold',
+      fill: '#112233',
+      scaleX: 3,
+      // Placed by its top-left corner rather than the baseline
+      x: toCanvas(10),
+      y: toCanvas(50 - ((16 - 4) / 2 + 20 / 2)),
+    });
+    expect(first).toMatchObject({ text: 'First', fontStyle: 'italic', x: toCanvas(50 - 25) });
+    // Later lines carry on from the previous line's position
+    expect(second).toMatchObject({ text: 'Second', x: toCanvas(50 - 30), y: toCanvas(32 - 11) });
+  });
+
+  it('applies style sheets without turning the file into an image', async () => {
+    const result = await importSvg(svg(`
+      <style>
+        rect { fill: #ff0000; stroke: #000000 }
+        #Badge { fill: #0000ff }
+        .brand { fill: #00ff00; stroke-width: 4 }
+        .plain, .outline { fill: #ffff00 !important }
+      </style>
+      <rect id="Badge" class="brand" width="10" height="10"/>
+      <rect class="brand" width="10" height="10" style="fill: #abcdef"/>
+      <rect class="plain" width="10" height="10" style="fill: #abcdef"/>
+    `), 'Styled', 'separate');
+
+    expect(result.rasterized).toBe(false);
+    const [plain, inline, badge] = result.layers as RectLayer[];
+    expect(badge).toMatchObject({ fill: '#0000ff', stroke: '#000000', strokeWidth: 4 });
+    expect(inline.fill).toBe('#abcdef');
+    expect(plain.fill).toBe('#ffff00');
+  });
+
+  it('adds files it can’t convert as an image drawn from the original file', async () => {
+    const file = svg(`
+      <style>@import url(https://example.com/theme.css);</style>
+      <rect width="100" height="100" style="fill: #ff0000"/>
+    `);
+    const result = await importSvg(file, 'Themed', 'group');
+
+    expect(result.rasterized).toBe(true);
+    expect(result.warnings).toEqual([
+      "The SVG was added as a flat image. It uses style sheets that load other files, which can't be edited as layers.",
+    ]);
+    expect(result.layers).toHaveLength(1);
+    expect(result.layers[0]).toMatchObject({
+      type: 'image',
+      name: 'Themed',
+      src: RASTER,
+      x: toCanvas(0),
+      y: toCanvas(0),
+      scaleX: 0.5,
+      scaleY: 0.5,
+    });
+    const source = decodeURIComponent(vi.mocked(loadImage).mock.calls[0][0]);
+    expect(source).toContain('@import url(https://example.com/theme.css);');
+  });
+
+  it('never runs code from the file while reading its styles', async () => {
+    const ran = vi.fn();
+    window.svgImportRan = ran;
+    const mounted: string[] = [];
+    const appendChild = document.body.appendChild.bind(document.body);
+    vi.spyOn(document.body, 'appendChild').mockImplementation((node) => {
+      mounted.push((node as Element).innerHTML);
+      return appendChild(node);
+    });
+
+    const result = await importSvg(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10" onload="svgImportRan()">
+      <script>svgImportRan()</script>
+      <rect width="10" height="10" style="fill: #ff0000" onclick="svgImportRan()"/>
+      <foreignObject><img xmlns="http://www.w3.org/1999/xhtml" src="x" onerror="svgImportRan()"/></foreignObject>
+    </svg>`, 'Unsafe', 'group');
+
+    expect(ran).not.toHaveBeenCalled();
+    expect(mounted).toHaveLength(1);
+    expect(mounted[0]).not.toMatch(/onload|onclick|onerror|<script|foreignObject/i);
+    expect(mounted[0]).toContain('<rect');
+    expect(result.rasterized).toBe(true);
+    expect(result.warnings[0]).toContain('embedded HTML');
+  });
+});
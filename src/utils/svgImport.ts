@@ -0,0 +1,726 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Transform } from 'konva/lib/Util';
+import type {
+  CircleLayer,
+  GradientFill,
+  GradientStop,
+  GroupLayer,
+  ImageLayer,
+  Layer,
+  PathLayer,
+  PathSubpath,
+  RectLayer,
+  TextLayer,
+} from '../editor/state/editorTypes';
+import { parsePathData, transformAnchors } from './paths';
+import { loadImage } from './image';
+
+export type SvgImportMode = 'group' | 'separate';
+
+export interface SvgImportResult {
+  layers: Layer[];        // In layer list order (top first)
+  warnings: string[];
+  rasterized: boolean;    // The file couldn't be converted and was added as an image
+}
+
+type Point = { x: number; y: number };
+
+// Long side of the imported artwork on the canvas, as for images
+const TARGET_SIZE = 300;
+const CANVAS_SIZE = 1024;
+
+// Content of these elements is only drawn by reference
+const NON_RENDERED = new Set([
+  'defs', 'symbol', 'marker', 'clipPath', 'mask', 'pattern', 'linearGradient', 'radialGradient',
+  'filter', 'style', 'script', 'title', 'desc', 'metadata',
+]);
+
+const CONTAINERS = new Set(['svg', 'g', 'a', 'switch']);
+
+// Removed before the SVG is mounted to read its styles: they could run code, restyle the page or
+// load other files. Those that change how the SVG looks make it a flat image instead, drawn
+// from the original file (images never run scripts or load other files). Style sheets have
+// already been inlined by then.
+const UNSAFE_ELEMENTS: Record<string, string | null> = {
+  script: null,
+  style: null,
+  foreignObject: 'embedded HTML',
+  image: 'embedded images',
+  animate: null,
+  animateMotion: null,
+  animateTransform: null,
+  set: null,
+};
+
+// url(...) pointing outside the file
+const EXTERNAL_URL = /url\(\s*['"]?\s*[^#\s'"]/i;
+
+// Selectors of a rule, split on the commas outside any parentheses
+const splitSelectors = (selectorText: string) => selectorText.split(/,(?![^(]*\))/).map((selector) => selector.trim());
+
+/**
+ * Rough selector specificity as one comparable number: ids, then classes, attributes and
+ * pseudo-classes, then element names
+ */
+const getSpecificity = (selector: string) => {
+  const plain = selector.replace(/\[[^\]]*\]/g, '[]').replace(/\([^)]*\)/g, '');
+  const ids = plain.match(/#[\w-]+/g)?.length ?? 0;
+  const classes = plain.match(/\.[\w-]+|\[\]|(?<!:):[\w-]+/g)?.length ?? 0;
+  const types = plain.match(/(?:^|[\s>+~])[a-z][\w-]*|::[\w-]+/gi)?.length ?? 0;
+  return ids * 10000 + classes * 100 + types;
+};
+
+/**
+ * Copy the rules of the SVG's style sheets into the style attributes of the elements they
+ * match, in place, so its look survives the sheets being removed. Style attributes still win
+ * over the sheets, as in the cascade. Sheets that load other files can't be inlined safely and
+ * are left out; returns them as a feature the artwork relied on.
+ */
+const inlineStyleSheets = (root: Element): Set<string> => {
+  const skipped = new Set<string>();
+  const matched = new Map<Element, { style: CSSStyleDeclaration; specificity: number; order: number }[]>();
+  let order = 0;
+
+  const collect = (rules: CSSRuleList) => {
+    Array.from(rules).forEach((rule) => {
+      if (rule instanceof CSSMediaRule) {
+        if (window.matchMedia?.(rule.media.mediaText).matches) collect(rule.cssRules);
+        return;
+      }
+      if (!(rule instanceof CSSStyleRule)) return;
+      order += 1;
+      splitSelectors(rule.selectorText).forEach((selector) => {
+        let elements: Element[];
+        try {
+          elements = [root, ...Array.from(root.querySelectorAll(selector))].filter((element) => element.matches(selector));
+        } catch {
+          return;
+        }
+        elements.forEach((element) => {
+          const rules = matched.get(element) ?? [];
+          rules.push({ style: rule.style, specificity: getSpecificity(selector), order });
+          matched.set(element, rules);
+        });
+      });
+    });
+  };
+
+  Array.from(root.querySelectorAll('style')).forEach((element) => {
+    const text = element.textContent || '';
+    if (/@import/i.test(text) || EXTERNAL_URL.test(text)) {
+      skipped.add('style sheets that load other files');
+      return;
+    }
+    // A sheet that isn't attached to any document never loads or applies anything
+    const sheet = new CSSStyleSheet();
+    sheet.replaceSync(text);
+    collect(sheet.cssRules);
+  });
+
+  matched.forEach((rules, element) => {
+    const { style } = element as SVGElement;
+    if (!style) return;
+    const declarations = new Map<string, { value: string; important: boolean }>();
+    rules
+      .sort((a, b) => a.specificity - b.specificity || a.order - b.order)
+      .forEach((rule) => {
+        Array.from(rule.style).forEach((property) => {
+          const important = rule.style.getPropertyPriority(property) === 'important';
+          if (declarations.get(property)?.important && !important) return;
+          declarations.set(property, { value: rule.style.getPropertyValue(property), important });
+        });
+      });
+    declarations.forEach(({ value, important }, property) => {
+      if (style.getPropertyValue(property) && (!important || style.getPropertyPriority(property) === 'important')) return;
+      style.setProperty(property, value, important ? 'important' : '');
+    });
+  });
+  return skipped;
+};
+
+/**
+ * Strip scripts, event handlers, style sheets, embedded content and links to other files, in
+ * place. Returns what was removed that the artwork relied on.
+ */
+const sanitizeSvg = (root: Element): Set<string> => {
+  const removed = new Set<string>();
+  [root, ...Array.from(root.querySelectorAll('*'))].forEach((element) => {
+    if (element.localName in UNSAFE_ELEMENTS) {
+      const feature = UNSAFE_ELEMENTS[element.localName];
+      if (feature) removed.add(feature);
+      element.remove();
+      return;
+    }
+    Array.from(element.attributes).forEach((attribute) => {
+      const name = attribute.localName.toLowerCase();
+      const value = attribute.value.trim();
+      if (
+        name.startsWith('on') ||
+        (name === 'href' && !value.startsWith('#')) ||
+        EXTERNAL_URL.test(value)
+      ) {
+        element.removeAttributeNode(attribute);
+      }
+    });
+  });
+  return removed;
+};
+
+type Paint =
+  | { kind: 'none' }
+  | { kind: 'color'; color: string; alpha: number }
+  | { kind: 'gradient'; gradient: GradientFill; color: string };
+
+const toHex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+
+/**
+ * Computed CSS colour ("rgb(…)" / "rgba(…)") as hex plus alpha
+ */
+const parseCssColor = (value: string): { color: string; alpha: number } | null => {
+  const match = /rgba?\(([^)]+)\)/.exec(value);
+  if (!match) return null;
+  const [r, g, b, a = '1'] = match[1].split(/[\s,/]+/).filter(Boolean);
+  return { color: `#${toHex(parseFloat(r))}${toHex(parseFloat(g))}${toHex(parseFloat(b))}`, alpha: parseFloat(a) };
+};
+
+const parseOffset = (value: string | null): number => {
+  if (!value) return 0;
+  const number = parseFloat(value);
+  if (Number.isNaN(number)) return 0;
+  return Math.max(0, Math.min(1, value.trim().endsWith('%') ? number / 100 : number));
+};
+
+const toMatrix = (matrix: DOMMatrix | SVGMatrix | null | undefined): Transform =>
+  matrix ? new Transform([matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f]) : new Transform();
+
+const measureText = (text: string, font: string) => {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return { width: 0, ascent: 0, descent: 0 };
+  ctx.font = font;
+  const metrics = ctx.measureText(text);
+  return {
+    width: metrics.width,
+    ascent: metrics.fontBoundingBoxAscent ?? metrics.actualBoundingBoxAscent,
+    descent: metrics.fontBoundingBoxDescent ?? metrics.actualBoundingBoxDescent,
+  };
+};
+
+const createBase = (name: string, opacity: number) => ({
+  id: uuidv4(),
+  name,
+  visible: true,
+  locked: false,
+  opacity: Math.max(0, Math.min(1, opacity)),
+  x: 0,
+  y: 0,
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+});
+
+const isSkewed = (transform: Transform) => {
+  const { skewX, skewY } = transform.decompose();
+  return Math.abs(skewX) > 1e-3 || Math.abs(skewY) > 1e-3;
+};
+
+// Layer placement for a transform, dropping any skew
+const getPlacement = (transform: Transform) => {
+  const { x, y, rotation, scaleX, scaleY } = transform.decompose();
+  return { x, y, rotation, scaleX, scaleY };
+};
+
+// Placement for shapes that must stay exact; null when it is skewed
+const toPlacement = (transform: Transform) => (isSkewed(transform) ? null : getPlacement(transform));
+
+const mapGradient = (gradient: GradientFill, map: (point: Point) => Point): GradientFill => ({
+  ...gradient,
+  start: map(gradient.start),
+  end: map(gradient.end),
+});
+
+/**
+ * Convert the rendered elements of a mounted SVG into layers, in document order.
+ * Features that layers can't express are collected in `unsupported`.
+ */
+const convertElements = (root: SVGSVGElement, viewport: { width: number; height: number }, fit: Transform) => {
+  const counts: Record<string, number> = {};
+  const layers: Layer[] = [];
+  const unsupported = new Set<string>();
+  const warnings = new Set<string>();
+
+  const nextName = (label: string) => {
+    counts[label] = (counts[label] ?? 0) + 1;
+    return `${label} ${counts[label]}`;
+  };
+
+  const nameFor = (element: Element, label: string) => element.getAttribute('id') || nextName(label);
+
+  const findById = (id: string): Element | null => root.querySelector(`[id="${CSS.escape(id)}"]`);
+
+  const readPaint = (value: string, element: SVGGraphicsElement): Paint => {
+    if (!value || value === 'none') return { kind: 'none' };
+    const url = /url\(["']?#([^"')]+)["']?\)/.exec(value);
+    if (url) {
+      const gradient = readGradient(url[1], element);
+      if (gradient) return { kind: 'gradient', gradient, color: gradient.stops[0]?.color ?? '#000000' };
+      unsupported.add('pattern fills');
+      return { kind: 'none' };
+    }
+    const color = parseCssColor(value);
+    return color && color.alpha > 0 ? { kind: 'color', ...color } : { kind: 'none' };
+  };
+
+  /**
+   * Gradient in the element's user space. Attributes and stops are inherited through href.
+   */
+  const readGradient = (id: string, element: SVGGraphicsElement): GradientFill | null => {
+    const chain: Element[] = [];
+    let current = findById(id);
+    while (current && (current.localName === 'linearGradient' || current.localName === 'radialGradient') && !chain.includes(current)) {
+      chain.push(current);
+      const href = current.getAttribute('href') || current.getAttribute('xlink:href');
+      current = href?.startsWith('#') ? findById(href.slice(1)) : null;
+    }
+    if (chain.length === 0) return null;
+
+    const gradientElement = chain[0];
+    const attr = (name: string) => chain.map((el) => el.getAttribute(name)).find((value) => value !== null) ?? null;
+    const stopElements = chain.map((el) => Array.from(el.children).filter((child) => child.localName === 'stop')).find((s) => s.length > 0) ?? [];
+    const stops: GradientStop[] = stopElements.map((stop) => ({
+      offset: parseOffset(stop.getAttribute('offset')),
+      color: parseCssColor(getComputedStyle(stop).stopColor)?.color ?? '#000000',
+    }));
+    if (stops.length === 0) return null;
+    if (stops.length === 1) stops.push({ ...stops[0], offset: 1 });
+
+    const boundingBox = attr('gradientUnits') !== 'userSpaceOnUse';
+    const coordinate = (value: string | null, fallback: number, size: number) => {
+      if (value === null) return boundingBox ? fallback : fallback * size;
+      const number = parseFloat(value);
+      if (value.trim().endsWith('%')) return boundingBox ? number / 100 : (number / 100) * size;
+      return number;
+    };
+    const { width, height } = viewport;
+
+    const gradientTransform = toMatrix(
+      (gradientElement as SVGGradientElement).gradientTransform?.baseVal.consolidate()?.matrix
+    );
+    const bbox = boundingBox ? element.getBBox() : null;
+    const toUser = (point: Point): Point => {
+      const p = gradientTransform.point(point);
+      return bbox ? { x: bbox.x + p.x * bbox.width, y: bbox.y + p.y * bbox.height } : p;
+    };
+
+    if (gradientElement.localName === 'linearGradient') {
+      return {
+        type: 'linear',
+        stops,
+        start: toUser({ x: coordinate(attr('x1'), 0, width), y: coordinate(attr('y1'), 0, height) }),
+        end: toUser({ x: coordinate(attr('x2'), 1, width), y: coordinate(attr('y2'), 0, height) }),
+      };
+    }
+    const cx = coordinate(attr('cx'), 0.5, width);
+    const cy = coordinate(attr('cy'), 0.5, height);
+    const r = coordinate(attr('r'), 0.5, Math.hypot(width, height) / Math.SQRT2);
+    return { type: 'radial', stops, start: toUser({ x: cx, y: cy }), end: toUser({ x: cx + r, y: cy }) };
+  };
+
+  // Element's user space onto the canvas
+  const canvasTransform = (element: SVGGraphicsElement) => fit.copy().multiply(toMatrix(element.getCTM()));
+
+  const readStroke = (style: CSSStyleDeclaration, element: SVGGraphicsElement) => {
+    const paint = readPaint(style.stroke, element);
+    if (paint.kind === 'none') return null;
+    if (paint.kind === 'gradient') warnings.add('Gradient outlines were replaced with solid colours.');
+    const dash = style.strokeDasharray && style.strokeDasharray !== 'none'
+      ? style.strokeDasharray.split(/[\s,]+/).map(parseFloat).filter((n) => !Number.isNaN(n))
+      : [];
+    return {
+      color: paint.color,
+      width: parseFloat(style.strokeWidth) || 1,
+      opacity: parseFloat(style.strokeOpacity || '1') * (paint.kind === 'color' ? paint.alpha : 1),
+      lineCap: (['butt', 'round', 'square'].includes(style.strokeLinecap) ? style.strokeLinecap : 'butt') as PathLayer['lineCap'],
+      lineJoin: (['miter', 'round', 'bevel'].includes(style.strokeLinejoin) ? style.strokeLinejoin : 'miter') as PathLayer['lineJoin'],
+      dash: dash.length > 0 ? [dash[0], dash[1] ?? dash[0]] : undefined,
+    };
+  };
+
+  const readFill = (style: CSSStyleDeclaration, element: SVGGraphicsElement) => {
+    const paint = readPaint(style.fill, element);
+    if (paint.kind === 'none') return null;
+    return {
+      color: paint.color,
+      gradient: paint.kind === 'gradient' ? paint.gradient : undefined,
+      opacity: parseFloat(style.fillOpacity || '1') * (paint.kind === 'color' ? paint.alpha : 1),
+    };
+  };
+
+  /**
+   * Filled rects, circles and ellipses become native shape layers; outlines and skewed
+   * shapes go through the path conversion.
+   */
+  const convertBasicShape = (element: SVGGeometryElement, style: CSSStyleDeclaration, opacity: number) => {
+    const fill = readFill(style, element);
+    const stroke = readStroke(style, element);
+    const transform = canvasTransform(element);
+
+    if (element.localName === 'rect') {
+      const rect = element as unknown as SVGRectElement;
+      const x = rect.x.baseVal.value;
+      const y = rect.y.baseVal.value;
+      const width = rect.width.baseVal.value;
+      const height = rect.height.baseVal.value;
+      const rx = rect.hasAttribute('rx') ? rect.rx.baseVal.value : rect.ry.baseVal.value;
+      const placement = toPlacement(transform.copy().translate(x, y));
+      if (!fill || !placement || width <= 0 || height <= 0) {
+        convertPath(element, style, opacity);
+        return;
+      }
+      const layer: RectLayer = {
+        ...createBase(nameFor(element, 'Rectangle'), opacity * fill.opacity),
+        ...placement,
+        type: 'rect',
+        width,
+        height,
+        fill: fill.color,
+        fillGradient: fill.gradient && mapGradient(fill.gradient, (p) => ({ x: p.x - x, y: p.y - y })),
+        stroke: stroke?.color,
+        strokeWidth: stroke?.width,
+        cornerRadius: rx > 0 ? Math.min(rx, width / 2, height / 2) : undefined,
+      };
+      layers.push(layer);
+      return;
+    }
+
+    const shape = element as unknown as SVGCircleElement & SVGEllipseElement;
+    const cx = shape.cx.baseVal.value;
+    const cy = shape.cy.baseVal.value;
+    const rx = element.localName === 'circle' ? shape.r.baseVal.value : shape.rx.baseVal.value;
+    const ry = element.localName === 'circle' ? rx : shape.ry.baseVal.value;
+    const placement = rx > 0 && ry > 0 ? toPlacement(transform.copy().translate(cx, cy).scale(1, ry / rx)) : null;
+    if (!fill || !placement) {
+      convertPath(element, style, opacity);
+      return;
+    }
+    const layer: CircleLayer = {
+      ...createBase(nameFor(element, 'Ellipse'), opacity * fill.opacity),
+      ...placement,
+      type: 'circle',
+      radius: rx,
+      fill: fill.color,
+      fillGradient: fill.gradient && mapGradient(fill.gradient, (p) => ({ x: p.x - cx, y: ((p.y - cy) * rx) / ry })),
+      stroke: stroke?.color,
+      strokeWidth: stroke?.width,
+    };
+    layers.push(layer);
+  };
+
+  const getPathData = (element: SVGGeometryElement): string => {
+    const number = (name: string) => parseFloat(element.getAttribute(name) || '0') || 0;
+    switch (element.localName) {
+      case 'path':
+        return element.getAttribute('d') || '';
+      case 'line':
+        return `M ${number('x1')} ${number('y1')} L ${number('x2')} ${number('y2')}`;
+      case 'polyline':
+      case 'polygon': {
+        const points = Array.from((element as unknown as SVGPolylineElement).points).map((p) => `${p.x} ${p.y}`);
+        if (points.length === 0) return '';
+        return `M ${points.join(' L ')}${element.localName === 'polygon' ? ' Z' : ''}`;
+      }
+      case 'rect': {
+        const rect = element as unknown as SVGRectElement;
+        const x = rect.x.baseVal.value;
+        const y = rect.y.baseVal.value;
+        const w = rect.width.baseVal.value;
+        const h = rect.height.baseVal.value;
+        const rx = Math.min(w / 2, rect.hasAttribute('rx') ? rect.rx.baseVal.value : rect.ry.baseVal.value);
+        const ry = Math.min(h / 2, rect.hasAttribute('ry') ? rect.ry.baseVal.value : rx);
+        if (rx <= 0 || ry <= 0) return `M ${x} ${y} H ${x + w} V ${y + h} H ${x} Z`;
+        return `M ${x + rx} ${y} H ${x + w - rx} A ${rx} ${ry} 0 0 1 ${x + w} ${y + ry} V ${y + h - ry} ` +
+          `A ${rx} ${ry} 0 0 1 ${x + w - rx} ${y + h} H ${x + rx} A ${rx} ${ry} 0 0 1 ${x} ${y + h - ry} ` +
+          `V ${y + ry} A ${rx} ${ry} 0 0 1 ${x + rx} ${y} Z`;
+      }
+      case 'circle':
+      case 'ellipse': {
+        const shape = element as unknown as SVGCircleElement & SVGEllipseElement;
+        const cx = shape.cx.baseVal.value;
+        const cy = shape.cy.baseVal.value;
+        const rx = element.localName === 'circle' ? shape.r.baseVal.value : shape.rx.baseVal.value;
+        const ry = element.localName === 'circle' ? rx : shape.ry.baseVal.value;
+        return `M ${cx - rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx + rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z`;
+      }
+      default:
+        return '';
+    }
+  };
+
+  /**
+   * Any shape as a path layer. The element's transform is baked into the anchors,
+   * so the layer itself sits untransformed on the canvas.
+   */
+  const convertPath = (element: SVGGeometryElement, style: CSSStyleDeclaration, opacity: number) => {
+    let subpaths: PathSubpath[];
+    try {
+      subpaths = parsePathData(getPathData(element)).filter((subpath) => subpath.anchors.length > 1);
+    } catch {
+      warnings.add('Some shapes had invalid path data and were skipped.');
+      return;
+    }
+    if (subpaths.length === 0) return;
+
+    const fill = readFill(style, element);
+    const stroke = readStroke(style, element);
+    if (!fill && !stroke) return;
+
+    const transform = canvasTransform(element);
+    const { scaleX, scaleY } = transform.decompose();
+    const strokeScale = Math.sqrt(Math.abs(scaleX * scaleY));
+    const [main, ...rest] = subpaths.map((subpath) => ({
+      anchors: transformAnchors(subpath.anchors, transform),
+      closed: subpath.closed,
+    }));
+    const label = element.localName === 'path' ? 'Path' : element.localName === 'line' ? 'Line' : 'Shape';
+
+    const layer: PathLayer = {
+      ...createBase(nameFor(element, label), opacity * (fill ? fill.opacity : stroke?.opacity ?? 1)),
+      type: 'path',
+      anchors: main.anchors,
+      closed: main.closed,
+      subpaths: rest.length > 0 ? rest : undefined,
+      fillRule: style.fillRule === 'evenodd' ? 'evenodd' : undefined,
+      fill: fill?.color,
+      fillGradient: fill?.gradient && mapGradient(fill.gradient, (p) => transform.point(p)),
+      stroke: stroke?.color ?? '#000000',
+      strokeWidth: stroke ? stroke.width * strokeScale : 0,
+      lineCap: stroke?.lineCap ?? 'butt',
+      lineJoin: stroke?.lineJoin ?? 'miter',
+      dash: stroke?.dash?.map((value) => value * strokeScale),
+    };
+    layers.push(layer);
+  };
+
+  /**
+   * Text becomes a text layer per line. Lines are the text element itself, or its
+   * tspans when they are positioned on their own.
+   */
+  const convertText = (element: SVGTextElement, opacity: number) => {
+    if (element.querySelector('textPath')) {
+      unsupported.add('text on a path');
+      return;
+    }
+    const positioned = Array.from(element.children).filter(
+      (child) => child.localName === 'tspan' && (child.hasAttribute('x') || child.hasAttribute('y'))
+    ) as SVGTSpanElement[];
+    if (positioned.length > 0 && positioned.length !== element.children.length) {
+      warnings.add('Mixed text positioning was simplified.');
+    }
+
+    const transform = canvasTransform(element);
+    let previous = { x: element.x.baseVal[0]?.value ?? 0, y: element.y.baseVal[0]?.value ?? 0 };
+    const lines = positioned.length > 0 ? positioned : [element];
+    lines.forEach((line) => {
+      const text = (line.textContent || '').replace(/\s+/g, ' ').trim();
+      const position = {
+        x: line.x.baseVal[0]?.value ?? previous.x,
+        y: (line.y.baseVal[0]?.value ?? previous.y) + (line.dy.baseVal[0]?.value ?? 0),
+      };
+      previous = position;
+      if (!text) return;
+
+      const style = getComputedStyle(line);
+      const fill = readFill(style, line);
+      if (!fill) return;
+      if (style.stroke && style.stroke !== 'none') warnings.add('Text outlines were dropped.');
+
+      const fontSize = parseFloat(style.fontSize) || 16;
+      const fontFamily = style.fontFamily.split(',')[0].replace(/["']/g, '').trim() || 'Arial';
+      const bold = style.fontWeight === 'bold' || parseInt(style.fontWeight, 10) >= 600;
+      const italic = style.fontStyle === 'italic' || style.fontStyle === 'oblique';
+      const fontStyle = (bold && italic ? 'bold italic' : bold ? 'bold' : italic ? 'italic' : 'normal') as TextLayer['fontStyle'];
+      const metrics = measureText(text, `${italic ? 'italic ' : ''}${bold ? 'bold ' : ''}${fontSize}px ${fontFamily}`);
+
+      // SVG positions the baseline at the anchor point; text layers are placed by their top-left corner
+      const anchorShift = style.textAnchor === 'middle' ? metrics.width / 2 : style.textAnchor === 'end' ? metrics.width : 0;
+      const origin = { x: position.x - anchorShift, y: position.y - ((metrics.ascent - metrics.descent) / 2 + fontSize / 2) };
+      const placement = transform.copy().translate(origin.x, origin.y);
+      if (isSkewed(placement)) {
+        warnings.add('Skewed text was straightened.');
+      }
+      const decoration = style.textDecorationLine || style.textDecoration || '';
+
+      const layer: TextLayer = {
+        ...createBase(text.length > 24 ? `${text.slice(0, 24)}…` : text, opacity * fill.opacity),
+        ...getPlacement(placement),
+        type: 'text',
+        text,
+        fontSize,
+        fontFamily,
+        fill: fill.color,
+        fillGradient: fill.gradient && mapGradient(fill.gradient, (p) => ({ x: p.x - origin.x, y: p.y - origin.y })),
+        align: 'left',
+        verticalAlign: 'top',
+        fontStyle,
+        textDecoration: decoration.includes('underline') ? 'underline' : decoration.includes('line-through') ? 'line-through' : 'none',
+      };
+      layers.push(layer);
+    });
+  };
+
+  const walk = (parent: Element, opacity: number) => {
+    Array.from(parent.children).forEach((element) => {
+      const tag = element.localName;
+      if (NON_RENDERED.has(tag)) return;
+      const style = getComputedStyle(element);
+      if (style.display === 'none') return;
+
+      if (style.clipPath && style.clipPath !== 'none') unsupported.add('clipping paths');
+      if (style.mask && style.mask !== 'none') unsupported.add('masks');
+      if (style.filter && style.filter !== 'none') unsupported.add('filters');
+
+      const elementOpacity = opacity * parseFloat(style.opacity || '1');
+      if (CONTAINERS.has(tag)) {
+        walk(element, elementOpacity);
+        return;
+      }
+      if (style.visibility === 'hidden') return;
+
+      switch (tag) {
+        case 'rect':
+        case 'circle':
+        case 'ellipse':
+          convertBasicShape(element as SVGGeometryElement, style, elementOpacity);
+          break;
+        case 'line':
+        case 'polyline':
+        case 'polygon':
+        case 'path':
+          convertPath(element as SVGGeometryElement, style, elementOpacity);
+          break;
+        case 'text':
+          convertText(element as SVGTextElement, elementOpacity);
+          break;
+        case 'image':
+          unsupported.add('embedded images');
+          break;
+        case 'use':
+          unsupported.add('reused symbols (<use>)');
+          break;
+        case 'foreignObject':
+          unsupported.add('embedded HTML');
+          break;
+      }
+    });
+  };
+
+  walk(root, 1);
+  return { layers, unsupported, warnings };
+};
+
+/**
+ * Draw the SVG into a PNG image layer at twice its canvas size, for files that can't be converted
+ */
+const rasterize = async (svg: string, name: string, width: number, height: number, fit: Transform): Promise<ImageLayer> => {
+  const source = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+  const { x, y, scaleX } = fit.decompose();
+  const resolution = 2;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scaleX * resolution));
+  canvas.height = Math.max(1, Math.round(height * scaleX * resolution));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const src = canvas.toDataURL('image/png');
+  const image = await loadImage(src);
+  return {
+    ...createBase(name, 1),
+    type: 'image',
+    src,
+    image,
+    x,
+    y,
+    scaleX: 1 / resolution,
+    scaleY: 1 / resolution,
+  };
+};
+
+/**
+ * Convert an SVG file into native layers, scaled to ~300px and centred on the canvas.
+ * Files using features the layers can't express are added as a single rasterized image instead.
+ */
+export const importSvg = async (text: string, name: string, mode: SvgImportMode): Promise<SvgImportResult> => {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const parsed = doc.documentElement;
+  if (doc.querySelector('parsererror') || parsed.localName !== 'svg') {
+    throw new Error('This file is not a valid SVG.');
+  }
+
+  // Styles and transforms are resolved by the browser, so the SVG is laid out off-screen while
+  // converting: moved out of view rather than hidden, which every shape would inherit. It's
+  // cleaned up while still in the parsed document, where nothing runs or loads.
+  const safe = parsed.cloneNode(true) as Element;
+  const removed = inlineStyleSheets(safe);
+  sanitizeSvg(safe).forEach((feature) => removed.add(feature));
+  const container = document.createElement('div');
+  container.style.cssText = 'position:fixed;left:-10000px;top:0;width:0;height:0;overflow:hidden;';
+  const root = document.importNode(safe, true) as unknown as SVGSVGElement;
+  container.appendChild(root);
+  document.body.appendChild(container);
+
+  try {
+    const viewBox = root.viewBox.baseVal;
+    let width = viewBox && viewBox.width > 0 ? viewBox.width : parseFloat(root.getAttribute('width') || '') || 0;
+    let height = viewBox && viewBox.height > 0 ? viewBox.height : parseFloat(root.getAttribute('height') || '') || 0;
+    if (width <= 0 || height <= 0) {
+      const bbox = root.getBBox();
+      width = bbox.x + bbox.width;
+      height = bbox.y + bbox.height;
+    }
+    if (width <= 0 || height <= 0) {
+      throw new Error('The SVG has no size.');
+    }
+    // One SVG unit per CSS pixel, so element transforms map straight into the artwork's space
+    root.setAttribute('width', String(width));
+    root.setAttribute('height', String(height));
+    parsed.setAttribute('width', String(width));
+    parsed.setAttribute('height', String(height));
+
+    const scale = TARGET_SIZE / Math.max(width, height);
+    const fit = new Transform()
+      .translate((CANVAS_SIZE - width * scale) / 2, (CANVAS_SIZE - height * scale) / 2)
+      .scale(scale, scale);
+
+    const converter = convertElements(root, { width, height }, fit);
+    removed.forEach((feature) => converter.unsupported.add(feature));
+
+    if (converter.unsupported.size > 0 || converter.layers.length === 0) {
+      const reason = converter.unsupported.size > 0
+        ? `It uses ${Array.from(converter.unsupported).join(', ')}, which can't be edited as layers.`
+        : 'No shapes could be converted.';
+      const image = await rasterize(new XMLSerializer().serializeToString(parsed), name, width, height, fit);
+      return {
+        layers: [image],
+        warnings: [`The SVG was added as a flat image. ${reason}`],
+        rasterized: true,
+      };
+    }
+
+    // SVG paints in document order; the layer list has the top layer first
+    const layers = [...converter.layers].reverse();
+    const warnings = Array.from(converter.warnings);
+    if (mode === 'separate') {
+      return { layers, warnings, rasterized: false };
+    }
+    const group: GroupLayer = {
+      ...createBase(name, 1),
+      type: 'group',
+      children: layers,
+    };
+    return { layers: [group], warnings, rasterized: false };
+  } finally {
+    container.remove();
+  }
+};
+
+export const isSvgFile = (file: File): boolean =>
+  file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
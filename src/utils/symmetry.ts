@@ -0,0 +1,66 @@
+import { Transform } from 'konva/lib/Util';
+import type { BrushStroke, Layer, SymmetryMode, SymmetrySettings } from '../editor/state/editorTypes';
+
+export const SYMMETRY_MODE_OPTIONS: { value: SymmetryMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'vertical', label: 'Vertical' },
+  { value: 'horizontal', label: 'Horizontal' },
+  { value: 'both', label: 'Both' },
+];
+
+// One mirrored copy: flipX mirrors across the vertical axis, flipY across the horizontal one
+export interface Reflection {
+  flipX: boolean;
+  flipY: boolean;
+}
+
+/**
+ * The mirrored copies symmetry adds to everything painted or created (none when it's off)
+ */
+export const getReflections = ({ mode }: SymmetrySettings): Reflection[] => {
+  const reflections: Reflection[] = [];
+  if (mode === 'vertical' || mode === 'both') reflections.push({ flipX: true, flipY: false });
+  if (mode === 'horizontal' || mode === 'both') reflections.push({ flipX: false, flipY: true });
+  if (mode === 'both') reflections.push({ flipX: true, flipY: true });
+  return reflections;
+};
+
+/**
+ * Canvas-space transform of a reflection across the symmetry axes
+ */
+export const getReflectionTransform = ({ flipX, flipY }: Reflection, { x, y }: SymmetrySettings): Transform =>
+  new Transform([flipX ? -1 : 1, 0, 0, flipY ? -1 : 1, flipX ? 2 * x : 0, flipY ? 2 * y : 0]);
+
+/**
+ * A layer at the top of the list mirrored across the symmetry axes. Flipping its scale mirrors
+ * its content, so this works for every layer type.
+ */
+export const mirrorLayer = <T extends Layer>(layer: T, { flipX, flipY }: Reflection, symmetry: SymmetrySettings): T => ({
+  ...layer,
+  x: flipX ? 2 * symmetry.x - layer.x : layer.x,
+  y: flipY ? 2 * symmetry.y - layer.y : layer.y,
+  rotation: flipX !== flipY ? -layer.rotation : layer.rotation,
+  scaleX: flipX ? -(layer.scaleX || 1) : layer.scaleX,
+  scaleY: flipY ? -(layer.scaleY || 1) : layer.scaleY,
+});
+
+/**
+ * A brush stroke mirrored across the symmetry axes. `toCanvas` maps the stroke's points onto
+ * the canvas; the copy stays in the same space.
+ */
+export const mirrorStroke = (
+  stroke: BrushStroke,
+  toCanvas: Transform,
+  reflection: Reflection,
+  symmetry: SymmetrySettings
+): BrushStroke => {
+  const mirror = toCanvas.copy().invert().multiply(getReflectionTransform(reflection, symmetry)).multiply(toCanvas);
+  const points: number[] = [];
+  for (let i = 0; i < stroke.points.length; i += 2) {
+    const point = mirror.point({ x: stroke.points[i], y: stroke.points[i + 1] });
+    points.push(point.x, point.y);
+  }
+  // A single flip turns a calligraphy nib or stamp the other way
+  const tip = stroke.tip && reflection.flipX !== reflection.flipY ? { ...stroke.tip, angle: 180 - stroke.tip.angle } : stroke.tip;
+  return { ...stroke, points, ...(tip && { tip }) };
+};
@@ -0,0 +1,156 @@
+import { Path } from 'konva/lib/shapes/Path';
+import { Text } from 'konva/lib/shapes/Text';
+import type { Layer, TextLayer, TextPathSettings } from '../editor/state/editorTypes';
+import { getLayerTransform, getParentTransform } from '../editor/state/layerTree';
+import { getPathData, transformAnchors } from './paths';
+import { getDisplayText } from './textStyle';
+
+// A letter placed on the curve: drawn at (x, y) on its baseline, turned by rotation (radians)
+export interface PathGlyph {
+  char: string;
+  x: number;
+  y: number;
+  rotation: number;
+  width: number;
+}
+
+export interface TextPathLayout {
+  glyphs: PathGlyph[];
+  font: string;      // Canvas font string
+  ascent: number;
+  descent: number;
+  // Box around all letters in the text's own space
+  bounds: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Curve shapes offered for text, in the order shown in the properties panel
+ */
+export const TEXT_PATH_SHAPE_OPTIONS: { value: TextPathSettings['shape']; label: string }[] = [
+  { value: 'circle', label: 'Circle' },
+  { value: 'arc', label: 'Arc' },
+  { value: 'path', label: 'Path' },
+];
+
+export const createTextPath = (shape: TextPathSettings['shape']): TextPathSettings => ({
+  shape,
+  radius: 150,
+  arcAngle: 120,
+  startOffset: 0,
+  side: 'outside',
+});
+
+/**
+ * Copy a path layer's curve into a text layer's own space, so the text follows it on the canvas
+ */
+export const getTextPathFromLayer = (layers: Layer[], text: TextLayer, path: Layer): Pick<TextPathSettings, 'anchors' | 'closed'> => {
+  if (path.type !== 'path') return {};
+  const textToCanvas = getParentTransform(layers, text.id).multiply(getLayerTransform(text));
+  const pathToText = textToCanvas.invert().multiply(getParentTransform(layers, path.id)).multiply(getLayerTransform(path));
+  return { anchors: transformAnchors(path.anchors, pathToText), closed: path.closed };
+};
+
+/**
+ * SVG path data of the curve, in the text's own space. Circles run clockwise from the top;
+ * arcs run left to right over the top.
+ */
+export const getTextPathData = (settings: TextPathSettings): string => {
+  const r = Math.max(1, settings.radius);
+  switch (settings.shape) {
+    case 'circle':
+      return `M ${r} 0 A ${r} ${r} 0 1 1 ${r} ${2 * r} A ${r} ${r} 0 1 1 ${r} 0 Z`;
+    case 'arc': {
+      const sweep = (Math.min(359, Math.max(1, settings.arcAngle)) * Math.PI) / 180;
+      const from = -Math.PI / 2 - sweep / 2;
+      const to = -Math.PI / 2 + sweep / 2;
+      return `M ${r + r * Math.cos(from)} ${r + r * Math.sin(from)} ` +
+        `A ${r} ${r} 0 ${sweep > Math.PI ? 1 : 0} 1 ${r + r * Math.cos(to)} ${r + r * Math.sin(to)}`;
+    }
+    case 'path':
+      return settings.anchors && settings.anchors.length > 1 ? getPathData(settings.anchors, !!settings.closed) : '';
+  }
+};
+
+/**
+ * Place every letter of a text layer along its curve. The layer's alignment decides whether the
+ * text starts, centres or ends at the start offset. Letters running off an open curve are dropped.
+ */
+export const layoutTextOnPath = (layer: TextLayer): TextPathLayout | null => {
+  const settings = layer.textPath;
+  if (!settings) return null;
+  const data = getTextPathData(settings);
+  if (!data) return null;
+
+  // Measured the same way Konva measures straight text
+  const measurer = new Text({
+    fontSize: layer.fontSize,
+    fontFamily: layer.fontFamily,
+    fontStyle: layer.fontStyle,
+    fontVariant: layer.textCase === 'small-caps' ? 'small-caps' : 'normal',
+  });
+  const metrics = measurer.measureSize('M');
+  const ascent = metrics.fontBoundingBoxAscent ?? metrics.actualBoundingBoxAscent;
+  const descent = metrics.fontBoundingBoxDescent ?? metrics.actualBoundingBoxDescent;
+  const font = measurer._getContextFont();
+  const chars = Array.from(getDisplayText(layer).replace(/\s*\n\s*/g, ' '));
+  const widths = chars.map((char) => measurer.measureSize(char).width + (layer.letterSpacing ?? 0));
+  measurer.destroy();
+
+  const path = new Path({ data });
+  const length = path.getLength();
+  if (!length) {
+    path.destroy();
+    return null;
+  }
+
+  const total = widths.reduce((sum, width) => sum + width, 0);
+  const closed = settings.shape === 'circle' || (settings.shape === 'path' && !!settings.closed);
+  const wrap = (at: number) => (closed ? ((at % length) + length) % length : Math.max(0, Math.min(length, at)));
+
+  let offset = (settings.startOffset / 100) * length;
+  if (layer.align === 'center') offset -= total / 2;
+  if (layer.align === 'right') offset -= total;
+
+  const glyphs: PathGlyph[] = [];
+  chars.forEach((char, index) => {
+    const width = widths[index];
+    const middle = offset + width / 2;
+    offset += width;
+    if (!closed && (middle < 0 || middle > length)) return;
+
+    const point = path.getPointAtLength(wrap(middle));
+    const delta = Math.max(width / 2, 1);
+    const before = path.getPointAtLength(wrap(middle - delta));
+    const after = path.getPointAtLength(wrap(middle + delta));
+    if (!point || !before || !after) return;
+    const rotation = Math.atan2(after.y - before.y, after.x - before.x);
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    // Inside, the baseline drops below the curve so the letters hang from it
+    const drop = settings.side === 'inside' ? ascent : 0;
+    glyphs.push({
+      char,
+      x: point.x - (cos * width) / 2 - sin * drop,
+      y: point.y - (sin * width) / 2 + cos * drop,
+      rotation,
+      width,
+    });
+  });
+  path.destroy();
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  glyphs.forEach((glyph) => {
+    const cos = Math.cos(glyph.rotation);
+    const sin = Math.sin(glyph.rotation);
+    [[0, -ascent], [glyph.width, -ascent], [0, descent], [glyph.width, descent]].forEach(([gx, gy]) => {
+      xs.push(glyph.x + gx * cos - gy * sin);
+      ys.push(glyph.y + gx * sin + gy * cos);
+    });
+  });
+  const bounds = xs.length > 0
+    ? { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) }
+    : { x: 0, y: 0, width: 0, height: 0 };
+
+  return { glyphs, font, ascent, descent, bounds };
+};
@@ -0,0 +1,39 @@
+import type { TextLayer } from '../editor/state/editorTypes';
+
+/**
+ * Letter case options offered for text, in the order shown in the properties panel
+ */
+export const TEXT_CASE_OPTIONS: { value: NonNullable<TextLayer['textCase']>; label: string }[] = [
+  { value: 'none', label: 'Aa' },
+  { value: 'uppercase', label: 'AA' },
+  { value: 'small-caps', label: 'Small Caps' },
+];
+
+/**
+ * The text as it is drawn: all caps changes the letters, small caps is left to the font
+ */
+export const getDisplayText = (layer: TextLayer): string =>
+  layer.textCase === 'uppercase' ? layer.text.toUpperCase() : layer.text;
+
+/**
+ * Konva Text attributes for a text layer's letters and paragraph box. Shared by the canvas,
+ * warped text and measurements so they all lay the text out the same way.
+ */
+export const getTextStyleProps = (layer: TextLayer) => ({
+  text: getDisplayText(layer),
+  fontSize: layer.fontSize,
+  fontFamily: layer.fontFamily,
+  fontStyle: layer.fontStyle,
+  fontVariant: layer.textCase === 'small-caps' ? 'small-caps' : 'normal',
+  align: layer.align,
+  textDecoration: layer.textDecoration,
+  letterSpacing: layer.letterSpacing ?? 0,
+  lineHeight: layer.lineHeight ?? 1,
+  // Without a box width the text grows with its longest line; with one it wraps at word breaks
+  width: layer.width,
+  wrap: layer.width ? 'word' : 'none',
+  // The outline sits behind the fill so it only thickens the letters outwards
+  stroke: layer.strokeWidth ? layer.stroke ?? '#000000' : undefined,
+  strokeWidth: layer.strokeWidth ?? 0,
+  fillAfterStrokeEnabled: true,
+});
@@ -0,0 +1,83 @@
+import { Text } from 'konva/lib/shapes/Text';
+import type { TextLayer, TextWarp, TextWarpStyle } from '../editor/state/editorTypes';
+import { getFillProps } from './gradients';
+import { getTextStyleProps } from './textStyle';
+
+// Warped text is drawn from a bitmap, so it is rendered above canvas resolution
+const WARP_PIXEL_RATIO = 2;
+
+export interface WarpedText {
+  canvas: HTMLCanvasElement;
+  width: number;     // Size in the text's own space
+  height: number;
+  offsetY: number;   // How far the warp reaches above the unwarped text
+}
+
+/**
+ * Warp presets offered for text, in the order shown in the properties panel
+ */
+export const TEXT_WARP_OPTIONS: { value: TextWarpStyle; label: string }[] = [
+  { value: 'arc', label: 'Arc' },
+  { value: 'bulge', label: 'Bulge' },
+  { value: 'flag', label: 'Flag' },
+  { value: 'rise', label: 'Rise' },
+];
+
+/**
+ * Vertical shift and stretch of the column at u (0 = left edge, 1 = right edge),
+ * as fractions of the text height. A positive bend lifts or swells the text.
+ */
+const getWarpColumn = (style: TextWarpStyle, bend: number, u: number): { shift: number; scale: number } => {
+  const t = 2 * u - 1;
+  switch (style) {
+    case 'arc':
+      return { shift: -bend * (1 - t * t), scale: 1 };
+    case 'bulge':
+      return { shift: 0, scale: Math.max(0.05, 1 + bend * (1 - t * t)) };
+    case 'flag':
+      return { shift: -0.5 * bend * Math.sin(2 * Math.PI * u), scale: 1 };
+    case 'rise':
+      return { shift: -0.5 * bend * t, scale: 1 };
+  }
+};
+
+/**
+ * Render a text layer straight, then redraw it column by column with the warp applied
+ */
+export const renderWarpedText = (layer: TextLayer, warp: TextWarp): WarpedText | null => {
+  const node = new Text({
+    ...getTextStyleProps(layer),
+    ...getFillProps(layer.fill, layer.fillGradient),
+  });
+  const width = node.width();
+  const height = node.height();
+  if (width <= 0 || height <= 0) {
+    node.destroy();
+    return null;
+  }
+  const source = node.toCanvas({ x: 0, y: 0, width, height, pixelRatio: WARP_PIXEL_RATIO });
+  node.destroy();
+
+  const bend = Math.max(-1, Math.min(1, warp.bend / 100));
+  const sourceHeight = source.height;
+  const margin = Math.ceil(Math.abs(bend) * sourceHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = sourceHeight + margin * 2;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  for (let column = 0; column < source.width; column++) {
+    const { shift, scale } = getWarpColumn(warp.style, bend, (column + 0.5) / source.width);
+    const columnHeight = sourceHeight * scale;
+    const top = margin + (sourceHeight - columnHeight) / 2 + shift * sourceHeight;
+    ctx.drawImage(source, column, 0, 1, sourceHeight, column, top, 1, columnHeight);
+  }
+
+  return {
+    canvas,
+    width,
+    height: canvas.height / WARP_PIXEL_RATIO,
+    offsetY: margin / WARP_PIXEL_RATIO,
+  };
+};
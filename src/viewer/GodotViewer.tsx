@@ -11,7 +11,9 @@ import {
 } from 'lucide-react';
 import type { Stage as StageType } from 'konva/lib/Stage';
 import { useEditorStore } from '../editor/state/useEditorStore';
+import { flattenLayers } from '../editor/state/layerTree';
 import { carModels } from '../data/carModels';
+import { hideEditorOverlays } from '../utils/editorOverlays';
 import logo from '../assets/logo-darktext.png';
 
 // Debounce helper
@@ -56,19 +58,25 @@ export const GodotViewer = ({ isOpen, onClose, stageRef }: GodotViewerProps) =>
   const autoRotateRef = useRef<boolean>(true);
   const [activePreset, setActivePreset] = useState<string | null>(null);
   
-  const { currentModelId, layers, baseColor } = useEditorStore();
+  const { currentModelId, layers, baseColor, baseGradient } = useEditorStore();
   const currentModel = carModels.find(m => m.id === currentModelId) || carModels.find(m => m.id === 'modely') || carModels[0];
   
   // Create a change signature to detect canvas updates
   const layersSignature = useMemo(() => {
     return JSON.stringify({
       baseColor,
+      baseGradient,
       layerCount: layers.length,
-      layerData: layers.map(l => ({
+      layerData: flattenLayers(layers).map(l => ({
         id: l.id,
         type: l.type,
         visible: l.visible,
         opacity: l.opacity,
+        blendMode: l.blendMode,
+        clipToBelow: l.clipToBelow,
+        // Mask data URLs are large, so only their length stands in for the content
+        mask: l.mask && { enabled: l.mask.enabled, inverted: l.mask.inverted, size: l.mask.src.length },
+        effects: l.effects,
         x: l.x,
         y: l.y,
         rotation: l.rotation,
@@ -81,6 +89,14 @@ export const GodotViewer = ({ isOpen, onClose, stageRef }: GodotViewerProps) =>
           fill: (l as any).fill,
           fontFamily: (l as any).fontFamily,
           fontStyle: (l as any).fontStyle,
+          textCase: l.textCase,
+          letterSpacing: l.letterSpacing,
+          lineHeight: l.lineHeight,
+          width: l.width,
+          stroke: l.stroke,
+          strokeWidth: l.strokeWidth,
+          textPath: l.textPath,
+          warp: l.warp,
         }),
         ...(l.type === 'brush' && { 
           strokeCount: (l as any).strokes?.length,
@@ -94,6 +110,8 @@ export const GodotViewer = ({ isOpen, onClose, stageRef }: GodotViewerProps) =>
           // If src is a data URL, use its length as proxy
           srcLength: typeof (l as any).src === 'string' ? (l as any).src.length : 0,
         }),
+        ...((l.type === 'image' || l.type === 'texture') && { filters: l.filters }),
+        ...('fillGradient' in l && { fillGradient: l.fillGradient }),
         ...(['rect', 'circle', 'line', 'star'].includes(l.type) && {
           fill: (l as any).fill,
           stroke: (l as any).stroke,
@@ -104,9 +122,22 @@ export const GodotViewer = ({ isOpen, onClose, stageRef }: GodotViewerProps) =>
         ...(l.type === 'fill' && {
           fill: (l as any).color,
         }),
+        ...(l.type === 'adjustment' && {
+          adjustment: l.adjustment,
+        }),
+        ...(l.type === 'path' && {
+          anchors: l.anchors,
+          closed: l.closed,
+          subpaths: l.subpaths,
+          fillRule: l.fillRule,
+          fill: l.fill,
+          stroke: l.stroke,
+          strokeWidth: l.strokeWidth,
+          dash: l.dash,
+        }),
       }))
     });
-  }, [layers, baseColor]);
+  }, [layers, baseColor, baseGradient]);
   
   // Debounce the signature to avoid too many updates (200ms for responsive live preview)
   const debouncedSignature = useDebounce(layersSignature, 200);
@@ -145,47 +176,7 @@ export const GodotViewer = ({ isOpen, onClose, stageRef }: GodotViewerProps) =>
       const stage = stageRef.current;
       
       // Hide UI elements that shouldn't be in the 3D preview (same as PNG export)
-      const elementsToHide: { node: any; wasVisible: boolean }[] = [];
-      
-      // Hide transformer if it exists
-      const transformer = stage.findOne('Transformer');
-      if (transformer) {
-        elementsToHide.push({ node: transformer, wasVisible: transformer.visible() });
-        transformer.visible(false);
-      }
-      
-      // Hide brush cursor groups (Groups with listening=false and Circle children)
-      const allGroups = stage.find('Group');
-      allGroups.forEach((node: any) => {
-        if (node.listening() === false) {
-          const children = node.getChildren();
-          const hasCircles = children.some((child: any) => child.getClassName() === 'Circle');
-          if (hasCircles && children.length >= 2) {
-            elementsToHide.push({ node, wasVisible: node.visible() });
-            node.visible(false);
-          }
-        }
-      });
-      
-      // Hide cyan guide lines (center alignment guides)
-      const allLines = stage.find('Line');
-      allLines.forEach((lineNode: any) => {
-        const stroke = lineNode.stroke();
-        if (stroke === '#00FFFF' || stroke === '#00ffff' || stroke === 'rgb(0, 255, 255)' || stroke === 'cyan') {
-          elementsToHide.push({ node: lineNode, wasVisible: lineNode.visible() });
-          lineNode.visible(false);
-        }
-      });
-      
-      // Hide line endpoint handles (Circles with red stroke #B73038)
-      const allCircles = stage.find('Circle');
-      allCircles.forEach((circleNode: any) => {
-        const stroke = circleNode.stroke();
-        if (stroke === '#B73038') {
-          elementsToHide.push({ node: circleNode, wasVisible: circleNode.visible() });
-          circleNode.visible(false);
-        }
-      });
+      const showOverlays = hideEditorOverlays(stage);
       
       // Force redraw to apply visibility changes
       stage.batchDraw();
@@ -199,9 +190,7 @@ export const GodotViewer = ({ isOpen, onClose, stageRef }: GodotViewerProps) =>
       });
       
       // Restore visibility of hidden elements
-      elementsToHide.forEach(({ node, wasVisible }) => {
-        node.visible(wasVisible);
-      });
+      showOverlays();
       
       // Force redraw to restore UI
       stage.batchDraw();